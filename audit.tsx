@@ -5,6 +5,9 @@
 
 import { Hono } from "npm:hono";
 import * as kv from "../kv_store.tsx";
+import { ApiKeyService } from "../data-service.tsx";
+import { getAuth } from "../auth-middleware.tsx";
+import { normalizeScope } from "../permissions.tsx";
 
 const audit = new Hono();
 
@@ -22,8 +25,8 @@ audit.get("/audit-logs", async (c) => {
 // Get API keys
 audit.get("/api-keys", async (c) => {
   try {
-    const keys = await kv.getByPrefix("apikey:");
-    return c.json({ keys: keys || [] });
+    const keys = await ApiKeyService.list(c.req.query("tenantId") || undefined);
+    return c.json({ keys });
   } catch (error) {
     console.error("Error fetching API keys:", error);
     return c.json({ error: "Failed to fetch API keys" }, 500);
@@ -34,18 +37,37 @@ audit.get("/api-keys", async (c) => {
 audit.post("/api-keys", async (c) => {
   try {
     const body = await c.req.json();
-    const keyId = `key_${Date.now()}`;
+    const { name, description, tenantId, platform, expiresAt } = body;
+    const scopes: string[] = Array.isArray(body.scopes) ? body.scopes : [];
     
-    const apiKey = {
-      id: keyId,
-      key: `pk_live_${Math.random().toString(36).substring(2, 15)}`,
-      ...body,
-      created: new Date().toISOString(),
-    };
+    if (!name) {
+      return c.json({ error: "name is required" }, 400);
+    }
     
-    await kv.set(`apikey:${keyId}`, apiKey);
+    // A key without a tenant only acts for the whole platform when asked to
+    if (!!tenantId === (platform === true)) {
+      return c.json({ error: "Give either a tenantId or platform: true, not both" }, 400);
+    }
     
-    return c.json({ apiKey }, 201);
+    const invalidScopes = scopes.filter((scope) => !normalizeScope(scope));
+    if (scopes.length === 0 || invalidScopes.length > 0) {
+      return c.json({ error: "scopes must list known permissions", invalidScopes }, 400);
+    }
+    
+    if (expiresAt && (isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+      return c.json({ error: "expiresAt must be a future date" }, 400);
+    }
+    
+    const { apiKey, key } = await ApiKeyService.generate(name, scopes.map((scope) => normalizeScope(scope)!), {
+      tenantId,
+      platform: platform === true,
+      description,
+      expiresAt,
+      createdBy: getAuth(c)?.userId,
+    });
+    
+    // The key is only ever shown in this response
+    return c.json({ apiKey: { ...apiKey, key }, message: "Store this key now; it cannot be shown again" }, 201);
   } catch (error) {
     console.error("Error creating API key:", error);
     return c.json({ error: "Failed to create API key" }, 500);
@@ -0,0 +1,397 @@
+/**
+ * Auth Middleware for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Runs in front of every route: verifies the bearer token, resolves the user,
+ * their tenant and role, and enforces the access declared for the route in
+ * route-access.tsx. Routes read the result with getAuth(c) / getTenantId(c)
+ * instead of calling supabase.auth.getUser themselves.
+ *
+ * For tenant routes every tenant the request names (a `:tenantId` path param,
+ * `?tenantId=`, the `x-tenant-id` header or `tenantId` in a JSON body) must be
+ * the caller's own tenant; anything else is rejected here as cross-tenant
+ * access. Platform admins may name any tenant.
+ *
+ * API keys (`X-API-Key: pk_live_...`, or as the bearer token) are accepted
+ * wherever a token is. A key acts on its own tenant, or as a platform admin
+ * when it has none, and is limited to its scopes.
+ *
+ * Once access is settled, the permission the route table assigns to the route
+ * is checked with requirePermission (see permissions.tsx).
+ */
+
+import type { Context, Next } from 'npm:hono';
+import type { User } from 'jsr:@supabase/supabase-js@2';
+import { getSupabaseAdmin } from './lib/supabase.tsx';
+import { getRoleUUID } from './lib/constants.tsx';
+import * as kv from './kv_store.tsx';
+import { cache } from './cache.tsx';
+import { matchRoute, requiredPermission, type RouteMatch, type RouteRule } from './route-access.tsx';
+import { PermissionService, hasGrant, normalizeScope } from './permissions.tsx';
+import { ApiKeyService, ApiKeyAuthError } from './data-service.tsx';
+import type { EventActor } from './event-bus.tsx';
+
+export type RoleName = 'platform_admin' | 'platform_support' | 'tenant_owner' | 'tenant_admin' | 'tenant_user';
+
+export interface AuthContext {
+  userId: string;
+  email: string | null;
+  role: RoleName | null;
+  tenantId: string | null; // As stored on the user (usually the Postgres tenant UUID)
+  isPlatformAdmin: boolean;
+  isSuperAdmin: boolean; // Platform admin with admin_role 'super_admin' (may use break-glass, see ip-allowlist.tsx)
+  user: User | null; // Supabase auth user (null for API keys)
+  sessionId: string | null; // Sign-in session the token belongs to (null for API keys)
+  apiKeyId: string | null; // Set when the request authenticated with an API key
+  scopes: string[] | null; // The key's scopes, which replace role permissions
+}
+
+const ROLE_NAMES: RoleName[] = ['platform_admin', 'platform_support', 'tenant_owner', 'tenant_admin', 'tenant_user'];
+
+// Verified tokens are reused for this long, to avoid an auth round trip per request
+const TOKEN_CACHE_TTL = 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Auth context set by the middleware (null on public routes without a token)
+ */
+export function getAuth(c: Context): AuthContext | null {
+  return c.get('auth') || null;
+}
+
+/**
+ * Tenant the request acts on: the caller's own tenant for tenant users, or the
+ * tenant named in the request (falling back to their own) for platform admins
+ */
+export function getTenantId(c: Context): string | null {
+  return c.get('tenantId') || null;
+}
+
+/**
+ * Access rule matched for the request (set before any check, so later
+ * middleware can tell platform-admin routes from tenant ones)
+ */
+export function getRouteRule(c: Context): RouteRule | null {
+  return c.get('routeRule') || null;
+}
+
+/**
+ * Client IP as seen by the trusted proxies in front of the function.
+ *
+ * Each proxy appends the address it received the request from to
+ * X-Forwarded-For, so only the last TRUSTED_PROXY_HOPS entries (default 1) are
+ * trustworthy; anything to their left was sent by the client and is ignored.
+ */
+export function clientIp(c: Context): string {
+  const forwarded = c.req.header('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map((hop: string) => hop.trim()).filter(Boolean);
+    const trusted = Math.max(1, parseInt(Deno.env.get('TRUSTED_PROXY_HOPS') || '1') || 1);
+    if (hops.length > 0) return hops[Math.max(0, hops.length - trusted)];
+  }
+  return c.req.header('x-real-ip') || c.req.header('cf-connecting-ip') || 'unknown';
+}
+
+/**
+ * Who made the request, for the domain events it causes
+ */
+export function getEventActor(c: Context): EventActor {
+  const auth = getAuth(c);
+  const ip = clientIp(c);
+  
+  return {
+    userId: auth?.userId,
+    email: auth?.email || undefined,
+    ipAddress: ip === 'unknown' ? undefined : ip,
+    userAgent: c.req.header('User-Agent') || undefined,
+  };
+}
+
+/**
+ * Role name from user metadata, which holds either the name or the role UUID
+ */
+function resolveRole(value: unknown): RoleName | null {
+  if (typeof value !== 'string' || !value) return null;
+  if ((ROLE_NAMES as string[]).includes(value)) return value as RoleName;
+  return ROLE_NAMES.find((name) => getRoleUUID(name) === value) || null;
+}
+
+/**
+ * Bearer token of the request (a Supabase access token or an API key)
+ */
+export function bearerToken(c: Context): string | null {
+  const header = c.req.header('Authorization');
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/**
+ * API key from `X-API-Key`, or a bearer token that is an API key
+ */
+function apiKeyFromRequest(c: Context, token: string | null): string | null {
+  const header = c.req.header('x-api-key');
+  if (header) return header.trim();
+  return token?.startsWith('pk_') ? token : null;
+}
+
+async function tokenCacheKey(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `auth_token:${hex}`;
+}
+
+/**
+ * Sign-in session of a Supabase access token: its `session_id` claim, which
+ * stays the same across refreshes. Tokens without one count as their own session.
+ */
+function sessionIdFromToken(token: string, fallback: string): string {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    const claims = JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, '=')));
+    if (typeof claims.session_id === 'string' && claims.session_id) return claims.session_id;
+  } catch {
+    // Not a JWT we can read; the token itself identifies the session
+  }
+  return fallback;
+}
+
+/**
+ * Every id a tenant is known by: the custom id (T-n) and the Postgres UUID
+ */
+async function tenantAliases(tenantId: string): Promise<Set<string>> {
+  const aliases = new Set([tenantId]);
+  
+  const mapping = await kv.get(`tenant_uuid:${tenantId}`);
+  if (mapping?.customId) aliases.add(mapping.customId);
+  
+  const tenant = await kv.get(`tenant:${tenantId}`);
+  if (tenant?.uuid) aliases.add(tenant.uuid);
+  
+  return aliases;
+}
+
+async function isSameTenant(ownTenantId: string, targetTenantId: string): Promise<boolean> {
+  if (ownTenantId === targetTenantId) return true;
+  return (await tenantAliases(ownTenantId)).has(targetTenantId);
+}
+
+/**
+ * Tenant ids named anywhere in the request
+ */
+async function requestedTenantIds(c: Context, match: RouteMatch): Promise<string[]> {
+  const ids = [
+    match.params.tenantId,
+    c.req.query('tenantId'),
+    c.req.header('x-tenant-id'),
+  ];
+  
+  const contentType = c.req.header('Content-Type') || '';
+  if (!['GET', 'HEAD'].includes(c.req.method) && contentType.includes('application/json')) {
+    try {
+      // Hono caches the parsed body, so the route can still read it
+      const body = await c.req.json();
+      if (body && typeof body === 'object' && !Array.isArray(body)) {
+        ids.push(body.tenantId);
+      }
+    } catch {
+      // Malformed bodies are left for the route to reject
+    }
+  }
+  
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && id.length > 0))];
+}
+
+// ============================================================================
+// AUTH SERVICE
+// ============================================================================
+
+export const AuthService = {
+  /**
+   * Verify a bearer token and resolve the user behind it (null when invalid)
+   */
+  async verifyToken(token: string): Promise<AuthContext | null> {
+    const cacheKey = await tokenCacheKey(token);
+    const cached = cache.get<AuthContext>(cacheKey);
+    if (cached) return cached;
+    
+    const { data: { user }, error } = await getSupabaseAdmin().auth.getUser(token);
+    if (error || !user) return null;
+    
+    const role = resolveRole(user.user_metadata?.role);
+    const auth: AuthContext = {
+      userId: user.id,
+      email: user.email || null,
+      role,
+      tenantId: user.user_metadata?.tenant_id || null,
+      isPlatformAdmin: role === 'platform_admin',
+      isSuperAdmin: role === 'platform_admin' && user.user_metadata?.admin_role === 'super_admin',
+      user,
+      sessionId: sessionIdFromToken(token, cacheKey.slice('auth_token:'.length)),
+      apiKeyId: null,
+      scopes: null,
+    };
+    
+    cache.set(cacheKey, auth, TOKEN_CACHE_TTL);
+    return auth;
+  },
+  
+  /**
+   * Authenticate with an API key (throws ApiKeyAuthError when it is unknown,
+   * revoked or expired) and record the use
+   */
+  async verifyApiKey(key: string): Promise<AuthContext> {
+    const apiKey = await ApiKeyService.authenticate(key);
+    
+    ApiKeyService.trackUsage(apiKey.id).catch((error) => {
+      console.error(`[Auth] Error tracking usage of API key ${apiKey.id}:`, error);
+    });
+    
+    return {
+      userId: `apikey:${apiKey.id}`,
+      email: null,
+      role: null,
+      tenantId: apiKey.tenantId || null,
+      isPlatformAdmin: apiKey.platform === true && !apiKey.tenantId,
+      isSuperAdmin: false,
+      user: null,
+      sessionId: null,
+      apiKeyId: apiKey.id,
+      scopes: (apiKey.scopes || []).map(normalizeScope).filter((s): s is string => !!s),
+    };
+  },
+  
+  /**
+   * Whether the caller holds a permission, through their role or API key scopes
+   */
+  async can(auth: AuthContext, permission: string): Promise<boolean> {
+    if (auth.scopes) return hasGrant(auth.scopes, permission);
+    return await PermissionService.can(auth.role, permission);
+  },
+  
+  /**
+   * Whether the request carries the bootstrap shared secret
+   */
+  hasSharedSecret(c: Context): boolean {
+    const secret = Deno.env.get('ADMIN_SHARED_SECRET');
+    return !!secret && c.req.header('x-shared-secret') === secret;
+  },
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Hono middleware allowing the request only when the caller's role holds
+ * `permission`. authMiddleware applies it to every route with the permission
+ * from the route table; routes may add it for checks finer than that.
+ */
+export function requirePermission(permission: string) {
+  return async (c: Context, next: Next) => {
+    const auth = getAuth(c);
+    if (!auth) {
+      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
+    }
+    
+    if (!(await AuthService.can(auth, permission))) {
+      return c.json({ success: false, error: `Forbidden - Missing permission ${permission}`, permission }, 403);
+    }
+    
+    return next();
+  };
+}
+
+/**
+ * Hono middleware enforcing ROUTE_ACCESS for every route under `basePath`
+ */
+export function authMiddleware(basePath: string) {
+  return async (c: Context, next: Next) => {
+    // CORS preflights carry no credentials
+    if (c.req.method === 'OPTIONS') {
+      return next();
+    }
+    
+    const path = c.req.path.startsWith(basePath) ? c.req.path.slice(basePath.length) || '/' : c.req.path;
+    const match = matchRoute(c.req.method, path);
+    const { access } = match.rule;
+    const permission = requiredPermission(match.rule, c.req.method);
+    c.set('routeRule', match.rule);
+    
+    const token = bearerToken(c);
+    const apiKey = apiKeyFromRequest(c, token);
+    let auth: AuthContext | null = null;
+    
+    if (apiKey) {
+      try {
+        auth = await AuthService.verifyApiKey(apiKey);
+      } catch (error) {
+        if (!(error instanceof ApiKeyAuthError)) throw error;
+        if (access !== 'public') {
+          return c.json({ success: false, error: `Unauthorized - ${error.message}` }, 401);
+        }
+      }
+    } else if (token) {
+      auth = await AuthService.verifyToken(token);
+    }
+    
+    if (auth) {
+      c.set('auth', auth);
+    }
+    
+    if (access === 'public') {
+      return next();
+    }
+    
+    if (match.rule.sharedSecret && AuthService.hasSharedSecret(c)) {
+      return next();
+    }
+    
+    if (!token && !apiKey) {
+      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
+    }
+    
+    if (!auth) {
+      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
+    }
+    
+    const guarded = () => permission ? requirePermission(permission)(c, next) : next();
+    
+    if (access === 'authenticated') {
+      c.set('tenantId', auth.isPlatformAdmin ? c.req.query('tenantId') || auth.tenantId : auth.tenantId);
+      return guarded();
+    }
+    
+    if (access === 'platform_admin') {
+      if (!auth.isPlatformAdmin) {
+        return c.json({ success: false, error: 'Forbidden - Platform admin access required' }, 403);
+      }
+      return guarded();
+    }
+    
+    // Tenant route
+    const requested = await requestedTenantIds(c, match);
+    
+    if (auth.isPlatformAdmin) {
+      c.set('tenantId', requested[0] || auth.tenantId);
+      return guarded();
+    }
+    
+    if (!auth.tenantId) {
+      return c.json({ success: false, error: 'Forbidden - User has no tenant_id' }, 403);
+    }
+    
+    for (const tenantId of requested) {
+      if (!(await isSameTenant(auth.tenantId, tenantId))) {
+        console.warn(`[Auth] Cross-tenant access denied: user ${auth.userId} (tenant ${auth.tenantId}) -> ${tenantId} on ${c.req.method} ${c.req.path}`);
+        return c.json({ success: false, error: 'Forbidden - Cross-tenant access denied' }, 403);
+      }
+    }
+    
+    c.set('tenantId', auth.tenantId);
+    return guarded();
+  };
+}
@@ -3,13 +3,129 @@
  * Handles authentication and user profile
  */
 
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
+import { createClient } from "jsr:@supabase/supabase-js@2";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import * as kv from "../kv_store.tsx";
+import { getAuth, bearerToken, type AuthContext } from "../auth-middleware.tsx";
+import { PermissionService } from "../permissions.tsx";
+import { LoginAttemptService } from "../login-attempts.tsx";
+import { clientIp } from "../ip-allowlist.tsx";
+import { MfaService, MfaError, type MfaSession } from "../mfa.tsx";
+import { SessionService } from "../sessions.tsx";
+import { errorMessage } from "../data-service.tsx";
 
 const auth = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
 
+// Password sign-in runs as the anon client, like the apps do
+const supabaseAuth = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+// Helper to report a locked account
+function accountLocked(c: Context, lockedUntil: string) {
+  const seconds = Math.max(1, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
+  c.header('Retry-After', String(seconds));
+  return c.json({
+    success: false,
+    error: 'Account temporarily locked after too many failed login attempts',
+    lockedUntil,
+  }, 423);
+}
+
+// Helper to report a failed MFA operation
+function mfaFailure(c: Context, error: MfaError) {
+  const status = error.reason === 'invalid_code' ? 401 : error.reason === 'already_enrolled' ? 409 : 400;
+  return c.json({ success: false, error: error.message, reason: error.reason }, status);
+}
+
+// Helper to get the signed-in user for the MFA and session routes (API keys have neither)
+function signedInUser(c: Context) {
+  const current = getAuth(c);
+  return current && !current.apiKeyId && current.sessionId ? current : null;
+}
+
+// Helper to resolve whose sessions a request is about: the caller's own, or
+// `?userId=` for platform admins and tenant admins (users of their tenant only)
+function sessionTarget(c: Context, current: AuthContext): { userId: string; tenantId: string | null } | null {
+  const userId = c.req.query('userId');
+  if (!userId || userId === current.userId) {
+    return { userId: current.userId, tenantId: null };
+  }
+  if (current.isPlatformAdmin) {
+    return { userId, tenantId: null };
+  }
+  if (current.tenantId && (current.role === 'tenant_owner' || current.role === 'tenant_admin')) {
+    return { userId, tenantId: current.tenantId };
+  }
+  return null;
+}
+
+// Sign in with email and password
+auth.post("/login", async (c) => {
+  try {
+    const { email, password } = await c.req.json();
+    if (!email || !password) {
+      return c.json({ success: false, error: 'Email and password are required' }, 400);
+    }
+
+    const ip = clientIp(c);
+    const lockout = await LoginAttemptService.getLockout(email, ip);
+    if (lockout) {
+      return accountLocked(c, lockout.lockedUntil);
+    }
+
+    const { data, error } = await supabaseAuth.auth.signInWithPassword({ email, password });
+
+    if (error || !data.session) {
+      const result = await LoginAttemptService.recordFailure(email, ip, {
+        userAgent: c.req.header('User-Agent'),
+      });
+      if (result.locked) {
+        return accountLocked(c, result.lockedUntil!);
+      }
+
+      return c.json({
+        success: false,
+        error: 'Invalid email or password',
+        attemptsRemaining: result.attemptsRemaining,
+      }, 401);
+    }
+
+    await LoginAttemptService.recordSuccess(email, ip);
+
+    const mfaRequired = await MfaService.isRequired({
+      user: data.user,
+      tenantId: data.user.user_metadata?.tenant_id || null,
+    });
+    const mfa = await MfaService.status(data.user.id);
+
+    return c.json({
+      success: true,
+      session: {
+        accessToken: data.session.access_token,
+        refreshToken: data.session.refresh_token,
+        expiresAt: data.session.expires_at,
+        tokenType: data.session.token_type,
+      },
+      user: {
+        id: data.user.id,
+        email: data.user.email,
+      },
+      mfa: {
+        required: mfaRequired,
+        status: mfa.status,
+      }
+    });
+  } catch (error) {
+    console.error('[Auth Login] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
 // Get user profile
 auth.get("/profile", async (c) => {
   try {
@@ -95,5 +211,298 @@ auth.get("/profile", async (c) => {
   }
 });
 
+// Get effective permissions for the current user
+auth.get("/permissions", async (c) => {
+  try {
+    const current = getAuth(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
+    }
+
+    const effective = current.scopes
+      ? PermissionService.forScopes(current.scopes)
+      : await PermissionService.getEffective(current.role);
+
+    return c.json({
+      success: true,
+      data: {
+        userId: current.userId,
+        tenantId: current.tenantId,
+        ...effective,
+      }
+    });
+  } catch (error) {
+    console.error('[Auth Permissions] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get two-factor authentication status for the current user
+auth.get("/mfa", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const [status, required, sessionVerified] = await Promise.all([
+      MfaService.status(current.userId),
+      MfaService.isRequired(current),
+      MfaService.isSessionVerified(current.userId, current.sessionId!),
+    ]);
+
+    return c.json({
+      success: true,
+      data: { ...status, required, sessionVerified }
+    });
+  } catch (error) {
+    console.error('[Auth MFA] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Start enrolling an authenticator app
+auth.post("/mfa/enroll", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const { secret, otpauthUri } = await MfaService.enroll(current.userId, current.email || current.userId);
+
+    return c.json({
+      success: true,
+      data: { secret, otpauthUri },
+      message: 'Add the account to your authenticator app, then confirm with a code to finish'
+    });
+  } catch (error) {
+    if (error instanceof MfaError) return mfaFailure(c, error);
+    console.error('[Auth MFA Enroll] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Confirm enrollment with a code from the app (returns the recovery codes once)
+auth.post("/mfa/verify", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const { code } = await c.req.json();
+    if (!code) {
+      return c.json({ success: false, error: 'Code is required' }, 400);
+    }
+
+    const recoveryCodes = await MfaService.activate(current.userId, String(code), {
+      email: current.email || undefined,
+      ipAddress: clientIp(c),
+    });
+    await MfaService.startSession(current.userId, current.sessionId!, 'totp');
+
+    return c.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Two-factor authentication enabled. Store the recovery codes safely; they are not shown again.'
+    });
+  } catch (error) {
+    if (error instanceof MfaError) return mfaFailure(c, error);
+    console.error('[Auth MFA Verify] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Pass the second factor for the current session (app code or recovery code)
+auth.post("/mfa/challenge", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const { code } = await c.req.json();
+    if (!code) {
+      return c.json({ success: false, error: 'Code is required' }, 400);
+    }
+
+    // Wrong codes count as failed logins, so guessing locks the account too
+    const ip = clientIp(c);
+    const email = current.email || current.userId;
+    const lockout = await LoginAttemptService.getLockout(email, ip);
+    if (lockout) {
+      return accountLocked(c, lockout.lockedUntil);
+    }
+
+    let method: MfaSession['method'];
+    try {
+      method = await MfaService.verify(current.userId, String(code), {
+        email: current.email || undefined,
+        ipAddress: ip,
+      });
+    } catch (error) {
+      if (!(error instanceof MfaError) || error.reason !== 'invalid_code') throw error;
+
+      const result = await LoginAttemptService.recordFailure(email, ip, {
+        userAgent: c.req.header('User-Agent'),
+      });
+      if (result.locked) {
+        return accountLocked(c, result.lockedUntil!);
+      }
+      return c.json({
+        success: false,
+        error: errorMessage(error),
+        reason: error.reason,
+        attemptsRemaining: result.attemptsRemaining,
+      }, 401);
+    }
+
+    await LoginAttemptService.recordSuccess(email, ip);
+    const session = await MfaService.startSession(current.userId, current.sessionId!, method);
+
+    return c.json({
+      success: true,
+      data: {
+        method,
+        verifiedUntil: session.expiresAt,
+        recoveryCodesRemaining: (await MfaService.status(current.userId)).recoveryCodesRemaining,
+      }
+    });
+  } catch (error) {
+    if (error instanceof MfaError) return mfaFailure(c, error);
+    console.error('[Auth MFA Challenge] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Replace the recovery codes (needs a code from the app)
+auth.post("/mfa/recovery-codes", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const { code } = await c.req.json();
+    if (!code) {
+      return c.json({ success: false, error: 'Code is required' }, 400);
+    }
+
+    const recoveryCodes = await MfaService.regenerateRecoveryCodes(current.userId, String(code));
+
+    return c.json({
+      success: true,
+      data: { recoveryCodes },
+      message: 'Previous recovery codes no longer work'
+    });
+  } catch (error) {
+    if (error instanceof MfaError) return mfaFailure(c, error);
+    console.error('[Auth MFA Recovery Codes] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Turn off two-factor authentication (needs a current code)
+auth.delete("/mfa", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Two-factor authentication applies to signed-in users only' }, 400);
+    }
+
+    const { code } = await c.req.json();
+    if (!code) {
+      return c.json({ success: false, error: 'Code is required' }, 400);
+    }
+
+    await MfaService.verify(current.userId, String(code));
+    await MfaService.disable(current.userId, {
+      disabledByEmail: current.email || undefined,
+      ipAddress: clientIp(c),
+    });
+
+    return c.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    if (error instanceof MfaError) return mfaFailure(c, error);
+    console.error('[Auth MFA Disable] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// List active sessions (the caller's own, or another user's with ?userId= for admins)
+auth.get("/sessions", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Sessions apply to signed-in users only' }, 400);
+    }
+
+    const target = sessionTarget(c, current);
+    if (!target) {
+      return c.json({ success: false, error: 'Forbidden - Cannot view sessions of other users' }, 403);
+    }
+
+    const includeEnded = c.req.query('includeEnded') === 'true';
+    const sessions = (await SessionService.list(target.userId, { includeEnded }))
+      .filter(session => !target.tenantId || session.tenantId === target.tenantId);
+    const policy = await SessionService.getPolicy(current.tenantId);
+
+    return c.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session,
+        current: session.userId === current.userId && session.id === current.sessionId,
+      })),
+      policy
+    });
+  } catch (error) {
+    console.error('[Auth Sessions] Error:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Revoke a session (the caller's own, or another user's with ?userId= for admins)
+auth.delete("/sessions/:id", async (c) => {
+  try {
+    const current = signedInUser(c);
+    if (!current) {
+      return c.json({ success: false, error: 'Sessions apply to signed-in users only' }, 400);
+    }
+
+    const target = sessionTarget(c, current);
+    if (!target) {
+      return c.json({ success: false, error: 'Forbidden - Cannot revoke sessions of other users' }, 403);
+    }
+
+    const sessionId = c.req.param('id');
+    const existing = await SessionService.get(target.userId, sessionId);
+    if (!existing || (target.tenantId && existing.tenantId !== target.tenantId)) {
+      return c.json({ success: false, error: 'Session not found' }, 404);
+    }
+
+    // Revoking the caller's own session signs it out in Supabase straight away
+    const own = target.userId === current.userId && sessionId === current.sessionId;
+    const session = await SessionService.revoke(target.userId, sessionId, {
+      revokedBy: current.userId,
+      revokedByEmail: current.email || undefined,
+      ipAddress: clientIp(c),
+      accessToken: own ? bearerToken(c) || undefined : undefined,
+    });
+
+    return c.json({
+      success: true,
+      message: 'Session revoked',
+      data: session
+    });
+  } catch (error) {
+    console.error('[Auth Sessions] Error revoking session:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
 export default auth;
 
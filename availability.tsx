@@ -5,9 +5,16 @@
 
 import { Hono } from "npm:hono";
 import * as kv from "../kv_store.tsx";
+import { RatePlanService, RatePlanError, RateRestrictionError } from "../rate-plans.tsx";
+import { BookingEngine, type AvailabilityRecord } from "../booking-engine.tsx";
+import { RateRuleService, computeRate, getDateRange } from "../rate-rules.tsx";
+import { errorMessage } from "../data-service.tsx";
 
 const availability = new Hono();
 
+// Supported rate plan types
+const RATE_PLAN_TYPES = ['bar', 'non_refundable', 'corporate', 'package'];
+
 // Get availability rates
 availability.get("/availability-rates", async (c) => {
   try {
@@ -59,9 +66,9 @@ availability.put("/availability-rates", async (c) => {
     }
     
     const key = `availability:${tenantId}:${categoryId}:${date}`;
-    const existing = await kv.get(key);
     
-    const rateRecord = {
+    // Compare-and-set so a booking that lands mid-edit isn't overwritten
+    const rateRecord = await kv.update<AvailabilityRecord>(key, (existing) => ({
       id: existing?.id || `${categoryId}-${date}`,
       tenantId,
       categoryId,
@@ -69,11 +76,10 @@ availability.put("/availability-rates", async (c) => {
       rate: rate !== undefined ? rate : (existing?.rate || 0),
       available: available !== undefined ? available : (existing?.available || 0),
       total: total !== undefined ? total : (existing?.total || 0),
+      rateSource: rate !== undefined ? 'manual' : existing?.rateSource,
       createdAt: existing?.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString()
-    };
-    
-    await kv.set(key, rateRecord);
+    }));
     
     return c.json({
       success: true,
@@ -109,9 +115,8 @@ availability.put("/availability-rates/bulk", async (c) => {
       if (!categoryId || !date) continue;
       
       const key = `availability:${tenantId}:${categoryId}:${date}`;
-      const existing = await kv.get(key);
       
-      const rateRecord = {
+      const rateRecord = await kv.update<AvailabilityRecord>(key, (existing) => ({
         id: existing?.id || `${categoryId}-${date}`,
         tenantId,
         categoryId,
@@ -119,11 +124,10 @@ availability.put("/availability-rates/bulk", async (c) => {
         rate: rate !== undefined ? rate : (existing?.rate || 0),
         available: available !== undefined ? available : (existing?.available || 0),
         total: total !== undefined ? total : (existing?.total || 0),
+        rateSource: rate !== undefined ? 'manual' : existing?.rateSource,
         createdAt: existing?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      };
-      
-      await kv.set(key, rateRecord);
+      }));
       results.push(rateRecord);
     }
     
@@ -146,7 +150,7 @@ availability.put("/availability-rates/bulk", async (c) => {
 availability.post("/availability-rates/initialize", async (c) => {
   try {
     const body = await c.req.json();
-    const { tenantId, categoryId, startDate, endDate, rate, available, total } = body;
+    const { tenantId, categoryId, startDate, endDate, rate, available, total, useRules } = body;
     
     if (!tenantId || !categoryId || !startDate || !endDate) {
       return c.json({
@@ -155,6 +159,21 @@ availability.post("/availability-rates/initialize", async (c) => {
       }, 400);
     }
     
+    // Generate from the category's seasonal/day-of-week rules instead of one flat rate
+    if (useRules) {
+      const summary = await RateRuleService.apply(tenantId, categoryId, startDate, endDate, { total, available });
+      if (!summary) {
+        return c.json({ success: false, error: 'No rate rules defined for this category' }, 404);
+      }
+      
+      return c.json({
+        success: true,
+        message: `Initialized ${summary.created} rate entries from rules`,
+        rates: summary.rates,
+        skippedManual: summary.skippedManual
+      });
+    }
+    
     const start = new Date(startDate);
     const end = new Date(endDate);
     const dates: string[] = [];
@@ -167,9 +186,6 @@ availability.post("/availability-rates/initialize", async (c) => {
     for (const date of dates) {
       const key = `availability:${tenantId}:${categoryId}:${date}`;
       
-      const existing = await kv.get(key);
-      if (existing) continue;
-      
       const rateRecord = {
         id: `${categoryId}-${date}`,
         tenantId,
@@ -182,8 +198,10 @@ availability.post("/availability-rates/initialize", async (c) => {
         updatedAt: new Date().toISOString()
       };
       
-      await kv.set(key, rateRecord);
-      results.push(rateRecord);
+      // Only creates the row if it doesn't exist yet (never overwrites live inventory)
+      if (await kv.compareAndSet(key, null, rateRecord)) {
+        results.push(rateRecord);
+      }
     }
     
     return c.json({
@@ -201,5 +219,351 @@ availability.post("/availability-rates/initialize", async (c) => {
   }
 });
 
+// Get rate rules for a room category
+availability.get("/availability-rates/rules", async (c) => {
+  try {
+    const tenantId = c.req.query('tenantId');
+    const categoryId = c.req.query('categoryId');
+    
+    if (!tenantId || !categoryId) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameters: tenantId, categoryId'
+      }, 400);
+    }
+    
+    const rules = await RateRuleService.get(tenantId, categoryId);
+    
+    return c.json({
+      success: true,
+      rules
+    });
+  } catch (error) {
+    console.error('[Availability Rates] Error fetching rate rules:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch rate rules',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Save rate rules for a room category
+availability.put("/availability-rates/rules", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { tenantId, categoryId, userId, ...data } = body;
+    
+    if (!tenantId || !categoryId || data.baseRate === undefined) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameters: tenantId, categoryId, baseRate'
+      }, 400);
+    }
+    
+    const ranges: { name?: string; startDate?: string; endDate?: string }[] = [...(data.seasons || []), ...(data.events || [])];
+    const invalidRange = ranges.find((r) => !r.startDate || !r.endDate || r.startDate > r.endDate);
+    if (invalidRange) {
+      return c.json({
+        success: false,
+        error: `Invalid date range for ${invalidRange.name || 'rule'}`
+      }, 400);
+    }
+    
+    const rules = await RateRuleService.save(tenantId, categoryId, data, userId);
+    
+    return c.json({
+      success: true,
+      rules
+    });
+  } catch (error) {
+    console.error('[Availability Rates] Error saving rate rules:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to save rate rules',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Preview the rates the rules produce for a date range without writing them
+availability.get("/availability-rates/rules/preview", async (c) => {
+  try {
+    const tenantId = c.req.query('tenantId');
+    const categoryId = c.req.query('categoryId');
+    const startDate = c.req.query('startDate');
+    const endDate = c.req.query('endDate');
+    
+    if (!tenantId || !categoryId || !startDate || !endDate) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameters: tenantId, categoryId, startDate, endDate'
+      }, 400);
+    }
+    
+    const rules = await RateRuleService.get(tenantId, categoryId);
+    if (!rules) {
+      return c.json({ success: false, error: 'No rate rules defined for this category' }, 404);
+    }
+    
+    const preview = getDateRange(startDate, endDate).map(date => ({
+      date,
+      ...computeRate(rules, date)
+    }));
+    
+    return c.json({
+      success: true,
+      rates: preview
+    });
+  } catch (error) {
+    console.error('[Availability Rates] Error previewing rate rules:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to preview rate rules',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Re-apply rate rules to a date range (manually edited dates are kept unless force is set)
+availability.post("/availability-rates/rules/apply", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { tenantId, categoryId, startDate, endDate, total, available, force } = body;
+    
+    if (!tenantId || !categoryId || !startDate || !endDate) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameters: tenantId, categoryId, startDate, endDate'
+      }, 400);
+    }
+    
+    const summary = await RateRuleService.apply(tenantId, categoryId, startDate, endDate, {
+      total,
+      available,
+      force: force === true,
+    });
+    
+    if (!summary) {
+      return c.json({ success: false, error: 'No rate rules defined for this category' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      message: `Created ${summary.created}, updated ${summary.updated}, kept ${summary.skippedManual.length} manually edited rate entries`,
+      ...summary
+    });
+  } catch (error) {
+    console.error('[Availability Rates] Error applying rate rules:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to apply rate rules',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Get rate plans
+availability.get("/availability-rates/rate-plans", async (c) => {
+  try {
+    const tenantId = c.req.query('tenantId');
+    
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameter: tenantId'
+      }, 400);
+    }
+    
+    const plans = await RatePlanService.list(tenantId);
+    
+    return c.json({
+      success: true,
+      ratePlans: plans
+    });
+  } catch (error) {
+    console.error('[Availability Rates] Error fetching rate plans:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to fetch rate plans',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Create rate plan
+availability.post("/availability-rates/rate-plans", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { tenantId, ...data } = body;
+    
+    if (!tenantId || !data.code || !data.name || !RATE_PLAN_TYPES.includes(data.type)) {
+      return c.json({
+        success: false,
+        error: `Missing required parameters: tenantId, code, name, type (${RATE_PLAN_TYPES.join(', ')})`
+      }, 400);
+    }
+    
+    if (data.derivation && !data.parentPlanId) {
+      return c.json({
+        success: false,
+        error: 'A derived rate plan needs a parentPlanId'
+      }, 400);
+    }
+    
+    const plan = await RatePlanService.create(tenantId, data);
+    
+    return c.json({
+      success: true,
+      ratePlan: plan
+    }, 201);
+  } catch (error) {
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Availability Rates] Error creating rate plan:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to create rate plan',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Update rate plan
+availability.put("/availability-rates/rate-plans/:planId", async (c) => {
+  try {
+    const planId = c.req.param('planId');
+    const body = await c.req.json();
+    const { tenantId, ...updates } = body;
+    
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameter: tenantId'
+      }, 400);
+    }
+    
+    if (updates.type !== undefined && !RATE_PLAN_TYPES.includes(updates.type)) {
+      return c.json({
+        success: false,
+        error: `Type must be one of ${RATE_PLAN_TYPES.join(', ')}`
+      }, 400);
+    }
+    
+    const plan = await RatePlanService.update(tenantId, planId, updates);
+    
+    if (!plan) {
+      return c.json({ success: false, error: 'Rate plan not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      ratePlan: plan
+    });
+  } catch (error) {
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Availability Rates] Error updating rate plan:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to update rate plan',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Delete rate plan
+availability.delete("/availability-rates/rate-plans/:planId", async (c) => {
+  try {
+    const planId = c.req.param('planId');
+    const tenantId = c.req.query('tenantId');
+    
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameter: tenantId'
+      }, 400);
+    }
+    
+    const success = await RatePlanService.delete(tenantId, planId);
+    
+    if (!success) {
+      return c.json({ success: false, error: 'Rate plan not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      message: 'Rate plan deleted successfully'
+    });
+  } catch (error) {
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error('[Availability Rates] Error deleting rate plan:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to delete rate plan',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Quote a stay on a rate plan with its nightly breakdown
+availability.post("/availability-rates/quote", async (c) => {
+  try {
+    const body = await c.req.json();
+    const { tenantId, ratePlanId, roomCategoryId, checkInDate, checkOutDate, numberOfRooms } = body;
+    
+    if (!tenantId || !ratePlanId || !roomCategoryId || !checkInDate || !checkOutDate) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameters: tenantId, ratePlanId, roomCategoryId, checkInDate, checkOutDate'
+      }, 400);
+    }
+    
+    const quote = await RatePlanService.quote(tenantId, {
+      ratePlanId,
+      roomCategoryId,
+      checkInDate,
+      checkOutDate,
+      numberOfRooms,
+    });
+    
+    const { soldOutDates } = await BookingEngine.checkAvailability(tenantId, {
+      roomCategoryId,
+      checkInDate,
+      checkOutDate,
+      numberOfRooms,
+      status: 'pending',
+    });
+    
+    return c.json({
+      success: true,
+      quote,
+      available: soldOutDates.length === 0,
+      soldOutDates
+    });
+  } catch (error) {
+    if (error instanceof RateRestrictionError) {
+      return c.json({
+        success: false,
+        error: error.message,
+        violations: error.violations
+      }, 422);
+    }
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Availability Rates] Error quoting stay:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to quote stay',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
 export default availability;
 
@@ -0,0 +1,166 @@
+/**
+ * Tests for the booking engine: reservations take and give back per-night
+ * inventory, all or nothing, and never take a sold-out night unless the
+ * tenant allows overbooking.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import {
+  BookingEngine,
+  InventoryConflictError,
+  availabilityKey,
+  getStayDates,
+  type AvailabilityRecord,
+  type InventoryHold,
+} from './booking-engine.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+
+/**
+ * Fresh memory driver with `available` rooms of category c1 on each date
+ */
+function useInventory(available: Record<string, number>, settings?: Record<string, unknown>): void {
+  const initial: Record<string, unknown> = {};
+  for (const [date, rooms] of Object.entries(available)) {
+    const record: AvailabilityRecord = {
+      id: date,
+      tenantId: TENANT,
+      categoryId: 'c1',
+      date,
+      rate: 10000,
+      available: rooms,
+      total: 5,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+    initial[availabilityKey(TENANT, 'c1', date)] = record;
+  }
+  if (settings) initial[`tenant:${TENANT}`] = { id: TENANT, settings };
+  kv.setDriver(kv.createMemoryDriver(initial));
+}
+
+async function available(dates: string[]): Promise<number[]> {
+  const rows = await kv.mget(dates.map((date) => availabilityKey(TENANT, 'c1', date))) as AvailabilityRecord[];
+  return rows.map((row) => row.available);
+}
+
+function stay(checkInDate: string, checkOutDate: string, extra?: Partial<InventoryHold>): InventoryHold {
+  return { roomCategoryId: 'c1', checkInDate, checkOutDate, status: 'confirmed', ...extra };
+}
+
+// ============================================================================
+// getStayDates
+// ============================================================================
+
+Deno.test('getStayDates lists the nights from check-in up to check-out', () => {
+  assertEquals(getStayDates('2026-03-30', '2026-04-02'), ['2026-03-30', '2026-03-31', '2026-04-01']);
+  assertEquals(getStayDates('2026-04-01', '2026-04-01'), []);
+});
+
+// ============================================================================
+// RESERVE / RELEASE
+// ============================================================================
+
+Deno.test('reserve takes a room on every night of the stay', async () => {
+  useInventory({ '2026-05-01': 2, '2026-05-02': 2, '2026-05-03': 2 });
+  
+  await BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-03', { numberOfRooms: 2 }));
+  
+  assertEquals(await available(['2026-05-01', '2026-05-02', '2026-05-03']), [0, 0, 2]);
+});
+
+Deno.test('reserve writes nothing when any night is sold out', async () => {
+  useInventory({ '2026-05-01': 1, '2026-05-02': 0 });
+  
+  const error = await assertRejects(
+    () => BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-03')),
+    InventoryConflictError,
+  );
+  
+  assertEquals(error.soldOutDates, ['2026-05-02']);
+  assertEquals(await available(['2026-05-01', '2026-05-02']), [1, 0]);
+});
+
+Deno.test('reserve treats nights without an inventory row as sold out', async () => {
+  useInventory({ '2026-05-01': 1 });
+  
+  const error = await assertRejects(
+    () => BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-03')),
+    InventoryConflictError,
+  );
+  assertEquals(error.soldOutDates, ['2026-05-02']);
+});
+
+Deno.test('reserve goes below zero when the tenant allows overbooking', async () => {
+  useInventory({ '2026-05-01': 0 }, { rooms: { allowOverbooking: true } });
+  
+  await BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-02'));
+  
+  assertEquals(await available(['2026-05-01']), [-1]);
+});
+
+Deno.test('release gives rooms back, never past the configured total', async () => {
+  useInventory({ '2026-05-01': 4, '2026-05-02': 5 });
+  
+  await BookingEngine.release(TENANT, stay('2026-05-01', '2026-05-03'));
+  
+  assertEquals(await available(['2026-05-01', '2026-05-02']), [5, 5]);
+});
+
+// ============================================================================
+// syncInventory
+// ============================================================================
+
+Deno.test('syncInventory moves only the nights that changed', async () => {
+  useInventory({ '2026-05-01': 0, '2026-05-02': 0, '2026-05-03': 1 });
+  
+  // The reservation already holds the 1st and 2nd; it now leaves a night later
+  await BookingEngine.syncInventory(TENANT, stay('2026-05-01', '2026-05-03'), stay('2026-05-02', '2026-05-04'));
+  
+  assertEquals(await available(['2026-05-01', '2026-05-02', '2026-05-03']), [1, 0, 0]);
+});
+
+Deno.test('syncInventory gives everything back when a reservation is cancelled', async () => {
+  useInventory({ '2026-05-01': 0, '2026-05-02': 0 });
+  
+  await BookingEngine.syncInventory(
+    TENANT,
+    stay('2026-05-01', '2026-05-03'),
+    stay('2026-05-01', '2026-05-03', { status: 'cancelled' }),
+  );
+  
+  assertEquals(await available(['2026-05-01', '2026-05-02']), [1, 1]);
+});
+
+// ============================================================================
+// checkAvailability
+// ============================================================================
+
+Deno.test('checkAvailability reports sold-out nights without writing', async () => {
+  useInventory({ '2026-05-01': 2, '2026-05-02': 1 });
+  
+  const result = await BookingEngine.checkAvailability(TENANT, stay('2026-05-01', '2026-05-03', { numberOfRooms: 2 }));
+  
+  assertEquals(result, { available: false, soldOutDates: ['2026-05-02'] });
+  assertEquals(await available(['2026-05-01', '2026-05-02']), [2, 1]);
+});
+
+Deno.test('concurrent reservations never take the last room twice', async () => {
+  useInventory({ '2026-05-01': 1 });
+  
+  const results = await Promise.allSettled([
+    BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-02')),
+    BookingEngine.reserve(TENANT, stay('2026-05-01', '2026-05-02')),
+  ]);
+  
+  assertEquals(results.filter((result) => result.status === 'fulfilled').length, 1);
+  assert(results.some((result) => result.status === 'rejected' && result.reason instanceof InventoryConflictError));
+  assertEquals(await available(['2026-05-01']), [0]);
+});
@@ -0,0 +1,285 @@
+/**
+ * Booking Engine for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Keeps the per-night inventory rows maintained by the availability routes
+ * (`availability:<tenantId>:<categoryId>:<date>`) in step with reservations.
+ * Every reservation write is translated into a set of per-night inventory
+ * deltas which are validated together and written in a single compare-and-set
+ * batch, so a stay is either fully booked or not booked at all, and two
+ * concurrent bookings can't both take the last room.
+ */
+
+import * as kv from './kv_store.tsx';
+import type { ReservationStatus, TenantSettings } from './models.tsx';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The subset of a reservation the engine needs to know which nights it holds
+ */
+export interface InventoryHold {
+  roomCategoryId?: string;
+  checkInDate: string; // ISO date (first night)
+  checkOutDate: string; // ISO date (departure day, not a night)
+  numberOfRooms?: number;
+  status: ReservationStatus;
+}
+
+export interface AvailabilityRecord {
+  id: string;
+  tenantId: string;
+  categoryId: string;
+  date: string;
+  rate: number;
+  available: number;
+  total: number;
+  rateSource?: 'manual' | 'rules'; // Manually edited rates survive rule re-application
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Raised when a stay cannot be booked because one or more nights are sold out
+ */
+export class InventoryConflictError extends Error {
+  soldOutDates: string[];
+  categoryId: string;
+  
+  constructor(categoryId: string, soldOutDates: string[]) {
+    super(`No availability for ${categoryId} on ${soldOutDates.join(', ')}`);
+    this.name = 'InventoryConflictError';
+    this.categoryId = categoryId;
+    this.soldOutDates = soldOutDates;
+  }
+}
+
+// Statuses that no longer occupy inventory
+const RELEASED_STATUSES: ReservationStatus[] = ['cancelled', 'no_show'];
+
+// Times a batch of inventory writes is retried when other bookings race it
+const MAX_WRITE_ATTEMPTS = 5;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build the availability key for a category and night
+ */
+export function availabilityKey(tenantId: string, categoryId: string, date: string): string {
+  return `availability:${tenantId}:${categoryId}:${date}`;
+}
+
+/**
+ * List the nights of a stay (check-in inclusive, check-out exclusive)
+ */
+export function getStayDates(checkInDate: string, checkOutDate: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(checkOutDate);
+  
+  const night = new Date(checkInDate);
+  
+  while (night < end) {
+    dates.push(night.toISOString().split('T')[0]);
+    night.setUTCDate(night.getUTCDate() + 1);
+  }
+  
+  return dates;
+}
+
+/**
+ * Load the tenant settings mirrored into KV by `PUT /tenants/:tenantId/settings`
+ */
+export async function getTenantSettings(tenantId: string): Promise<TenantSettings> {
+  let tenant = await kv.get(`tenant:${tenantId}`);
+  
+  // Auth tokens carry the Postgres UUID rather than the T-n id
+  if (!tenant) {
+    const mapping = await kv.get(`tenant_uuid:${tenantId}`);
+    if (mapping?.customId) tenant = await kv.get(`tenant:${mapping.customId}`);
+  }
+  
+  return tenant?.settings || {};
+}
+
+/**
+ * Check the tenant's `rooms.allowOverbooking` setting
+ */
+export async function isOverbookingAllowed(tenantId: string): Promise<boolean> {
+  const settings = await getTenantSettings(tenantId);
+  return settings.rooms?.allowOverbooking === true;
+}
+
+/**
+ * Expand a hold into per-night room counts keyed by availability key
+ */
+function expandHold(tenantId: string, hold: InventoryHold | null): Map<string, number> {
+  const nights = new Map<string, number>();
+  if (!hold || !hold.roomCategoryId || RELEASED_STATUSES.includes(hold.status)) {
+    return nights;
+  }
+  
+  const rooms = hold.numberOfRooms || 1;
+  for (const date of getStayDates(hold.checkInDate, hold.checkOutDate)) {
+    nights.set(availabilityKey(tenantId, hold.roomCategoryId, date), rooms);
+  }
+  
+  return nights;
+}
+
+// ============================================================================
+// BOOKING ENGINE
+// ============================================================================
+
+export const BookingEngine = {
+  /**
+   * Move inventory from the `before` state of a reservation to its `after` state.
+   *
+   * Pass `before = null` when creating and `after = null` when deleting. Nights
+   * the reservation newly occupies are decremented, nights it gives up are
+   * restored. Throws InventoryConflictError without writing anything if any
+   * night is sold out and the tenant does not allow overbooking.
+   */
+  async syncInventory(
+    tenantId: string,
+    before: InventoryHold | null,
+    after: InventoryHold | null
+  ): Promise<AvailabilityRecord[]> {
+    const held = expandHold(tenantId, before);
+    const wanted = expandHold(tenantId, after);
+    
+    // Net change in rooms taken per night (positive = take, negative = release)
+    const deltas = new Map<string, number>();
+    for (const [key, rooms] of wanted) {
+      deltas.set(key, rooms - (held.get(key) || 0));
+    }
+    for (const [key, rooms] of held) {
+      if (!wanted.has(key)) deltas.set(key, -rooms);
+    }
+    
+    return await this.applyDeltas(tenantId, deltas, after?.roomCategoryId || before?.roomCategoryId || '');
+  },
+  
+  /**
+   * Take (positive) or give back (negative) rooms on arbitrary category nights,
+   * e.g. for group blocks whose allotment varies night by night. Same
+   * all-or-nothing guarantee as syncInventory.
+   */
+  async adjustNights(
+    tenantId: string,
+    nights: { roomCategoryId: string; date: string; rooms: number }[]
+  ): Promise<AvailabilityRecord[]> {
+    const deltas = new Map<string, number>();
+    for (const night of nights) {
+      const key = availabilityKey(tenantId, night.roomCategoryId, night.date);
+      deltas.set(key, (deltas.get(key) || 0) + night.rooms);
+    }
+    
+    return await this.applyDeltas(tenantId, deltas, nights[0]?.roomCategoryId || '');
+  },
+  
+  /**
+   * Validate and write a set of per-night inventory deltas keyed by availability key.
+   * 
+   * Rows are written with a multi-key compare-and-set, so if another booking
+   * touches any of the nights in between, the whole set is re-read and
+   * re-validated instead of overwriting it.
+   */
+  async applyDeltas(tenantId: string, deltas: Map<string, number>, categoryId: string): Promise<AvailabilityRecord[]> {
+    for (const [key, delta] of deltas) {
+      if (delta === 0) deltas.delete(key);
+    }
+    
+    if (deltas.size === 0) return [];
+    
+    const keys = Array.from(deltas.keys());
+    const allowOverbooking = await isOverbookingAllowed(tenantId);
+    
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const rows = await kv.mget(keys) as AvailabilityRecord[];
+      const rowsByKey = new Map<string, AvailabilityRecord>();
+      rows.forEach(row => {
+        if (row?.categoryId && row?.date) {
+          rowsByKey.set(availabilityKey(tenantId, row.categoryId, row.date), row);
+        }
+      });
+      
+      const soldOutDates: string[] = [];
+      const entries: { key: string; expected: AvailabilityRecord; value: AvailabilityRecord }[] = [];
+      const now = new Date().toISOString();
+      
+      for (const key of keys) {
+        const delta = deltas.get(key)!;
+        const row = rowsByKey.get(key);
+        const date = key.split(':').pop()!;
+        
+        if (!row) {
+          // Nights without an inventory row were never opened for sale
+          if (delta > 0 && !allowOverbooking) soldOutDates.push(date);
+          continue;
+        }
+        
+        if (delta > 0 && !allowOverbooking && (row.available || 0) < delta) {
+          soldOutDates.push(date);
+          continue;
+        }
+        
+        // Releasing never pushes a row past its configured total
+        let available = (row.available || 0) - delta;
+        if (delta < 0 && row.total > 0) available = Math.min(available, row.total);
+        
+        entries.push({ key, expected: row, value: { ...row, available, updatedAt: now } });
+      }
+      
+      if (soldOutDates.length > 0) {
+        throw new InventoryConflictError(categoryId, soldOutDates.sort());
+      }
+      
+      if (await kv.mcompareAndSet(entries)) {
+        return entries.map(e => e.value);
+      }
+    }
+    
+    throw new kv.ConcurrencyError(keys[0], MAX_WRITE_ATTEMPTS);
+  },
+  
+  /**
+   * Take inventory for a new reservation
+   */
+  async reserve(tenantId: string, reservation: InventoryHold): Promise<AvailabilityRecord[]> {
+    return await this.syncInventory(tenantId, null, reservation);
+  },
+  
+  /**
+   * Give back the inventory held by a reservation
+   */
+  async release(tenantId: string, reservation: InventoryHold): Promise<AvailabilityRecord[]> {
+    return await this.syncInventory(tenantId, reservation, null);
+  },
+  
+  /**
+   * Check whether a stay could be booked without writing anything
+   */
+  async checkAvailability(tenantId: string, hold: InventoryHold): Promise<{ available: boolean; soldOutDates: string[] }> {
+    const wanted = expandHold(tenantId, hold);
+    if (wanted.size === 0) return { available: true, soldOutDates: [] };
+    
+    if (await isOverbookingAllowed(tenantId)) {
+      return { available: true, soldOutDates: [] };
+    }
+    
+    const rows = await kv.mget(Array.from(wanted.keys())) as AvailabilityRecord[];
+    const availableByDate = new Map<string, number>();
+    rows.forEach(row => {
+      if (row?.categoryId === hold.roomCategoryId) availableByDate.set(row.date, row.available || 0);
+    });
+    
+    const rooms = hold.numberOfRooms || 1;
+    const soldOutDates = getStayDates(hold.checkInDate, hold.checkOutDate)
+      .filter(date => (availableByDate.get(date) ?? 0) < rooms);
+    
+    return { available: soldOutDates.length === 0, soldOutDates };
+  },
+};
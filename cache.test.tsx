@@ -0,0 +1,295 @@
+/**
+ * Tests for the KV read cache: every write path in kv_store.tsx must evict the
+ * cached getByPrefix results covering the written keys, and a read that raced
+ * a write must not cache what it fetched.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals } from 'jsr:@std/assert@1';
+import { cache, prefixCovers } from './cache.tsx';
+import * as kv from './kv_store.tsx';
+import type { KvDriver } from './kv-drivers.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Fresh memory driver (setDriver also empties the cache)
+ */
+function useMemoryDriver(initial?: Record<string, unknown>): KvDriver {
+  const driver = kv.createMemoryDriver(initial);
+  kv.setDriver(driver);
+  return driver;
+}
+
+/**
+ * Read a prefix once so its result is cached, and check that it was
+ */
+async function cachePrefix(prefix: string): Promise<unknown[]> {
+  const values = await kv.getByPrefix(prefix);
+  assert(cache.getPrefix(prefix) !== null, `expected ${prefix} to be cached`);
+  return values;
+}
+
+function ids(values: { id: string }[]): string[] {
+  return values.map((value) => value.id).sort();
+}
+
+/**
+ * A promise plus the function that resolves it
+ */
+function gate(): { wait: Promise<void>; open: () => void } {
+  let open!: () => void;
+  const wait = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { wait, open };
+}
+
+// ============================================================================
+// prefixCovers
+// ============================================================================
+
+Deno.test('prefixCovers matches plain prefixes', () => {
+  assert(prefixCovers('guest:t1:', 'guest:t1:g1'));
+  assert(!prefixCovers('guest:t1:', 'guest:t10:g1'));
+  assert(!prefixCovers('guest:t1:', 'reservation:t1:r1'));
+});
+
+Deno.test('prefixCovers treats _ and % as LIKE wildcards', () => {
+  assert(prefixCovers('room_block:', 'room-block:t1:b1'));
+  assert(prefixCovers('room_block:', 'room_block:t1:b1'));
+  assert(prefixCovers('guest:%:g1', 'guest:t1:g1'));
+  assert(!prefixCovers('room_block:', 'roomblock:t1:b1'));
+});
+
+// ============================================================================
+// SimpleCache
+// ============================================================================
+
+Deno.test('invalidate evicts the key and covering prefix results only', () => {
+  cache.clear();
+  const generation = cache.version();
+  cache.set('guest:t1:g1', { id: 'g1' });
+  cache.setPrefix('guest:t1:', [{ id: 'g1' }], generation);
+  cache.setPrefix('guest:t2:', [{ id: 'g2' }], generation);
+  
+  cache.invalidate('guest:t1:g1');
+  
+  assertEquals(cache.get('guest:t1:g1'), null);
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(cache.getPrefix('guest:t2:'), [{ id: 'g2' }]);
+});
+
+Deno.test('setIfCurrent and setPrefix refuse values read before an invalidation', () => {
+  cache.clear();
+  const generation = cache.version();
+  cache.invalidateMany(['guest:t1:g1']);
+  
+  cache.setIfCurrent('guest:t1:g1', { id: 'g1', name: 'stale' }, generation);
+  cache.setPrefix('guest:t1:', [{ id: 'g1', name: 'stale' }], generation);
+  
+  assertEquals(cache.get('guest:t1:g1'), null);
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+});
+
+// ============================================================================
+// WRITE PATHS
+// ============================================================================
+
+Deno.test('set evicts cached prefix results covering the key', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' } });
+  await cachePrefix('guest:t1:');
+  
+  await kv.set('guest:t1:g2', { id: 'g2' });
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g1', 'g2']);
+});
+
+Deno.test('set leaves prefix results that do not cover the key', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' } });
+  await cachePrefix('guest:t1:');
+  
+  await kv.set('guest:t2:g2', { id: 'g2' });
+  
+  assertEquals(ids(cache.getPrefix('guest:t1:') || []), ['g1']);
+});
+
+Deno.test('set evicts prefix results matching through a LIKE wildcard', async () => {
+  useMemoryDriver({ 'room_block:t1:b1': { id: 'b1' } });
+  await cachePrefix('room_block:');
+  
+  await kv.set('room-block:t1:b2', { id: 'b2' });
+  
+  assertEquals(cache.getPrefix('room_block:'), null);
+  assertEquals(ids(await kv.getByPrefix('room_block:')), ['b1', 'b2']);
+});
+
+Deno.test('del evicts cached prefix results covering the key', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' }, 'guest:t1:g2': { id: 'g2' } });
+  await cachePrefix('guest:t1:');
+  
+  await kv.del('guest:t1:g1');
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g2']);
+  assertEquals(await kv.get('guest:t1:g1'), undefined);
+});
+
+Deno.test('mset evicts cached prefix results covering any of the keys', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' }, 'guest:t2:g1': { id: 'g1' } });
+  await cachePrefix('guest:t1:');
+  await cachePrefix('guest:t2:');
+  
+  await kv.mset(['guest:t1:g2', 'guest:t2:g2'], [{ id: 'g2' }, { id: 'g2' }]);
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(cache.getPrefix('guest:t2:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g1', 'g2']);
+  assertEquals(ids(await kv.getByPrefix('guest:t2:')), ['g1', 'g2']);
+});
+
+Deno.test('mdel evicts cached prefix results covering any of the keys', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' }, 'guest:t1:g2': { id: 'g2' }, 'guest:t1:g3': { id: 'g3' } });
+  await cachePrefix('guest:t1:');
+  
+  await kv.mdel(['guest:t1:g1', 'guest:t1:g3']);
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g2']);
+});
+
+Deno.test('compareAndSet evicts cached prefix results when it writes', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1', name: 'Ann' } });
+  await cachePrefix('guest:t1:');
+  
+  assert(await kv.compareAndSet('guest:t1:g1', { id: 'g1', name: 'Ann' }, { id: 'g1', name: 'Anna' }));
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(await kv.getByPrefix('guest:t1:'), [{ id: 'g1', name: 'Anna' }]);
+});
+
+Deno.test('compareAndSet evicts cached prefix results when another writer won', async () => {
+  const driver = useMemoryDriver({ 'guest:t1:g1': { id: 'g1', name: 'Ann' } });
+  await cachePrefix('guest:t1:');
+  
+  // Another instance changes the record behind this one's cache
+  await driver.set('guest:t1:g1', { id: 'g1', name: 'Anne' });
+  assertEquals(await kv.compareAndSet('guest:t1:g1', { id: 'g1', name: 'Ann' }, { id: 'g1', name: 'Anna' }), false);
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(await kv.getByPrefix('guest:t1:'), [{ id: 'g1', name: 'Anne' }]);
+});
+
+Deno.test('mcompareAndSet evicts cached prefix results covering any entry', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1' }, 'guest:t2:g1': { id: 'g1' } });
+  await cachePrefix('guest:t1:');
+  await cachePrefix('guest:t2:');
+  
+  assert(await kv.mcompareAndSet([
+    { key: 'guest:t1:g2', expected: null, value: { id: 'g2' } },
+    { key: 'guest:t2:g1', expected: { id: 'g1' }, value: { id: 'g1', vip: true } },
+  ]));
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(cache.getPrefix('guest:t2:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g1', 'g2']);
+  assertEquals(await kv.getByPrefix('guest:t2:'), [{ id: 'g1', vip: true }]);
+});
+
+Deno.test('mcompareAndSet evicts cached prefix results when it conflicts', async () => {
+  const driver = useMemoryDriver({ 'guest:t1:g1': { id: 'g1' } });
+  await cachePrefix('guest:t1:');
+  
+  await driver.set('guest:t1:g2', { id: 'g2' });
+  assertEquals(await kv.mcompareAndSet([{ key: 'guest:t1:g2', expected: null, value: { id: 'g2', other: true } }]), false);
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g1', 'g2']);
+});
+
+Deno.test('increment evicts cached prefix results covering the key', async () => {
+  useMemoryDriver({ 'usage:t1:bookings': 3 });
+  assertEquals(await cachePrefix('usage:t1:'), [3]);
+  
+  assertEquals(await kv.increment('usage:t1:bookings', 2), 5);
+  
+  assertEquals(cache.getPrefix('usage:t1:'), null);
+  assertEquals(await kv.getByPrefix('usage:t1:'), [5]);
+  assertEquals(await kv.get('usage:t1:bookings'), 5);
+});
+
+Deno.test('update evicts cached prefix results through its compare-and-set', async () => {
+  useMemoryDriver({ 'guest:t1:g1': { id: 'g1', visits: 1 } });
+  await cachePrefix('guest:t1:');
+  
+  await kv.update<{ id: string; visits: number }>('guest:t1:g1', (guest) => ({ ...guest!, visits: guest!.visits + 1 }));
+  
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  assertEquals(await kv.getByPrefix('guest:t1:'), [{ id: 'g1', visits: 2 }]);
+});
+
+// ============================================================================
+// READS RACING WRITES
+// ============================================================================
+
+Deno.test('getByPrefix does not cache a result read before a concurrent write', async () => {
+  const base = kv.createMemoryDriver({ 'guest:t1:g1': { id: 'g1' } });
+  const { wait, open } = gate();
+  let readDone!: () => void;
+  const read = new Promise<void>((resolve) => {
+    readDone = resolve;
+  });
+  
+  // The read fetches its rows, then stalls before returning them
+  kv.setDriver({
+    ...base,
+    async getByPrefix(prefix) {
+      const values = await base.getByPrefix(prefix);
+      readDone();
+      await wait;
+      return values;
+    },
+  });
+  
+  const stale = kv.getByPrefix('guest:t1:');
+  await read;
+  await kv.set('guest:t1:g2', { id: 'g2' });
+  open();
+  
+  assertEquals(ids(await stale), ['g1']);
+  assertEquals(cache.getPrefix('guest:t1:'), null);
+  
+  kv.setDriver(base);
+  assertEquals(ids(await kv.getByPrefix('guest:t1:')), ['g1', 'g2']);
+});
+
+Deno.test('get does not cache a value read before a concurrent write', async () => {
+  const base = kv.createMemoryDriver({ 'guest:t1:g1': { id: 'g1', name: 'Ann' } });
+  const { wait, open } = gate();
+  let readDone!: () => void;
+  const read = new Promise<void>((resolve) => {
+    readDone = resolve;
+  });
+  
+  kv.setDriver({
+    ...base,
+    async get(key) {
+      const value = await base.get(key);
+      readDone();
+      await wait;
+      return value;
+    },
+  });
+  
+  const stale = kv.get('guest:t1:g1');
+  await read;
+  await kv.del('guest:t1:g1');
+  open();
+  
+  assertEquals(await stale, { id: 'g1', name: 'Ann' });
+  assertEquals(cache.get('guest:t1:g1'), null);
+});
@@ -8,15 +8,87 @@ interface CacheEntry<T> {
   expiresAt: number;
 }
 
+/**
+ * Whether a key is matched by a `getByPrefix` query. The KV store runs those
+ * as SQL `LIKE '<prefix>%'`, so `_` and `%` inside the prefix are wildcards too.
+ */
+export function prefixCovers(prefix: string, key: string): boolean {
+  if (!prefix.includes('_') && !prefix.includes('%')) {
+    return key.startsWith(prefix);
+  }
+  
+  const pattern = prefix
+    .split('')
+    .map((ch) => ch === '_' ? '.' : ch === '%' ? '.*' : ch.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${pattern}`, 's').test(key);
+}
+
 class SimpleCache {
   private cache = new Map<string, CacheEntry<any>>();
   private defaultTTL = 5 * 60 * 1000; // 5 minutes default
+  
+  // Prefixes with a cached getByPrefix result (stored under `prefix:<prefix>`)
+  private prefixes = new Set<string>();
+  
+  // Bumped on every invalidation so reads that started before a write can't
+  // cache what they fetched after it
+  private generation = 0;
 
   set<T>(key: string, value: T, ttl?: number): void {
     const expiresAt = Date.now() + (ttl || this.defaultTTL);
     this.cache.set(key, { data: value, expiresAt });
   }
 
+  /**
+   * Cache a value read from the database, unless a write was invalidated
+   * since `readGeneration` (taken with version() before the read started)
+   */
+  setIfCurrent<T>(key: string, value: T, readGeneration: number, ttl?: number): void {
+    if (readGeneration !== this.generation) return;
+    this.set(key, value, ttl);
+  }
+
+  /**
+   * Cache the result of a prefix query (see setIfCurrent)
+   */
+  setPrefix<T>(prefix: string, values: T[], readGeneration: number, ttl?: number): void {
+    if (readGeneration !== this.generation) return;
+    this.set(`prefix:${prefix}`, values, ttl);
+    this.prefixes.add(prefix);
+  }
+
+  getPrefix<T>(prefix: string): T[] | null {
+    return this.get<T[]>(`prefix:${prefix}`);
+  }
+
+  version(): number {
+    return this.generation;
+  }
+
+  /**
+   * Evict a written key and every cached prefix query whose results cover it
+   */
+  invalidate(key: string): void {
+    this.invalidateMany([key]);
+  }
+
+  invalidateMany(keys: string[]): void {
+    if (keys.length === 0) return;
+    this.generation++;
+    
+    for (const key of keys) {
+      this.cache.delete(key);
+    }
+    
+    for (const prefix of this.prefixes) {
+      if (keys.some((key) => prefixCovers(prefix, key))) {
+        this.cache.delete(`prefix:${prefix}`);
+        this.prefixes.delete(prefix);
+      }
+    }
+  }
+
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
     if (!entry) return null;
@@ -46,7 +118,9 @@ class SimpleCache {
   }
 
   clear(): void {
+    this.generation++;
     this.cache.clear();
+    this.prefixes.clear();
   }
 
   // Clean up expired entries periodically
@@ -55,6 +129,9 @@ class SimpleCache {
     for (const [key, entry] of this.cache.entries()) {
       if (now > entry.expiresAt) {
         this.cache.delete(key);
+        if (key.startsWith('prefix:')) {
+          this.prefixes.delete(key.slice('prefix:'.length));
+        }
       }
     }
   }
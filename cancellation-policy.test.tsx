@@ -0,0 +1,154 @@
+/**
+ * Tests for cancellation fees: the terms copied onto a reservation decide what
+ * a guest owes when it is cancelled, and the deposit is netted against the fee.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assertEquals } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { CancellationPolicyService, ReservationService } from './data-service.tsx';
+import { applyCancellationCharges, quoteCancellation, type ReservationCancellationTerms } from './cancellation-policy.tsx';
+import type { CancellationPolicy, Reservation } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+
+/**
+ * Three nights at 100.00 checking in on 10 May 2026, under the given terms
+ */
+function reservation(terms?: Partial<ReservationCancellationTerms>, overrides?: Partial<Reservation>): Reservation {
+  return {
+    id: 'RES-1',
+    tenantId: TENANT,
+    guestName: 'Ann Example',
+    guestEmail: 'ann@example.com',
+    confirmationNumber: 'T1-ABC',
+    status: 'confirmed',
+    source: 'direct',
+    checkInDate: '2026-05-10',
+    checkOutDate: '2026-05-13',
+    numberOfNights: 3,
+    roomCategoryId: 'c1',
+    roomCategory: 'Double',
+    numberOfRooms: 1,
+    numberOfAdults: 2,
+    numberOfChildren: 0,
+    ratePerNight: 10000,
+    totalAmount: 30000,
+    currency: 'USD',
+    depositPaid: 0,
+    balanceDue: 30000,
+    paymentStatus: 'pending',
+    createdAt: '2026-04-01T00:00:00.000Z',
+    cancellationPolicy: terms ? { id: 'cxl_1', name: 'Policy', type: 'free_until', ...terms } : undefined,
+    ...overrides,
+  };
+}
+
+function policy(overrides: Partial<CancellationPolicy>): CancellationPolicy {
+  return {
+    id: 'cxl_1',
+    tenantId: TENANT,
+    name: 'Flexible',
+    type: 'free_until',
+    freeUntilDays: 2,
+    isDefault: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// quoteCancellation
+// ============================================================================
+
+Deno.test('reservations booked without a policy cancel for free', () => {
+  const quote = quoteCancellation(reservation(), new Date('2026-05-09T12:00:00.000Z'));
+  
+  assertEquals(quote.policy, null);
+  assertEquals(quote.fee, 0);
+  assertEquals(quote.paymentStatus, 'paid');
+});
+
+Deno.test('free_until charges penalty nights only inside the window', () => {
+  const terms = { type: 'free_until' as const, freeUntilDays: 2, penaltyNights: 2 };
+  
+  const early = quoteCancellation(reservation(terms), new Date('2026-05-08T00:00:00.000Z'));
+  assertEquals(early.daysBeforeCheckIn, 2);
+  assertEquals(early.fee, 0);
+  
+  const late = quoteCancellation(reservation(terms), new Date('2026-05-08T00:00:01.000Z'));
+  assertEquals(late.daysBeforeCheckIn, 1);
+  assertEquals(late.fee, 20000);
+  assertEquals(late.paymentStatus, 'pending');
+});
+
+Deno.test('penalty nights are charged per room and never beyond the stay', () => {
+  const quote = quoteCancellation(
+    reservation({ type: 'free_until', freeUntilDays: 7, penaltyNights: 5 }, { numberOfRooms: 2, totalAmount: 60000 }),
+    new Date('2026-05-09T00:00:00.000Z'),
+  );
+  
+  assertEquals(quote.fee, 60000);
+});
+
+Deno.test('first_night always charges one night', () => {
+  const quote = quoteCancellation(reservation({ type: 'first_night' }), new Date('2026-04-02T00:00:00.000Z'));
+  
+  assertEquals(quote.fee, 10000);
+});
+
+Deno.test('the deposit is netted against the fee', () => {
+  const at = new Date('2026-05-09T00:00:00.000Z');
+  
+  const refund = quoteCancellation(reservation({ type: 'first_night' }, { depositPaid: 15000 }), at);
+  assertEquals([refund.balanceDue, refund.refundDue, refund.paymentStatus], [0, 5000, 'refunded']);
+  
+  const owed = quoteCancellation(reservation({ type: 'non_refundable' }, { depositPaid: 10000 }), at);
+  assertEquals([owed.balanceDue, owed.refundDue, owed.paymentStatus], [20000, 0, 'partial']);
+  
+  const settled = quoteCancellation(reservation({ type: 'first_night' }, { depositPaid: 10000 }), at);
+  assertEquals([settled.balanceDue, settled.refundDue, settled.paymentStatus], [0, 0, 'paid']);
+});
+
+Deno.test('applyCancellationCharges returns the fields to merge', () => {
+  const fields = applyCancellationCharges(
+    reservation({ type: 'non_refundable' }, { depositPaid: 5000 }),
+    new Date('2026-05-01T00:00:00.000Z'),
+  );
+  
+  assertEquals(fields, { cancellationFee: 30000, refundDue: 0, balanceDue: 25000, paymentStatus: 'partial' });
+});
+
+// ============================================================================
+// CancellationPolicyService
+// ============================================================================
+
+Deno.test('resolve prefers a policy assigned to the category over the default', async () => {
+  kv.setDriver(kv.createMemoryDriver({
+    [`cancellation_policy:${TENANT}:cxl_1`]: policy({ id: 'cxl_1', isDefault: true }),
+    [`cancellation_policy:${TENANT}:cxl_2`]: policy({ id: 'cxl_2', type: 'non_refundable', roomCategoryIds: ['c2'] }),
+  }));
+  
+  assertEquals((await CancellationPolicyService.resolve(TENANT, 'c2'))?.id, 'cxl_2');
+  assertEquals((await CancellationPolicyService.resolve(TENANT, 'c1'))?.id, 'cxl_1');
+  assertEquals((await CancellationPolicyService.resolve(TENANT))?.id, 'cxl_1');
+});
+
+Deno.test('cancelling a reservation charges the terms it was booked under', async () => {
+  kv.setDriver(kv.createMemoryDriver({
+    [`reservation:${TENANT}:RES-1`]: reservation({ type: 'non_refundable' }, { depositPaid: 10000 }),
+    // The tenant has since made its default free, which must not change the deal
+    [`cancellation_policy:${TENANT}:cxl_1`]: policy({ isDefault: true, type: 'free_until', freeUntilDays: 0 }),
+  }));
+  
+  const cancelled = await ReservationService.transition(TENANT, 'RES-1', 'cancelled');
+  
+  assertEquals(cancelled?.cancellationFee, 30000);
+  assertEquals(cancelled?.balanceDue, 20000);
+  assertEquals(cancelled?.paymentStatus, 'partial');
+});
@@ -0,0 +1,117 @@
+/**
+ * Cancellation Policies for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Works out what a guest owes when a reservation is cancelled. The terms are
+ * copied onto the reservation at booking time (see
+ * CancellationPolicyService.resolve), so later edits to a tenant's policies
+ * never change the deal an existing guest booked under.
+ *
+ *   free_until      free until N days before check-in, then `penaltyNights`
+ *   first_night     first night always charged
+ *   non_refundable  full stay always charged
+ */
+
+import type { CancellationPolicy, Reservation } from './models.tsx';
+
+export type ReservationCancellationTerms = NonNullable<Reservation['cancellationPolicy']>;
+
+export interface CancellationQuote {
+  policy: ReservationCancellationTerms | null;
+  daysBeforeCheckIn: number;
+  fee: number; // In cents
+  balanceDue: number; // In cents, still owed after the deposit
+  refundDue: number; // In cents, deposit to give back
+  paymentStatus: Reservation['paymentStatus'];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Copy the parts of a policy that define the guest's terms
+ */
+export function toReservationTerms(policy: CancellationPolicy): ReservationCancellationTerms {
+  return {
+    id: policy.id,
+    name: policy.name,
+    description: policy.description,
+    type: policy.type,
+    freeUntilDays: policy.freeUntilDays,
+    penaltyNights: policy.penaltyNights,
+  };
+}
+
+/**
+ * Whole days between the cancellation and midnight (UTC) of the check-in date
+ */
+function daysBefore(checkInDate: string, at: Date): number {
+  const checkIn = new Date(`${checkInDate.split('T')[0]}T00:00:00.000Z`).getTime();
+  return Math.floor((checkIn - at.getTime()) / DAY_MS);
+}
+
+/**
+ * Charge for a number of nights, never more than the stay itself
+ */
+function nightsCharge(reservation: Reservation, nights: number): number {
+  const perNight = (reservation.ratePerNight || 0) * (reservation.numberOfRooms || 1);
+  return Math.min(perNight * nights, reservation.totalAmount || 0);
+}
+
+// ============================================================================
+// PENALTY CALCULATION
+// ============================================================================
+
+/**
+ * Compute the cancellation fee and resulting balance for a reservation
+ * cancelled at `at` (defaults to now). Reservations booked without a policy
+ * cancel for free.
+ */
+export function quoteCancellation(reservation: Reservation, at: Date = new Date()): CancellationQuote {
+  const policy = reservation.cancellationPolicy || null;
+  const days = daysBefore(reservation.checkInDate, at);
+  
+  let fee = 0;
+  switch (policy?.type) {
+    case 'free_until':
+      if (days < (policy.freeUntilDays || 0)) {
+        fee = nightsCharge(reservation, policy.penaltyNights || 1);
+      }
+      break;
+    case 'first_night':
+      fee = nightsCharge(reservation, 1);
+      break;
+    case 'non_refundable':
+      fee = reservation.totalAmount || 0;
+      break;
+  }
+  
+  const deposit = reservation.depositPaid || 0;
+  const balanceDue = Math.max(fee - deposit, 0);
+  const refundDue = Math.max(deposit - fee, 0);
+  
+  let paymentStatus: Reservation['paymentStatus'];
+  if (balanceDue > 0) {
+    paymentStatus = deposit > 0 ? 'partial' : 'pending';
+  } else {
+    paymentStatus = refundDue > 0 ? 'refunded' : 'paid';
+  }
+  
+  return { policy, daysBeforeCheckIn: days, fee, balanceDue, refundDue, paymentStatus };
+}
+
+/**
+ * Fields to merge into a reservation when it is cancelled
+ */
+export function applyCancellationCharges(reservation: Reservation, at: Date = new Date()): Partial<Reservation> {
+  const quote = quoteCancellation(reservation, at);
+  
+  return {
+    cancellationFee: quote.fee,
+    refundDue: quote.refundDue,
+    balanceDue: quote.balanceDue,
+    paymentStatus: quote.paymentStatus,
+  };
+}
@@ -9,6 +9,17 @@
 import * as kv from './kv_store.tsx';
 import { createClient } from 'jsr:@supabase/supabase-js@2';
 import { cache } from './cache.tsx';
+import { INDEXES, SecondaryIndex } from './secondary-index.tsx';
+import { parseQuery, scoreDocument, tenantDocument } from './search-engine.tsx';
+import { EventBus, type EventActor } from './event-bus.tsx';
+import { WebhookDeliveryService } from './webhook-delivery.tsx';
+import {
+  CURRENT_WEBHOOK_API_VERSION,
+  WebhookValidationError,
+  validateApiVersion,
+  validateEvents,
+  validateWebhookUrl,
+} from './webhook-events.tsx';
 
 // Reuse single client instance (already created in index.tsx, but create here if needed)
 let _supabaseAdmin: ReturnType<typeof createClient> | null = null;
@@ -23,9 +34,6 @@ const getSupabaseAdmin = () => {
   return _supabaseAdmin;
 };
 
-// Use the getter function - this ensures we have a client when needed
-const supabaseAdmin = getSupabaseAdmin();
-
 import type {
   Tenant,
   Plan,
@@ -66,22 +74,50 @@ export function generateId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * The message of a caught error, whatever was thrown
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
 /**
  * Generate a sequential reservation ID (RES-123 format)
  */
 async function generateReservationId(tenantId: string): Promise<string> {
-  // Get the counter for this tenant
+  // Atomic increment so concurrent bookings never share a number
   const counterKey = `reservation_counter:${tenantId}`;
-  const currentCounter = await kv.get(counterKey) || 0;
-  
-  // Increment counter
-  const newCounter = currentCounter + 1;
-  await kv.set(counterKey, newCounter);
+  const newCounter = await kv.increment(counterKey);
   
   // Return formatted ID
   return `RES-${newCounter}`;
 }
 
+/**
+ * Apply fn to a counter record and create a marker key in one compare-and-set
+ * batch, so an operation identified by the marker is counted at most once.
+ * Returns null, without writing, if the marker already exists.
+ */
+async function countOnce<T>(
+  key: string,
+  markerKey: string,
+  fn: (current: T | null) => T,
+  maxAttempts: number = 5
+): Promise<T | null> {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    if (await kv.getFresh(markerKey) !== null) return null;
+    
+    const current: T | null = await kv.getFresh(key);
+    const next = fn(current === null ? null : structuredClone(current));
+    const written = await kv.mcompareAndSet([
+      { key, expected: current, value: next },
+      { key: markerKey, expected: null, value: { countedAt: new Date().toISOString() } },
+    ]);
+    if (written) return next;
+  }
+  throw new kv.ConcurrencyError(key, maxAttempts);
+}
+
 /**
  * Get current period string (YYYY-MM)
  */
@@ -117,6 +153,40 @@ export function paginateArray<T>(
   };
 }
 
+/**
+ * Fetch one page of a tenant collection with kv.scan, so only that page's rows
+ * leave the database. Follows params.cursor when given, otherwise params.page.
+ */
+export async function paginateScan<T>(
+  prefix: string,
+  params: PaginationParams | undefined,
+  options: Pick<kv.ScanOptions, 'where' | 'orderBy' | 'order'>
+): Promise<PaginationResult<T>> {
+  const page = params?.cursor ? 1 : params?.page || 1;
+  const limit = params?.limit || 50;
+  
+  const result = await kv.scan<T>(prefix, {
+    ...options,
+    limit,
+    cursor: params?.cursor,
+    offset: params?.cursor ? 0 : (page - 1) * limit,
+  });
+  const totalPages = Math.ceil(result.total / limit);
+  
+  return {
+    data: result.items,
+    pagination: {
+      page,
+      limit,
+      total: result.total,
+      totalPages,
+      hasNext: result.nextCursor !== null,
+      hasPrev: page > 1 || !!params?.cursor,
+      nextCursor: result.nextCursor,
+    },
+  };
+}
+
 /**
  * Sort an array of items by a field
  */
@@ -142,6 +212,8 @@ export function sortArray<T>(items: T[], params?: SortParams): T[] {
 export function filterTenants(tenants: Tenant[], filters?: FilterParams): Tenant[] {
   if (!filters) return tenants;
   
+  const query = filters.search ? parseQuery(filters.search) : null;
+  
   return tenants.filter(tenant => {
     // Status filter
     if (filters.status && tenant.status !== filters.status) {
@@ -158,20 +230,9 @@ export function filterTenants(tenants: Tenant[], filters?: FilterParams): Tenant
       return false;
     }
     
-    // Search filter (searches name, subdomain, owner)
-    if (filters.search) {
-      const search = filters.search.toLowerCase();
-      const searchable = [
-        tenant.name,
-        tenant.subdomain,
-        tenant.owner,
-        tenant.ownerName,
-        tenant.id,
-      ].filter(Boolean).join(' ').toLowerCase();
-      
-      if (!searchable.includes(search)) {
-        return false;
-      }
+    // Search filter (name, subdomain, owner, ID; typo-tolerant, see search-engine.tsx)
+    if (query?.text && scoreDocument(query, tenantDocument(tenant)).score === 0) {
+      return false;
     }
     
     // Date range filter
@@ -241,7 +302,7 @@ export const TenantService = {
     // Try Postgres by UUID
     if (identifier.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
       console.log(`[TenantService] Identifier looks like UUID, searching by id...`);
-      const { data: pgTenant } = await supabaseAdmin
+      const { data: pgTenant } = await getSupabaseAdmin()
         .from('tenants')
         .select('*')
         .eq('id', identifier)
@@ -280,7 +341,7 @@ export const TenantService = {
     
     // OPTIMIZED: Try by external_id using JSONB query instead of loading all tenants
     console.log(`[TenantService] Searching by external_id in Postgres...`);
-    const { data: pgTenant } = await supabaseAdmin
+    const { data: pgTenant } = await getSupabaseAdmin()
       .from('tenants')
       .select('*')
       .eq('settings->>external_id', identifier)
@@ -323,7 +384,7 @@ export const TenantService = {
   /**
    * Create a new tenant
    */
-  async create(data: Omit<Tenant, 'id' | 'createdAt' | 'created'>): Promise<Tenant> {
+  async create(data: Omit<Tenant, 'id' | 'createdAt' | 'created'>, options?: { actor?: EventActor }): Promise<Tenant> {
     const tenantId = generateId('tn');
     const now = new Date();
     
@@ -335,13 +396,15 @@ export const TenantService = {
     };
     
     await kv.set(`tenant:${tenantId}`, tenant);
+    await EventBus.emit('tenant.created', { tenant }, { tenantId, actor: options?.actor });
     return tenant;
   },
   
   /**
-   * Update a tenant
+   * Update a tenant. Emits tenant.suspended or tenant.unsuspended when the
+   * status moves into or out of suspension, tenant.updated otherwise.
    */
-  async update(tenantId: string, updates: Partial<Tenant>): Promise<Tenant | null> {
+  async update(tenantId: string, updates: Partial<Tenant>, options?: { actor?: EventActor }): Promise<Tenant | null> {
     const existing = await kv.get(`tenant:${tenantId}`);
     if (!existing) return null;
     
@@ -353,13 +416,22 @@ export const TenantService = {
     };
     
     await kv.set(`tenant:${tenantId}`, tenant);
+    
+    const eventOptions = { tenantId, actor: options?.actor };
+    if (tenant.status === 'suspended' && existing.status !== 'suspended') {
+      await EventBus.emit('tenant.suspended', { tenant, before: existing, reason: tenant.suspensionReason }, eventOptions);
+    } else if (tenant.status !== 'suspended' && existing.status === 'suspended') {
+      await EventBus.emit('tenant.unsuspended', { tenant, before: existing }, eventOptions);
+    } else {
+      await EventBus.emit('tenant.updated', { tenant, before: existing, changes: updates }, eventOptions);
+    }
     return tenant;
   },
   
   /**
    * Delete a tenant and all associated data
    */
-  async delete(tenantId: string): Promise<boolean> {
+  async delete(tenantId: string, options?: { actor?: EventActor }): Promise<boolean> {
     const tenant = await kv.get(`tenant:${tenantId}`);
     if (!tenant) return false;
     
@@ -400,6 +472,7 @@ export const TenantService = {
       })(),
     ]);
     
+    await EventBus.emit('tenant.deleted', { tenantId, tenant }, { tenantId, actor: options?.actor });
     return true;
   },
   
@@ -469,6 +542,11 @@ export const SubscriptionService = {
     };
     
     await kv.set(`subscription:${tenantId}`, subscription);
+    if (existing) {
+      await EventBus.emit('subscription.updated', { subscription, before: existing }, { tenantId });
+    } else {
+      await EventBus.emit('subscription.created', { subscription }, { tenantId });
+    }
     return subscription;
   },
   
@@ -488,14 +566,83 @@ export const SubscriptionService = {
     };
     
     await kv.set(`subscription:${tenantId}`, updated);
+    await EventBus.emit('subscription.cancelled', { subscription: updated, before: subscription }, { tenantId });
     return updated;
   },
 };
 
+// ============================================================================
+// INVOICE DATA SERVICE
+// ============================================================================
+
+export const InvoiceService = {
+  /**
+   * List a tenant's invoices, newest first
+   */
+  async list(tenantId: string): Promise<Invoice[]> {
+    const invoices = await kv.getByPrefix(`invoice:${tenantId}:`) as Invoice[];
+    return sortArray(invoices, { field: 'createdAt', order: 'desc' });
+  },
+  
+  /**
+   * Get an invoice
+   */
+  async get(tenantId: string, invoiceId: string): Promise<Invoice | null> {
+    return await kv.get(`invoice:${tenantId}:${invoiceId}`);
+  },
+  
+  /**
+   * Create an invoice
+   */
+  async create(tenantId: string, data: Omit<Invoice, 'id' | 'tenantId' | 'createdAt'>): Promise<Invoice> {
+    const invoice: Invoice = {
+      ...data,
+      id: generateId('inv'),
+      tenantId,
+      createdAt: new Date().toISOString(),
+    };
+    
+    await kv.set(`invoice:${tenantId}:${invoice.id}`, invoice);
+    await EventBus.emit('invoice.created', { invoice }, { tenantId });
+    return invoice;
+  },
+  
+  /**
+   * Mark an invoice paid
+   */
+  async markPaid(tenantId: string, invoiceId: string, paidAt?: string): Promise<Invoice | null> {
+    const existing = await this.get(tenantId, invoiceId);
+    if (!existing) return null;
+    if (existing.status === 'paid') return existing;
+    
+    const invoice: Invoice = {
+      ...existing,
+      status: 'paid',
+      paidAt: paidAt || new Date().toISOString(),
+    };
+    
+    await kv.set(`invoice:${tenantId}:${invoiceId}`, invoice);
+    await EventBus.emit('invoice.paid', { invoice }, { tenantId });
+    return invoice;
+  },
+};
+
 // ============================================================================
 // USAGE DATA SERVICE
 // ============================================================================
 
+// Usage alert thresholds (percent of the limit) for tenants that set none
+const DEFAULT_USAGE_ALERT_THRESHOLDS = [80, 100];
+
+// Running count kept by UsageService.track, in the format the usage routes read
+export interface UsageCount {
+  metric: string;
+  current: number;
+  limit: number;
+  period: string;
+  updated_at: string;
+}
+
 export const UsageService = {
   /**
    * Get usage for a tenant, metric, and period
@@ -544,9 +691,101 @@ export const UsageService = {
     };
     
     await kv.set(id, usage);
+    await this.checkAlerts(tenantId, metric, value, limit, p);
     return usage;
   },
   
+  /**
+   * Add to a tenant's running count of a metric for the current month (the
+   * usage:<tenantId>:<period>:<metric> records the usage routes read) and
+   * check its alerts. A new record takes its limit from the tenant's plan.
+   * With options.eventId the count is made once per event, however often
+   * the caller is retried.
+   */
+  async track(
+    tenantId: string,
+    metric: string,
+    amount: number = 1,
+    options?: { eventId?: string }
+  ): Promise<UsageCount> {
+    const period = getCurrentPeriod();
+    const key = `usage:${tenantId}:${period}:${metric}`;
+    
+    let limit = 1000;
+    const tenant = await kv.get(`tenant:${tenantId}`);
+    if (tenant?.plan) {
+      const planData = await kv.get(`plan:plan_${String(tenant.plan).toLowerCase()}`);
+      const metricKey = metric === 'api_calls' ? 'apiCalls' : metric;
+      limit = planData?.limits?.[metricKey] || limit;
+    }
+    
+    const now = new Date().toISOString();
+    const add = (existing: UsageCount | null): UsageCount => existing
+      ? { ...existing, current: (existing.current || 0) + amount, updated_at: now }
+      : { metric, current: amount, limit, period, updated_at: now };
+    
+    // A repeated event finds its marker and only re-checks the alerts
+    const record = options?.eventId
+      ? await countOnce(key, `usage_event:${tenantId}:${options.eventId}:${metric}`, add) ?? await kv.getFresh<UsageCount>(key)
+      : await kv.update<UsageCount>(key, add);
+    
+    await this.checkAlerts(tenantId, metric as MetricType, record!.current, record!.limit, period);
+    return record!;
+  },
+  
+  /**
+   * Trigger the tenant's usage alerts for a metric that crossed their
+   * threshold (emitting `usage.threshold_crossed`) and re-arm those it dropped
+   * back under. Tenants without alerts for the metric get the default thresholds.
+   */
+  async checkAlerts(
+    tenantId: string,
+    metric: MetricType,
+    current: number,
+    limit: number,
+    period?: string
+  ): Promise<UsageAlert[]> {
+    const p = period || getCurrentPeriod();
+    const now = new Date().toISOString();
+    const percentage = limit > 0 ? (current / limit) * 100 : 0;
+    
+    let alerts = (await kv.getByPrefix(`alert:${tenantId}:`) as UsageAlert[])
+      .filter(alert => alert.metric === metric);
+    if (alerts.length === 0) {
+      alerts = DEFAULT_USAGE_ALERT_THRESHOLDS.map(threshold => ({
+        id: `alert_${metric}_${threshold}`,
+        tenantId,
+        metric,
+        threshold,
+        triggered: false,
+        notified: false,
+        createdAt: now,
+      }));
+    }
+    
+    const triggered: UsageAlert[] = [];
+    for (const alert of alerts) {
+      // Alerts fire once per period
+      const firing = alert.triggered && alert.period === p;
+      
+      if (percentage >= alert.threshold && !firing) {
+        const updated: UsageAlert = { ...alert, triggered: true, triggeredAt: now, period: p, resolvedAt: undefined, notified: true };
+        await kv.set(`alert:${tenantId}:${alert.id}`, updated);
+        await EventBus.emit('usage.threshold_crossed', {
+          alert: updated,
+          current,
+          limit,
+          percentage: Math.round(percentage),
+        }, { tenantId });
+        triggered.push(updated);
+      } else if (percentage < alert.threshold && firing) {
+        await kv.set(`alert:${tenantId}:${alert.id}`, { ...alert, triggered: false, resolvedAt: now });
+      }
+    }
+    
+    return triggered;
+  },
+  
   /**
    * Increment usage for a tenant
    */
@@ -691,6 +930,8 @@ export const AuditService = {
       changes?: { before?: any; after?: any };
       data?: Record<string, any>;
       metadata?: Record<string, any>;
+      ipAddress?: string;
+      userAgent?: string;
     }
   ): Promise<AuditLog> {
     const timestamp = new Date().toISOString();
@@ -709,6 +950,8 @@ export const AuditService = {
       userId: options?.userId,
       userEmail: options?.userEmail,
       changes: options?.changes,
+      ipAddress: options?.ipAddress,
+      userAgent: options?.userAgent,
       data: options?.data,
       metadata: options?.metadata,
     };
@@ -806,6 +1049,250 @@ export const IntegrationService = {
   },
 };
 
+// ============================================================================
+// WEBHOOK DATA SERVICE
+// ============================================================================
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+// How long the previous secret keeps signing deliveries after a rotation
+const DEFAULT_SECRET_GRACE_HOURS = 24;
+
+function generateWebhookSecret(): string {
+  const random = crypto.getRandomValues(new Uint8Array(32));
+  return WEBHOOK_SECRET_PREFIX + Array.from(random).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Webhook as returned by the API: secrets replaced by a hint of the current one
+ */
+export function redactWebhook(webhook: Webhook): Omit<Webhook, 'secret' | 'previousSecret'> & { secretHint: string } {
+  const { secret, ...rest } = webhook;
+  delete rest.previousSecret;
+  return { ...rest, secretHint: `${WEBHOOK_SECRET_PREFIX}...${(secret || '').slice(-4)}` };
+}
+
+export const WebhookService = {
+  /**
+   * List webhooks, newest first (only a tenant's own when tenantId is given)
+   */
+  async list(options?: { tenantId?: string }): Promise<Webhook[]> {
+    const webhooks = (await kv.getByPrefix('webhook:') as Webhook[]).filter((webhook) => webhook?.id);
+    
+    return webhooks
+      .filter((webhook) => !options?.tenantId || webhook.tenantId === options.tenantId)
+      .sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+  },
+  
+  /**
+   * Get a webhook
+   */
+  async get(id: string): Promise<Webhook | null> {
+    return await kv.get(`webhook:${id}`);
+  },
+  
+  /**
+   * Create a webhook. The URL, API version and events are validated
+   * (WebhookValidationError). The secret is returned here and, like an API
+   * key, not shown again.
+   */
+  async create(
+    data: {
+      url: unknown;
+      events: unknown;
+      apiVersion?: unknown;
+      description?: string;
+      tenantId?: string;
+      enabled?: boolean;
+    },
+    options?: { createdBy?: string }
+  ): Promise<{ webhook: Webhook; secret: string }> {
+    const apiVersion = validateApiVersion(data.apiVersion);
+    const secret = generateWebhookSecret();
+    
+    const webhook: Webhook = {
+      id: generateId('webhook'),
+      tenantId: data.tenantId || undefined,
+      url: validateWebhookUrl(data.url),
+      description: data.description,
+      events: validateEvents(data.events, apiVersion),
+      apiVersion,
+      secret,
+      enabled: data.enabled !== false,
+      status: 'active',
+      failureCount: 0,
+      metadata: options?.createdBy ? { createdBy: options.createdBy } : undefined,
+      createdAt: new Date().toISOString(),
+    };
+    
+    await kv.set(`webhook:${webhook.id}`, webhook);
+    return { webhook, secret };
+  },
+  
+  /**
+   * Update a webhook's endpoint, subscription or state. Disabling it drops its
+   * queued retries; enabling it clears the failure count (and an automatic
+   * disable). Returns null when there is no such webhook.
+   */
+  async update(
+    id: string,
+    changes: {
+      url?: unknown;
+      events?: unknown;
+      apiVersion?: unknown;
+      description?: string;
+      enabled?: boolean;
+    }
+  ): Promise<Webhook | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+    
+    const apiVersion = changes.apiVersion !== undefined
+      ? validateApiVersion(changes.apiVersion)
+      : existing.apiVersion || CURRENT_WEBHOOK_API_VERSION;
+    const url = changes.url !== undefined ? validateWebhookUrl(changes.url) : existing.url;
+    const events = changes.events !== undefined || changes.apiVersion !== undefined
+      ? validateEvents(changes.events ?? existing.events, apiVersion)
+      : existing.events;
+    
+    const now = new Date().toISOString();
+    const updated = await kv.update<Webhook>(`webhook:${id}`, (current) => {
+      if (!current) return undefined;
+      
+      const next: Webhook = {
+        ...current,
+        url,
+        events,
+        apiVersion,
+        description: changes.description !== undefined ? changes.description : current.description,
+        updatedAt: now,
+      };
+      
+      if (changes.enabled === false) {
+        next.enabled = false;
+        next.status = 'disabled';
+      } else if (changes.enabled === true && !current.enabled) {
+        const metadata = { ...current.metadata };
+        delete metadata.disabledAt;
+        delete metadata.disabledReason;
+        next.enabled = true;
+        next.status = 'active';
+        next.failureCount = 0;
+        next.metadata = metadata;
+      }
+      
+      return next;
+    });
+    
+    if (updated && !updated.enabled && existing.enabled) {
+      await WebhookDeliveryService.cancelRetries(id);
+    }
+    
+    return updated;
+  },
+  
+  /**
+   * Delete a webhook with its queued retries and delivery log
+   */
+  async delete(id: string): Promise<boolean> {
+    const existing = await this.get(id);
+    if (!existing) return false;
+    
+    await kv.del(`webhook:${id}`);
+    await WebhookDeliveryService.cancelRetries(id);
+    
+    let cursor: string | null = null;
+    do {
+      const page: kv.ScanPage<WebhookDelivery> = await kv.scan<WebhookDelivery>(`delivery:${id}:`, { limit: 500, cursor });
+      if (page.keys.length > 0) await kv.mdel(page.keys);
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    return true;
+  },
+  
+  /**
+   * Replace a webhook's secret. Deliveries carry a signature made with the
+   * old secret as well for `gracePeriodHours` (0 drops it at once). The new
+   * secret is returned here only; null when there is no such webhook.
+   */
+  async rotateSecret(
+    id: string,
+    options?: { gracePeriodHours?: number }
+  ): Promise<{ webhook: Webhook; secret: string } | null> {
+    const secret = generateWebhookSecret();
+    const graceHours = options?.gracePeriodHours ?? DEFAULT_SECRET_GRACE_HOURS;
+    const now = Date.now();
+    
+    const webhook = await kv.update<Webhook>(`webhook:${id}`, (current) => {
+      if (!current) return undefined;
+      return {
+        ...current,
+        secret,
+        previousSecret: graceHours > 0 ? current.secret : undefined,
+        previousSecretExpiresAt: graceHours > 0 ? new Date(now + graceHours * 60 * 60 * 1000).toISOString() : undefined,
+        secretRotatedAt: new Date(now).toISOString(),
+        updatedAt: new Date(now).toISOString(),
+      };
+    });
+    
+    return webhook ? { webhook, secret } : null;
+  },
+  
+  /**
+   * A webhook's delivery attempts, newest first, optionally filtered by
+   * status and event
+   */
+  async listDeliveries(
+    webhookId: string,
+    options?: {
+      status?: WebhookDelivery['status'];
+      event?: string;
+      limit?: number;
+      cursor?: string | null;
+    }
+  ): Promise<kv.ScanPage<WebhookDelivery>> {
+    const where: kv.ScanFilter[] = [];
+    if (options?.status) where.push({ field: 'status', op: 'eq', value: options.status });
+    if (options?.event) where.push({ field: 'event', op: 'eq', value: options.event });
+    
+    return await kv.scan<WebhookDelivery>(`delivery:${webhookId}:`, {
+      where,
+      orderBy: 'createdAt',
+      order: 'desc',
+      limit: options?.limit,
+      cursor: options?.cursor,
+    });
+  },
+  
+  /**
+   * One delivery attempt by id
+   */
+  async getDelivery(webhookId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const page = await kv.scan<WebhookDelivery>(`delivery:${webhookId}:`, {
+      where: [{ field: 'id', op: 'eq', value: deliveryId }],
+      limit: 1,
+    });
+    return page.items[0] || null;
+  },
+  
+  /**
+   * Send a delivery's event again now. Returns the new attempt, or null when
+   * the webhook or delivery does not exist; a disabled webhook is refused
+   * (WebhookValidationError).
+   */
+  async redeliver(webhookId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const [webhook, delivery] = await Promise.all([this.get(webhookId), this.getDelivery(webhookId, deliveryId)]);
+    if (!webhook || !delivery) return null;
+    
+    if (!webhook.enabled) {
+      throw new WebhookValidationError('Webhook is disabled; enable it before redelivering');
+    }
+    
+    return await WebhookDeliveryService.redeliver(webhook, delivery);
+  },
+};
+
 // ============================================================================
 // NOTIFICATION DATA SERVICE
 // ============================================================================
@@ -922,47 +1409,164 @@ export const PlatformSettingsService = {
 // API KEY DATA SERVICE
 // ============================================================================
 
+export class ApiKeyAuthError extends Error {
+  constructor(message: string, public reason: 'invalid' | 'disabled' | 'expired') {
+    super(message);
+    this.name = 'ApiKeyAuthError';
+  }
+}
+
+const API_KEY_PREFIX = 'pk_live_';
+
+// Set once plaintext keys left by older versions have been hashed
+const API_KEY_MIGRATION_KEY = 'system:apikey_migration';
+
+let plaintextKeysMigrated = false;
+
+async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function apiKeyHashKey(hash: string): string {
+  return `apikey_hash:${hash}`;
+}
+
+// API key as stored by older versions, with the key itself in place of its hash
+type PlaintextApiKey = Omit<ApiKey, 'keyHash' | 'keyPrefix'> & { key: string };
+
+/**
+ * Hash a key stored in plaintext by older versions and drop the plaintext.
+ * Older keys never said whether they were platform-wide, so one without a
+ * tenant is disabled until an admin re-issues it with an explicit scope.
+ */
+async function migratePlaintextKey(record: PlaintextApiKey): Promise<ApiKey> {
+  const keyHash = await hashApiKey(record.key);
+  const { key, ...rest } = record;
+  const migrated: ApiKey = {
+    ...rest,
+    keyHash,
+    keyPrefix: key.slice(0, API_KEY_PREFIX.length + 4),
+    scopes: rest.scopes || [],
+    enabled: rest.enabled !== false && !!rest.tenantId,
+    usageCount: rest.usageCount || 0,
+    metadata: rest.tenantId ? rest.metadata : { ...rest.metadata, disabledReason: 'legacy key without a tenant; re-issue it' },
+  };
+  
+  await kv.set(apiKeyHashKey(keyHash), { id: migrated.id });
+  await kv.set(`apikey:${migrated.id}`, migrated);
+  return migrated;
+}
+
 export const ApiKeyService = {
   /**
-   * List all API keys
+   * List all API keys (hashes only)
    */
   async list(tenantId?: string): Promise<ApiKey[]> {
     const allKeys = await kv.getByPrefix('apikey:') as ApiKey[];
+    
     if (!tenantId) return allKeys;
     return allKeys.filter(key => key.tenantId === tenantId);
   },
   
   /**
-   * Generate a new API key
+   * Hash every key stored in plaintext by older versions, drop the plaintext
+   * and record that the migration ran; once done it is a no-op. Runs at
+   * startup, and from authenticate when a key is not found before then.
+   * Returns how many keys were migrated.
+   */
+  async migratePlaintextKeys(): Promise<number> {
+    if (plaintextKeysMigrated) return 0;
+    if (await kv.get(API_KEY_MIGRATION_KEY)) {
+      plaintextKeysMigrated = true;
+      return 0;
+    }
+    
+    const records = await kv.getByPrefix('apikey:');
+    const legacy = records.filter((record): record is PlaintextApiKey => typeof record?.key === 'string');
+    
+    for (const record of legacy) {
+      await migratePlaintextKey(record);
+    }
+    
+    await kv.set(API_KEY_MIGRATION_KEY, { completedAt: new Date().toISOString(), migrated: legacy.length });
+    plaintextKeysMigrated = true;
+    
+    if (legacy.length > 0) {
+      console.log(`[API Keys] Hashed ${legacy.length} plaintext key(s) left by an older version`);
+    }
+    return legacy.length;
+  },
+  
+  /**
+   * Generate a new API key. The plaintext key is returned here and nowhere
+   * else; only its SHA-256 hash is stored. A key acts for `tenantId`, or for
+   * the whole platform only when `platform` is set (and no tenantId is).
    */
   async generate(
     name: string,
     scopes: string[],
     options?: {
       tenantId?: string;
+      platform?: boolean;
       description?: string;
       expiresAt?: string;
       createdBy?: string;
     }
-  ): Promise<ApiKey> {
+  ): Promise<{ apiKey: ApiKey; key: string }> {
     const keyId = generateId('key');
-    const key = `pk_live_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
+    const random = crypto.getRandomValues(new Uint8Array(24));
+    const key = API_KEY_PREFIX + Array.from(random).map((b) => b.toString(16).padStart(2, '0')).join('');
+    const keyHash = await hashApiKey(key);
     
     const apiKey: ApiKey = {
       id: keyId,
-      key,
+      keyHash,
+      keyPrefix: key.slice(0, API_KEY_PREFIX.length + 4),
       name,
       scopes,
       enabled: true,
       usageCount: 0,
       created: new Date().toISOString(),
       tenantId: options?.tenantId,
+      platform: !options?.tenantId && options?.platform === true ? true : undefined,
       description: options?.description,
       expiresAt: options?.expiresAt,
       createdBy: options?.createdBy,
     };
     
+    await kv.set(apiKeyHashKey(keyHash), { id: keyId });
     await kv.set(`apikey:${keyId}`, apiKey);
+    return { apiKey, key };
+  },
+  
+  /**
+   * Resolve a presented key to its record. Throws ApiKeyAuthError when the
+   * key is unknown, revoked or past its expiresAt.
+   */
+  async authenticate(key: string): Promise<ApiKey> {
+    const hashKey = apiKeyHashKey(await hashApiKey(key));
+    let entry = await kv.get(hashKey);
+    
+    // A key from before hashing has no hash entry until the migration has run
+    if (!entry?.id && !plaintextKeysMigrated && await this.migratePlaintextKeys() > 0) {
+      entry = await kv.get(hashKey);
+    }
+    
+    const apiKey: ApiKey | null = entry?.id ? await kv.get(`apikey:${entry.id}`) : null;
+    
+    if (!apiKey) {
+      throw new ApiKeyAuthError('Invalid API key', 'invalid');
+    }
+    if (!apiKey.enabled) {
+      throw new ApiKeyAuthError('API key has been revoked', 'disabled');
+    }
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+      throw new ApiKeyAuthError('API key has expired', 'expired');
+    }
+    
     return apiKey;
   },
   
@@ -983,19 +1587,31 @@ export const ApiKeyService = {
   },
   
   /**
-   * Track API key usage
+   * Delete an API key and its hash entry
    */
-  async trackUsage(keyId: string): Promise<void> {
+  async delete(keyId: string): Promise<boolean> {
     const apiKey = await kv.get(`apikey:${keyId}`);
-    if (!apiKey) return;
-    
-    const updated: ApiKey = {
-      ...apiKey,
-      usageCount: (apiKey.usageCount || 0) + 1,
-      lastUsedAt: new Date().toISOString(),
-    };
+    if (!apiKey) return false;
     
-    await kv.set(`apikey:${keyId}`, updated);
+    if (apiKey.keyHash) {
+      await kv.del(apiKeyHashKey(apiKey.keyHash));
+    }
+    await kv.del(`apikey:${keyId}`);
+    return true;
+  },
+  
+  /**
+   * Track API key usage
+   */
+  async trackUsage(keyId: string): Promise<void> {
+    await kv.update<ApiKey>(`apikey:${keyId}`, (apiKey) => {
+      if (!apiKey) return undefined;
+      return {
+        ...apiKey,
+        usageCount: (apiKey.usageCount || 0) + 1,
+        lastUsedAt: new Date().toISOString(),
+      };
+    });
   },
 };
 
@@ -1092,37 +1708,27 @@ export const GuestService = {
       pagination?: PaginationParams;
     }
   ): Promise<PaginationResult<Guest>> {
-    const guests = await kv.getByPrefix(`guest:${tenantId}:`) as Guest[];
+    // Filters run in the database; only the requested page is loaded
+    const where: kv.ScanFilter[] = [];
     
-    // Combine all filters in a single pass for efficiency
-    const searchLower = options?.search?.toLowerCase();
-    const segment = options?.segment;
-    const vipStatus = options?.vipStatus;
-    
-    const filtered = guests.filter(guest => {
-      // Search filter (combined check)
-      if (searchLower) {
-        const matchesSearch = 
-          guest.fullName.toLowerCase().includes(searchLower) ||
-          guest.email.toLowerCase().includes(searchLower) ||
-          guest.phone?.toLowerCase().includes(searchLower) ||
-          guest.id.toLowerCase().includes(searchLower);
-        if (!matchesSearch) return false;
-      }
-      
-      // Segment filter
-      if (segment && guest.segment !== segment) return false;
-      
-      // VIP status filter
-      if (vipStatus && guest.vipStatus !== vipStatus) return false;
-      
-      return true;
-    });
+    if (options?.search) {
+      where.push({ field: ['fullName', 'email', 'phone', 'id'], op: 'contains', value: options.search });
+    }
+    
+    if (options?.segment) {
+      where.push({ field: 'segment', op: 'eq', value: options.segment });
+    }
     
-    // Sort by most recent first
-    const sorted = sortArray(filtered, { field: 'createdAt', order: 'desc' });
+    if (options?.vipStatus) {
+      where.push({ field: 'vipStatus', op: 'eq', value: options.vipStatus });
+    }
     
-    return paginateArray(sorted, options?.pagination);
+    // Most recent first
+    return paginateScan<Guest>(`guest:${tenantId}:`, options?.pagination, {
+      where,
+      orderBy: 'createdAt',
+      order: 'desc',
+    });
   },
   
   /**
@@ -1154,6 +1760,7 @@ export const GuestService = {
     };
     
     await kv.set(`guest:${tenantId}:${guestId}`, guest);
+    await SecondaryIndex.sync(INDEXES.guestEmail, tenantId, guestId, null, guest);
     return guest;
   },
   
@@ -1184,6 +1791,7 @@ export const GuestService = {
     };
     
     await kv.set(`guest:${tenantId}:${guestId}`, guest);
+    await SecondaryIndex.sync(INDEXES.guestEmail, tenantId, guestId, existing, guest);
     return guest;
   },
   
@@ -1195,6 +1803,7 @@ export const GuestService = {
     if (!guest) return false;
     
     await kv.del(`guest:${tenantId}:${guestId}`);
+    await SecondaryIndex.sync(INDEXES.guestEmail, tenantId, guestId, guest, null);
     return true;
   },
   
@@ -1233,8 +1842,7 @@ export const GuestService = {
    * Search guests by email
    */
   async findByEmail(tenantId: string, email: string): Promise<Guest | null> {
-    const guests = await kv.getByPrefix(`guest:${tenantId}:`) as Guest[];
-    return guests.find(guest => guest.email.toLowerCase() === email.toLowerCase()) || null;
+    return await SecondaryIndex.lookup<Guest>(INDEXES.guestEmail, tenantId, email);
   },
 };
 
@@ -1243,6 +1851,57 @@ export const GuestService = {
 // ============================================================================
 
 import type { Reservation, ReservationStatus, ReservationSource } from './models.tsx';
+import { BookingEngine } from './booking-engine.tsx';
+import { RoomAssignmentService } from './room-assignment.tsx';
+import { StatusChangeNotAllowedError, applyStatusChange } from './reservation-lifecycle.tsx';
+import { applyCancellationCharges, toReservationTerms } from './cancellation-policy.tsx';
+import { RatePlanService, RatePlanError } from './rate-plans.tsx';
+import { RoomBlockService } from './room-blocks.tsx';
+
+/**
+ * Price a reservation from its rate plan, replacing any typed-in amounts
+ * (throws RateRestrictionError if the stay is not sellable on the plan)
+ */
+async function applyRatePlan<T extends Partial<Reservation>>(tenantId: string, data: T): Promise<T> {
+  if (!data.ratePlanId || !data.roomCategoryId || !data.checkInDate || !data.checkOutDate) {
+    return data;
+  }
+  
+  const quote = await RatePlanService.quote(tenantId, {
+    ratePlanId: data.ratePlanId,
+    roomCategoryId: data.roomCategoryId,
+    checkInDate: data.checkInDate,
+    checkOutDate: data.checkOutDate,
+    numberOfRooms: data.numberOfRooms,
+  });
+  
+  return {
+    ...data,
+    nightlyRates: quote.nights,
+    numberOfNights: quote.numberOfNights,
+    ratePerNight: quote.ratePerNight,
+    totalAmount: quote.totalAmount,
+    balanceDue: Math.max(quote.totalAmount - (data.depositPaid || 0), 0),
+  };
+}
+
+/**
+ * Price a new reservation from its rate plan, or the tenant's BAR plan when it
+ * names none, so the amounts a client sends are never kept. Throws
+ * RatePlanError when there is no plan to price with, or the stay lacks its
+ * room category or dates.
+ */
+async function priceNewReservation<T extends Partial<Reservation>>(tenantId: string, data: T): Promise<T> {
+  const ratePlanId = data.ratePlanId || (await RatePlanService.getDefault(tenantId))?.id;
+  if (!ratePlanId) {
+    throw new RatePlanError('ratePlanId is required; the tenant has no active BAR rate plan to fall back to');
+  }
+  if (!data.roomCategoryId || !data.checkInDate || !data.checkOutDate) {
+    throw new RatePlanError('roomCategoryId, checkInDate and checkOutDate are required to price the stay');
+  }
+  
+  return await applyRatePlan(tenantId, { ...data, ratePlanId });
+}
 
 export const ReservationService = {
   /**
@@ -1259,43 +1918,36 @@ export const ReservationService = {
       pagination?: PaginationParams;
     }
   ): Promise<PaginationResult<Reservation>> {
-    const reservations = await kv.getByPrefix(`reservation:${tenantId}:`) as Reservation[];
+    // Filters run in the database; only the requested page is loaded
+    const where: kv.ScanFilter[] = [];
     
-    // Combine all filters in a single pass for efficiency
-    const searchLower = options?.search?.toLowerCase();
-    const status = options?.status;
-    const guestId = options?.guestId;
-    const checkInDate = options?.checkInDate;
-    const checkOutDate = options?.checkOutDate;
+    if (options?.status) {
+      where.push({ field: 'status', op: 'eq', value: options.status });
+    }
     
-    const filtered = reservations.filter(r => {
-      // Status filter
-      if (status && r.status !== status) return false;
-      
-      // Guest ID filter
-      if (guestId && r.guestId !== guestId) return false;
-      
-      // Date range filters
-      if (checkInDate && r.checkInDate < checkInDate) return false;
-      if (checkOutDate && r.checkOutDate > checkOutDate) return false;
-      
-      // Search filter (combined check)
-      if (searchLower) {
-        const matchesSearch = 
-          r.guestName.toLowerCase().includes(searchLower) ||
-          r.guestEmail.toLowerCase().includes(searchLower) ||
-          r.confirmationNumber.toLowerCase().includes(searchLower) ||
-          r.id.toLowerCase().includes(searchLower);
-        if (!matchesSearch) return false;
-      }
-      
-      return true;
-    });
+    if (options?.guestId) {
+      where.push({ field: 'guestId', op: 'eq', value: options.guestId });
+    }
     
-    // Sort by check-in date descending
-    const sorted = sortArray(filtered, { field: 'checkInDate', order: 'desc' });
+    // Date range filters
+    if (options?.checkInDate) {
+      where.push({ field: 'checkInDate', op: 'gte', value: options.checkInDate });
+    }
     
-    return paginateArray(sorted, options?.pagination);
+    if (options?.checkOutDate) {
+      where.push({ field: 'checkOutDate', op: 'lte', value: options.checkOutDate });
+    }
+    
+    if (options?.search) {
+      where.push({ field: ['guestName', 'guestEmail', 'confirmationNumber', 'id'], op: 'contains', value: options.search });
+    }
+    
+    // Sort by check-in date descending
+    return paginateScan<Reservation>(`reservation:${tenantId}:`, options?.pagination, {
+      where,
+      orderBy: 'checkInDate',
+      order: 'desc',
+    });
   },
   
   /**
@@ -1309,8 +1961,7 @@ export const ReservationService = {
    * Get reservation by confirmation number
    */
   async getByConfirmation(tenantId: string, confirmationNumber: string): Promise<Reservation | null> {
-    const reservations = await kv.getByPrefix(`reservation:${tenantId}:`) as Reservation[];
-    return reservations.find(r => r.confirmationNumber === confirmationNumber) || null;
+    return await SecondaryIndex.lookup<Reservation>(INDEXES.reservationConfirmation, tenantId, confirmationNumber);
   },
   
   /**
@@ -1320,8 +1971,51 @@ export const ReservationService = {
     tenantId: string,
     data: Omit<Reservation, 'id' | 'tenantId' | 'createdAt' | 'confirmationNumber'>
   ): Promise<Reservation> {
+    // Group reservations default to the block's category and rate plan
+    const block = data.blockId ? await RoomBlockService.get(tenantId, data.blockId) : null;
+    if (block) {
+      data = {
+        ...data,
+        roomCategoryId: data.roomCategoryId || block.nights[0]?.roomCategoryId,
+        ratePlanId: data.ratePlanId || block.ratePlanId,
+      };
+    }
+    
+    // Every stay is priced from a rate plan (throws RatePlanError)
+    data = await priceNewReservation(tenantId, data);
+    
     // Generate sequential reservation ID (RES-123 format)
     const reservationId = await generateReservationId(tenantId);
+    
+    // Hold a pre-assigned room for the whole stay (throws RoomConflictError)
+    await RoomAssignmentService.syncHolds(tenantId, null, { ...data, id: reservationId });
+    
+    try {
+      // Rooms picked up from a block are handed back to inventory first (throws RoomBlockError)
+      if (data.blockId) {
+        await RoomBlockService.pickUp(tenantId, data.blockId, data);
+      }
+      
+      // Take inventory for every night first (throws InventoryConflictError if sold out)
+      try {
+        await BookingEngine.reserve(tenantId, data);
+      } catch (error) {
+        if (data.blockId) await RoomBlockService.returnToBlock(tenantId, data.blockId, data);
+        throw error;
+      }
+    } catch (error) {
+      await RoomAssignmentService.syncHolds(tenantId, { ...data, id: reservationId }, null);
+      throw error;
+    }
+    
+    // Lock in the cancellation terms in force at booking time; a rate plan's
+    // own policy wins over the category/default one
+    const ratePlan = data.ratePlanId ? await RatePlanService.get(tenantId, data.ratePlanId) : null;
+    const policy = ratePlan?.cancellationPolicyId
+      ? await CancellationPolicyService.get(tenantId, ratePlan.cancellationPolicyId)
+      : await CancellationPolicyService.resolve(tenantId, data.roomCategoryId);
+    const cancellationPolicy = data.cancellationPolicy || (policy ? toReservationTerms(policy) : undefined);
+    
     const now = new Date().toISOString();
     
     // Generate confirmation number
@@ -1329,6 +2023,7 @@ export const ReservationService = {
     
     const reservation: Reservation = {
       ...data,
+      cancellationPolicy,
       id: reservationId,
       tenantId,
       confirmationNumber,
@@ -1336,11 +2031,23 @@ export const ReservationService = {
     };
     
     await kv.set(`reservation:${tenantId}:${reservationId}`, reservation);
+    await SecondaryIndex.sync(INDEXES.reservationConfirmation, tenantId, reservationId, null, reservation);
+    
+    if (reservation.blockId) {
+      await RoomBlockService.attachReservation(tenantId, reservation.blockId, reservationId);
+    }
+    
+    await EventBus.emit('reservation.created', { reservation }, {
+      tenantId,
+      actor: reservation.createdBy ? { userId: reservation.createdBy } : null,
+    });
     return reservation;
   },
   
   /**
-   * Update a reservation
+   * Update a reservation's details. Status changes are refused with
+   * StatusChangeNotAllowedError: they go through transition, which also moves
+   * rooms, inventory and fees.
    */
   async update(
     tenantId: string,
@@ -1350,19 +2057,95 @@ export const ReservationService = {
     const existing = await kv.get(`reservation:${tenantId}:${reservationId}`);
     if (!existing) return null;
     
-    const reservation: Reservation = {
+    if (updates.status && updates.status !== existing.status) {
+      throw new StatusChangeNotAllowedError(updates.status);
+    }
+    
+    let reservation: Reservation = {
       ...existing,
       ...updates,
+      status: existing.status,
+      statusHistory: existing.statusHistory,
       id: reservationId,
       tenantId,
       confirmationNumber: existing.confirmationNumber,
       updatedAt: new Date().toISOString(),
     };
     
+    // Re-price when the stay or plan changes
+    const repriceFields: (keyof Reservation)[] = ['ratePlanId', 'roomCategoryId', 'checkInDate', 'checkOutDate', 'numberOfRooms'];
+    if (repriceFields.some(field => field in updates && updates[field as keyof typeof updates] !== existing[field])) {
+      reservation = await applyRatePlan(tenantId, reservation);
+    }
+    
+    // Move the room holds to the new room or dates, then inventory to match
+    // new dates, room category or room count
+    await RoomAssignmentService.syncHolds(tenantId, existing, reservation);
+    try {
+      await BookingEngine.syncInventory(tenantId, existing, reservation);
+    } catch (error) {
+      await RoomAssignmentService.syncHolds(tenantId, reservation, existing);
+      throw error;
+    }
+    
     await kv.set(`reservation:${tenantId}:${reservationId}`, reservation);
     return reservation;
   },
   
+  /**
+   * Move a reservation through its lifecycle (check-in, check-out, cancel, no-show).
+   * 
+   * Validates the transition, stamps who/when, releases inventory when the stay
+   * is abandoned, charges the cancellation fee on cancel and flips the assigned
+   * room to occupied (check-in) or dirty (check-out). Checking in without an
+   * assigned room auto-assigns one.
+   */
+  async transition(
+    tenantId: string,
+    reservationId: string,
+    to: ReservationStatus,
+    options?: { userId?: string; reason?: string; roomId?: string }
+  ): Promise<Reservation | null> {
+    const key = `reservation:${tenantId}:${reservationId}`;
+    let existing: Reservation | null = await kv.get(key);
+    if (!existing) return null;
+    
+    // Validate before touching rooms or inventory
+    applyStatusChange(existing, to, options);
+    
+    if (to === 'checked_in') {
+      if (options?.roomId && options.roomId !== existing.roomId) {
+        existing = await RoomAssignmentService.assign(tenantId, reservationId, options.roomId);
+      } else if (!existing.roomId) {
+        existing = (await RoomAssignmentService.autoAssign(tenantId, reservationId)).reservation;
+      }
+    }
+    
+    const reservation: Reservation = {
+      ...existing,
+      ...applyStatusChange(existing, to, options),
+      ...(to === 'cancelled' ? applyCancellationCharges(existing) : {}),
+      updatedAt: new Date().toISOString(),
+    };
+    
+    await BookingEngine.syncInventory(tenantId, existing, reservation);
+    // Leaving the room (check-out, cancel, no-show) frees its remaining nights
+    await RoomAssignmentService.syncHolds(tenantId, existing, reservation);
+    await kv.set(key, reservation);
+    
+    if (reservation.roomId && to === 'checked_in') {
+      await RoomAssignmentService.setRoomStatus(tenantId, reservation.roomId, 'occupied');
+    } else if (reservation.roomId && to === 'checked_out') {
+      await RoomAssignmentService.setRoomStatus(tenantId, reservation.roomId, 'dirty');
+    }
+    
+    await EventBus.emit('reservation.status_changed', { reservation, from: existing.status, to }, {
+      tenantId,
+      actor: options?.userId ? { userId: options.userId } : null,
+    });
+    return reservation;
+  },
+  
   /**
    * Delete a reservation
    */
@@ -1370,7 +2153,10 @@ export const ReservationService = {
     const reservation = await kv.get(`reservation:${tenantId}:${reservationId}`);
     if (!reservation) return false;
     
+    await BookingEngine.release(tenantId, reservation);
+    await RoomAssignmentService.syncHolds(tenantId, reservation, null);
     await kv.del(`reservation:${tenantId}:${reservationId}`);
+    await SecondaryIndex.sync(INDEXES.reservationConfirmation, tenantId, reservationId, reservation, null);
     return true;
   },
   
@@ -1417,6 +2203,121 @@ export const ReservationService = {
   },
 };
 
+// ============================================================================
+// CANCELLATION POLICY DATA SERVICE
+// ============================================================================
+
+import type { CancellationPolicy } from './models.tsx';
+
+export const CancellationPolicyService = {
+  /**
+   * List all cancellation policies for a tenant
+   */
+  async list(tenantId: string): Promise<CancellationPolicy[]> {
+    const policies = await kv.getByPrefix(`cancellation_policy:${tenantId}:`) as CancellationPolicy[];
+    return sortArray(policies, { field: 'name', order: 'asc' });
+  },
+  
+  /**
+   * Get a cancellation policy by ID
+   */
+  async get(tenantId: string, policyId: string): Promise<CancellationPolicy | null> {
+    return await kv.get(`cancellation_policy:${tenantId}:${policyId}`);
+  },
+  
+  /**
+   * Create a cancellation policy
+   */
+  async create(
+    tenantId: string,
+    data: Omit<CancellationPolicy, 'id' | 'tenantId' | 'createdAt'>
+  ): Promise<CancellationPolicy> {
+    const policyId = generateId('cxl');
+    
+    const policy: CancellationPolicy = {
+      ...data,
+      id: policyId,
+      tenantId,
+      roomCategoryIds: data.roomCategoryIds || [],
+      isDefault: data.isDefault === true,
+      createdAt: new Date().toISOString(),
+    };
+    
+    if (policy.isDefault) {
+      await this.clearDefault(tenantId, policyId);
+    }
+    
+    await kv.set(`cancellation_policy:${tenantId}:${policyId}`, policy);
+    return policy;
+  },
+  
+  /**
+   * Update a cancellation policy (existing reservations keep their copied terms)
+   */
+  async update(
+    tenantId: string,
+    policyId: string,
+    updates: Partial<Omit<CancellationPolicy, 'id' | 'tenantId' | 'createdAt'>>
+  ): Promise<CancellationPolicy | null> {
+    const existing = await this.get(tenantId, policyId);
+    if (!existing) return null;
+    
+    const policy: CancellationPolicy = {
+      ...existing,
+      ...updates,
+      id: policyId,
+      tenantId,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    if (policy.isDefault && !existing.isDefault) {
+      await this.clearDefault(tenantId, policyId);
+    }
+    
+    await kv.set(`cancellation_policy:${tenantId}:${policyId}`, policy);
+    return policy;
+  },
+  
+  /**
+   * Delete a cancellation policy
+   */
+  async delete(tenantId: string, policyId: string): Promise<boolean> {
+    const existing = await this.get(tenantId, policyId);
+    if (!existing) return false;
+    
+    await kv.del(`cancellation_policy:${tenantId}:${policyId}`);
+    return true;
+  },
+  
+  /**
+   * Unset the default flag on every other policy of a tenant
+   */
+  async clearDefault(tenantId: string, keepPolicyId: string): Promise<void> {
+    const policies = await this.list(tenantId);
+    const previous = policies.filter(p => p.isDefault && p.id !== keepPolicyId);
+    if (previous.length === 0) return;
+    
+    await kv.mset(
+      previous.map(p => `cancellation_policy:${tenantId}:${p.id}`),
+      previous.map(p => ({ ...p, isDefault: false, updatedAt: new Date().toISOString() }))
+    );
+  },
+  
+  /**
+   * Find the policy that applies to a room category: one assigned to the
+   * category, otherwise the tenant default
+   */
+  async resolve(tenantId: string, roomCategoryId?: string): Promise<CancellationPolicy | null> {
+    const policies = await this.list(tenantId);
+    
+    const forCategory = roomCategoryId
+      ? policies.find(p => p.roomCategoryIds?.includes(roomCategoryId))
+      : undefined;
+    
+    return forCategory || policies.find(p => p.isDefault) || null;
+  },
+};
+
 // ============================================================================
 // LOYALTY PROGRAM DATA SERVICE
 // ============================================================================
@@ -1513,23 +2414,25 @@ export const LoyaltyMemberService = {
       pagination?: PaginationParams;
     }
   ): Promise<PaginationResult<LoyaltyMember>> {
-    let members = await kv.getByPrefix(`loyalty_member:${tenantId}:`) as LoyaltyMember[];
+    const where: kv.ScanFilter[] = [];
     
     if (options?.programId) {
-      members = members.filter(m => m.programId === options.programId);
+      where.push({ field: 'programId', op: 'eq', value: options.programId });
     }
     
     if (options?.tier) {
-      members = members.filter(m => m.currentTier === options.tier);
+      where.push({ field: 'currentTier', op: 'eq', value: options.tier });
     }
     
     if (options?.status) {
-      members = members.filter(m => m.status === options.status);
+      where.push({ field: 'status', op: 'eq', value: options.status });
     }
     
-    members = sortArray(members, { field: 'totalPoints', order: 'desc' });
-    
-    return paginateArray(members, options?.pagination);
+    return paginateScan<LoyaltyMember>(`loyalty_member:${tenantId}:`, options?.pagination, {
+      where,
+      orderBy: 'totalPoints',
+      order: 'desc',
+    });
   },
   
   /**
@@ -1543,8 +2446,7 @@ export const LoyaltyMemberService = {
    * Get loyalty member by guest ID
    */
   async getByGuest(tenantId: string, guestId: string): Promise<LoyaltyMember | null> {
-    const members = await kv.getByPrefix(`loyalty_member:${tenantId}:`) as LoyaltyMember[];
-    return members.find(m => m.guestId === guestId) || null;
+    return await SecondaryIndex.lookup<LoyaltyMember>(INDEXES.loyaltyGuest, tenantId, guestId);
   },
   
   /**
@@ -1569,6 +2471,7 @@ export const LoyaltyMemberService = {
     };
     
     await kv.set(`loyalty_member:${tenantId}:${memberId}`, member);
+    await SecondaryIndex.sync(INDEXES.loyaltyGuest, tenantId, memberId, null, member);
     return member;
   },
   
@@ -1593,6 +2496,7 @@ export const LoyaltyMemberService = {
     };
     
     await kv.set(`loyalty_member:${tenantId}:${memberId}`, member);
+    await SecondaryIndex.sync(INDEXES.loyaltyGuest, tenantId, memberId, existing, member);
     return member;
   },
   
@@ -4,7 +4,14 @@
  */
 
 import { Hono } from "npm:hono";
-import * as kv from "../kv_store.tsx";
+import {
+  CURRENT_WEBHOOK_API_VERSION,
+  WEBHOOK_API_VERSIONS,
+  WEBHOOK_ENVELOPE_SCHEMA,
+  WEBHOOK_EVENT_CATALOG,
+  eventsForVersion,
+} from "../webhook-events.tsx";
+import { errorMessage } from "../data-service.tsx";
 
 const developers = new Hono();
 
@@ -53,24 +60,38 @@ developers.get("/api-docs", async (c) => {
   }
 });
 
-// Get webhooks documentation
+// Get webhooks documentation (event catalog with payload schemas)
 developers.get("/webhooks", async (c) => {
   try {
-    const webhooks = await kv.getByPrefix("webhook:");
+    const version = c.req.query("apiVersion") || CURRENT_WEBHOOK_API_VERSION;
+    if (!WEBHOOK_API_VERSIONS.includes(version)) {
+      return c.json({ success: false, error: `Unknown API version. Supported: ${WEBHOOK_API_VERSIONS.join(', ')}` }, 400);
+    }
     
     const docs = {
-      webhooks: webhooks || [],
-      events: [
-        'tenant.created',
-        'tenant.updated',
-        'user.created',
-        'reservation.created',
-        'payment.received'
-      ],
+      apiVersion: version,
+      versions: WEBHOOK_API_VERSIONS,
+      envelope: WEBHOOK_ENVELOPE_SCHEMA,
+      events: eventsForVersion(version),
+      signature: {
+        header: 'X-Webhook-Signature',
+        format: 't=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">',
+        notes: [
+          'Compute the HMAC with your webhook secret and compare it to any v1 value',
+          'After a secret rotation a second v1 value, made with the previous secret, is sent for a grace period',
+          'Reject timestamps more than a few minutes old',
+        ],
+      },
+      delivery: {
+        headers: ['X-Webhook-Id', 'X-Webhook-Event', 'X-Webhook-Delivery', 'X-Webhook-Signature'],
+        success: 'Respond with a 2xx status within 10 seconds',
+        retries: 'Failed deliveries are retried with exponential backoff (1, 2, 4, 8, 16 minutes)',
+        idempotency: 'An event may arrive more than once; use its id to drop duplicates',
+      },
       format: {
         url: 'https://your-app.com/webhook',
-        secret: 'webhook_secret',
-        events: ['tenant.created', 'user.created']
+        apiVersion: version,
+        events: ['tenant.created', 'invoice.paid']
       }
     };
     
@@ -84,5 +105,27 @@ developers.get("/webhooks", async (c) => {
   }
 });
 
+// Get the payload schema of one webhook event
+developers.get("/webhooks/events/:type", (c) => {
+  try {
+    const type = c.req.param("type");
+    const event = WEBHOOK_EVENT_CATALOG.find((definition) => definition.type === type);
+    if (!event) {
+      return c.json({ success: false, error: 'Unknown event type' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: {
+        ...event,
+        envelope: WEBHOOK_ENVELOPE_SCHEMA,
+      }
+    });
+  } catch (error) {
+    console.error('[Developers API] Error fetching webhook event schema:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
 export default developers;
 
@@ -0,0 +1,303 @@
+/**
+ * Domain Event Bus for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Services emit typed domain events (DomainEventMap) once a change is stored.
+ * Subscribers registered at startup (event-subscribers.tsx) turn them into
+ * side effects: audit entries, webhooks, notifications and usage counters.
+ *
+ * Each subscriber runs on its own: one that throws neither stops the others
+ * nor fails the change. The event is queued for that subscriber alone and
+ * retried with exponential backoff (5, 10, 20 ... seconds) up to its
+ * maxAttempts, when processDueRetries() runs (from the scheduled
+ * POST /system/events/retry, so emitting never waits on old work). Events a
+ * subscriber still fails on are kept as failures until retried by hand.
+ *
+ *   event_retry:<dueAt>:<subscriber>:<eventId>   -> EventRetry
+ *   event_failed:<subscriber>:<eventId>          -> EventRetry (gave up)
+ *
+ * Subscribers are called at least once per event and should tolerate repeats.
+ */
+
+import * as kv from './kv_store.tsx';
+import type {
+  Invoice,
+  Reservation,
+  ReservationStatus,
+  Subscription,
+  Tenant,
+  UsageAlert,
+} from './models.tsx';
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export interface DomainEventMap {
+  'tenant.created': { tenant: Tenant };
+  'tenant.updated': { tenant: Tenant; before: Tenant; changes: Partial<Tenant> };
+  'tenant.suspended': { tenant: Tenant; before: Tenant; reason?: string };
+  'tenant.unsuspended': { tenant: Tenant; before: Tenant };
+  'tenant.deleted': { tenantId: string; tenant: Tenant | Record<string, unknown> }; // The Postgres row when deleted through the tenants route
+  'subscription.created': { subscription: Subscription };
+  'subscription.updated': { subscription: Subscription; before: Subscription };
+  'subscription.cancelled': { subscription: Subscription; before: Subscription };
+  'invoice.created': { invoice: Invoice };
+  'invoice.paid': { invoice: Invoice };
+  'usage.threshold_crossed': { alert: UsageAlert; current: number; limit: number; percentage: number };
+  'reservation.created': { reservation: Reservation };
+  'reservation.status_changed': { reservation: Reservation; from: ReservationStatus; to: ReservationStatus };
+}
+
+export type DomainEventType = keyof DomainEventMap;
+
+/**
+ * Who caused an event (absent for system work such as the night audit)
+ */
+export interface EventActor {
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface DomainEvent<K extends DomainEventType = DomainEventType> {
+  id: string; // Format: devt_<timestamp>_<random>
+  type: K;
+  occurredAt: string; // ISO timestamp
+  tenantId: string | null;
+  actor: EventActor | null;
+  data: DomainEventMap[K];
+}
+
+// One of several event types, narrowed by checking `type`
+export type DomainEventOf<K extends DomainEventType> = { [T in K]: DomainEvent<T> }[K];
+
+export type EventHandler<K extends DomainEventType> = (event: DomainEventOf<K>) => Promise<void> | void;
+
+interface Subscriber {
+  name: string;
+  events: DomainEventType[];
+  handler: (event: DomainEvent) => Promise<void> | void;
+  maxAttempts: number;
+}
+
+export interface EventRetry {
+  subscriber: string;
+  event: DomainEvent;
+  attempt: number; // Number of the attempt to make
+  dueAt: string; // ISO timestamp
+  lastError: string;
+  claimedAt?: string; // ISO timestamp, set by the worker making the attempt
+  failedAt?: string; // ISO timestamp, once the subscriber gave up
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+
+// A claimed retry whose worker died is picked up again after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+const subscribers = new Map<string, Subscriber>();
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function retryKey(retry: EventRetry): string {
+  return `event_retry:${retry.dueAt}:${retry.subscriber}:${retry.event.id}`;
+}
+
+function failedKey(subscriber: string, eventId: string): string {
+  return `event_failed:${subscriber}:${eventId}`;
+}
+
+/**
+ * Run one subscriber on one event. A failure is queued for retry, or kept as
+ * failed after the subscriber's last attempt; it never throws.
+ */
+async function deliver(subscriber: Subscriber, event: DomainEvent, attempt: number): Promise<boolean> {
+  try {
+    await subscriber.handler(event);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const now = Date.now();
+    
+    if (attempt >= subscriber.maxAttempts) {
+      console.error(`[Events] ${subscriber.name} gave up on ${event.type} (${event.id}) after ${attempt} attempts:`, message);
+      const failed: EventRetry = {
+        subscriber: subscriber.name,
+        event,
+        attempt,
+        dueAt: new Date(now).toISOString(),
+        lastError: message,
+        failedAt: new Date(now).toISOString(),
+      };
+      await kv.set(failedKey(subscriber.name, event.id), failed).catch(() => {});
+      return false;
+    }
+    
+    console.warn(`[Events] ${subscriber.name} failed on ${event.type} (${event.id}), attempt ${attempt}:`, message);
+    const retry: EventRetry = {
+      subscriber: subscriber.name,
+      event,
+      attempt: attempt + 1,
+      dueAt: new Date(now + RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)).toISOString(),
+      lastError: message,
+    };
+    await kv.set(retryKey(retry), retry).catch((kvError) => {
+      console.error(`[Events] Could not queue retry of ${event.id} for ${subscriber.name}:`, kvError);
+    });
+    return false;
+  }
+}
+
+// ============================================================================
+// EVENT BUS
+// ============================================================================
+
+export const EventBus = {
+  /**
+   * Register a subscriber under a unique name (registering the name again
+   * replaces it). Retries are matched to the subscriber by name.
+   */
+  subscribe<K extends DomainEventType>(
+    name: string,
+    events: K[],
+    handler: EventHandler<K>,
+    options?: { maxAttempts?: number }
+  ): void {
+    subscribers.set(name, {
+      name,
+      events,
+      handler: handler as Subscriber['handler'],
+      maxAttempts: options?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    });
+  },
+  
+  /**
+   * Remove a subscriber
+   */
+  unsubscribe(name: string): boolean {
+    return subscribers.delete(name);
+  },
+  
+  /**
+   * Names of the registered subscribers and their events
+   */
+  subscribers(): Array<{ name: string; events: DomainEventType[]; maxAttempts: number }> {
+    return Array.from(subscribers.values()).map(({ name, events, maxAttempts }) => ({ name, events, maxAttempts }));
+  },
+  
+  /**
+   * Emit an event to its subscribers. Resolves when each has run once; it
+   * never rejects, whatever the subscribers do.
+   */
+  async emit<K extends DomainEventType>(
+    type: K,
+    data: DomainEventMap[K],
+    options?: { tenantId?: string | null; actor?: EventActor | null }
+  ): Promise<DomainEvent<K>> {
+    const event: DomainEvent<K> = {
+      id: generateId('devt'),
+      type,
+      occurredAt: new Date().toISOString(),
+      tenantId: options?.tenantId || null,
+      actor: options?.actor || null,
+      data,
+    };
+    
+    const matching = Array.from(subscribers.values()).filter((subscriber) => subscriber.events.includes(type));
+    const results = await Promise.all(matching.map((subscriber) => deliver(subscriber, event, 1)));
+    
+    if (results.some((ok) => !ok)) {
+      console.warn(`[Events] ${results.filter((ok) => !ok).length} of ${matching.length} subscriber(s) failed on ${type} (${event.id})`);
+    }
+    
+    return event;
+  },
+  
+  /**
+   * Make the queued retries that are due
+   */
+  async processDueRetries(options?: { limit?: number }): Promise<{ attempted: number; succeeded: number; failed: number }> {
+    const now = Date.now();
+    const page: kv.ScanPage<EventRetry> = await kv.scan<EventRetry>('event_retry:', {
+      where: [{ field: 'dueAt', op: 'lte', value: new Date(now).toISOString() }],
+      limit: options?.limit ?? 50,
+    });
+    
+    const result = { attempted: 0, succeeded: 0, failed: 0 };
+    for (const key of page.keys) {
+      // Claim the entry so another instance does not make the same attempt
+      let claimed = false;
+      const entry = await kv.update<EventRetry>(key, (current) => {
+        claimed = !!current && (!current.claimedAt || now - new Date(current.claimedAt).getTime() > CLAIM_TIMEOUT_MS);
+        if (!claimed) return undefined;
+        return { ...current!, claimedAt: new Date(now).toISOString() };
+      });
+      if (!claimed || !entry) continue;
+      
+      const subscriber = subscribers.get(entry.subscriber);
+      if (subscriber) {
+        result.attempted++;
+        if (await deliver(subscriber, entry.event, entry.attempt)) {
+          result.succeeded++;
+        } else {
+          result.failed++;
+        }
+      } else {
+        console.warn(`[Events] Dropping retry of ${entry.event.id} for unknown subscriber ${entry.subscriber}`);
+      }
+      await kv.del(key);
+    }
+    
+    return result;
+  },
+  
+  /**
+   * Events subscribers gave up on, oldest first
+   */
+  async listFailed(options?: { subscriber?: string; limit?: number; cursor?: string | null }): Promise<kv.ScanPage<EventRetry>> {
+    return await kv.scan<EventRetry>(options?.subscriber ? `event_failed:${options.subscriber}:` : 'event_failed:', {
+      orderBy: 'failedAt',
+      order: 'asc',
+      limit: options?.limit,
+      cursor: options?.cursor,
+    });
+  },
+  
+  /**
+   * Queue failed events for another full round of attempts, now. Returns
+   * how many were queued.
+   */
+  async retryFailed(options?: { subscriber?: string }): Promise<number> {
+    const now = new Date().toISOString();
+    let queued = 0;
+    let cursor: string | null = null;
+    
+    do {
+      const page: kv.ScanPage<EventRetry> = await this.listFailed({ subscriber: options?.subscriber, limit: 100, cursor });
+      for (let i = 0; i < page.keys.length; i++) {
+        const failed = page.items[i];
+        const retry: EventRetry = {
+          subscriber: failed.subscriber,
+          event: failed.event,
+          attempt: 1,
+          dueAt: now,
+          lastError: failed.lastError,
+        };
+        await kv.set(retryKey(retry), retry);
+        await kv.del(page.keys[i]);
+        queued++;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    return queued;
+  },
+};
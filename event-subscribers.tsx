@@ -0,0 +1,254 @@
+/**
+ * Domain Event Subscribers for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * The side effects of domain events (event-bus.tsx), one subscriber each:
+ *
+ *   audit          - audit log entries for tenant and subscription changes
+ *   webhooks       - customer webhooks (the public event names and payloads
+ *                    of webhook-events.tsx)
+ *   notifications  - in-app notifications for admins
+ *   usage          - usage counters and their alerts
+ *
+ * registerEventSubscribers() is called once at startup (index.new.tsx).
+ */
+
+import { EventBus, type DomainEvent, type DomainEventOf, type EventActor } from './event-bus.tsx';
+import { AuditService, NotificationService, UsageService } from './data-service.tsx';
+import { WebhookDeliveryService } from './webhook-delivery.tsx';
+import { redactTenant, type AuditAction, type WebhookEvent } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function actorFields(actor: EventActor | null) {
+  return {
+    userId: actor?.userId,
+    userEmail: actor?.email,
+    ipAddress: actor?.ipAddress,
+    userAgent: actor?.userAgent,
+  };
+}
+
+/**
+ * The values of `before` for the fields in `changes`
+ */
+function previousValues<T extends object>(before: T, changes: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.keys(changes).map((field) => [field, before?.[field as keyof T]])) as Partial<T>;
+}
+
+function metadataOf(event: DomainEvent): Record<string, unknown> {
+  return { eventId: event.id, eventType: event.type };
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+type AuditedEvent =
+  | 'tenant.created'
+  | 'tenant.updated'
+  | 'tenant.suspended'
+  | 'tenant.unsuspended'
+  | 'tenant.deleted'
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.cancelled';
+
+async function auditEvent(event: DomainEventOf<AuditedEvent>): Promise<void> {
+  const common = {
+    tenantId: event.tenantId || undefined,
+    metadata: metadataOf(event),
+    ...actorFields(event.actor),
+  };
+  
+  switch (event.type) {
+    case 'tenant.created':
+      await AuditService.log('tenant.created', 'tenant', event.data.tenant.id, {
+        ...common,
+        data: redactTenant(event.data.tenant),
+      });
+      return;
+    case 'tenant.updated':
+      await AuditService.log('tenant.updated', 'tenant', event.data.tenant.id, {
+        ...common,
+        changes: {
+          before: redactTenant(previousValues(event.data.before, event.data.changes)),
+          after: redactTenant(event.data.changes),
+        },
+      });
+      return;
+    case 'tenant.suspended':
+      await AuditService.log('tenant.suspended', 'tenant', event.data.tenant.id, {
+        ...common,
+        changes: { before: { status: event.data.before.status }, after: { status: event.data.tenant.status } },
+        data: { reason: event.data.reason },
+      });
+      return;
+    case 'tenant.unsuspended':
+      await AuditService.log('tenant.unsuspended', 'tenant', event.data.tenant.id, {
+        ...common,
+        changes: { before: { status: event.data.before.status }, after: { status: event.data.tenant.status } },
+      });
+      return;
+    case 'tenant.deleted':
+      await AuditService.log('tenant.deleted', 'tenant', event.data.tenantId, {
+        ...common,
+        changes: { before: redactTenant(event.data.tenant) },
+      });
+      return;
+    case 'subscription.created':
+    case 'subscription.updated':
+    case 'subscription.cancelled': {
+      const before = 'before' in event.data ? event.data.before : undefined;
+      await AuditService.log(event.type as AuditAction, 'subscription', event.data.subscription.id, {
+        ...common,
+        changes: { before, after: event.data.subscription },
+      });
+      return;
+    }
+  }
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+type WebhookedEvent =
+  | 'tenant.created'
+  | 'tenant.updated'
+  | 'tenant.suspended'
+  | 'tenant.unsuspended'
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.cancelled'
+  | 'invoice.created'
+  | 'invoice.paid'
+  | 'usage.threshold_crossed';
+
+/**
+ * Public webhook event name and payload for a domain event
+ */
+function toWebhook(event: DomainEventOf<WebhookedEvent>): { type: WebhookEvent; data: object } {
+  switch (event.type) {
+    case 'tenant.created':
+    case 'tenant.suspended':
+      return { type: event.type, data: redactTenant(event.data.tenant) };
+    case 'tenant.updated':
+    case 'tenant.unsuspended':
+      return { type: 'tenant.updated', data: redactTenant(event.data.tenant) };
+    case 'subscription.created':
+      return { type: 'subscription.created', data: event.data.subscription };
+    case 'subscription.updated':
+    case 'subscription.cancelled':
+      return { type: 'subscription.updated', data: event.data.subscription };
+    case 'invoice.created':
+    case 'invoice.paid':
+      return { type: event.type, data: event.data.invoice };
+    case 'usage.threshold_crossed': {
+      const { alert, current, limit, percentage } = event.data;
+      return { type: 'usage.alert', data: { ...alert, current, limit, percentage } };
+    }
+  }
+}
+
+async function publishToWebhooks(event: DomainEventOf<WebhookedEvent>): Promise<void> {
+  const { type, data } = toWebhook(event);
+  await WebhookDeliveryService.publish(type, data, { tenantId: event.tenantId });
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+type NotifiedEvent = 'usage.threshold_crossed' | 'tenant.suspended' | 'subscription.cancelled';
+
+async function notify(event: DomainEventOf<NotifiedEvent>): Promise<void> {
+  switch (event.type) {
+    case 'usage.threshold_crossed': {
+      const { alert, current, limit, percentage } = event.data;
+      const reached = percentage >= 100;
+      await NotificationService.create({
+        title: reached ? `${alert.metric} limit reached` : `${alert.metric} usage at ${percentage}%`,
+        message: `${current} of ${limit} ${alert.metric} used this period (alert at ${alert.threshold}%).`,
+        type: reached ? 'error' : 'warning',
+        priority: reached ? 'high' : 'medium',
+        targetRoles: ['tenant_owner', 'tenant_admin'],
+        metadata: { ...metadataOf(event), metric: alert.metric, threshold: alert.threshold, period: alert.period },
+      }, alert.tenantId);
+      return;
+    }
+    case 'tenant.suspended': {
+      const { tenant, reason } = event.data;
+      await NotificationService.create({
+        title: 'Tenant suspended',
+        message: reason ? `${tenant.name} (${tenant.id}) was suspended: ${reason}` : `${tenant.name} (${tenant.id}) was suspended.`,
+        type: 'warning',
+        priority: 'high',
+        targetRoles: ['platform_admin'],
+        metadata: { ...metadataOf(event), tenantId: tenant.id },
+      });
+      return;
+    }
+    case 'subscription.cancelled': {
+      const { subscription } = event.data;
+      await NotificationService.create({
+        title: 'Subscription cancelled',
+        message: subscription.cancelAtPeriodEnd
+          ? `Tenant ${subscription.tenantId} cancelled; the subscription ends on ${subscription.currentPeriodEnd}.`
+          : `Tenant ${subscription.tenantId} cancelled their subscription.`,
+        type: 'info',
+        priority: 'medium',
+        targetRoles: ['platform_admin'],
+        metadata: { ...metadataOf(event), tenantId: subscription.tenantId },
+      });
+      return;
+    }
+  }
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+async function trackUsage(event: DomainEventOf<'reservation.created'>): Promise<void> {
+  // Keyed by event id, so a retried delivery doesn't count the booking twice
+  await UsageService.track(event.data.reservation.tenantId, 'reservations', 1, { eventId: event.id });
+}
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+/**
+ * Register the subscribers with the event bus (safe to call more than once)
+ */
+export function registerEventSubscribers(): void {
+  EventBus.subscribe('audit', [
+    'tenant.created',
+    'tenant.updated',
+    'tenant.suspended',
+    'tenant.unsuspended',
+    'tenant.deleted',
+    'subscription.created',
+    'subscription.updated',
+    'subscription.cancelled',
+  ], auditEvent);
+  
+  EventBus.subscribe('webhooks', [
+    'tenant.created',
+    'tenant.updated',
+    'tenant.suspended',
+    'tenant.unsuspended',
+    'subscription.created',
+    'subscription.updated',
+    'subscription.cancelled',
+    'invoice.created',
+    'invoice.paid',
+    'usage.threshold_crossed',
+  ], publishToWebhooks);
+  
+  EventBus.subscribe('notifications', ['usage.threshold_crossed', 'tenant.suspended', 'subscription.cancelled'], notify);
+  
+  EventBus.subscribe('usage', ['reservation.created'], trackUsage);
+}
@@ -4,45 +4,18 @@
  */
 
 import { Hono } from "npm:hono";
-import { getSupabaseAdmin } from "../lib/supabase.tsx";
+import { getTenantId } from "../auth-middleware.tsx";
 import { GuestService } from "../data-service.tsx";
+import { InvalidCursorError } from "../kv_store.tsx";
 
 const guests = new Hono();
-const supabaseAdmin = getSupabaseAdmin();
-
-// Helper to extract tenant from auth token
-async function getTenantFromAuth(c: any): Promise<string | null> {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader) return null;
-
-  const accessToken = authHeader.replace('Bearer ', '');
-  const { data: { user }, error } = await supabaseAdmin.auth.getUser(accessToken);
-  
-  if (error || !user) return null;
-  return user.user_metadata?.tenant_id || null;
-}
 
 // Get all guests
 guests.get("/", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ 
-        success: false, 
-        error: 'User has no tenant_id. Please contact support.'
-      }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const search = c.req.query('search');
@@ -50,12 +23,13 @@ guests.get("/", async (c) => {
     const vipStatus = c.req.query('vipStatus') as any;
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
+    const cursor = c.req.query('cursor');
     
     const result = await GuestService.list(tenantId, {
       search,
       segment,
       vipStatus,
-      pagination: { page, limit },
+      pagination: { page, limit, cursor },
     });
     
     return c.json({
@@ -65,6 +39,9 @@ guests.get("/", async (c) => {
       tenantId,
     });
   } catch (error: any) {
+    if (error instanceof InvalidCursorError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
     console.error('[Guests API] Error listing guests:', error);
     return c.json({ success: false, error: error.message }, 500);
   }
@@ -73,24 +50,9 @@ guests.get("/", async (c) => {
 // Create guest
 guests.post("/", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ 
-        success: false, 
-        error: 'User has no tenant_id. Please contact support.'
-      }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
     
     const guestData = await c.req.json();
@@ -110,21 +72,9 @@ guests.post("/", async (c) => {
 // Get single guest
 guests.get("/:guestId", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const guestId = c.req.param('guestId');
@@ -148,21 +98,9 @@ guests.get("/:guestId", async (c) => {
 // Update guest
 guests.put("/:guestId", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const guestId = c.req.param('guestId');
@@ -188,21 +126,9 @@ guests.put("/:guestId", async (c) => {
 // Delete guest
 guests.delete("/:guestId", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const guestId = c.req.param('guestId');
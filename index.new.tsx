@@ -6,6 +6,13 @@
 import { Hono } from "npm:hono";
 import { cors } from "npm:hono/cors";
 import { logger } from "npm:hono/logger";
+import { authMiddleware } from "./auth-middleware.tsx";
+import { ipAllowlistMiddleware } from "./ip-allowlist.tsx";
+import { rateLimitMiddleware } from "./rate-limit.tsx";
+import { sessionMiddleware } from "./sessions.tsx";
+import { mfaMiddleware } from "./mfa.tsx";
+import { registerEventSubscribers } from "./event-subscribers.tsx";
+import { ApiKeyService } from "./data-service.tsx";
 
 // Import route modules
 import health from "./routes/health.tsx";
@@ -31,6 +38,7 @@ import loyalty from "./routes/loyalty.tsx";
 import availability from "./routes/availability.tsx";
 import auth from "./routes/auth.tsx";
 import developers from "./routes/developers.tsx";
+import search from "./routes/search.tsx";
 
 const app = new Hono();
 
@@ -41,8 +49,8 @@ const BASE_PATH = "/make-server-0bdba248";
 app.use('*', cors({
   origin: '*',
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization', 'x-shared-secret'],
-  exposeHeaders: ['Content-Length', 'X-Request-Id'],
+  allowHeaders: ['Content-Type', 'Authorization', 'x-shared-secret', 'x-tenant-id', 'x-api-key', 'x-break-glass'],
+  exposeHeaders: ['Content-Length', 'X-Request-Id', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
   maxAge: 86400,
   credentials: true,
 }));
@@ -50,6 +58,29 @@ app.use('*', cors({
 // Enable request logging
 app.use('*', logger(console.log));
 
+// Verify the bearer token and enforce per-route access (see route-access.tsx)
+app.use(`${BASE_PATH}/*`, authMiddleware(BASE_PATH));
+
+// Platform and per-tenant IP allowlists, with audited super-admin break-glass (see ip-allowlist.tsx)
+app.use(`${BASE_PATH}/*`, ipAllowlistMiddleware());
+
+// Per API key / tenant / IP request limits from the security policy and plan (see rate-limit.tsx)
+app.use(`${BASE_PATH}/*`, rateLimitMiddleware());
+
+// Session registry: device, IP and last activity, idle timeout and concurrent-session cap (see sessions.tsx)
+app.use(`${BASE_PATH}/*`, sessionMiddleware());
+
+// Verified second factor where the platform, tenant or an admin requires one (see mfa.tsx)
+app.use(`${BASE_PATH}/*`, mfaMiddleware());
+
+// Audit, webhook, notification and usage side effects of domain events (see event-subscribers.tsx)
+registerEventSubscribers();
+
+// Hash API keys stored in plaintext by older versions (once; see ApiKeyService)
+ApiKeyService.migratePlaintextKeys().catch((error) => {
+  console.error("[API Keys] Plaintext key migration failed:", error);
+});
+
 // Mount route modules
 // Note: Routes in modules use paths relative to mount point
 // e.g., tenants.get("/") mounted at /tenants becomes /tenants/
@@ -80,7 +111,13 @@ app.route(`${BASE_PATH}`, loyalty); // campaigns, communications, loyalty-progra
 app.route(`${BASE_PATH}/availability-rates`, availability);
 app.route(`${BASE_PATH}/auth`, auth);
 app.route(`${BASE_PATH}/developers`, developers);
+app.route(`${BASE_PATH}/search`, search);
+
+// Serve the application when run directly; tests import `app` and call app.request()
+// (set KV_DRIVER=memory or KV_DRIVER=sqlite to run without Supabase, see kv-drivers.tsx)
+if (import.meta.main) {
+  Deno.serve(app.fetch);
+}
 
-// Serve the application
-Deno.serve(app.fetch);
+export default app;
 
@@ -26,4 +26,5 @@ export { default as loyalty } from "./loyalty.tsx";
 export { default as availability } from "./availability.tsx";
 export { default as auth } from "./auth.tsx";
 export { default as developers } from "./developers.tsx";
+export { default as search } from "./search.tsx";
 
@@ -10,6 +10,40 @@ import * as kv from "../kv_store.tsx";
 const integrations = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
 
+// A platform integration as kept in the platform:integrations list
+interface StoredIntegration {
+  id: string;
+  name: string;
+  provider: string;
+  enabled: boolean;
+  status: string;
+  config: Record<string, unknown>;
+  credentials: { apiKey: string; apiSecret: string; webhookSecret: string };
+  metadata: Record<string, unknown>;
+  [field: string]: unknown;
+}
+
+// Helper to change one integration in the shared list without losing concurrent writes
+async function updateIntegration(
+  integrationId: string,
+  change: (integration: StoredIntegration) => StoredIntegration
+): Promise<StoredIntegration | null> {
+  let updated: StoredIntegration | null = null;
+  await kv.update<StoredIntegration[]>('platform:integrations', (list) => {
+    const all = list || [];
+    const index = all.findIndex((int) => int.id === integrationId);
+    if (index === -1) {
+      updated = null;
+      return undefined;
+    }
+    
+    updated = change(all[index]);
+    all[index] = updated;
+    return all;
+  });
+  return updated;
+}
+
 // Get all integrations
 integrations.get("/", async (c) => {
   try {
@@ -170,12 +204,10 @@ integrations.post("/", async (c) => {
       }, 400);
     }
     
-    const integrations = await kv.get('platform:integrations') || [];
-    
     const apiKey = `sk_${provider}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
     const apiSecret = `sec_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
     
-    const newIntegration = {
+    const newIntegration: StoredIntegration = {
       id: `int_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
       name,
       type,
@@ -206,8 +238,7 @@ integrations.post("/", async (c) => {
       }
     };
     
-    integrations.push(newIntegration);
-    await kv.set('platform:integrations', integrations);
+    await kv.update<StoredIntegration[]>('platform:integrations', (list) => [...(list || []), newIntegration]);
     
     try {
       await supabaseAdmin
@@ -240,27 +271,21 @@ integrations.put("/:id", async (c) => {
     const body = await c.req.json();
     const { name, enabled, config } = body;
     
-    const integrations = await kv.get('platform:integrations') || [];
-    const integrationIndex = integrations.findIndex((int: any) => int.id === integrationId);
-    
-    if (integrationIndex === -1) {
-      return c.json({ success: false, error: 'Integration not found' }, 404);
-    }
-    
-    const updatedIntegration = {
-      ...integrations[integrationIndex],
-      name: name || integrations[integrationIndex].name,
-      enabled: enabled !== undefined ? enabled : integrations[integrationIndex].enabled,
-      status: enabled !== undefined ? (enabled ? 'active' : 'inactive') : integrations[integrationIndex].status,
-      config: config || integrations[integrationIndex].config,
+    const updatedIntegration = await updateIntegration(integrationId, (integration) => ({
+      ...integration,
+      name: name || integration.name,
+      enabled: enabled !== undefined ? enabled : integration.enabled,
+      status: enabled !== undefined ? (enabled ? 'active' : 'inactive') : integration.status,
+      config: config || integration.config,
       metadata: {
-        ...integrations[integrationIndex].metadata,
+        ...integration.metadata,
         updated: new Date().toISOString()
       }
-    };
+    }));
     
-    integrations[integrationIndex] = updatedIntegration;
-    await kv.set('platform:integrations', integrations);
+    if (!updatedIntegration) {
+      return c.json({ success: false, error: 'Integration not found' }, 404);
+    }
     
     try {
       await supabaseAdmin
@@ -290,16 +315,17 @@ integrations.put("/:id", async (c) => {
 integrations.delete("/:id", async (c) => {
   try {
     const integrationId = c.req.param('id');
-    const integrations = await kv.get('platform:integrations') || [];
-    const integrationIndex = integrations.findIndex((int: any) => int.id === integrationId);
+    let found = false;
+    await kv.update<StoredIntegration[]>('platform:integrations', (list) => {
+      const remaining = (list || []).filter((int) => int.id !== integrationId);
+      found = remaining.length !== (list || []).length;
+      return found ? remaining : undefined;
+    });
     
-    if (integrationIndex === -1) {
+    if (!found) {
       return c.json({ success: false, error: 'Integration not found' }, 404);
     }
     
-    integrations.splice(integrationIndex, 1);
-    await kv.set('platform:integrations', integrations);
-    
     try {
       await supabaseAdmin
         .from('audit_logs')
@@ -328,17 +354,19 @@ integrations.delete("/:id", async (c) => {
 integrations.post("/:id/test", async (c) => {
   try {
     const integrationId = c.req.param('id');
-    const integrations = await kv.get('platform:integrations') || [];
-    const integrationIndex = integrations.findIndex((int: any) => int.id === integrationId);
+    const testStartTime = Date.now();
+    const tested = await updateIntegration(integrationId, (integration) => ({
+      ...integration,
+      metadata: {
+        ...integration.metadata,
+        lastTestedAt: new Date().toISOString()
+      }
+    }));
     
-    if (integrationIndex === -1) {
+    if (!tested) {
       return c.json({ success: false, error: 'Integration not found' }, 404);
     }
     
-    const testStartTime = Date.now();
-    integrations[integrationIndex].metadata.lastTestedAt = new Date().toISOString();
-    await kv.set('platform:integrations', integrations);
-    
     const responseTime = Date.now() - testStartTime;
     
     return c.json({
@@ -366,26 +394,24 @@ integrations.post("/:id/test", async (c) => {
 integrations.post("/:id/rotate-keys", async (c) => {
   try {
     const integrationId = c.req.param('id');
-    const integrations = await kv.get('platform:integrations') || [];
-    const integrationIndex = integrations.findIndex((int: any) => int.id === integrationId);
+    const rotated = await updateIntegration(integrationId, (integration) => ({
+      ...integration,
+      credentials: {
+        apiKey: `sk_${integration.provider}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
+        apiSecret: `sec_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`,
+        webhookSecret: `whsec_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`
+      },
+      metadata: {
+        ...integration.metadata,
+        updated: new Date().toISOString()
+      }
+    }));
     
-    if (integrationIndex === -1) {
+    if (!rotated) {
       return c.json({ success: false, error: 'Integration not found' }, 404);
     }
     
-    const integration = integrations[integrationIndex];
-    const newApiKey = `sk_${integration.provider}_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-    const newApiSecret = `sec_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
-    const newWebhookSecret = `whsec_${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`;
-    
-    integrations[integrationIndex].credentials = {
-      apiKey: newApiKey,
-      apiSecret: newApiSecret,
-      webhookSecret: newWebhookSecret
-    };
-    integrations[integrationIndex].metadata.updated = new Date().toISOString();
-    
-    await kv.set('platform:integrations', integrations);
+    const { apiKey: newApiKey, apiSecret: newApiSecret, webhookSecret: newWebhookSecret } = rotated.credentials;
     
     try {
       await supabaseAdmin
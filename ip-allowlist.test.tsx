@@ -0,0 +1,89 @@
+/**
+ * Tests for IP allowlist matching: IPv4 and IPv6 CIDR ranges, IPv4-mapped
+ * addresses, and the range lists saved by the settings UI.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals, assertThrows } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { InvalidIpRangeError, IpAllowlistService, ipInRanges, parseRange, rangesFrom, validateRanges } from './ip-allowlist.tsx';
+
+// ============================================================================
+// parseRange
+// ============================================================================
+
+Deno.test('parseRange masks the network and defaults to a single address', () => {
+  assertEquals(parseRange('10.1.2.3/8'), { version: 4, network: 0x0a000000n, prefix: 8 });
+  assertEquals(parseRange('192.0.2.7'), { version: 4, network: 0xc0000207n, prefix: 32 });
+  assertEquals(parseRange('2001:db8::1/32'), { version: 6, network: 0x20010db8n << 96n, prefix: 32 });
+});
+
+Deno.test('parseRange rejects malformed addresses and prefixes', () => {
+  for (const range of ['256.0.0.1', '10.0.0/8', '10.0.0.1/33', '10.0.0.1/x', '10.0.0.1/8/8', '2001:db8::1::2', '2001:db8::/129', 'office']) {
+    assertEquals(parseRange(range), null, range);
+  }
+});
+
+// ============================================================================
+// ipInRanges
+// ============================================================================
+
+Deno.test('ipInRanges matches IPv4 addresses against CIDR ranges', () => {
+  const ranges = ['10.0.0.0/8', '192.0.2.7', '198.51.100.128/25'];
+  
+  assert(ipInRanges('10.255.0.1', ranges));
+  assert(ipInRanges('192.0.2.7', ranges));
+  assert(ipInRanges('198.51.100.200', ranges));
+  assert(!ipInRanges('198.51.100.127', ranges));
+  assert(!ipInRanges('11.0.0.1', ranges));
+  assert(ipInRanges('203.0.113.9', ['0.0.0.0/0']));
+});
+
+Deno.test('ipInRanges matches IPv6, including compressed and bracketed forms', () => {
+  const ranges = ['2001:db8:abcd::/48'];
+  
+  assert(ipInRanges('2001:db8:abcd:12::1', ranges));
+  assert(ipInRanges('[2001:DB8:ABCD::]', ranges));
+  assert(ipInRanges('fe80::1%eth0', ['fe80::/10']));
+  assert(!ipInRanges('2001:db8:abce::1', ranges));
+});
+
+Deno.test('ipInRanges treats IPv4-mapped IPv6 addresses as IPv4', () => {
+  assert(ipInRanges('::ffff:10.1.2.3', ['10.0.0.0/8']));
+  assert(ipInRanges('10.1.2.3', ['::ffff:10.1.2.3']));
+  assert(!ipInRanges('::ffff:10.1.2.3', ['::/0']));
+});
+
+Deno.test('ipInRanges never matches unparseable addresses or ranges', () => {
+  assert(!ipInRanges('unknown', ['0.0.0.0/0']));
+  assert(!ipInRanges('10.0.0.1', ['10.0.0.0/abc', 'office']));
+});
+
+// ============================================================================
+// RANGE LISTS
+// ============================================================================
+
+Deno.test('rangesFrom reads plain strings and settings entries', () => {
+  assertEquals(
+    rangesFrom([' 10.0.0.0/8 ', { cidr: '192.0.2.0/24', description: 'Office' }, { range: '2001:db8::/32' }, { ip: '198.51.100.1' }, '', null, {}]),
+    ['10.0.0.0/8', '192.0.2.0/24', '2001:db8::/32', '198.51.100.1'],
+  );
+  assertEquals(rangesFrom('10.0.0.0/8'), []);
+});
+
+Deno.test('validateRanges lists every entry that does not parse', () => {
+  assertEquals(validateRanges(['10.0.0.0/8', { cidr: '::1' }]), ['10.0.0.0/8', '::1']);
+  
+  const error = assertThrows(() => validateRanges(['10.0.0.0/8', '10.0.0.0/40', 'office']), InvalidIpRangeError);
+  assertEquals(error.ranges, ['10.0.0.0/40', 'office']);
+});
+
+Deno.test('getPlatformRanges merges the policy and settings lists without duplicates', async () => {
+  kv.setDriver(kv.createMemoryDriver({
+    'system:security_policies': { ipWhitelist: ['10.0.0.0/8', { cidr: '192.0.2.0/24' }] },
+    'system:settings:security': { allowedIpRanges: ['192.0.2.0/24', '2001:db8::/32'] },
+  }));
+  
+  assertEquals(await IpAllowlistService.getPlatformRanges(), ['10.0.0.0/8', '192.0.2.0/24', '2001:db8::/32']);
+});
@@ -0,0 +1,251 @@
+/**
+ * IP Allowlists for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Two lists of IPs / CIDR ranges (IPv4 and IPv6):
+ *
+ *   Platform - `ipWhitelist` in the security policies (system:security_policies)
+ *              plus `allowedIpRanges` in system:settings:security. Applies to
+ *              platform-admin routes and to every request by a platform admin.
+ *   Tenant   - `security.allowedIpRanges` in a tenant's settings. Applies to
+ *              that tenant's users and API keys.
+ *
+ * An empty list allows every address.
+ *
+ * Break-glass: a super admin (user_metadata.admin_role = 'super_admin') outside
+ * the platform list may still get in by sending an `x-break-glass` header with
+ * the reason. Every such request is written to the audit log.
+ */
+
+import type { Context, Next } from 'npm:hono';
+import * as kv from './kv_store.tsx';
+import { AuditService } from './data-service.tsx';
+import { getTenantSettings } from './booking-engine.tsx';
+import { getAuth, getRouteRule, clientIp } from './auth-middleware.tsx';
+
+export { clientIp };
+
+interface ParsedRange {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+// Allowlist entry saved by the settings UI, in place of a bare range
+interface AllowlistEntry {
+  cidr?: string;
+  range?: string;
+  ip?: string;
+  description?: string;
+}
+
+export class InvalidIpRangeError extends Error {
+  constructor(public ranges: string[]) {
+    super(`Invalid IP address or CIDR range: ${ranges.join(', ')}`);
+    this.name = 'InvalidIpRangeError';
+  }
+}
+
+// ============================================================================
+// ADDRESS PARSING
+// ============================================================================
+
+function parseIPv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+  
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) + BigInt(Number(part));
+  }
+  return value;
+}
+
+function parseIPv6(ip: string): bigint | null {
+  // Embedded IPv4 tail (e.g. ::ffff:192.0.2.1)
+  let tail: bigint | null = null;
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.includes('.')) {
+    tail = parseIPv4(ip.slice(lastColon + 1));
+    if (tail === null) return null;
+    ip = `${ip.slice(0, lastColon + 1)}0:0`;
+  }
+  
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) return null;
+  
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) + BigInt(parseInt(group, 16));
+  }
+  
+  return tail === null ? value : (value & ~0xffffffffn) | tail;
+}
+
+/**
+ * Parse an address, folding IPv4-mapped IPv6 (::ffff:a.b.c.d) into IPv4
+ */
+function parseIp(ip: string): { version: 4 | 6; value: bigint } | null {
+  const trimmed = ip.trim().replace(/^\[|\]$/g, '');
+  const v4 = parseIPv4(trimmed);
+  if (v4 !== null) return { version: 4, value: v4 };
+  
+  const v6 = parseIPv6(trimmed.split('%')[0]);
+  if (v6 === null) return null;
+  if (v6 >> 32n === 0xffffn) return { version: 4, value: v6 & 0xffffffffn };
+  return { version: 6, value: v6 };
+}
+
+function maskFor(version: 4 | 6, prefix: number): bigint {
+  const bits = version === 4 ? 32 : 128;
+  return prefix === 0 ? 0n : ((1n << BigInt(prefix)) - 1n) << BigInt(bits - prefix);
+}
+
+/**
+ * Parse `a.b.c.d`, `a.b.c.d/n`, an IPv6 address or an IPv6 range
+ */
+export function parseRange(range: string): ParsedRange | null {
+  const [address, prefixText, ...extra] = range.trim().split('/');
+  if (extra.length > 0) return null;
+  
+  const ip = parseIp(address);
+  if (!ip) return null;
+  
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!/^\d+$/.test(prefixText ?? String(bits)) || prefix > bits) return null;
+  
+  return { version: ip.version, network: ip.value & maskFor(ip.version, prefix), prefix };
+}
+
+/**
+ * Whether an address falls inside any of the ranges (unparseable entries never match)
+ */
+export function ipInRanges(ip: string, ranges: string[]): boolean {
+  const parsed = parseIp(ip);
+  if (!parsed) return false;
+  
+  return ranges.some((range) => {
+    const r = parseRange(range);
+    return !!r && r.version === parsed.version &&
+      (parsed.value & maskFor(r.version, r.prefix)) === r.network;
+  });
+}
+
+/**
+ * Range strings from a stored list, whose entries may be plain strings or
+ * objects such as { cidr, description }
+ */
+export function rangesFrom(list: unknown): string[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .map((entry: string | AllowlistEntry | null) => typeof entry === 'string' ? entry : entry?.cidr || entry?.range || entry?.ip)
+    .filter((range): range is string => typeof range === 'string' && range.trim().length > 0)
+    .map((range) => range.trim());
+}
+
+/**
+ * Throw InvalidIpRangeError unless every entry parses
+ */
+export function validateRanges(list: unknown): string[] {
+  const ranges = rangesFrom(list);
+  const invalid = ranges.filter((range) => !parseRange(range));
+  if (invalid.length > 0) {
+    throw new InvalidIpRangeError(invalid);
+  }
+  return ranges;
+}
+
+// ============================================================================
+// ALLOWLIST SERVICE
+// ============================================================================
+
+export const IpAllowlistService = {
+  /**
+   * Platform ranges from the security policies and platform security settings
+   */
+  async getPlatformRanges(): Promise<string[]> {
+    const [policies, securitySettings] = await Promise.all([
+      kv.get('system:security_policies'),
+      kv.get('system:settings:security'),
+    ]);
+    
+    return Array.from(new Set([
+      ...rangesFrom(policies?.ipWhitelist),
+      ...rangesFrom(securitySettings?.allowedIpRanges),
+    ]));
+  },
+  
+  /**
+   * Ranges from a tenant's `security.allowedIpRanges` setting
+   */
+  async getTenantRanges(tenantId: string): Promise<string[]> {
+    const settings = await getTenantSettings(tenantId);
+    return rangesFrom(settings.security?.allowedIpRanges);
+  },
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+function denied(c: Context, ip: string, scope: 'platform' | 'tenant') {
+  console.warn(`[IP Allowlist] Blocked ${c.req.method} ${c.req.path} from ${ip} (${scope} allowlist)`);
+  return c.json({ success: false, error: 'Forbidden - IP address not allowed', ip }, 403);
+}
+
+/**
+ * Hono middleware enforcing the allowlists. Mount it after authMiddleware,
+ * which resolves the caller and the route's access level.
+ */
+export function ipAllowlistMiddleware() {
+  return async (c: Context, next: Next) => {
+    const rule = getRouteRule(c);
+    if (c.req.method === 'OPTIONS' || !rule || rule.access === 'public') {
+      return next();
+    }
+    
+    const auth = getAuth(c);
+    const ip = clientIp(c);
+    
+    // Platform allowlist
+    if (rule.access === 'platform_admin' || auth?.isPlatformAdmin) {
+      const ranges = await IpAllowlistService.getPlatformRanges();
+      
+      if (ranges.length > 0 && !ipInRanges(ip, ranges)) {
+        const reason = c.req.header('x-break-glass')?.trim();
+        if (!auth?.isSuperAdmin || !reason) {
+          return denied(c, ip, 'platform');
+        }
+        
+        console.warn(`[IP Allowlist] Break-glass access by ${auth.email || auth.userId} from ${ip}: ${reason}`);
+        await AuditService.log('security.break_glass', 'ip_allowlist', auth.userId, {
+          userId: auth.userId,
+          userEmail: auth.email || undefined,
+          ipAddress: ip,
+          userAgent: c.req.header('User-Agent'),
+          data: { method: c.req.method, path: c.req.path, reason },
+        });
+      }
+      
+      return next();
+    }
+    
+    // Tenant allowlist
+    if (auth?.tenantId) {
+      const ranges = await IpAllowlistService.getTenantRanges(auth.tenantId);
+      if (ranges.length > 0 && !ipInRanges(ip, ranges)) {
+        return denied(c, ip, 'tenant');
+      }
+    }
+    
+    return next();
+  };
+}
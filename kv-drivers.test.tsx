@@ -0,0 +1,236 @@
+/**
+ * Tests for the local KV drivers: the memory and SQLite drivers must behave
+ * like the Supabase one for every operation kv_store.tsx delegates to them.
+ *
+ * Run with `deno test` (the SQLite driver uses an in-memory database).
+ */
+
+import { assert, assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { createMemoryDriver, createSqliteDriver, type KvDriver } from './kv-drivers.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DRIVERS: [string, () => KvDriver][] = [
+  ['memory', () => createMemoryDriver()],
+  ['sqlite', () => createSqliteDriver(':memory:')],
+];
+
+/**
+ * Register one test per driver, each with a fresh, empty store
+ */
+function driverTest(name: string, run: (driver: KvDriver) => Promise<void>): void {
+  for (const [driverName, create] of DRIVERS) {
+    Deno.test(`${driverName}: ${name}`, () => run(create()));
+  }
+}
+
+async function seed(driver: KvDriver, values: Record<string, unknown>): Promise<void> {
+  await driver.mset(Object.keys(values), Object.values(values));
+}
+
+// ============================================================================
+// GET / SET / MGET
+// ============================================================================
+
+driverTest('get returns what set stored, and undefined for a missing key', async (driver) => {
+  await driver.set('guest:t1:g1', { id: 'g1', tags: ['vip'], address: { city: 'Oslo' } });
+  
+  assertEquals(await driver.get('guest:t1:g1'), { id: 'g1', tags: ['vip'], address: { city: 'Oslo' } });
+  assertEquals(await driver.get('guest:t1:g2'), undefined);
+});
+
+driverTest('set replaces the stored value', async (driver) => {
+  await driver.set('guest:t1:g1', { id: 'g1', name: 'Ann' });
+  await driver.set('guest:t1:g1', { id: 'g1', name: 'Anna' });
+  
+  assertEquals(await driver.get('guest:t1:g1'), { id: 'g1', name: 'Anna' });
+});
+
+driverTest('mget returns values in the order of the keys, dropping missing ones', async (driver) => {
+  await seed(driver, { 'k:a': 'a', 'k:b': 'b', 'k:c': 'c' });
+  
+  assertEquals(await driver.mget(['k:c', 'k:missing', 'k:a', 'k:b']), ['c', 'a', 'b']);
+  assertEquals(await driver.mget([]), []);
+});
+
+driverTest('del and mdel remove keys', async (driver) => {
+  await seed(driver, { 'k:a': 1, 'k:b': 2, 'k:c': 3 });
+  
+  await driver.del('k:a');
+  await driver.mdel(['k:b', 'k:missing']);
+  
+  assertEquals(await driver.mget(['k:a', 'k:b', 'k:c']), [3]);
+});
+
+// ============================================================================
+// getByPrefix
+// ============================================================================
+
+driverTest('getByPrefix matches prefixes case-sensitively', async (driver) => {
+  await seed(driver, { 'guest:t1:g1': 1, 'Guest:t1:g2': 2, 'GUEST:t1:g3': 3, 'guest:t2:g4': 4 });
+  
+  assertEquals(await driver.getByPrefix('guest:t1:'), [1]);
+  assertEquals(await driver.getByPrefix('Guest:'), [2]);
+});
+
+driverTest('getByPrefix treats _ as a single-character wildcard, like LIKE', async (driver) => {
+  await seed(driver, { 'room_block:t1:b1': 1, 'room-block:t1:b2': 2, 'roomblock:t1:b3': 3 });
+  
+  assertEquals((await driver.getByPrefix('room_block:')).sort(), [1, 2]);
+});
+
+// ============================================================================
+// COMPARE-AND-SET / INCREMENT
+// ============================================================================
+
+driverTest('compareAndSet with null expected only creates a missing key', async (driver) => {
+  assert(await driver.compareAndSet('lock:a', null, { owner: 'x' }));
+  assertEquals(await driver.compareAndSet('lock:a', null, { owner: 'y' }), false);
+  
+  assertEquals(await driver.get('lock:a'), { owner: 'x' });
+});
+
+driverTest('compareAndSet writes only when the current value equals expected', async (driver) => {
+  await driver.set('guest:t1:g1', { id: 'g1', name: 'Ann', visits: 1 });
+  
+  assertEquals(await driver.compareAndSet('guest:t1:g1', { id: 'g1', name: 'Anne', visits: 1 }, { id: 'g1' }), false);
+  // Object key order does not matter, as with JSONB equality
+  assert(await driver.compareAndSet('guest:t1:g1', { visits: 1, name: 'Ann', id: 'g1' }, { id: 'g1', visits: 2 }));
+  
+  assertEquals(await driver.get('guest:t1:g1'), { id: 'g1', visits: 2 });
+});
+
+driverTest('compareAndSet with an expected value fails on a missing key', async (driver) => {
+  assertEquals(await driver.compareAndSet('guest:t1:g1', { id: 'g1' }, { id: 'g1', name: 'Ann' }), false);
+  assertEquals(await driver.get('guest:t1:g1'), undefined);
+});
+
+driverTest('mcompareAndSet writes every entry when all match', async (driver) => {
+  await seed(driver, { 'inv:r1:d1': 2, 'inv:r1:d2': 5 });
+  
+  assert(await driver.mcompareAndSet([
+    { key: 'inv:r1:d1', expected: 2, value: 1 },
+    { key: 'inv:r1:d2', expected: 5, value: 4 },
+    { key: 'hold:r1', expected: null, value: { by: 'x' } },
+  ]));
+  
+  assertEquals(await driver.mget(['inv:r1:d1', 'inv:r1:d2', 'hold:r1']), [1, 4, { by: 'x' }]);
+});
+
+driverTest('mcompareAndSet writes nothing when any entry conflicts', async (driver) => {
+  await seed(driver, { 'inv:r1:d1': 2, 'inv:r1:d2': 5, 'hold:r1': { by: 'y' } });
+  
+  assertEquals(await driver.mcompareAndSet([
+    { key: 'inv:r1:d1', expected: 2, value: 1 },
+    { key: 'inv:r1:d2', expected: 5, value: 4 },
+    { key: 'hold:r1', expected: null, value: { by: 'x' } },
+  ]), false);
+  
+  assertEquals(await driver.mget(['inv:r1:d1', 'inv:r1:d2', 'hold:r1']), [2, 5, { by: 'y' }]);
+});
+
+driverTest('increment starts missing keys at 0 and returns the new value', async (driver) => {
+  assertEquals(await driver.increment('usage:t1:api', 1), 1);
+  assertEquals(await driver.increment('usage:t1:api', 4), 5);
+  assertEquals(await driver.increment('usage:t1:api', -2), 3);
+  
+  assertEquals(await driver.get('usage:t1:api'), 3);
+});
+
+driverTest('increment rejects a non-numeric value and leaves it alone', async (driver) => {
+  await driver.set('usage:t1:api', 'lots');
+  
+  await assertRejects(() => driver.increment('usage:t1:api', 1), Error, 'not a number');
+  assertEquals(await driver.get('usage:t1:api'), 'lots');
+});
+
+// ============================================================================
+// SCAN
+// ============================================================================
+
+const GUESTS = {
+  'guest:t1:g1': { id: 'g1', name: 'Ann', email: 'ann@example.com', stays: 3 },
+  'guest:t1:g2': { id: 'g2', name: 'Bob', email: 'bob@example.com', stays: 1 },
+  'guest:t1:g3': { id: 'g3', name: 'Cleo', email: 'CLEO@example.com', stays: 3 },
+  'guest:t1:g4': { id: 'g4', name: 'Dan', email: 'dan@example.org', stays: 7 },
+  'guest:t1:g5': { id: 'g5', name: 'Eve', stays: 2 },
+  'guest:t2:g6': { id: 'g6', name: 'Finn', email: 'finn@example.com', stays: 9 },
+};
+
+/**
+ * Follow nextCursor to the end and return the ids of every page
+ */
+async function allPages(options: kv.ScanOptions): Promise<string[][]> {
+  const pages: string[][] = [];
+  let cursor: string | null = null;
+  do {
+    const page: kv.ScanPage<{ id: string }> = await kv.scan<{ id: string }>('guest:t1:', { ...options, cursor });
+    pages.push(page.items.map((guest) => guest.id));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return pages;
+}
+
+driverTest('scan pages through every row in key order with cursors', async (driver) => {
+  await seed(driver, GUESTS);
+  kv.setDriver(driver);
+  
+  assertEquals(await allPages({ limit: 2 }), [['g1', 'g2'], ['g3', 'g4'], ['g5']]);
+});
+
+driverTest('scan orders by a field, breaking ties by key, in both directions', async (driver) => {
+  await seed(driver, GUESTS);
+  kv.setDriver(driver);
+  
+  assertEquals(await allPages({ orderBy: 'stays', limit: 2 }), [['g2', 'g5'], ['g1', 'g3'], ['g4']]);
+  assertEquals(await allPages({ orderBy: 'stays', order: 'desc', limit: 2 }), [['g4', 'g3'], ['g1', 'g5'], ['g2']]);
+});
+
+driverTest('scan applies filters before paging and reports the filtered total', async (driver) => {
+  await seed(driver, GUESTS);
+  kv.setDriver(driver);
+  
+  const first = await kv.scan<{ id: string }>('guest:t1:', {
+    where: [{ field: 'email', op: 'contains', value: 'example.com' }],
+    orderBy: 'name',
+    limit: 2,
+  });
+  assertEquals(first.items.map((guest) => guest.id), ['g1', 'g2']);
+  assertEquals(first.total, 3);
+  
+  const second = await kv.scan<{ id: string }>('guest:t1:', {
+    where: [{ field: 'email', op: 'contains', value: 'example.com' }],
+    orderBy: 'name',
+    limit: 2,
+    cursor: first.nextCursor,
+  });
+  assertEquals(second.items.map((guest) => guest.id), ['g3']);
+  assertEquals(second.nextCursor, null);
+});
+
+driverTest('scan matches any of several fields and compares numbers as numbers', async (driver) => {
+  await seed(driver, GUESTS);
+  kv.setDriver(driver);
+  
+  const byText = await kv.scan<{ id: string }>('guest:t1:', { where: [{ field: ['name', 'email'], op: 'contains', value: 'eve' }] });
+  assertEquals(byText.items.map((guest) => guest.id), ['g5']);
+  
+  const frequent = await kv.scan<{ id: string }>('guest:t1:', { where: [{ field: 'stays', op: 'gte', value: 3 }] });
+  assertEquals(frequent.items.map((guest) => guest.id), ['g1', 'g3', 'g4']);
+  
+  const noEmail = await kv.scan<{ id: string }>('guest:t1:', { where: [{ field: 'email', op: 'neq', value: 'ann@example.com' }] });
+  assertEquals(noEmail.items.map((guest) => guest.id), ['g2', 'g3', 'g4', 'g5']);
+});
+
+driverTest('scan rejects a cursor made for a different ordering', async (driver) => {
+  await seed(driver, GUESTS);
+  kv.setDriver(driver);
+  
+  const page = await kv.scan<{ id: string }>('guest:t1:', { orderBy: 'stays', limit: 1 });
+  
+  await assertRejects(() => kv.scan('guest:t1:', { orderBy: 'name', cursor: page.nextCursor }), kv.InvalidCursorError);
+  await assertRejects(() => kv.scan('guest:t1:', { cursor: 'not-a-cursor' }), kv.InvalidCursorError);
+});
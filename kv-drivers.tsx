@@ -0,0 +1,639 @@
+/**
+ * Storage Drivers for the KV Store
+ *
+ * kv_store.tsx keeps the public API (get/set/del/mget/mset/mdel/getByPrefix,
+ * compare-and-set, increment, scan) and the read cache; a driver does the
+ * actual storage. Pick one with the `KV_DRIVER` environment variable:
+ *
+ *   supabase  (default) kv_store_0bdba248 table via SUPABASE_URL
+ *   memory    process-local Map, empty on every start (tests, offline runs)
+ *   sqlite    local file at KV_SQLITE_PATH (default ./kv_store.sqlite3)
+ *
+ * All drivers follow the Supabase semantics: values round-trip through JSON,
+ * prefixes match like SQL `LIKE '<prefix>%'`, mget returns values in the order
+ * of the keys asked for (missing keys dropped), and scan filters/orders values the way Postgres compares JSONB.
+ */
+
+import { createClient } from 'jsr:@supabase/supabase-js@2.49.8';
+import { prefixCovers } from './cache.tsx';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A predicate on a JSONB field of the stored values, evaluated by the driver.
+ * `field` is a dot path ("address.city"); pass several to match if any of them
+ * does (e.g. a search box over name and email). `contains` is a
+ * case-insensitive substring match.
+ */
+export interface ScanFilter {
+  field: string | string[];
+  op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+  value: string | number | boolean | null;
+}
+
+export interface ScanRequest {
+  filters: { fields: string[]; op: ScanFilter['op']; value: ScanFilter['value'] }[];
+  orderField: string | null; // Dot path; null = key order only
+  descending: boolean;
+  after: { value: unknown; key: string } | null; // Sort value and key of the last row already returned
+  offset: number;
+  limit: number;
+}
+
+export interface ScanRows {
+  total: number; // Rows matching the filters, ignoring `after`/`offset`/`limit`
+  rows: { key: string; value: unknown; sort: unknown }[]; // Up to limit + 1 rows
+}
+
+export interface CasEntry {
+  key: string;
+  expected: unknown; // null = the key must not exist yet
+  value: unknown;
+}
+
+export interface KvDriver {
+  name: string;
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  del(key: string): Promise<void>;
+  mget(keys: string[]): Promise<unknown[]>;
+  mset(keys: string[], values: unknown[]): Promise<void>;
+  mdel(keys: string[]): Promise<void>;
+  getByPrefix(prefix: string): Promise<unknown[]>;
+  compareAndSet(key: string, expected: unknown, value: unknown): Promise<boolean>;
+  mcompareAndSet(entries: CasEntry[]): Promise<boolean>;
+  increment(key: string, by: number): Promise<number>;
+  scan(prefix: string, request: ScanRequest): Promise<ScanRows>;
+}
+
+// ============================================================================
+// JSONB SEMANTICS (shared by the local drivers)
+// ============================================================================
+
+/**
+ * Serialize with sorted object keys, so equal JSONB values give equal strings
+ */
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return `{${Object.keys(object).sort().map(k => `${JSON.stringify(k)}:${canonical(object[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Equality as JSONB `=` sees it (object key order does not matter)
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  return canonical(a) === canonical(b);
+}
+
+// Postgres orders JSONB types as Object > Array > Boolean > Number > String > Null
+function typeRank(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'string') return 1;
+  if (typeof value === 'number') return 2;
+  if (typeof value === 'boolean') return 3;
+  if (Array.isArray(value)) return 4;
+  return 5;
+}
+
+/**
+ * Compare two JSON values the way a JSONB btree does
+ */
+export function compareJson(a: unknown, b: unknown): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+  
+  switch (rankA) {
+    case 0:
+      return 0;
+    case 1:
+      return (a as string) < (b as string) ? -1 : (a as string) > (b as string) ? 1 : 0;
+    case 2:
+      return (a as number) - (b as number);
+    case 3:
+      return Number(a) - Number(b);
+    case 4: {
+      const listA = a as unknown[];
+      const listB = b as unknown[];
+      if (listA.length !== listB.length) return listA.length - listB.length;
+      for (let i = 0; i < listA.length; i++) {
+        const diff = compareJson(listA[i], listB[i]);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    }
+    default: {
+      const keysA = Object.keys(a as object).length;
+      const keysB = Object.keys(b as object).length;
+      if (keysA !== keysB) return keysA - keysB;
+      const textA = canonical(a);
+      const textB = canonical(b);
+      return textA < textB ? -1 : textA > textB ? 1 : 0;
+    }
+  }
+}
+
+/**
+ * Follow a dot path into a value (`value #> '{a,b}'`); undefined when missing
+ */
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, part) =>
+      current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[part] : undefined,
+    value
+  );
+}
+
+/**
+ * Text form of a JSON value (`#>> '{}'`); null for JSON null or missing
+ */
+function asText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  return typeof value === 'string' ? value : canonical(value);
+}
+
+/**
+ * Mirror of the kv_store_0bdba248_match SQL function
+ */
+function matches(field: unknown, op: ScanFilter['op'], value: unknown): boolean {
+  if (op === 'neq') {
+    return field === undefined || !jsonEqual(field, value);
+  }
+  if (field === undefined) {
+    return false;
+  }
+  
+  switch (op) {
+    case 'eq':
+      return jsonEqual(field, value);
+    case 'gt':
+      return compareJson(field, value) > 0;
+    case 'gte':
+      return compareJson(field, value) >= 0;
+    case 'lt':
+      return compareJson(field, value) < 0;
+    case 'lte':
+      return compareJson(field, value) <= 0;
+    case 'contains': {
+      const text = asText(field);
+      const needle = asText(value);
+      return text !== null && needle !== null && text.toLowerCase().includes(needle.toLowerCase());
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Values of the found rows in the order their keys were asked for (SQL `IN`
+ * returns them in table order)
+ */
+function inKeyOrder(keys: string[], found: [string, unknown][]): unknown[] {
+  const byKey = new Map(found);
+  return keys.filter(key => byKey.has(key)).map(key => byKey.get(key));
+}
+
+/**
+ * Filter, order and page key/value pairs in memory with the same results as
+ * the kv_store_0bdba248_scan SQL function
+ */
+export function scanEntries(entries: [string, unknown][], request: ScanRequest): ScanRows {
+  const matched = entries
+    .filter(([, value]) =>
+      request.filters.every(f => f.fields.some(field => matches(getPath(value, field), f.op, f.value)))
+    )
+    .map(([key, value]) => ({
+      key,
+      value,
+      sort: request.orderField ? getPath(value, request.orderField) ?? null : null,
+    }));
+  
+  const direction = request.descending ? -1 : 1;
+  const compareRows = (a: { key: string; sort: unknown }, b: { key: string; sort: unknown }) =>
+    (compareJson(a.sort, b.sort) || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)) * direction;
+  
+  matched.sort(compareRows);
+  
+  const after = request.after;
+  const remaining = after
+    ? matched.filter(row => compareRows(row, { key: after.key, sort: after.value ?? null }) > 0)
+    : matched;
+  
+  return {
+    total: matched.length,
+    rows: remaining.slice(request.offset, request.offset + request.limit + 1),
+  };
+}
+
+// ============================================================================
+// SUPABASE DRIVER
+// ============================================================================
+
+/**
+ * Store values in the kv_store_0bdba248 table. Compare-and-set, increment and
+ * scan call the SQL functions documented at the top of kv_store.tsx.
+ */
+export function createSupabaseDriver(
+  url: string = Deno.env.get('SUPABASE_URL') ?? '',
+  serviceRoleKey: string = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+): KvDriver {
+  // Reuse a single client instance instead of creating new ones
+  let _client: ReturnType<typeof createClient> | null = null;
+  const client = () => {
+    if (!_client) {
+      _client = createClient(url, serviceRoleKey);
+    }
+    return _client;
+  };
+  
+  const table = () => client().from('kv_store_0bdba248');
+  
+  return {
+    name: 'supabase',
+    
+    async get(key) {
+      const { data, error } = await table().select('value').eq('key', key).maybeSingle();
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data?.value;
+    },
+    
+    async set(key, value) {
+      const { error } = await table().upsert({ key, value });
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    
+    async del(key) {
+      const { error } = await table().delete().eq('key', key);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    
+    async mget(keys) {
+      const { data, error } = await table().select('key, value').in('key', keys).returns<{ key: string; value: unknown }[]>();
+      if (error) {
+        throw new Error(error.message);
+      }
+      return inKeyOrder(keys, (data ?? []).map((d) => [d.key, d.value]));
+    },
+    
+    async mset(keys, values) {
+      const { error } = await table().upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    
+    async mdel(keys) {
+      const { error } = await table().delete().in('key', keys);
+      if (error) {
+        throw new Error(error.message);
+      }
+    },
+    
+    async getByPrefix(prefix) {
+      const { data, error } = await table().select('key, value').like('key', prefix + '%');
+      if (error) {
+        console.error(`[KV Store] getByPrefix error:`, {
+          code: error.code,
+          message: error.message,
+          details: error.details,
+          hint: error.hint
+        });
+        return [];
+      }
+      return data?.map((d) => d.value) ?? [];
+    },
+    
+    async compareAndSet(key, expected, value) {
+      const { data, error } = await client().rpc('kv_store_0bdba248_cas', {
+        p_key: key,
+        p_expected: expected ?? null,
+        p_value: value
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data === true;
+    },
+    
+    async mcompareAndSet(entries) {
+      const { data, error } = await client().rpc('kv_store_0bdba248_mcas', {
+        p_entries: entries.map(e => ({ key: e.key, expected: e.expected ?? null, value: e.value }))
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return data === true;
+    },
+    
+    async increment(key, by) {
+      const { data, error } = await client().rpc('kv_store_0bdba248_incr', {
+        p_key: key,
+        p_by: by
+      });
+      if (error) {
+        throw new Error(error.message);
+      }
+      return Number(data);
+    },
+    
+    async scan(prefix, request) {
+      const { data, error } = await client().rpc('kv_store_0bdba248_scan', {
+        p_prefix: prefix,
+        p_filters: request.filters,
+        p_order_field: request.orderField,
+        p_descending: request.descending,
+        p_after: request.after,
+        p_offset: request.offset,
+        p_limit: request.limit
+      }).returns<ScanRows | null>();
+      if (error) {
+        throw new Error(error.message);
+      }
+      return { total: Number(data?.total ?? 0), rows: data?.rows ?? [] };
+    },
+  };
+}
+
+// ============================================================================
+// IN-MEMORY DRIVER
+// ============================================================================
+
+/**
+ * Run synchronous driver code as a promise (a throw becomes a rejection)
+ */
+function settle<T>(run: () => T): Promise<T> {
+  return new Promise(resolve => resolve(run()));
+}
+
+/**
+ * Keep values in a process-local Map (stored as JSON text, so callers never
+ * share object references with the store). Everything is lost on restart.
+ */
+export function createMemoryDriver(initial?: Record<string, unknown>): KvDriver {
+  const store = new Map<string, string>();
+  for (const [key, value] of Object.entries(initial || {})) {
+    store.set(key, JSON.stringify(value));
+  }
+  
+  const read = (key: string): unknown => {
+    const text = store.get(key);
+    return text === undefined ? undefined : JSON.parse(text);
+  };
+  
+  const entriesUnder = (prefix: string): [string, unknown][] =>
+    Array.from(store.keys())
+      .filter(key => prefixCovers(prefix, key))
+      .map(key => [key, read(key)]);
+  
+  const matchesExpected = (key: string, expected: unknown): boolean => {
+    const current = read(key);
+    return expected === null || expected === undefined
+      ? current === undefined
+      : current !== undefined && jsonEqual(current, expected);
+  };
+  
+  return {
+    name: 'memory',
+    
+    get(key) {
+      return settle(() => read(key));
+    },
+    
+    set(key, value) {
+      return settle(() => {
+        store.set(key, JSON.stringify(value));
+      });
+    },
+    
+    del(key) {
+      return settle(() => {
+        store.delete(key);
+      });
+    },
+    
+    mget(keys) {
+      return settle(() => keys.filter(key => store.has(key)).map(read));
+    },
+    
+    mset(keys, values) {
+      return settle(() => keys.forEach((key, i) => store.set(key, JSON.stringify(values[i]))));
+    },
+    
+    mdel(keys) {
+      return settle(() => keys.forEach(key => store.delete(key)));
+    },
+    
+    getByPrefix(prefix) {
+      return settle(() => entriesUnder(prefix).map(([, value]) => value));
+    },
+    
+    compareAndSet(key, expected, value) {
+      return settle(() => {
+        if (!matchesExpected(key, expected)) return false;
+        store.set(key, JSON.stringify(value));
+        return true;
+      });
+    },
+    
+    mcompareAndSet(entries) {
+      // No await between the checks and the writes, so this is all-or-nothing
+      return settle(() => {
+        if (!entries.every(e => matchesExpected(e.key, e.expected))) return false;
+        entries.forEach(e => store.set(e.key, JSON.stringify(e.value)));
+        return true;
+      });
+    },
+    
+    increment(key, by) {
+      return settle(() => {
+        const current = Number(read(key) ?? 0);
+        if (!Number.isFinite(current)) {
+          throw new Error(`Value at ${key} is not a number`);
+        }
+        store.set(key, JSON.stringify(current + by));
+        return current + by;
+      });
+    },
+    
+    scan(prefix, request) {
+      return settle(() => scanEntries(entriesUnder(prefix), request));
+    },
+  };
+}
+
+// ============================================================================
+// SQLITE DRIVER
+// ============================================================================
+
+const SQLITE_MODULE = 'https://deno.land/x/sqlite@v3.9.1/mod.ts';
+
+// The part of the module's DB class this driver uses
+interface SqliteDatabase {
+  execute(sql: string): void;
+  query<R extends unknown[] = unknown[]>(sql: string, params?: unknown[]): R[];
+  transaction<T>(run: () => T): T;
+}
+
+/**
+ * Keep values in a local SQLite file with the same table layout as Supabase
+ * (values as JSON text). The WASM build of SQLite is loaded on first use, so
+ * deployments on the Supabase driver never download it.
+ */
+export function createSqliteDriver(path: string = Deno.env.get('KV_SQLITE_PATH') ?? './kv_store.sqlite3'): KvDriver {
+  let _db: Promise<SqliteDatabase> | null = null;
+  const db = () => {
+    if (!_db) {
+      _db = import(SQLITE_MODULE).then(({ DB }) => {
+        const database: SqliteDatabase = new DB(path);
+        database.execute(`
+          CREATE TABLE IF NOT EXISTS kv_store_0bdba248 (
+            key TEXT NOT NULL PRIMARY KEY,
+            value TEXT NOT NULL
+          );
+          PRAGMA case_sensitive_like = ON;
+        `);
+        return database;
+      });
+    }
+    return _db;
+  };
+  
+  // SQLite has no native JSONB, so values are parsed and compared in JS
+  const readOne = (database: SqliteDatabase, key: string): unknown => {
+    const rows = database.query<[string]>('SELECT value FROM kv_store_0bdba248 WHERE key = ?', [key]);
+    return rows.length > 0 ? JSON.parse(rows[0][0]) : undefined;
+  };
+  
+  const write = (database: SqliteDatabase, key: string, value: unknown): void => {
+    database.query(
+      'INSERT INTO kv_store_0bdba248 (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+      [key, JSON.stringify(value)]
+    );
+  };
+  
+  const placeholders = (count: number) => Array(count).fill('?').join(', ');
+  
+  // case_sensitive_like makes LIKE match Postgres, but builds may compile the
+  // pragma out, so keys are checked again with the cache's LIKE semantics
+  const entriesUnder = (database: SqliteDatabase, prefix: string): [string, unknown][] =>
+    database
+      .query<[string, string]>(`SELECT key, value FROM kv_store_0bdba248 WHERE key LIKE ? ESCAPE '\\'`, [prefix + '%'])
+      .filter(([key]) => prefixCovers(prefix, key))
+      .map(([key, value]) => [key, JSON.parse(value)]);
+  
+  const matchesExpected = (database: SqliteDatabase, key: string, expected: unknown): boolean => {
+    const current = readOne(database, key);
+    return expected === null || expected === undefined
+      ? current === undefined
+      : current !== undefined && jsonEqual(current, expected);
+  };
+  
+  return {
+    name: 'sqlite',
+    
+    async get(key) {
+      return readOne(await db(), key);
+    },
+    
+    async set(key, value) {
+      write(await db(), key, value);
+    },
+    
+    async del(key) {
+      (await db()).query('DELETE FROM kv_store_0bdba248 WHERE key = ?', [key]);
+    },
+    
+    async mget(keys) {
+      if (keys.length === 0) return [];
+      const rows = (await db()).query<[string, string]>(
+        `SELECT key, value FROM kv_store_0bdba248 WHERE key IN (${placeholders(keys.length)})`,
+        keys
+      );
+      return inKeyOrder(keys, rows.map(([key, value]) => [key, JSON.parse(value)]));
+    },
+    
+    async mset(keys, values) {
+      const database = await db();
+      database.transaction(() => keys.forEach((key, i) => write(database, key, values[i])));
+    },
+    
+    async mdel(keys) {
+      if (keys.length === 0) return;
+      (await db()).query(`DELETE FROM kv_store_0bdba248 WHERE key IN (${placeholders(keys.length)})`, keys);
+    },
+    
+    async getByPrefix(prefix) {
+      return entriesUnder(await db(), prefix).map(([, value]) => value);
+    },
+    
+    async compareAndSet(key, expected, value) {
+      const database = await db();
+      return database.transaction(() => {
+        if (!matchesExpected(database, key, expected)) return false;
+        write(database, key, value);
+        return true;
+      });
+    },
+    
+    async mcompareAndSet(entries) {
+      const database = await db();
+      return database.transaction(() => {
+        if (!entries.every(e => matchesExpected(database, e.key, e.expected))) return false;
+        entries.forEach(e => write(database, e.key, e.value));
+        return true;
+      });
+    },
+    
+    async increment(key, by) {
+      const database = await db();
+      return database.transaction(() => {
+        const current = Number(readOne(database, key) ?? 0);
+        if (!Number.isFinite(current)) {
+          throw new Error(`Value at ${key} is not a number`);
+        }
+        write(database, key, current + by);
+        return current + by;
+      });
+    },
+    
+    async scan(prefix, request) {
+      return scanEntries(entriesUnder(await db(), prefix), request);
+    },
+  };
+}
+
+// ============================================================================
+// DRIVER SELECTION
+// ============================================================================
+
+/**
+ * Build the driver named by the KV_DRIVER environment variable
+ */
+export function createDriverFromEnv(): KvDriver {
+  const name = (Deno.env.get('KV_DRIVER') || 'supabase').toLowerCase();
+  
+  switch (name) {
+    case 'memory':
+      return createMemoryDriver();
+    case 'sqlite':
+      return createSqliteDriver();
+    case 'supabase':
+      return createSupabaseDriver();
+    default:
+      throw new Error(`Unknown KV_DRIVER "${name}" (expected supabase, memory or sqlite)`);
+  }
+}
@@ -1,42 +1,156 @@
 /* AUTOGENERATED FILE - DO NOT EDIT CONTENTS */
 
-/* Table schema:
+/* Table schema (Supabase driver; the SQLite driver creates the same table with TEXT values):
 CREATE TABLE kv_store_0bdba248 (
   key TEXT NOT NULL PRIMARY KEY,
   value JSONB NOT NULL
 );
 */
 
+/* Functions backing compareAndSet, mcompareAndSet, increment and scan:
+-- Write p_value only if the stored value still equals p_expected (NULL = key must not exist)
+CREATE OR REPLACE FUNCTION kv_store_0bdba248_cas(p_key TEXT, p_expected JSONB, p_value JSONB)
+RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+BEGIN
+  IF p_expected IS NULL THEN
+    INSERT INTO kv_store_0bdba248 (key, value) VALUES (p_key, p_value) ON CONFLICT (key) DO NOTHING;
+  ELSE
+    UPDATE kv_store_0bdba248 SET value = p_value WHERE key = p_key AND value = p_expected;
+  END IF;
+  RETURN FOUND;
+END $$;
+
+-- All-or-nothing compare-and-set over [{ key, expected, value }, ...]
+CREATE OR REPLACE FUNCTION kv_store_0bdba248_mcas(p_entries JSONB)
+RETURNS BOOLEAN LANGUAGE plpgsql AS $$
+DECLARE
+  entry JSONB;
+BEGIN
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    IF entry->'expected' IS NULL OR entry->'expected' = 'null'::jsonb THEN
+      INSERT INTO kv_store_0bdba248 (key, value) VALUES (entry->>'key', entry->'value') ON CONFLICT (key) DO NOTHING;
+    ELSE
+      UPDATE kv_store_0bdba248 SET value = entry->'value' WHERE key = entry->>'key' AND value = entry->'expected';
+    END IF;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'kv_cas_conflict';
+    END IF;
+  END LOOP;
+  RETURN TRUE;
+EXCEPTION WHEN raise_exception THEN
+  RETURN FALSE;
+END $$;
+
+-- Atomically add p_by to a numeric value (missing keys start at 0) and return the result
+CREATE OR REPLACE FUNCTION kv_store_0bdba248_incr(p_key TEXT, p_by BIGINT)
+RETURNS BIGINT LANGUAGE sql AS $$
+  INSERT INTO kv_store_0bdba248 (key, value) VALUES (p_key, to_jsonb(p_by))
+  ON CONFLICT (key) DO UPDATE
+    SET value = to_jsonb(COALESCE((kv_store_0bdba248.value #>> '{}')::BIGINT, 0) + p_by)
+  RETURNING (value #>> '{}')::BIGINT;
+$$;
+-- Paged, filtered prefix scan backing scan(). Filters are [{ fields: [...], op, value }, ...];
+-- a row must pass every filter, and passes a filter if any of its fields match. Rows are
+-- ordered by p_order_field (a dot path into the value, NULL = key order only) then key, and
+-- p_after ({ value, key } of the last row already returned) continues from a previous page.
+CREATE OR REPLACE FUNCTION kv_store_0bdba248_match(p_field JSONB, p_op TEXT, p_value JSONB)
+RETURNS BOOLEAN LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_op
+    WHEN 'eq' THEN p_field = p_value
+    WHEN 'neq' THEN p_field IS DISTINCT FROM p_value
+    WHEN 'gt' THEN p_field > p_value
+    WHEN 'gte' THEN p_field >= p_value
+    WHEN 'lt' THEN p_field < p_value
+    WHEN 'lte' THEN p_field <= p_value
+    WHEN 'contains' THEN (p_field #>> '{}') ILIKE
+      '%' || replace(replace(replace(p_value #>> '{}', '\', '\\'), '%', '\%'), '_', '\_') || '%'
+    ELSE FALSE
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION kv_store_0bdba248_scan(
+  p_prefix TEXT,
+  p_filters JSONB DEFAULT '[]',
+  p_order_field TEXT DEFAULT NULL,
+  p_descending BOOLEAN DEFAULT FALSE,
+  p_after JSONB DEFAULT NULL,
+  p_offset INT DEFAULT 0,
+  p_limit INT DEFAULT 50
+)
+RETURNS JSONB LANGUAGE sql STABLE AS $$
+  WITH matched AS (
+    SELECT kv.key, kv.value,
+      COALESCE(kv.value #> string_to_array(p_order_field, '.'), 'null'::jsonb) AS sort_value
+    FROM kv_store_0bdba248 kv
+    WHERE kv.key LIKE p_prefix || '%'
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(p_filters) f
+        WHERE NOT EXISTS (
+          SELECT 1 FROM jsonb_array_elements_text(f->'fields') field
+          WHERE kv_store_0bdba248_match(kv.value #> string_to_array(field, '.'), f->>'op', f->'value')
+        )
+      )
+  ),
+  page AS (
+    SELECT m.*, row_number() OVER (
+      ORDER BY
+        CASE WHEN p_descending THEN m.sort_value END DESC,
+        CASE WHEN p_descending THEN m.key END DESC,
+        m.sort_value, m.key
+    ) AS position
+    FROM matched m
+    WHERE p_after IS NULL
+      OR (p_descending AND (m.sort_value, m.key) < (p_after->'value', p_after->>'key'))
+      OR (NOT p_descending AND (m.sort_value, m.key) > (p_after->'value', p_after->>'key'))
+    ORDER BY position
+    OFFSET p_offset
+    LIMIT p_limit + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM matched),
+    'rows', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('key', p.key, 'value', p.value, 'sort', p.sort_value) ORDER BY p.position) FROM page p),
+      '[]'::jsonb
+    )
+  );
+$$;
+*/
+
 // View at https://supabase.com/dashboard/project/faqelofxvlhfuoulcosc/database/tables
 
 // This file provides a simple key-value interface for storing Figma Make data. It should be adequate for most small-scale use cases.
-import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+// Storage is delegated to a driver (see kv-drivers.tsx): Supabase by default, or
+// in-memory / SQLite via KV_DRIVER so the app can run offline.
 import { cache } from "./cache.tsx";
+import { createDriverFromEnv, type KvDriver, type ScanFilter } from "./kv-drivers.tsx";
+
+export type { KvDriver, ScanFilter } from "./kv-drivers.tsx";
+export { createMemoryDriver, createSqliteDriver, createSupabaseDriver } from "./kv-drivers.tsx";
 
-// Reuse a single client instance instead of creating new ones
-let _client: ReturnType<typeof createClient> | null = null;
+// Created on first use so KV_DRIVER can be set before the first query
+let _driver: KvDriver | null = null;
 
-const client = () => {
-  if (!_client) {
-    _client = createClient(
-      Deno.env.get("SUPABASE_URL") ?? '',
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ''
-    );
+const driver = (): KvDriver => {
+  if (!_driver) {
+    _driver = createDriverFromEnv();
   }
-  return _client;
+  return _driver;
+};
+
+// Swaps the storage driver (e.g. an in-memory one for tests) and drops everything cached from the old one.
+export const setDriver = (next: KvDriver): void => {
+  _driver = next;
+  cache.clear();
 };
 
+// Name of the active driver ("supabase", "memory" or "sqlite").
+export const driverName = (): string => driver().name;
+
 // Set stores a key-value pair in the database.
 export const set = async (key: string, value: any): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_0bdba248").upsert({
-    key,
-    value
-  });
-  if (error) {
-    throw new Error(error.message);
-  }
-  // Update cache
+  await driver().set(key, value);
+  // Update cache (and drop cached prefix lists that should now include the key)
+  cache.invalidate(key);
   cache.set(key, value, 5 * 60 * 1000);
 };
 
@@ -48,82 +162,216 @@ export const get = async (key: string): Promise<any> => {
     return cached;
   }
   
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_0bdba248").select("value").eq("key", key).maybeSingle();
-  if (error) {
-    throw new Error(error.message);
-  }
-  
-  const value = data?.value;
-  // Cache for 5 minutes
+  const generation = cache.version();
+  const value = await driver().get(key);
+  // Cache for 5 minutes (skipped if the key may have been written meanwhile)
   if (value !== undefined && value !== null) {
-    cache.set(key, value, 5 * 60 * 1000);
+    cache.setIfCurrent(key, value, generation, 5 * 60 * 1000);
   }
   return value;
 };
 
 // Delete deletes a key-value pair from the database.
 export const del = async (key: string): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_0bdba248").delete().eq("key", key);
-  if (error) {
-    throw new Error(error.message);
-  }
-  // Remove from cache
-  cache.delete(key);
+  await driver().del(key);
+  // Remove from cache, along with cached prefix lists containing it
+  cache.invalidate(key);
 };
 
 // Sets multiple key-value pairs in the database.
 export const mset = async (keys: string[], values: any[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_0bdba248").upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
-  if (error) {
-    throw new Error(error.message);
-  }
+  await driver().mset(keys, values);
+  cache.invalidateMany(keys);
+  keys.forEach((k, i) => cache.set(k, values[i], 5 * 60 * 1000));
 };
 
 // Gets multiple key-value pairs from the database.
 export const mget = async (keys: string[]): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_0bdba248").select("value").in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
+  return await driver().mget(keys);
 };
 
 // Deletes multiple key-value pairs from the database.
 export const mdel = async (keys: string[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_0bdba248").delete().in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
+  await driver().mdel(keys);
+  cache.invalidateMany(keys);
 };
 
 // Search for key-value pairs by prefix.
 export const getByPrefix = async (prefix: string): Promise<any[]> => {
   // Check cache first (cache key includes prefix)
-  const cacheKey = `prefix:${prefix}`;
-  const cached = cache.get<any[]>(cacheKey);
+  const cached = cache.getPrefix(prefix);
   if (cached !== null) {
     return cached;
   }
   
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_0bdba248").select("key, value").like("key", prefix + "%");
-  if (error) {
-    console.error(`[KV Store] getByPrefix error:`, {
-      code: error.code,
-      message: error.message,
-      details: error.details,
-      hint: error.hint
-    });
-    return [];
+  const generation = cache.version();
+  const values = await driver().getByPrefix(prefix);
+  // Cache for 2 minutes; writes to any covered key evict it (see cache.invalidate)
+  cache.setPrefix(prefix, values, generation, 2 * 60 * 1000);
+  return values;
+};
+
+export interface ScanOptions {
+  where?: ScanFilter[];
+  orderBy?: string; // Dot path into the value; keys break ties (default: key order only)
+  order?: "asc" | "desc";
+  limit?: number; // Default 50
+  cursor?: string | null; // nextCursor of the previous page
+  offset?: number; // Rows to skip (after the cursor, if any)
+}
+
+export interface ScanPage<T = unknown> {
+  items: T[];
+  keys: string[];
+  total: number; // Rows matching the filters, across all pages
+  nextCursor: string | null; // null on the last page
+}
+
+// Thrown when scan() is given a cursor it did not produce for the same ordering.
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Position after the last row of a page: ordering field, direction, sort value and key
+interface ScanCursor {
+  o: string | null;
+  d: boolean;
+  v: unknown;
+  k: string;
+}
+
+const encodeCursor = (cursor: ScanCursor): string =>
+  btoa(encodeURIComponent(JSON.stringify(cursor))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const decodeCursor = (cursor: string): ScanCursor => {
+  try {
+    const decoded = JSON.parse(decodeURIComponent(atob(cursor.replace(/-/g, "+").replace(/_/g, "/"))));
+    if (typeof decoded?.k !== "string") throw new Error();
+    return decoded;
+  } catch {
+    throw new InvalidCursorError();
   }
+};
+
+// Reads one page of values under a prefix, filtered and ordered by the driver
+// (in the database for Supabase), instead of loading every row like getByPrefix.
+// Pages are not cached.
+export const scan = async <T = unknown>(prefix: string, options: ScanOptions = {}): Promise<ScanPage<T>> => {
+  const orderBy = options.orderBy ?? null;
+  const descending = options.order === "desc";
+  const limit = Math.max(options.limit ?? 50, 1);
   
-  const values = data?.map((d) => d.value) ?? [];
-  // Cache for 2 minutes (prefix queries change more frequently)
-  cache.set(cacheKey, values, 2 * 60 * 1000);
-  return values;
+  let after: { value: unknown; key: string } | null = null;
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    if (cursor.o !== orderBy || cursor.d !== descending) {
+      throw new InvalidCursorError();
+    }
+    after = { value: cursor.v, key: cursor.k };
+  }
+  
+  const { total, rows } = await driver().scan(prefix, {
+    filters: (options.where ?? []).map((f) => ({
+      fields: Array.isArray(f.field) ? f.field : [f.field],
+      op: f.op,
+      value: f.value
+    })),
+    orderField: orderBy,
+    descending,
+    after,
+    offset: Math.max(options.offset ?? 0, 0),
+    limit
+  });
+  
+  // The driver returns one extra row so we know whether another page exists
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  
+  return {
+    items: page.map((r) => r.value as T),
+    keys: page.map((r) => r.key),
+    total,
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ o: orderBy, d: descending, v: last.sort, k: last.key })
+      : null
+  };
+};
+
+// Thrown when update() keeps losing its compare-and-set to concurrent writers.
+export class ConcurrencyError extends Error {
+  key: string;
+
+  constructor(key: string, attempts: number) {
+    super(`Concurrent updates to ${key}; gave up after ${attempts} attempts`);
+    this.name = "ConcurrencyError";
+    this.key = key;
+  }
+}
+
+// Reads a value straight from the database, skipping the cache, as the base for a compare-and-set.
+export const getFresh = async <T = unknown>(key: string): Promise<T | null> => {
+  return ((await driver().get(key)) ?? null) as T | null;
+};
+
+// Compare-and-set writes value only if the stored value still equals expected
+// (null = the key must not exist yet). Returns false if another writer got there first.
+export const compareAndSet = async (key: string, expected: unknown, value: unknown): Promise<boolean> => {
+  const written = await driver().compareAndSet(key, expected ?? null, value);
+  // Either we wrote it or someone else did; cached copies are stale both ways
+  cache.invalidate(key);
+  if (!written) {
+    return false;
+  }
+  cache.set(key, value, 5 * 60 * 1000);
+  return true;
+};
+
+// Compare-and-set over several keys in one transaction: either every entry
+// still matches its expected value and all are written, or nothing is.
+export const mcompareAndSet = async (entries: { key: string; expected: unknown; value: unknown }[]): Promise<boolean> => {
+  if (entries.length === 0) return true;
+  const written = await driver().mcompareAndSet(entries.map((e) => ({ ...e, expected: e.expected ?? null })));
+  cache.invalidateMany(entries.map((e) => e.key));
+  if (!written) {
+    return false;
+  }
+  entries.forEach((e) => cache.set(e.key, e.value, 5 * 60 * 1000));
+  return true;
+};
+
+// Atomically adds `by` to a numeric value (missing keys start at 0) and returns the new value.
+export const increment = async (key: string, by: number = 1): Promise<number> => {
+  const value = await driver().increment(key, by);
+  cache.invalidate(key);
+  cache.set(key, value, 5 * 60 * 1000);
+  return value;
+};
+
+// Read-modify-write with optimistic concurrency: reads the current value,
+// applies fn and writes the result with compare-and-set, retrying from a fresh
+// read if another request changed the key in between. Return undefined from fn
+// to leave the key untouched. fn may run more than once, so keep it free of
+// side effects.
+export const update = async <T = unknown>(
+  key: string,
+  fn: (current: T | null) => T | undefined,
+  maxAttempts: number = 5
+): Promise<T | null> => {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const current = await getFresh<T>(key);
+    // fn gets a copy so in-place edits can't leak into the expected value
+    const next = fn(current === null ? null : structuredClone(current));
+    if (next === undefined) {
+      return current;
+    }
+    if (await compareAndSet(key, current, next)) {
+      return next;
+    }
+    // Back off a little (with jitter) before re-reading
+    await new Promise((resolve) => setTimeout(resolve, Math.random() * 20 * attempt));
+  }
+  throw new ConcurrencyError(key, maxAttempts);
 };
\ No newline at end of file
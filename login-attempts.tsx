@@ -0,0 +1,255 @@
+/**
+ * Login Attempt Tracking for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Counts failed logins per account and client IP, and per account across all
+ * IPs. After `maxLoginAttempts` failures (system:settings:security) from one IP
+ * the account is locked for that IP for `lockoutDuration` minutes. Keying on
+ * the IP means someone guessing passwords cannot lock the real user out from
+ * their own network with a handful of tries.
+ *
+ * Guesses spread over many addresses are caught by the account-wide count:
+ * after `maxAccountLoginAttempts` failures (default four times
+ * `maxLoginAttempts`) the account is locked for every IP.
+ *
+ *   login_attempts:<email>:<ip>   -> LoginAttempts (failures in the current window)
+ *   login_attempts:<email>:*      -> LoginAttempts (account-wide)
+ *   lockout:<email>:<ip>          -> Lockout
+ *   lockout:<email>:*             -> Lockout (account-wide)
+ *
+ * Locks and admin unlocks are written to the audit log.
+ */
+
+import * as kv from './kv_store.tsx';
+import { AuditService } from './data-service.tsx';
+
+export interface LoginAttempts {
+  email: string;
+  ip: string; // '*' for the account-wide count
+  failures: number;
+  firstFailureAt: string; // ISO timestamp
+  lastFailureAt: string; // ISO timestamp
+}
+
+export interface Lockout {
+  email: string;
+  ip: string; // '*' when locked for every IP
+  failures: number;
+  lockedAt: string; // ISO timestamp
+  lockedUntil: string; // ISO timestamp
+}
+
+export interface LoginFailureResult {
+  locked: boolean;
+  attemptsRemaining: number;
+  lockedUntil?: string;
+}
+
+const DEFAULT_MAX_LOGIN_ATTEMPTS = 5;
+const DEFAULT_LOCKOUT_MINUTES = 30;
+
+// Account-wide limit, as a multiple of the per-IP one, unless set
+const ACCOUNT_ATTEMPTS_FACTOR = 4;
+
+// The `ip` of account-wide counts and lockouts
+const ALL_IPS = '*';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function attemptsKey(email: string, ip: string): string {
+  return `login_attempts:${normalizeEmail(email)}:${ip}`;
+}
+
+function lockoutKey(email: string, ip: string): string {
+  return `lockout:${normalizeEmail(email)}:${ip}`;
+}
+
+function isActive(lockout: Lockout | null, now: number = Date.now()): lockout is Lockout {
+  return !!lockout && new Date(lockout.lockedUntil).getTime() > now;
+}
+
+/**
+ * Count one failure under a key, starting over once the last failure is older
+ * than the window. Returns the failures counted so far.
+ */
+async function countFailure(email: string, ip: string, windowMs: number, now: Date): Promise<number> {
+  const attempts = await kv.update<LoginAttempts>(attemptsKey(email, ip), (current) => {
+    if (!current || now.getTime() - new Date(current.lastFailureAt).getTime() > windowMs) {
+      return {
+        email: normalizeEmail(email),
+        ip,
+        failures: 1,
+        firstFailureAt: now.toISOString(),
+        lastFailureAt: now.toISOString(),
+      };
+    }
+    return { ...current, failures: current.failures + 1, lastFailureAt: now.toISOString() };
+  });
+  
+  return attempts?.failures || 1;
+}
+
+/**
+ * Every record under a prefix (keys and values)
+ */
+async function scanAll<T>(prefix: string): Promise<{ keys: string[]; items: T[] }> {
+  const keys: string[] = [];
+  const items: T[] = [];
+  let cursor: string | null = null;
+  
+  do {
+    const page: kv.ScanPage<T> = await kv.scan<T>(prefix, { limit: 500, cursor });
+    keys.push(...page.keys);
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  
+  return { keys, items };
+}
+
+// ============================================================================
+// LOGIN ATTEMPT SERVICE
+// ============================================================================
+
+export const LoginAttemptService = {
+  /**
+   * Lockout policy from the platform security settings
+   */
+  async getPolicy(): Promise<{ maxLoginAttempts: number; maxAccountLoginAttempts: number; lockoutMinutes: number }> {
+    const settings = await kv.get('system:settings:security');
+    const configured = Number(settings?.maxLoginAttempts);
+    const configuredAccount = Number(settings?.maxAccountLoginAttempts);
+    const lockoutMinutes = Number(settings?.lockoutDuration);
+    const maxLoginAttempts = configured > 0 ? configured : DEFAULT_MAX_LOGIN_ATTEMPTS;
+    
+    return {
+      maxLoginAttempts,
+      maxAccountLoginAttempts: configuredAccount > 0 ? configuredAccount : maxLoginAttempts * ACCOUNT_ATTEMPTS_FACTOR,
+      lockoutMinutes: lockoutMinutes > 0 ? lockoutMinutes : DEFAULT_LOCKOUT_MINUTES,
+    };
+  },
+  
+  /**
+   * Active lockout for an account from an IP (or for every IP), or null.
+   * When both apply, the one lasting longer.
+   */
+  async getLockout(email: string, ip: string): Promise<Lockout | null> {
+    const [ipLockout, accountLockout]: Array<Lockout | null> = await Promise.all([
+      kv.get(lockoutKey(email, ip)),
+      kv.get(lockoutKey(email, ALL_IPS)),
+    ]);
+    
+    const active = [ipLockout, accountLockout].filter((lockout) => isActive(lockout)) as Lockout[];
+    if (active.length === 0) return null;
+    return active.sort((a, b) => b.lockedUntil.localeCompare(a.lockedUntil))[0];
+  },
+  
+  /**
+   * Count a failed login for the account from this IP and for the account as a
+   * whole, locking whichever reached its limit. Failures older than the
+   * lockout duration no longer count.
+   */
+  async recordFailure(email: string, ip: string, options?: { userAgent?: string }): Promise<LoginFailureResult> {
+    const { maxLoginAttempts, maxAccountLoginAttempts, lockoutMinutes } = await this.getPolicy();
+    const windowMs = lockoutMinutes * 60 * 1000;
+    const now = new Date();
+    
+    const [failures, accountFailures] = await Promise.all([
+      countFailure(email, ip, windowMs, now),
+      countFailure(email, ALL_IPS, windowMs, now),
+    ]);
+    
+    const locks = [
+      { ip, failures, limit: maxLoginAttempts },
+      { ip: ALL_IPS, failures: accountFailures, limit: maxAccountLoginAttempts },
+    ].filter((count) => count.failures >= count.limit);
+    
+    if (locks.length === 0) {
+      return {
+        locked: false,
+        attemptsRemaining: Math.min(maxLoginAttempts - failures, maxAccountLoginAttempts - accountFailures),
+      };
+    }
+    
+    const lockedUntil = new Date(now.getTime() + windowMs).toISOString();
+    for (const lock of locks) {
+      const lockout: Lockout = {
+        email: normalizeEmail(email),
+        ip: lock.ip,
+        failures: lock.failures,
+        lockedAt: now.toISOString(),
+        lockedUntil,
+      };
+      
+      await kv.set(lockoutKey(email, lock.ip), lockout);
+      await kv.del(attemptsKey(email, lock.ip));
+      
+      const from = lock.ip === ALL_IPS ? 'every IP' : lock.ip;
+      console.warn(`[Login Attempts] Locked ${lockout.email} from ${from} until ${lockedUntil} after ${lock.failures} failures`);
+      await AuditService.log('security.account_locked', 'user', lockout.email, {
+        userEmail: lockout.email,
+        ipAddress: ip,
+        userAgent: options?.userAgent,
+        data: { failures: lock.failures, lockedIp: lock.ip, lockedUntil, lockoutMinutes },
+      });
+    }
+    
+    return { locked: true, attemptsRemaining: 0, lockedUntil };
+  },
+  
+  /**
+   * Forget failures after a successful login (from this IP and account-wide)
+   */
+  async recordSuccess(email: string, ip: string): Promise<void> {
+    await kv.mdel([attemptsKey(email, ip), attemptsKey(email, ALL_IPS)]);
+  },
+  
+  /**
+   * Active lockouts, soonest to expire first
+   */
+  async listLockouts(): Promise<Lockout[]> {
+    const { items } = await scanAll<Lockout>('lockout:');
+    const now = Date.now();
+    
+    return items
+      .filter((lockout) => isActive(lockout, now))
+      .sort((a, b) => a.lockedUntil.localeCompare(b.lockedUntil));
+  },
+  
+  /**
+   * Lift the lockouts for an account (only the one for `ip` when given; `*`
+   * is the account-wide one). Returns the lockouts removed.
+   */
+  async clearLockouts(
+    email: string,
+    options?: { ip?: string; clearedBy?: string; clearedByEmail?: string }
+  ): Promise<Lockout[]> {
+    const normalized = normalizeEmail(email);
+    const prefix = options?.ip ? lockoutKey(normalized, options.ip) : `lockout:${normalized}:`;
+    const { keys, items } = await scanAll<Lockout>(prefix);
+    
+    // An exact key is also a prefix of longer ones, so match the account exactly
+    const matching = keys
+      .map((key, i) => ({ key, lockout: items[i] }))
+      .filter(({ lockout }) => lockout?.email === normalized && (!options?.ip || lockout.ip === options.ip));
+    
+    if (matching.length === 0) return [];
+    
+    await kv.mdel(matching.map(({ key }) => key));
+    await kv.mdel(matching.map(({ lockout }) => attemptsKey(normalized, lockout.ip)));
+    
+    const cleared = matching.map(({ lockout }) => lockout);
+    await AuditService.log('security.account_unlocked', 'user', normalized, {
+      userId: options?.clearedBy,
+      userEmail: options?.clearedByEmail,
+      data: { email: normalized, ips: cleared.map((lockout) => lockout.ip) },
+    });
+    
+    return cleared;
+  },
+};
@@ -4,41 +4,16 @@
  */
 
 import { Hono } from "npm:hono";
-import { getSupabaseAdmin } from "../lib/supabase.tsx";
+import { getTenantId } from "../auth-middleware.tsx";
 
 const loyalty = new Hono();
-const supabaseAdmin = getSupabaseAdmin();
-
-// Helper to extract tenant from auth token
-async function getTenantFromAuth(c: any): Promise<string | null> {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader) return null;
-
-  const accessToken = authHeader.replace('Bearer ', '');
-  const { data: { user }, error } = await supabaseAdmin.auth.getUser(accessToken);
-  
-  if (error || !user) return null;
-  return user.user_metadata?.tenant_id || null;
-}
 
 // Get loyalty programs
 loyalty.get("/loyalty-programs", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const programs: any[] = [];
@@ -57,21 +32,9 @@ loyalty.get("/loyalty-programs", async (c) => {
 // Get campaigns
 loyalty.get("/campaigns", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const campaigns: any[] = [];
@@ -90,21 +53,9 @@ loyalty.get("/campaigns", async (c) => {
 // Get communications
 loyalty.get("/communications", async (c) => {
   try {
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const tenantId = user.user_metadata?.tenant_id;
+    const tenantId = getTenantId(c);
     if (!tenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const communicationTypes = [
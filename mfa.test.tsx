@@ -0,0 +1,156 @@
+/**
+ * Tests for two-factor authentication: codes follow RFC 6238 (so any
+ * authenticator app produces them), each code works once within the allowed
+ * clock drift, and recovery codes are used up.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { MfaError, MfaService, type MfaEnrollment } from './mfa.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const USER = 'u1';
+
+// The RFC 6238 test secret, and the same bytes as the app would scan them
+const SECRET_BYTES = new TextEncoder().encode('12345678901234567890');
+const SECRET_BASE32 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+/**
+ * Reference TOTP (HMAC-SHA1, 30 second steps, six digits), as an
+ * authenticator app computes it
+ */
+async function totp(unixSeconds: number): Promise<string> {
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setBigUint64(0, BigInt(Math.floor(unixSeconds / 30)));
+  
+  const key = await crypto.subtle.importKey('raw', SECRET_BYTES, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = new DataView(mac.buffer).getUint32(offset) & 0x7fffffff;
+  return String(binary % 1_000_000).padStart(6, '0');
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Fresh memory driver with an enrollment for USER on the test secret
+ */
+function useEnrollment(overrides?: Partial<MfaEnrollment>): void {
+  const enrollment: MfaEnrollment = {
+    userId: USER,
+    status: 'active',
+    secret: SECRET_BASE32,
+    recoveryCodeHashes: [],
+    lastUsedStep: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    activatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+  kv.setDriver(kv.createMemoryDriver({ [`mfa:${USER}`]: enrollment }));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+Deno.test('the reference TOTP matches the RFC 6238 test vectors', async () => {
+  assertEquals(await totp(59), '287082');
+  assertEquals(await totp(1111111109), '081804');
+  assertEquals(await totp(1234567890), '005924');
+});
+
+Deno.test('verify accepts the current code from the app once', async () => {
+  useEnrollment();
+  const code = await totp(nowSeconds());
+  
+  assertEquals(await MfaService.verify(USER, code), 'totp');
+  
+  const replay = await assertRejects(() => MfaService.verify(USER, code), MfaError);
+  assertEquals(replay.reason, 'invalid_code');
+});
+
+Deno.test('verify allows one step of clock drift, but no older code after a newer one', async () => {
+  useEnrollment();
+  const now = nowSeconds();
+  
+  assertEquals(await MfaService.verify(USER, await totp(now + 30)), 'totp');
+  const older = await totp(now);
+  await assertRejects(() => MfaService.verify(USER, older), MfaError);
+  const tooFar = await totp(now + 90);
+  await assertRejects(() => MfaService.verify(USER, tooFar), MfaError);
+});
+
+Deno.test('verify ignores spaces and refuses codes that are not six digits', async () => {
+  useEnrollment();
+  const code = await totp(nowSeconds());
+  
+  assertEquals(await MfaService.verify(USER, `${code.slice(0, 3)} ${code.slice(3)}`), 'totp');
+  await assertRejects(() => MfaService.verify(USER, code.slice(1)), MfaError, 'Invalid authentication code');
+});
+
+Deno.test('verify refuses users without an active second factor', async () => {
+  useEnrollment({ status: 'pending' });
+  const code = await totp(nowSeconds());
+  
+  const error = await assertRejects(() => MfaService.verify(USER, code), MfaError);
+  assertEquals(error.reason, 'not_enrolled');
+});
+
+// ============================================================================
+// RECOVERY CODES
+// ============================================================================
+
+Deno.test('a recovery code works once and is logged', async () => {
+  useEnrollment({ recoveryCodeHashes: [await sha256Hex('abcdefghij'), await sha256Hex('klmnopqrst')] });
+  
+  assertEquals(await MfaService.verify(USER, 'ABCDE-FGHIJ'), 'recovery_code');
+  await assertRejects(() => MfaService.verify(USER, 'abcde-fghij'), MfaError);
+  
+  assertEquals((await MfaService.status(USER)).recoveryCodesRemaining, 1);
+  const logs = await kv.getByPrefix('audit:') as { action: string }[];
+  assert(logs.some((log) => log.action === 'security.mfa_recovery_code_used'));
+});
+
+// ============================================================================
+// ENROLLMENT
+// ============================================================================
+
+Deno.test('enroll starts a pending enrollment with an otpauth URI for the app', async () => {
+  kv.setDriver(kv.createMemoryDriver({ 'system:settings:general': { platformName: 'Harbor Hotels' } }));
+  
+  const { secret, otpauthUri } = await MfaService.enroll(USER, 'ann@example.com');
+  
+  assert(/^[A-Z2-7]{32}$/.test(secret));
+  const [label, query] = otpauthUri.split('?');
+  assertEquals(label, 'otpauth://totp/Harbor%20Hotels%3Aann%40example.com');
+  assertEquals(Object.fromEntries(new URLSearchParams(query)), {
+    secret,
+    issuer: 'Harbor Hotels',
+    algorithm: 'SHA1',
+    digits: '6',
+    period: '30',
+  });
+  assertEquals((await MfaService.status(USER)).status, 'pending');
+});
+
+Deno.test('activate refuses a wrong code and leaves the enrollment pending', async () => {
+  useEnrollment({ status: 'pending', activatedAt: null });
+  const wrong = String((Number(await totp(nowSeconds())) + 500_000) % 1_000_000).padStart(6, '0');
+  
+  const error = await assertRejects(() => MfaService.activate(USER, wrong), MfaError);
+  
+  assertEquals(error.reason, 'invalid_code');
+  assertEquals((await MfaService.status(USER)).status, 'pending');
+});
@@ -0,0 +1,536 @@
+/**
+ * Two-Factor Authentication for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Time-based one-time passwords (RFC 6238: HMAC-SHA1, 30 second steps, six
+ * digits) from any authenticator app. Enrolling creates a pending secret and
+ * an otpauth:// URI for the app; the first valid code activates it and returns
+ * ten one-time recovery codes, stored only as SHA-256 hashes.
+ *
+ *   mfa:<userId>                   -> MfaEnrollment
+ *   mfa_session:<userId>:<session> -> MfaSession (sign-in session that passed a challenge)
+ *
+ * A second factor is required when the platform security settings
+ * (system:settings:security) or the caller's tenant settings set `require2FA`
+ * (tenants may also use `security.twoFactorAuth`), or an admin required it for
+ * the user (app_metadata.mfa_required). mfaMiddleware then only lets a
+ * signed-in user through once their current session has passed a challenge.
+ * API keys are not affected.
+ *
+ * Whether a user has an active second factor is mirrored to
+ * app_metadata.mfa_enabled for the user lists.
+ */
+
+import type { Context, Next } from 'npm:hono';
+import { getSupabaseAdmin } from './lib/supabase.tsx';
+import * as kv from './kv_store.tsx';
+import { cache } from './cache.tsx';
+import { AuditService } from './data-service.tsx';
+import { getTenantSettings } from './booking-engine.tsx';
+import { getAuth, getRouteRule, type AuthContext } from './auth-middleware.tsx';
+
+export interface MfaEnrollment {
+  userId: string;
+  status: 'pending' | 'active';
+  secret: string; // Base32 TOTP secret
+  recoveryCodeHashes: string[]; // SHA-256 of the unused recovery codes
+  lastUsedStep: number | null; // Time step of the last accepted code (codes work once)
+  createdAt: string; // ISO timestamp
+  activatedAt: string | null; // ISO timestamp
+}
+
+export interface MfaSession {
+  userId: string;
+  sessionId: string;
+  method: 'totp' | 'recovery_code';
+  verifiedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+}
+
+export interface MfaStatus {
+  status: 'none' | 'pending' | 'active';
+  activatedAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+export type MfaErrorReason = 'not_enrolled' | 'already_enrolled' | 'invalid_code';
+
+export class MfaError extends Error {
+  constructor(message: string, public reason: MfaErrorReason) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const ALLOWED_DRIFT_STEPS = 1; // Accept the previous and next code as well (clock skew)
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+const DEFAULT_ISSUER = 'HMS Platform';
+
+// A challenge holds for this long within one sign-in session
+const MFA_SESSION_TTL = 12 * 60 * 60 * 1000;
+
+// Verified sessions are remembered in memory for this long between KV reads
+const SESSION_CACHE_TTL = 60 * 1000;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  
+  return output;
+}
+
+function base32Decode(text: string): ArrayBuffer {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  
+  return new Uint8Array(bytes).buffer;
+}
+
+/**
+ * HOTP value (RFC 4226) for one counter
+ */
+async function hotp(secret: ArrayBuffer, counter: number): Promise<string> {
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setBigUint64(0, BigInt(counter));
+  
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, '0');
+}
+
+/**
+ * Time step a code belongs to (within the allowed drift), or null when it
+ * matches none
+ */
+async function matchTotp(secret: string, code: string, now: number = Date.now()): Promise<number | null> {
+  if (!new RegExp(`^\\d{${CODE_DIGITS}}$`).test(code)) return null;
+  
+  const key = base32Decode(secret);
+  const current = Math.floor(now / 1000 / STEP_SECONDS);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    if (await hotp(key, current + drift) === code) return current + drift;
+  }
+  return null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function enrollmentKey(userId: string): string {
+  return `mfa:${userId}`;
+}
+
+function sessionKey(userId: string, sessionId: string): string {
+  return `mfa_session:${userId}:${sessionId}`;
+}
+
+function normalizeCode(code: unknown): string {
+  return typeof code === 'string' ? code.replace(/[\s-]/g, '').toLowerCase() : '';
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Fresh recovery codes (`xxxxx-xxxxx`) and their hashes
+ */
+async function generateRecoveryCodes(): Promise<{ codes: string[]; hashes: string[] }> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const text = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${text.slice(0, 5)}-${text.slice(5)}`;
+  });
+  const hashes = await Promise.all(codes.map((code) => sha256Hex(normalizeCode(code))));
+  return { codes, hashes };
+}
+
+/**
+ * Mirror a user's MFA state to their auth app_metadata (merged by Supabase)
+ */
+async function syncUserMetadata(userId: string, metadata: Record<string, boolean>): Promise<void> {
+  const { error } = await getSupabaseAdmin().auth.admin.updateUserById(userId, { app_metadata: metadata });
+  if (error) {
+    console.warn(`[MFA] Could not update app_metadata for ${userId}:`, error.message);
+  }
+}
+
+// ============================================================================
+// MFA SERVICE
+// ============================================================================
+
+export const MfaService = {
+  /**
+   * Stored enrollment for a user, or null
+   */
+  async getEnrollment(userId: string): Promise<MfaEnrollment | null> {
+    return await kv.get(enrollmentKey(userId));
+  },
+  
+  /**
+   * Enrollment state for a user
+   */
+  async status(userId: string): Promise<MfaStatus> {
+    const enrollment = await this.getEnrollment(userId);
+    return {
+      status: enrollment?.status || 'none',
+      activatedAt: enrollment?.activatedAt || null,
+      recoveryCodesRemaining: enrollment?.status === 'active' ? enrollment.recoveryCodeHashes.length : 0,
+    };
+  },
+  
+  /**
+   * Whether each user has an active second factor
+   */
+  async activeFor(userIds: string[]): Promise<Record<string, boolean>> {
+    const enrollments = await Promise.all(userIds.map((id) => this.getEnrollment(id)));
+    return Object.fromEntries(userIds.map((id, i) => [id, enrollments[i]?.status === 'active']));
+  },
+  
+  /**
+   * Whether the user must pass a second factor: required by the platform, their
+   * tenant or an admin
+   */
+  async isRequired(auth: Pick<AuthContext, 'user' | 'tenantId'>): Promise<boolean> {
+    if (auth.user?.app_metadata?.mfa_required === true) return true;
+    
+    const platform = await kv.get('system:settings:security');
+    if (platform?.require2FA === true) return true;
+    
+    if (!auth.tenantId) return false;
+    const security = (await getTenantSettings(auth.tenantId)).security;
+    return security?.require2FA === true || security?.twoFactorAuth === true;
+  },
+  
+  /**
+   * Start enrolling: a new pending secret and the otpauth:// URI for the
+   * authenticator app. Replaces an unfinished enrollment.
+   */
+  async enroll(userId: string, accountName: string): Promise<{ secret: string; otpauthUri: string }> {
+    const existing = await this.getEnrollment(userId);
+    if (existing?.status === 'active') {
+      throw new MfaError('Two-factor authentication is already enabled', 'already_enrolled');
+    }
+    
+    const secret = base32Encode(crypto.getRandomValues(new Uint8Array(SECRET_BYTES)));
+    const enrollment: MfaEnrollment = {
+      userId,
+      status: 'pending',
+      secret,
+      recoveryCodeHashes: [],
+      lastUsedStep: null,
+      createdAt: new Date().toISOString(),
+      activatedAt: null,
+    };
+    await kv.set(enrollmentKey(userId), enrollment);
+    
+    const general = await kv.get('system:settings:general');
+    const issuer = general?.platformName || DEFAULT_ISSUER;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(CODE_DIGITS),
+      period: String(STEP_SECONDS),
+    });
+    
+    return { secret, otpauthUri: `otpauth://totp/${label}?${params}` };
+  },
+  
+  /**
+   * Finish enrolling with a code from the app. Returns the recovery codes,
+   * which are not shown again.
+   */
+  async activate(userId: string, code: string, options?: { email?: string; ipAddress?: string }): Promise<string[]> {
+    const enrollment = await this.getEnrollment(userId);
+    if (!enrollment) {
+      throw new MfaError('Two-factor authentication enrollment has not been started', 'not_enrolled');
+    }
+    if (enrollment.status === 'active') {
+      throw new MfaError('Two-factor authentication is already enabled', 'already_enrolled');
+    }
+    
+    const step = await matchTotp(enrollment.secret, normalizeCode(code));
+    if (step === null) {
+      throw new MfaError('Invalid authentication code', 'invalid_code');
+    }
+    
+    const { codes, hashes } = await generateRecoveryCodes();
+    await kv.set(enrollmentKey(userId), {
+      ...enrollment,
+      status: 'active',
+      recoveryCodeHashes: hashes,
+      lastUsedStep: step,
+      activatedAt: new Date().toISOString(),
+    });
+    
+    await syncUserMetadata(userId, { mfa_enabled: true });
+    await AuditService.log('security.mfa_enabled', 'user', userId, {
+      userId,
+      userEmail: options?.email,
+      ipAddress: options?.ipAddress,
+    });
+    
+    return codes;
+  },
+  
+  /**
+   * Check a code from the app or a recovery code (which is used up). Throws
+   * MfaError when the user has no active second factor or the code is wrong.
+   */
+  async verify(userId: string, code: string, options?: { email?: string; ipAddress?: string }): Promise<MfaSession['method']> {
+    const enrollment = await this.getEnrollment(userId);
+    if (enrollment?.status !== 'active') {
+      throw new MfaError('Two-factor authentication is not enabled', 'not_enrolled');
+    }
+    
+    const normalized = normalizeCode(code);
+    const step = await matchTotp(enrollment.secret, normalized);
+    
+    if (step !== null) {
+      // A code accepted once (or an older one) is not accepted again
+      let accepted = false;
+      await kv.update<MfaEnrollment>(enrollmentKey(userId), (current) => {
+        accepted = !!current && current.status === 'active' && step > (current.lastUsedStep ?? -1);
+        if (!accepted) return undefined;
+        return { ...current!, lastUsedStep: step };
+      });
+      if (accepted) return 'totp';
+    } else {
+      const hash = await sha256Hex(normalized);
+      let used = false;
+      let remaining = 0;
+      await kv.update<MfaEnrollment>(enrollmentKey(userId), (current) => {
+        used = !!current && current.recoveryCodeHashes.includes(hash);
+        if (!used) return undefined;
+        const recoveryCodeHashes = current!.recoveryCodeHashes.filter((h) => h !== hash);
+        remaining = recoveryCodeHashes.length;
+        return { ...current!, recoveryCodeHashes };
+      });
+      
+      if (used) {
+        await AuditService.log('security.mfa_recovery_code_used', 'user', userId, {
+          userId,
+          userEmail: options?.email,
+          ipAddress: options?.ipAddress,
+          data: { recoveryCodesRemaining: remaining },
+        });
+        return 'recovery_code';
+      }
+    }
+    
+    throw new MfaError('Invalid authentication code', 'invalid_code');
+  },
+  
+  /**
+   * Replace the recovery codes (needs a current code from the app)
+   */
+  async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const method = await this.verify(userId, code);
+    if (method !== 'totp') {
+      throw new MfaError('A code from the authenticator app is required', 'invalid_code');
+    }
+    
+    const { codes, hashes } = await generateRecoveryCodes();
+    await kv.update<MfaEnrollment>(enrollmentKey(userId), (current) => {
+      if (!current) return undefined;
+      return { ...current, recoveryCodeHashes: hashes };
+    });
+    
+    return codes;
+  },
+  
+  /**
+   * Remove a user's second factor and end their verified sessions
+   */
+  async disable(
+    userId: string,
+    options?: { disabledBy?: string; disabledByEmail?: string; ipAddress?: string }
+  ): Promise<boolean> {
+    const enrollment = await this.getEnrollment(userId);
+    if (!enrollment) return false;
+    
+    await kv.del(enrollmentKey(userId));
+    await this.endSessions(userId);
+    await syncUserMetadata(userId, { mfa_enabled: false });
+    
+    await AuditService.log('security.mfa_disabled', 'user', userId, {
+      userId: options?.disabledBy || userId,
+      userEmail: options?.disabledByEmail,
+      ipAddress: options?.ipAddress,
+      data: { wasActive: enrollment.status === 'active' },
+    });
+    
+    return true;
+  },
+  
+  /**
+   * Require (or stop requiring) a second factor for one user. An admin cannot
+   * enroll for someone else: the user is asked to enroll on their next request.
+   * Turning it off also removes the user's enrollment, for lost devices.
+   */
+  async setRequired(
+    userId: string,
+    required: boolean,
+    options?: { changedBy?: string; changedByEmail?: string; ipAddress?: string }
+  ): Promise<MfaStatus & { required: boolean }> {
+    await syncUserMetadata(userId, { mfa_required: required });
+    
+    if (!required) {
+      await this.disable(userId, {
+        disabledBy: options?.changedBy,
+        disabledByEmail: options?.changedByEmail,
+        ipAddress: options?.ipAddress,
+      });
+    }
+    
+    await AuditService.log('security.mfa_required', 'user', userId, {
+      userId: options?.changedBy,
+      userEmail: options?.changedByEmail,
+      ipAddress: options?.ipAddress,
+      data: { required },
+    });
+    
+    return { ...(await this.status(userId)), required };
+  },
+  
+  /**
+   * Record that a sign-in session passed a challenge
+   */
+  async startSession(userId: string, sessionId: string, method: MfaSession['method']): Promise<MfaSession> {
+    const now = Date.now();
+    const session: MfaSession = {
+      userId,
+      sessionId,
+      method,
+      verifiedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + MFA_SESSION_TTL).toISOString(),
+    };
+    
+    await kv.set(sessionKey(userId, sessionId), session);
+    cache.set(sessionKey(userId, sessionId), session, SESSION_CACHE_TTL);
+    return session;
+  },
+  
+  /**
+   * Whether a sign-in session has passed a challenge that has not expired
+   */
+  async isSessionVerified(userId: string, sessionId: string): Promise<boolean> {
+    const key = sessionKey(userId, sessionId);
+    const session = cache.get<MfaSession>(key) || await kv.get(key) as MfaSession | null;
+    if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return false;
+    
+    cache.set(key, session, SESSION_CACHE_TTL);
+    return true;
+  },
+  
+  /**
+   * Forget one session's verification (when it is revoked or expires)
+   */
+  async endSession(userId: string, sessionId: string): Promise<void> {
+    await kv.del(sessionKey(userId, sessionId));
+    cache.delete(sessionKey(userId, sessionId));
+  },
+  
+  /**
+   * Forget every verified session of a user
+   */
+  async endSessions(userId: string): Promise<void> {
+    let cursor: string | null = null;
+    do {
+      const page: kv.ScanPage = await kv.scan(`mfa_session:${userId}:`, { limit: 500, cursor });
+      if (page.keys.length > 0) {
+        await kv.mdel(page.keys);
+        page.keys.forEach((key) => cache.delete(key));
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+  },
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Hono middleware requiring a verified second factor where one is required.
+ * Mount it after authMiddleware. Routes marked `mfaExempt` in route-access.tsx
+ * (enrolling and answering the challenge) stay reachable.
+ */
+export function mfaMiddleware() {
+  return async (c: Context, next: Next) => {
+    const rule = getRouteRule(c);
+    if (c.req.method === 'OPTIONS' || !rule || rule.access === 'public' || rule.mfaExempt) {
+      return next();
+    }
+    
+    const auth = getAuth(c);
+    if (!auth || auth.apiKeyId || !auth.sessionId) {
+      return next();
+    }
+    
+    if (!(await MfaService.isRequired(auth))) {
+      return next();
+    }
+    
+    const enrollment = await MfaService.getEnrollment(auth.userId);
+    if (enrollment?.status !== 'active') {
+      return c.json({
+        success: false,
+        error: 'Forbidden - Two-factor authentication must be set up first',
+        mfa: 'enrollment_required',
+      }, 403);
+    }
+    
+    if (!(await MfaService.isSessionVerified(auth.userId, auth.sessionId))) {
+      return c.json({
+        success: false,
+        error: 'Unauthorized - Two-factor authentication required',
+        mfa: 'challenge_required',
+      }, 401);
+    }
+    
+    return next();
+  };
+}
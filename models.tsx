@@ -59,6 +59,43 @@ export interface Tenant {
   settings?: Record<string, any>;
 }
 
+// Tenant fields that hold credentials or provisioning diagnostics; they stay in
+// the KV record but never leave it through events, webhooks or search results
+export const TENANT_PRIVATE_FIELDS = ['tempPassword', 'userCreationError', 'tenantsTableError', 'usersTableError'] as const;
+
+export type TenantPrivateField = typeof TENANT_PRIVATE_FIELDS[number];
+
+/**
+ * Copy of a tenant record (or partial record) without its private fields
+ */
+export function redactTenant<T extends object>(tenant: T): Omit<T, TenantPrivateField> {
+  const data = { ...tenant } as Record<string, unknown>;
+  for (const field of TENANT_PRIVATE_FIELDS) {
+    delete data[field];
+  }
+  return data as Omit<T, TenantPrivateField>;
+}
+
+/**
+ * The tenant settings (Tenant.settings, saved by `PUT /tenants/:tenantId/settings`)
+ * the server acts on. The admin panel stores more sections than these.
+ */
+export interface TenantSettings {
+  timezone?: string; // IANA name, e.g. 'Europe/Oslo'
+  property?: {
+    checkInTime?: string; // e.g. '15:00' or '3:00 PM'
+  };
+  rooms?: {
+    allowOverbooking?: boolean;
+  };
+  security?: {
+    allowedIpRanges?: unknown[]; // CIDR strings or { cidr } entries
+    require2FA?: boolean;
+    twoFactorAuth?: boolean;
+    sessionTimeout?: number | string; // Minutes
+  };
+}
+
 // ============================================================================
 // SUBSCRIPTION & BILLING MODELS
 // ============================================================================
@@ -175,6 +212,7 @@ export interface UsageAlert {
   threshold: number; // Percentage threshold (e.g., 80)
   triggered: boolean;
   triggeredAt?: string; // ISO timestamp
+  period?: string; // Usage period (YYYY-MM) it triggered in
   resolvedAt?: string; // ISO timestamp
   notified: boolean;
   createdAt: string;
@@ -234,7 +272,15 @@ export type AuditAction =
   | 'integration.disconnected'
   | 'compliance.export'
   | 'compliance.deletion'
-  | 'settings.updated';
+  | 'settings.updated'
+  | 'security.break_glass'
+  | 'security.account_locked'
+  | 'security.account_unlocked'
+  | 'security.mfa_enabled'
+  | 'security.mfa_disabled'
+  | 'security.mfa_required'
+  | 'security.mfa_recovery_code_used'
+  | 'security.session_revoked';
 
 export interface AuditLog {
   id: string; // Format: audit:<timestamp>:<random>
@@ -320,12 +366,17 @@ export interface Webhook {
   id: string; // Format: webhook_<timestamp>_<random>
   tenantId?: string; // Optional: if webhook is tenant-specific
   url: string; // Webhook endpoint URL
+  description?: string;
   
   // Events
   events: WebhookEvent[];
+  apiVersion?: string; // Event catalog version (see webhook-events.tsx)
   
   // Security
   secret: string; // Secret for signature verification
+  previousSecret?: string; // Also signed with until previousSecretExpiresAt
+  previousSecretExpiresAt?: string; // ISO timestamp
+  secretRotatedAt?: string; // ISO timestamp
   
   // Status
   enabled: boolean;
@@ -345,7 +396,9 @@ export interface Webhook {
 export interface WebhookDelivery {
   id: string; // Format: delivery_<timestamp>_<random>
   webhookId: string;
+  eventId: string; // Same for every attempt at one event (see webhook-delivery.tsx)
   event: WebhookEvent;
+  url: string; // Endpoint at the time of the attempt
   
   // Payload
   payload: Record<string, any>;
@@ -357,8 +410,10 @@ export interface WebhookDelivery {
   error?: string;
   
   // Retry tracking
-  attemptCount: number;
-  nextRetryAt?: string; // ISO timestamp
+  attemptCount: number; // Number of this attempt (1 for the first)
+  nextRetryAt?: string; // ISO timestamp, when another attempt is queued
+  redeliveryOf?: string; // Delivery id, for a manual redelivery
+  durationMs?: number;
   
   // Timestamps
   createdAt: string; // ISO timestamp
@@ -371,15 +426,17 @@ export interface WebhookDelivery {
 
 export interface ApiKey {
   id: string; // Format: key_<timestamp>
-  key: string; // The actual API key (e.g., pk_live_...)
-  tenantId?: string; // Optional: for tenant-specific keys
+  keyHash: string; // SHA-256 of the key; the key itself (pk_live_...) is only returned at creation
+  keyPrefix: string; // Leading characters of the key, to recognise it in lists
+  tenantId?: string; // Tenant the key acts for
+  platform?: boolean; // Platform-wide key acting as a platform admin; only set explicitly at creation, never with tenantId
   
   // Details
   name: string; // Human-readable name
   description?: string;
   
   // Permissions
-  scopes: string[]; // e.g., ['read:tenants', 'write:subscriptions']
+  scopes: string[]; // Permissions the key carries, e.g. ['guests:read', 'reservations:*']
   
   // Status
   enabled: boolean;
@@ -610,6 +667,28 @@ export interface Guest {
   lastStayAt?: string; // ISO timestamp of last stay
 }
 
+// ============================================================================
+// ROOM MODELS (HMS/PMS)
+// ============================================================================
+
+export type RoomStatus = 'available' | 'occupied' | 'dirty' | 'maintenance' | 'out_of_order';
+
+export interface Room {
+  id: string; // Format: room_<timestamp>_<random>
+  roomNumber: string; // Unique per tenant (e.g., "204")
+  categoryId: string; // Link to room category
+  floor: number;
+  status: RoomStatus;
+  
+  // Attributes used for preference matching
+  bedType?: 'king' | 'queen' | 'twin' | 'double';
+  smoking?: boolean;
+  
+  // Metadata
+  created: string; // ISO timestamp
+  updated: string; // ISO timestamp
+}
+
 // ============================================================================
 // RESERVATION MODELS (HMS/PMS)
 // ============================================================================
@@ -617,6 +696,123 @@ export interface Guest {
 export type ReservationStatus = 'pending' | 'confirmed' | 'checked_in' | 'checked_out' | 'cancelled' | 'no_show';
 export type ReservationSource = 'direct' | 'phone' | 'email' | 'ota' | 'walk_in' | 'agent';
 
+export interface ReservationStatusChange {
+  from: ReservationStatus;
+  to: ReservationStatus;
+  at: string; // ISO timestamp
+  by?: string; // User ID
+  reason?: string;
+}
+
+export type RatePlanType = 'bar' | 'non_refundable' | 'corporate' | 'package';
+
+export interface RatePlan {
+  id: string; // Format: rp_<timestamp>_<random>
+  tenantId: string; // Tenant that owns this plan
+  
+  code: string; // e.g., "BAR", "NRF", "CORP-ACME"
+  name: string; // e.g., "Best Available Rate"
+  description?: string;
+  type: RatePlanType;
+  active: boolean;
+  
+  // Pricing: plans without a parent sell the nightly availability rate as-is,
+  // derived plans adjust their parent's price
+  parentPlanId?: string;
+  derivation?: {
+    method: 'percentage' | 'fixed';
+    value: number; // Percentage (-10 = 10% off) or cents (+2500 = $25 more)
+  };
+  
+  // Restrictions
+  roomCategoryIds?: string[]; // Empty = all categories
+  minLengthOfStay?: number; // Nights
+  maxLengthOfStay?: number; // Nights
+  closedToArrival?: string[]; // ISO dates guests cannot check in on
+  closedToDeparture?: string[]; // ISO dates guests cannot check out on
+  
+  // Terms
+  cancellationPolicyId?: string; // Overrides the category/default policy
+  corporateAccount?: string; // Company the corporate rate is negotiated with
+  inclusions?: string[]; // Package extras, e.g. "Breakfast", "Spa credit"
+  
+  // Metadata
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp
+}
+
+export type RateAdjustmentMethod = 'percentage' | 'fixed' | 'override';
+
+export interface RateAdjustment {
+  method: RateAdjustmentMethod;
+  value: number; // Percentage (+15 = 15% more), cents offset, or absolute cents for override
+}
+
+export interface RateRuleSet {
+  tenantId: string;
+  categoryId: string;
+  
+  baseRate: number; // In cents, rate before any rule applies
+  total?: number; // Rooms to open on newly created dates
+  
+  // Seasons adjust the base rate for a date range (later entries win on overlap)
+  seasons: {
+    id: string;
+    name: string; // e.g., "Summer High Season"
+    startDate: string; // ISO date, inclusive
+    endDate: string; // ISO date, inclusive
+    adjustment: RateAdjustment;
+  }[];
+  
+  // Day-of-week uplifts applied on top of the season rate
+  dayOfWeek: {
+    days: number[]; // 0 = Sunday ... 6 = Saturday
+    adjustment: RateAdjustment;
+  }[];
+  
+  // Events replace the computed rate outright
+  events: {
+    id: string;
+    name: string; // e.g., "City Marathon"
+    startDate: string; // ISO date, inclusive
+    endDate: string; // ISO date, inclusive
+    rate: number; // In cents
+  }[];
+  
+  updatedAt: string; // ISO timestamp
+  updatedBy?: string; // User ID
+}
+
+export interface NightlyRate {
+  date: string; // ISO date
+  baseRate: number; // In cents, availability rate for the category
+  rate: number; // In cents, after the plan's derivation chain
+}
+
+export type CancellationPolicyType = 'free_until' | 'first_night' | 'non_refundable';
+
+export interface CancellationPolicy {
+  id: string; // Format: cxl_<timestamp>_<random>
+  tenantId: string; // Tenant that owns this policy
+  
+  name: string; // e.g., "Flexible - 48h"
+  description?: string;
+  type: CancellationPolicyType;
+  
+  // free_until: free when cancelled at least N days before check-in,
+  // otherwise `penaltyNights` nights are charged
+  freeUntilDays?: number;
+  penaltyNights?: number; // Default: 1
+  
+  // Scope
+  roomCategoryIds?: string[]; // Empty = not tied to a category
+  isDefault: boolean; // Fallback for categories without their own policy
+  
+  // Metadata
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp
+}
+
 export interface Reservation {
   id: string; // Format: RES-123 (sequential per tenant)
   tenantId: string; // Tenant that owns this reservation
@@ -640,14 +836,18 @@ export interface Reservation {
   // Room Details
   roomCategoryId?: string; // Link to room category
   roomCategory: string; // e.g., "Deluxe Suite"
+  roomId?: string; // Physical room assigned (see RoomAssignmentService)
   roomNumber?: string; // Assigned when available
   numberOfRooms: number;
+  blockId?: string; // Group block the reservation was picked up from
   
   // Guest Count
   numberOfAdults: number;
   numberOfChildren: number;
   
   // Pricing
+  ratePlanId?: string; // Rate plan the stay was priced with
+  nightlyRates?: NightlyRate[]; // Per-night breakdown (per room) from the rate plan quote
   ratePerNight: number; // In cents
   totalAmount: number; // In cents
   currency: string; // e.g., "USD"
@@ -669,6 +869,64 @@ export interface Reservation {
   modifiedBy?: string; // User ID
   cancelledAt?: string; // ISO timestamp
   cancellationReason?: string;
+  
+  // Cancellation terms (copied from the matching policy at booking time)
+  cancellationPolicy?: Omit<CancellationPolicy, 'tenantId' | 'roomCategoryIds' | 'isDefault' | 'createdAt' | 'updatedAt'>;
+  cancellationFee?: number; // In cents, set when cancelled
+  refundDue?: number; // In cents, deposit owed back to the guest after the fee
+  
+  // Lifecycle (see reservation-lifecycle.tsx)
+  confirmedAt?: string; // ISO timestamp
+  confirmedBy?: string; // User ID
+  checkedInAt?: string; // ISO timestamp
+  checkedInBy?: string; // User ID
+  checkedOutAt?: string; // ISO timestamp
+  checkedOutBy?: string; // User ID
+  cancelledBy?: string; // User ID
+  noShowAt?: string; // ISO timestamp
+  noShowBy?: string; // User ID
+  statusHistory?: ReservationStatusChange[];
+}
+
+export type RoomBlockStatus = 'active' | 'released' | 'cancelled';
+
+export interface RoomBlockNight {
+  roomCategoryId: string;
+  date: string; // ISO date (a night of the block)
+  blocked: number; // Rooms held for the group
+  pickedUp: number; // Rooms already turned into reservations
+}
+
+export interface RoomBlock {
+  id: string; // Format: blk_<timestamp>_<random>
+  tenantId: string; // Tenant that owns this block
+  
+  // Group Details
+  code: string; // Booking code guests quote, e.g. "SMITHWED24"
+  name: string; // e.g., "Smith-Jones Wedding"
+  groupMaster: {
+    name: string; // Organiser / company
+    contactName?: string;
+    email?: string;
+    phone?: string;
+    billingInstructions?: string; // e.g. "Room and tax to master, incidentals to guest"
+  };
+  
+  // Allotment
+  checkInDate: string; // ISO date (first night)
+  checkOutDate: string; // ISO date (departure day)
+  nights: RoomBlockNight[];
+  releaseDate: string; // ISO date, unpicked rooms return to inventory after this day
+  ratePlanId?: string; // Rate plan picked-up reservations are priced with
+  
+  status: RoomBlockStatus;
+  reservationIds: string[]; // Reservations picked up from the block
+  
+  // Metadata
+  createdAt: string; // ISO timestamp
+  updatedAt?: string; // ISO timestamp
+  createdBy?: string; // User ID
+  releasedAt?: string; // ISO timestamp
 }
 
 // ============================================================================
@@ -1013,8 +1271,22 @@ export interface CommunicationLog {
  * - pref:<tenantId>:<guestId> - Guest preferences for tenant
  * - comm:<tenantId>:<guestId>:<commId> - Communication log for guest
  * 
+ * ROOMS (HMS/PMS):
+ * - tenant:<tenantId>:rooms - Array of physical rooms for tenant
+ * - tenant:<tenantId>:room_categories - Array of room categories for tenant
+ * - availability:<tenantId>:<categoryId>:<date> - Nightly inventory and rate
+ * 
  * RESERVATIONS (HMS/PMS):
  * - reservation:<tenantId>:<reservationId> - Reservation for tenant
+ * - cancellation_policy:<tenantId>:<policyId> - Cancellation policy for tenant
+ * - rate_plan:<tenantId>:<planId> - Rate plan for tenant
+ * - rate_rules:<tenantId>:<categoryId> - Seasonal/day-of-week rate rules for category
+ * - room_block:<tenantId>:<blockId> - Group block (allotment) for tenant
+ * - room_charge:<tenantId>:<reservationId>:<date> - Room-night charge posted by night audit
+ * 
+ * NIGHT AUDIT (HMS/PMS):
+ * - night_audit:<tenantId>:<date> - Daily occupancy/ADR/RevPAR snapshot
+ * - night_audit:<tenantId>:business_date - Open business date for tenant
  * 
  * LOYALTY PROGRAMS:
  * - loyalty_program:<tenantId>:<programId> - Loyalty program for tenant
@@ -1024,6 +1296,11 @@ export interface CommunicationLog {
  * MARKETING CAMPAIGNS:
  * - campaign:<tenantId>:<campaignId> - Marketing campaign for tenant
  * - campaign_recipient:<tenantId>:<campaignId>:<recipientId> - Campaign recipient
+ * 
+ * SECONDARY INDEXES (see secondary-index.tsx):
+ * - idx:guest_email:<tenantId>:<email> - Guest ID by lower-cased email
+ * - idx:reservation_confirmation:<tenantId>:<confirmationNumber> - Reservation ID by confirmation number
+ * - idx:loyalty_guest:<tenantId>:<guestId> - Loyalty member ID by guest ID
  */
 
 // ============================================================================
@@ -1033,6 +1310,7 @@ export interface CommunicationLog {
 export interface PaginationParams {
   page?: number; // 1-indexed
   limit?: number; // Items per page
+  cursor?: string; // nextCursor from the previous page (takes precedence over page)
 }
 
 export interface PaginationResult<T> {
@@ -1044,6 +1322,7 @@ export interface PaginationResult<T> {
     totalPages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    nextCursor?: string | null; // Set by lists backed by kv.scan
   };
 }
 
@@ -0,0 +1,159 @@
+/**
+ * Tests for the night audit: no-shows are only marked once the day's check-in
+ * time has passed in the tenant's time zone, in-house stays are charged once
+ * per night however often the audit is replayed, and the business date rolls.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { availabilityKey } from './booking-engine.tsx';
+import { NightAuditAlreadyRunError, NightAuditService, parseCheckInTime, zonedTime } from './night-audit.tsx';
+import type { Reservation } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+
+function reservation(id: string, overrides?: Partial<Reservation>): Reservation {
+  return {
+    id,
+    tenantId: TENANT,
+    guestName: 'Ann Example',
+    guestEmail: 'ann@example.com',
+    confirmationNumber: `T1-${id}`,
+    status: 'confirmed',
+    source: 'direct',
+    checkInDate: '2026-07-01',
+    checkOutDate: '2026-07-03',
+    numberOfNights: 2,
+    roomCategoryId: 'c1',
+    roomCategory: 'Double',
+    numberOfRooms: 1,
+    numberOfAdults: 2,
+    numberOfChildren: 0,
+    ratePerNight: 12000,
+    totalAmount: 24000,
+    currency: 'USD',
+    depositPaid: 0,
+    balanceDue: 24000,
+    paymentStatus: 'pending',
+    createdAt: '2026-06-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Fresh memory driver with a New York property checking in at 3 PM, two
+ * sellable rooms and the given reservations
+ */
+function useTenant(reservations: Reservation[]): void {
+  const initial: Record<string, unknown> = {
+    [`tenant:${TENANT}`]: { id: TENANT, settings: { timezone: 'America/New_York', property: { checkInTime: '03:00 PM' } } },
+    [`tenant:${TENANT}:rooms`]: [{ id: 'r1', status: 'occupied' }, { id: 'r2', status: 'available' }, { id: 'r3', status: 'out_of_order' }],
+    [`night_audit:${TENANT}:business_date`]: { date: '2026-07-01' },
+  };
+  for (const r of reservations) {
+    initial[`reservation:${TENANT}:${r.id}`] = r;
+  }
+  for (const date of ['2026-07-01', '2026-07-02']) {
+    initial[availabilityKey(TENANT, 'c1', date)] = { id: date, tenantId: TENANT, categoryId: 'c1', date, rate: 12000, available: 0, total: 2 };
+  }
+  kv.setDriver(kv.createMemoryDriver(initial));
+}
+
+async function status(id: string): Promise<string> {
+  return (await kv.get(`reservation:${TENANT}:${id}`) as Reservation).status;
+}
+
+// ============================================================================
+// TIME HELPERS
+// ============================================================================
+
+Deno.test('parseCheckInTime reads 12- and 24-hour times', () => {
+  assertEquals(parseCheckInTime('02:00 PM'), 14 * 60);
+  assertEquals(parseCheckInTime('12:15 AM'), 15);
+  assertEquals(parseCheckInTime('12:30 pm'), 12 * 60 + 30);
+  assertEquals(parseCheckInTime('15:45'), 15 * 60 + 45);
+  assertEquals(parseCheckInTime('soon'), 14 * 60);
+});
+
+Deno.test('zonedTime finds the instant a wall-clock time is reached in a zone', () => {
+  assertEquals(zonedTime('2026-07-01', 15 * 60, 'America/New_York'), Date.UTC(2026, 6, 1, 19, 0));
+  assertEquals(zonedTime('2026-01-15', 15 * 60, 'America/New_York'), Date.UTC(2026, 0, 15, 20, 0));
+  assertEquals(zonedTime('2026-07-01', 15 * 60, 'Asia/Tokyo'), Date.UTC(2026, 6, 1, 6, 0));
+});
+
+Deno.test('zonedTime handles the day clocks change and unknown zones', () => {
+  // Clocks in New York went forward at 2 AM on 8 March 2026
+  assertEquals(zonedTime('2026-03-08', 15 * 60, 'America/New_York'), Date.UTC(2026, 2, 8, 19, 0));
+  assertEquals(zonedTime('2026-07-01', 15 * 60, 'Not/AZone'), Date.UTC(2026, 6, 1, 15, 0));
+});
+
+// ============================================================================
+// NO-SHOWS
+// ============================================================================
+
+Deno.test('no-shows wait for the check-in time in the tenant time zone', async () => {
+  useTenant([reservation('RES-1')]);
+  
+  // 4 PM UTC is still noon in New York
+  const record = await NightAuditService.run(TENANT, { now: new Date('2026-07-01T16:00:00.000Z') });
+  
+  assertEquals(record.noShowsDeferred, true);
+  assertEquals(record.noShowReservationIds, []);
+  assertEquals(await status('RES-1'), 'confirmed');
+});
+
+Deno.test('unarrived reservations become no-shows and give back their rooms', async () => {
+  useTenant([reservation('RES-1'), reservation('RES-2', { status: 'checked_in' })]);
+  
+  const record = await NightAuditService.run(TENANT, { now: new Date('2026-07-02T03:00:00.000Z') });
+  
+  assertEquals(record.noShowReservationIds, ['RES-1']);
+  assertEquals(await status('RES-1'), 'no_show');
+  assertEquals(await status('RES-2'), 'checked_in');
+  assertEquals((await kv.get(availabilityKey(TENANT, 'c1', '2026-07-02')) as { available: number }).available, 1);
+});
+
+// ============================================================================
+// CHARGES AND SNAPSHOT
+// ============================================================================
+
+Deno.test('in-house stays are charged a night, early departures are not', async () => {
+  useTenant([
+    reservation('RES-1', { status: 'checked_in', numberOfRooms: 2 }),
+    reservation('RES-2', { status: 'checked_out', checkedOutAt: '2026-07-01T15:00:00.000Z' }),
+    // Left at 10 PM New York time on the 2nd, after the night of the 1st
+    reservation('RES-3', { status: 'checked_out', checkedOutAt: '2026-07-03T02:00:00.000Z' }),
+  ]);
+  
+  const record = await NightAuditService.run(TENANT, { now: new Date('2026-07-02T03:00:00.000Z') });
+  
+  assertEquals(record.chargesPosted, 2);
+  assertEquals(record.roomsSold, 3);
+  assertEquals(record.roomRevenue, 36000);
+  assertEquals(record.roomsAvailable, 2);
+  assertEquals(record.adr, 12000);
+  assertEquals((await NightAuditService.getCharges(TENANT, 'RES-1')).map((charge) => charge.amount), [24000]);
+  assertEquals(await NightAuditService.getCharges(TENANT, 'RES-2'), []);
+});
+
+Deno.test('the business date rolls, and a replay recomputes without double-posting', async () => {
+  useTenant([reservation('RES-1', { status: 'checked_in' })]);
+  const now = new Date('2026-07-02T03:00:00.000Z');
+  
+  await NightAuditService.run(TENANT, { now });
+  assertEquals(await NightAuditService.getBusinessDate(TENANT), '2026-07-02');
+  
+  await assertRejects(() => NightAuditService.run(TENANT, { date: '2026-07-01', now }), NightAuditAlreadyRunError);
+  
+  const replay = await NightAuditService.run(TENANT, { date: '2026-07-01', replay: true, now });
+  assertEquals(replay.runCount, 2);
+  assertEquals(replay.chargesPosted, 1);
+  assertEquals((await NightAuditService.getCharges(TENANT, 'RES-1')).length, 1);
+  assertEquals(await NightAuditService.getBusinessDate(TENANT), '2026-07-02');
+});
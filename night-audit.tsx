@@ -0,0 +1,324 @@
+/**
+ * Night Audit for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Closes a tenant's business day:
+ * 1. Marks confirmed reservations that never arrived as no-shows (once the
+ *    tenant's check-in time for that day has passed)
+ * 2. Posts one room-night charge per in-house reservation
+ * 3. Releases unpicked rooms of group blocks whose release date has closed
+ * 4. Snapshots occupancy, ADR and RevPAR into `night_audit:<tenantId>:<date>`
+ * 5. Rolls the tenant's business date forward
+ *
+ * Charges are written under deterministic keys, so replaying an audit for the
+ * same date recomputes the snapshot without double-posting revenue.
+ */
+
+import * as kv from './kv_store.tsx';
+import { ReservationService } from './data-service.tsx';
+import { getTenantSettings } from './booking-engine.tsx';
+import { RoomBlockService } from './room-blocks.tsx';
+import type { Reservation, Room } from './models.tsx';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RoomNightCharge {
+  id: string; // Format: room_charge:<tenantId>:<reservationId>:<date>
+  tenantId: string;
+  reservationId: string;
+  date: string; // Business date the night belongs to
+  roomId?: string;
+  roomNumber?: string;
+  numberOfRooms: number;
+  amount: number; // In cents
+  currency: string;
+  postedAt: string; // ISO timestamp
+}
+
+export interface NightAuditRecord {
+  id: string; // Format: night_audit:<tenantId>:<date>
+  tenantId: string;
+  businessDate: string; // YYYY-MM-DD
+  
+  // Actions taken
+  noShowReservationIds: string[];
+  noShowsDeferred: boolean; // True when run before the day's check-in time
+  chargesPosted: number;
+  blocksReleased: string[]; // Group blocks released at their cutoff
+  
+  // Snapshot
+  roomsAvailable: number;
+  roomsSold: number;
+  roomRevenue: number; // In cents
+  occupancy: number; // Percentage (0-100)
+  adr: number; // Average daily rate, in cents
+  revpar: number; // Revenue per available room, in cents
+  
+  // Metadata
+  runCount: number;
+  runBy?: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+/**
+ * Raised when an audit for a date has already run and replay was not requested
+ */
+export class NightAuditAlreadyRunError extends Error {
+  businessDate: string;
+  
+  constructor(businessDate: string) {
+    super(`Night audit for ${businessDate} has already run`);
+    this.name = 'NightAuditAlreadyRunError';
+    this.businessDate = businessDate;
+  }
+}
+
+const DEFAULT_CHECK_IN_TIME = '02:00 PM';
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+// Rooms that cannot be sold and so do not count towards occupancy
+const OUT_OF_INVENTORY_STATUSES = ['maintenance', 'out_of_order'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Parse a settings time such as "02:00 PM" or "14:00" into minutes after midnight
+ */
+export function parseCheckInTime(value?: string): number {
+  const match = (value || DEFAULT_CHECK_IN_TIME).trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i);
+  if (!match) return parseCheckInTime(DEFAULT_CHECK_IN_TIME);
+  
+  let hours = parseInt(match[1]) % 12;
+  const minutes = parseInt(match[2]);
+  const meridiem = match[3]?.toUpperCase();
+  
+  if (meridiem === 'PM') hours += 12;
+  else if (!meridiem) hours = parseInt(match[1]);
+  
+  return hours * 60 + minutes;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds (UTC for an
+ * unknown zone)
+ */
+function timeZoneOffset(instant: number, timeZone: string): number {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).formatToParts(new Date(instant));
+  } catch {
+    return 0;
+  }
+  
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Instant at which the clocks in `timeZone` show `minutes` past midnight on `date`
+ */
+export function zonedTime(date: string, minutes: number, timeZone: string): number {
+  const wallClock = new Date(`${date}T00:00:00.000Z`).getTime() + minutes * 60 * 1000;
+  const offset = timeZoneOffset(wallClock, timeZone);
+  
+  // The first guess can land on the other side of a DST change
+  const corrected = timeZoneOffset(wallClock - offset, timeZone);
+  return wallClock - corrected;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in `timeZone`
+ */
+function zonedDate(instant: string, timeZone: string): string {
+  const time = new Date(instant).getTime();
+  return new Date(time + timeZoneOffset(time, timeZone)).toISOString().split('T')[0];
+}
+
+/**
+ * Whether a reservation occupied a room on the night of `date`: checked in
+ * and staying over it, or since checked out on a later day (so replaying a
+ * past date still charges stays that have ended)
+ */
+function isInHouse(reservation: Reservation, date: string, timeZone: string): boolean {
+  if (reservation.checkInDate > date || date >= reservation.checkOutDate) return false;
+  
+  if (reservation.status === 'checked_in') return true;
+  if (reservation.status !== 'checked_out') return false;
+  
+  // A guest who left early was not in house on the nights after departure
+  return !reservation.checkedOutAt || zonedDate(reservation.checkedOutAt, timeZone) > date;
+}
+
+// ============================================================================
+// NIGHT AUDIT SERVICE
+// ============================================================================
+
+export const NightAuditService = {
+  /**
+   * Get the tenant's current (open) business date
+   */
+  async getBusinessDate(tenantId: string): Promise<string> {
+    const stored = await kv.get(`night_audit:${tenantId}:business_date`);
+    return stored?.date || new Date().toISOString().split('T')[0];
+  },
+  
+  /**
+   * Get the audit snapshot for a date
+   */
+  async get(tenantId: string, date: string): Promise<NightAuditRecord | null> {
+    return await kv.get(`night_audit:${tenantId}:${date}`);
+  },
+  
+  /**
+   * List audit snapshots for a tenant, most recent first
+   */
+  async list(tenantId: string): Promise<NightAuditRecord[]> {
+    const records = await kv.getByPrefix(`night_audit:${tenantId}:`) as NightAuditRecord[];
+    return records
+      .filter(r => r?.businessDate)
+      .sort((a, b) => b.businessDate.localeCompare(a.businessDate));
+  },
+  
+  /**
+   * Run (or replay) the night audit for a tenant's business date
+   */
+  async run(
+    tenantId: string,
+    options?: { date?: string; replay?: boolean; userId?: string; now?: Date }
+  ): Promise<NightAuditRecord> {
+    const businessDate = options?.date || await this.getBusinessDate(tenantId);
+    const auditKey = `night_audit:${tenantId}:${businessDate}`;
+    const previous: NightAuditRecord | null = await kv.get(auditKey);
+    
+    if (previous && !options?.replay) {
+      throw new NightAuditAlreadyRunError(businessDate);
+    }
+    
+    const now = options?.now || new Date();
+    const settings = await getTenantSettings(tenantId);
+    
+    // Guests are only late once the day's check-in time has passed at the property
+    const timeZone = settings.timezone || DEFAULT_TIMEZONE;
+    const checkInMinutes = parseCheckInTime(settings.property?.checkInTime);
+    const checkInDeadline = zonedTime(businessDate, checkInMinutes, timeZone);
+    const noShowsDeferred = now.getTime() < checkInDeadline;
+    
+    const reservations = await kv.getByPrefix(`reservation:${tenantId}:`) as Reservation[];
+    
+    // 1. No-shows
+    const noShowReservationIds: string[] = [];
+    if (!noShowsDeferred) {
+      const unarrived = reservations.filter(r =>
+        r.status === 'confirmed' && r.checkInDate <= businessDate
+      );
+      
+      for (const reservation of unarrived) {
+        try {
+          await ReservationService.transition(tenantId, reservation.id, 'no_show', {
+            userId: options?.userId || 'system:night_audit',
+            reason: `Not arrived by night audit for ${businessDate}`,
+          });
+          noShowReservationIds.push(reservation.id);
+        } catch (error) {
+          console.error(`[Night Audit] Could not mark ${reservation.id} as no-show:`, error);
+        }
+      }
+    }
+    
+    // 2. Room-night charges for in-house guests
+    const inHouse = reservations.filter(r => isInHouse(r, businessDate, timeZone));
+    const postedAt = now.toISOString();
+    const chargeKeys: string[] = [];
+    const charges: RoomNightCharge[] = inHouse.map(r => {
+      const id = `room_charge:${tenantId}:${r.id}:${businessDate}`;
+      chargeKeys.push(id);
+      return {
+        id,
+        tenantId,
+        reservationId: r.id,
+        date: businessDate,
+        roomId: r.roomId,
+        roomNumber: r.roomNumber,
+        numberOfRooms: r.numberOfRooms || 1,
+        amount: (r.ratePerNight || 0) * (r.numberOfRooms || 1),
+        currency: r.currency || 'USD',
+        postedAt,
+      };
+    });
+    
+    if (chargeKeys.length > 0) {
+      await kv.mset(chargeKeys, charges);
+    }
+    
+    // 3. Group blocks past their release date give unpicked rooms back
+    const releasedBlocks = await RoomBlockService.releaseExpired(tenantId, businessDate);
+    
+    // 4. Statistics
+    const rooms = await kv.get(`tenant:${tenantId}:rooms`) as Room[] || [];
+    const roomsAvailable = rooms.filter(r => !OUT_OF_INVENTORY_STATUSES.includes(r.status)).length;
+    const roomsSold = charges.reduce((sum, charge) => sum + charge.numberOfRooms, 0);
+    const roomRevenue = charges.reduce((sum, charge) => sum + charge.amount, 0);
+    
+    const record: NightAuditRecord = {
+      id: auditKey,
+      tenantId,
+      businessDate,
+      noShowReservationIds: [...(previous?.noShowReservationIds || []), ...noShowReservationIds],
+      noShowsDeferred,
+      chargesPosted: charges.length,
+      blocksReleased: [...(previous?.blocksReleased || []), ...releasedBlocks.map(b => b.id)],
+      roomsAvailable,
+      roomsSold,
+      roomRevenue,
+      occupancy: roomsAvailable > 0 ? Math.round((roomsSold / roomsAvailable) * 10000) / 100 : 0,
+      adr: roomsSold > 0 ? Math.round(roomRevenue / roomsSold) : 0,
+      revpar: roomsAvailable > 0 ? Math.round(roomRevenue / roomsAvailable) : 0,
+      runCount: (previous?.runCount || 0) + 1,
+      runBy: options?.userId,
+      createdAt: previous?.createdAt || postedAt,
+      updatedAt: postedAt,
+    };
+    
+    await kv.set(auditKey, record);
+    
+    // 5. Roll the business date (replays of older dates leave it alone)
+    const currentBusinessDate = await this.getBusinessDate(tenantId);
+    if (businessDate >= currentBusinessDate) {
+      await kv.set(`night_audit:${tenantId}:business_date`, {
+        date: addDays(businessDate, 1),
+        rolledAt: postedAt,
+      });
+    }
+    
+    return record;
+  },
+  
+  /**
+   * List the room-night charges posted to a reservation
+   */
+  async getCharges(tenantId: string, reservationId: string): Promise<RoomNightCharge[]> {
+    const charges = await kv.getByPrefix(`room_charge:${tenantId}:${reservationId}:`) as RoomNightCharge[];
+    return charges.sort((a, b) => a.date.localeCompare(b.date));
+  },
+};
@@ -10,6 +10,21 @@ import * as kv from "../kv_store.tsx";
 const notifications = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
 
+// A template as kept in the notification_templates list
+interface StoredTemplate {
+  id: string;
+  name: string;
+  [field: string]: unknown;
+}
+
+// A send as kept in the notification_delivery_history list
+interface StoredDelivery {
+  id: string;
+  status: string;
+  retryCount?: number;
+  [field: string]: unknown;
+}
+
 // Helper functions
 function extractTemplateVariables(body: string, subject?: string): string[] {
   const variables = new Set<string>();
@@ -62,15 +77,6 @@ notifications.post("/notification-templates", async (c) => {
       }, 400);
     }
     
-    const templates = await kv.get('notification_templates') || [];
-    
-    if (templates.some((t: any) => t.name.toLowerCase() === name.toLowerCase())) {
-      return c.json({
-        success: false,
-        error: 'A template with this name already exists'
-      }, 400);
-    }
-    
     const extractedVariables = extractTemplateVariables(templateBody, subject);
     
     const newTemplate = {
@@ -89,8 +95,19 @@ notifications.post("/notification-templates", async (c) => {
       lastSent: null
     };
     
-    templates.push(newTemplate);
-    await kv.set('notification_templates', templates);
+    // Check-and-append in one compare-and-set so concurrent creates can't drop each other
+    let duplicate = false;
+    await kv.update<StoredTemplate[]>('notification_templates', (templates) => {
+      duplicate = (templates || []).some((t) => t.name.toLowerCase() === name.toLowerCase());
+      return duplicate ? undefined : [...(templates || []), newTemplate];
+    });
+    
+    if (duplicate) {
+      return c.json({
+        success: false,
+        error: 'A template with this name already exists'
+      }, 400);
+    }
     
     try {
       await supabaseAdmin
@@ -123,36 +140,43 @@ notifications.put("/notification-templates/:id", async (c) => {
     const body = await c.req.json();
     const { name, type, category, subject, body: templateBody, variables, active, trigger } = body;
     
-    const templates = await kv.get('notification_templates') || [];
-    const templateIndex = templates.findIndex((t: any) => t.id === templateId);
+    let updatedTemplate = null as StoredTemplate | null;
+    await kv.update<StoredTemplate[]>('notification_templates', (templates) => {
+      const list = templates || [];
+      const templateIndex = list.findIndex((t) => t.id === templateId);
+      if (templateIndex === -1) {
+        updatedTemplate = null;
+        return undefined;
+      }
+      
+      const extractedVariables = templateBody 
+        ? extractTemplateVariables(templateBody, subject)
+        : list[templateIndex].variables;
+      
+      updatedTemplate = {
+        ...list[templateIndex],
+        name: name || list[templateIndex].name,
+        type: type || list[templateIndex].type,
+        category: category || list[templateIndex].category,
+        subject: subject !== undefined ? subject : list[templateIndex].subject,
+        body: templateBody || list[templateIndex].body,
+        variables: variables || extractedVariables,
+        active: active !== undefined ? active : list[templateIndex].active,
+        trigger: trigger || list[templateIndex].trigger,
+        updated: new Date().toISOString()
+      };
+      
+      list[templateIndex] = updatedTemplate;
+      return list;
+    });
     
-    if (templateIndex === -1) {
+    if (!updatedTemplate) {
       return c.json({
         success: false,
         error: 'Template not found'
       }, 404);
     }
     
-    const extractedVariables = templateBody 
-      ? extractTemplateVariables(templateBody, subject)
-      : templates[templateIndex].variables;
-    
-    const updatedTemplate = {
-      ...templates[templateIndex],
-      name: name || templates[templateIndex].name,
-      type: type || templates[templateIndex].type,
-      category: category || templates[templateIndex].category,
-      subject: subject !== undefined ? subject : templates[templateIndex].subject,
-      body: templateBody || templates[templateIndex].body,
-      variables: variables || extractedVariables,
-      active: active !== undefined ? active : templates[templateIndex].active,
-      trigger: trigger || templates[templateIndex].trigger,
-      updated: new Date().toISOString()
-    };
-    
-    templates[templateIndex] = updatedTemplate;
-    await kv.set('notification_templates', templates);
-    
     try {
       await supabaseAdmin
         .from('audit_logs')
@@ -181,18 +205,20 @@ notifications.put("/notification-templates/:id", async (c) => {
 notifications.delete("/notification-templates/:id", async (c) => {
   try {
     const templateId = c.req.param('id');
-    const templates = await kv.get('notification_templates') || [];
-    const filteredTemplates = templates.filter((t: any) => t.id !== templateId);
+    let found = false;
+    await kv.update<StoredTemplate[]>('notification_templates', (templates) => {
+      const filteredTemplates = (templates || []).filter((t) => t.id !== templateId);
+      found = filteredTemplates.length !== (templates || []).length;
+      return found ? filteredTemplates : undefined;
+    });
     
-    if (templates.length === filteredTemplates.length) {
+    if (!found) {
       return c.json({
         success: false,
         error: 'Template not found'
       }, 404);
     }
     
-    await kv.set('notification_templates', filteredTemplates);
-    
     try {
       await supabaseAdmin
         .from('audit_logs')
@@ -271,14 +297,9 @@ notifications.post("/notification-templates/:id/test", async (c) => {
       deliveredAt: new Date().toISOString()
     };
     
-    const deliveryHistory = await kv.get('notification_delivery_history') || [];
-    deliveryHistory.unshift(deliveryLog);
-    
-    if (deliveryHistory.length > 1000) {
-      deliveryHistory.splice(1000);
-    }
-    
-    await kv.set('notification_delivery_history', deliveryHistory);
+    await kv.update<StoredDelivery[]>('notification_delivery_history', (deliveryHistory) =>
+      [deliveryLog, ...(deliveryHistory || [])].slice(0, 1000)
+    );
     
     return c.json({
       success: true,
@@ -423,35 +444,43 @@ notifications.put("/notification-settings", async (c) => {
 notifications.post("/notification-delivery-history/:id/retry", async (c) => {
   try {
     const deliveryId = c.req.param('id');
-    const history = await kv.get('notification_delivery_history') || [];
-    const deliveryIndex = history.findIndex((h: any) => h.id === deliveryId);
+    let delivery = null as StoredDelivery | null;
+    let retried = false;
+    await kv.update<StoredDelivery[]>('notification_delivery_history', (history) => {
+      const list = history || [];
+      const deliveryIndex = list.findIndex((h) => h.id === deliveryId);
+      delivery = deliveryIndex === -1 ? null : list[deliveryIndex];
+      retried = delivery?.status === 'failed';
+      
+      if (!delivery || !retried) {
+        return undefined;
+      }
+      
+      delivery.status = 'pending';
+      delivery.retryCount = (delivery.retryCount || 0) + 1;
+      delivery.lastRetry = new Date().toISOString();
+      delivery.status = 'sent';
+      delivery.sentAt = new Date().toISOString();
+      delivery.error = null;
+      
+      list[deliveryIndex] = delivery;
+      return list;
+    });
     
-    if (deliveryIndex === -1) {
+    if (!delivery) {
       return c.json({
         success: false,
         error: 'Delivery log not found'
       }, 404);
     }
     
-    const delivery = history[deliveryIndex];
-    
-    if (delivery.status !== 'failed') {
+    if (!retried) {
       return c.json({
         success: false,
         error: 'Can only retry failed deliveries'
       }, 400);
     }
     
-    delivery.status = 'pending';
-    delivery.retryCount = (delivery.retryCount || 0) + 1;
-    delivery.lastRetry = new Date().toISOString();
-    delivery.status = 'sent';
-    delivery.sentAt = new Date().toISOString();
-    delivery.error = null;
-    
-    history[deliveryIndex] = delivery;
-    await kv.set('notification_delivery_history', history);
-    
     return c.json({
       success: true,
       data: delivery
@@ -0,0 +1,249 @@
+/**
+ * Permissions for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Permissions are `<resource>:<action>` strings (`reservations:write`). The
+ * catalog of every permission the API checks is generated from the route
+ * table in route-access.tsx, so it cannot drift from what is enforced.
+ *
+ * A role's grants come from the `roles` / `permissions` / `role_permissions`
+ * tables. Roles with no rows there fall back to DEFAULT_ROLE_PERMISSIONS.
+ * Grants may use wildcards: `*` (everything), `guests:*` or `*:read`.
+ *
+ * API keys carry no role; their `scopes` are grants in the same format.
+ */
+
+import { getSupabaseAdmin } from './lib/supabase.tsx';
+import { getRoleUUID } from './lib/constants.tsx';
+import { cache } from './cache.tsx';
+import { ROUTE_ACCESS, DEFAULT_RULE, READ_METHODS, type RouteAccess, type PermissionAction } from './route-access.tsx';
+
+export interface PermissionDefinition {
+  permission: string;
+  resource: string;
+  action: PermissionAction;
+  scope: 'tenant' | 'platform'; // Whether tenant users can be granted it
+  routes: string[]; // e.g. 'POST /guests/*'
+}
+
+export interface EffectivePermissions {
+  role: string | null;
+  source: 'database' | 'default' | 'api_key';
+  grants: string[]; // As stored, wildcards included
+  permissions: string[]; // Catalog entries the grants cover
+}
+
+// Role grants are re-read from the database after this long
+const ROLE_PERMISSIONS_TTL = 5 * 60 * 1000;
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+function actionsFor(methods: string[] | undefined, override?: PermissionAction): PermissionAction[] {
+  if (override) return [override];
+  if (!methods) return ['read', 'write'];
+  
+  const actions = new Set<PermissionAction>();
+  methods.forEach((method) => actions.add(READ_METHODS.includes(method) ? 'read' : 'write'));
+  return Array.from(actions);
+}
+
+function scopeFor(access: RouteAccess): 'tenant' | 'platform' {
+  return access === 'platform_admin' ? 'platform' : 'tenant';
+}
+
+function buildCatalog(): PermissionDefinition[] {
+  const byPermission = new Map<string, PermissionDefinition>();
+  
+  for (const rule of [...ROUTE_ACCESS, DEFAULT_RULE]) {
+    if (!rule.resource || rule.access === 'public') continue;
+    
+    for (const action of actionsFor(rule.methods, rule.action)) {
+      const permission = `${rule.resource}:${action}`;
+      const entry = byPermission.get(permission) || {
+        permission,
+        resource: rule.resource,
+        action,
+        scope: scopeFor(rule.access),
+        routes: [],
+      };
+      
+      // A resource reachable by tenant users anywhere is tenant-scoped
+      if (rule.access !== 'platform_admin') entry.scope = 'tenant';
+      entry.routes.push(`${rule.methods ? rule.methods.join('|') : '*'} ${rule.path}`);
+      byPermission.set(permission, entry);
+    }
+  }
+  
+  return Array.from(byPermission.values()).sort((a, b) => a.permission.localeCompare(b.permission));
+}
+
+export const PERMISSION_CATALOG: PermissionDefinition[] = buildCatalog();
+
+const TENANT_PERMISSIONS = PERMISSION_CATALOG.filter((p) => p.scope === 'tenant').map((p) => p.permission);
+
+/**
+ * Grants used for roles without rows in role_permissions
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  platform_admin: ['*'],
+  platform_support: ['*:read'],
+  tenant_owner: TENANT_PERMISSIONS,
+  tenant_admin: TENANT_PERMISSIONS,
+  tenant_user: [
+    ...TENANT_PERMISSIONS.filter((p) => p.endsWith(':read')),
+    'guests:write',
+    'reservations:write',
+  ],
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a single grant (possibly a wildcard) covers a permission
+ */
+export function grantCovers(grant: string, permission: string): boolean {
+  if (grant === '*' || grant === permission) return true;
+  
+  const [grantResource, grantAction] = grant.split(':');
+  const [resource, action] = permission.split(':');
+  return (grantResource === '*' || grantResource === resource) &&
+    (grantAction === '*' || grantAction === action);
+}
+
+const PERMISSION_RESOURCES = new Set(PERMISSION_CATALOG.map((p) => p.resource));
+const PERMISSION_ACTIONS = ['read', 'write', '*'];
+
+/**
+ * Canonical `<resource>:<action>` form of an API key scope, or null when it
+ * names no known resource. The older `<action>:<resource>` order is accepted.
+ */
+export function normalizeScope(scope: string): string | null {
+  if (scope === '*') return scope;
+  
+  let [resource, action] = scope.trim().split(':');
+  if (PERMISSION_ACTIONS.includes(resource) && !PERMISSION_ACTIONS.includes(action)) {
+    [resource, action] = [action, resource];
+  }
+  
+  if (!action || !PERMISSION_ACTIONS.includes(action)) return null;
+  if (resource !== '*' && !PERMISSION_RESOURCES.has(resource)) return null;
+  return `${resource}:${action}`;
+}
+
+export function hasGrant(grants: string[], permission: string): boolean {
+  return grants.some((grant) => grantCovers(grant, permission));
+}
+
+interface PermissionRow {
+  resource?: string | null;
+  action?: string | null;
+  key?: string | null;
+  name?: string | null;
+}
+
+/**
+ * Permission string from a `permissions` row, which may store it whole
+ * (`guests:read`, `guests.read`) or as separate resource and action columns
+ */
+function permissionFromRow(value: unknown): string | null {
+  if (!value || typeof value !== 'object') return null;
+  const row = value as PermissionRow;
+  if (row.resource && row.action) return `${row.resource}:${row.action}`;
+  
+  const name = row.key || row.name;
+  return typeof name === 'string' && name ? name.replace('.', ':') : null;
+}
+
+// ============================================================================
+// PERMISSION SERVICE
+// ============================================================================
+
+export const PermissionService = {
+  /**
+   * Grants for a role, from role_permissions or the defaults
+   */
+  async getRoleGrants(role: string | null): Promise<{ grants: string[]; source: 'database' | 'default' }> {
+    if (!role) return { grants: [], source: 'default' };
+    
+    const cacheKey = `role_permissions:${role}`;
+    const cached = cache.get<{ grants: string[]; source: 'database' | 'default' }>(cacheKey);
+    if (cached) return cached;
+    
+    let result: { grants: string[]; source: 'database' | 'default' } = {
+      grants: DEFAULT_ROLE_PERMISSIONS[role] || [],
+      source: 'default',
+    };
+    
+    try {
+      const { data, error } = await getSupabaseAdmin()
+        .from('role_permissions')
+        .select('permission_id, permissions (*)')
+        .eq('role_id', getRoleUUID(role));
+      
+      if (error) {
+        console.warn(`[Permissions] Could not read role_permissions for ${role}:`, error.message);
+      } else {
+        const grants = (data || [])
+          .map((row) => permissionFromRow(row.permissions))
+          // Rows from another naming scheme cannot be matched against routes
+          .filter((p: string | null): p is string => !!p && (p === '*' || p.includes(':')));
+        if (grants.length > 0) {
+          result = { grants: Array.from(new Set(grants)), source: 'database' };
+        }
+      }
+    } catch (error) {
+      console.warn(`[Permissions] Error reading role_permissions for ${role}:`, error);
+    }
+    
+    cache.set(cacheKey, result, ROLE_PERMISSIONS_TTL);
+    return result;
+  },
+  
+  /**
+   * Effective permissions for a role, expanded against the catalog
+   */
+  async getEffective(role: string | null): Promise<EffectivePermissions> {
+    const { grants, source } = await this.getRoleGrants(role);
+    return this.expand(role, source, grants);
+  },
+  
+  /**
+   * Effective permissions for an API key's scopes
+   */
+  forScopes(scopes: string[]): EffectivePermissions {
+    return this.expand(null, 'api_key', scopes);
+  },
+  
+  /**
+   * Catalog entries covered by a set of grants
+   */
+  expand(role: string | null, source: EffectivePermissions['source'], grants: string[]): EffectivePermissions {
+    return {
+      role,
+      source,
+      grants,
+      permissions: PERMISSION_CATALOG
+        .map((p) => p.permission)
+        .filter((permission) => hasGrant(grants, permission)),
+    };
+  },
+  
+  /**
+   * Whether a role holds a permission
+   */
+  async can(role: string | null, permission: string): Promise<boolean> {
+    const { grants } = await this.getRoleGrants(role);
+    return hasGrant(grants, permission);
+  },
+  
+  /**
+   * Drop cached grants (after editing role_permissions)
+   */
+  invalidate(role?: string): void {
+    const roles = role ? [role] : Object.keys(DEFAULT_ROLE_PERMISSIONS);
+    roles.forEach((r) => cache.delete(`role_permissions:${r}`));
+  },
+};
@@ -0,0 +1,110 @@
+/**
+ * Tests for the rate limit token buckets: a bucket allows a burst of its
+ * capacity, refills continuously over its window, and the memory and KV
+ * stores agree on every answer.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { createKvRateLimitStore, createMemoryRateLimitStore, type BucketState, type RateLimitStore } from './rate-limit.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const STORES: [string, () => RateLimitStore][] = [
+  ['memory', () => createMemoryRateLimitStore()],
+  [
+    'kv',
+    () => {
+      kv.setDriver(kv.createMemoryDriver());
+      return createKvRateLimitStore();
+    },
+  ],
+];
+
+// Three requests per minute: one token every 20 seconds
+const LIMIT = { capacity: 3, windowMs: 60 * 1000 };
+const T0 = Date.UTC(2026, 0, 1);
+
+/**
+ * Register one test per store, each starting empty
+ */
+function storeTest(name: string, run: (store: RateLimitStore) => Promise<void>): void {
+  for (const [storeName, create] of STORES) {
+    Deno.test(`${storeName}: ${name}`, () => run(create()));
+  }
+}
+
+async function takeMany(store: RateLimitStore, key: string, count: number, now: number): Promise<BucketState[]> {
+  const states: BucketState[] = [];
+  for (let i = 0; i < count; i++) {
+    states.push(await store.take(key, LIMIT, now));
+  }
+  return states;
+}
+
+// ============================================================================
+// TOKEN BUCKETS
+// ============================================================================
+
+storeTest('a full bucket allows a burst of its capacity, then refuses', async (store) => {
+  const states = await takeMany(store, 'ip:203.0.113.5:minute', 4, T0);
+  
+  assertEquals(states.map((state) => state.allowed), [true, true, true, false]);
+  assertEquals(states.map((state) => state.remaining), [2, 1, 0, 0]);
+  assertEquals(states[3].retryAfterSeconds, 20);
+  assertEquals(states[3].resetSeconds, 60);
+});
+
+storeTest('tokens come back continuously over the window', async (store) => {
+  await takeMany(store, 'ip:203.0.113.5:minute', 3, T0);
+  
+  const early = await store.take('ip:203.0.113.5:minute', LIMIT, T0 + 15 * 1000);
+  assertEquals([early.allowed, early.retryAfterSeconds], [false, 5]);
+  
+  const refilled = await store.take('ip:203.0.113.5:minute', LIMIT, T0 + 20 * 1000);
+  assertEquals([refilled.allowed, refilled.remaining], [true, 0]);
+});
+
+storeTest('an idle bucket refills only up to its capacity', async (store) => {
+  await store.take('ip:203.0.113.5:minute', LIMIT, T0);
+  
+  const states = await takeMany(store, 'ip:203.0.113.5:minute', 4, T0 + 60 * 60 * 1000);
+  
+  assertEquals(states.map((state) => state.allowed), [true, true, true, false]);
+});
+
+storeTest('buckets are independent per key', async (store) => {
+  await takeMany(store, 'tenant:t1:minute', 3, T0);
+  
+  assertEquals((await store.take('tenant:t1:minute', LIMIT, T0)).allowed, false);
+  assert((await store.take('tenant:t2:minute', LIMIT, T0)).allowed);
+});
+
+storeTest('reset refills one bucket or all of them', async (store) => {
+  await takeMany(store, 'tenant:t1:minute', 3, T0);
+  await takeMany(store, 'tenant:t2:minute', 3, T0);
+  
+  await store.reset('tenant:t1:minute');
+  assert((await store.take('tenant:t1:minute', LIMIT, T0)).allowed);
+  assertEquals((await store.take('tenant:t2:minute', LIMIT, T0)).allowed, false);
+  
+  await store.reset();
+  assert((await store.take('tenant:t2:minute', LIMIT, T0)).allowed);
+});
+
+Deno.test('kv: concurrent requests never spend the last token twice', async () => {
+  kv.setDriver(kv.createMemoryDriver());
+  const store = createKvRateLimitStore();
+  await takeMany(store, 'key:k1:minute', 2, T0);
+  
+  const states = await Promise.all([
+    store.take('key:k1:minute', LIMIT, T0),
+    store.take('key:k1:minute', LIMIT, T0),
+  ]);
+  
+  assertEquals(states.filter((state) => state.allowed).length, 1);
+});
@@ -0,0 +1,306 @@
+/**
+ * Rate Limiting for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Token buckets for every identity a request carries: its API key, its
+ * tenant and its client IP. A request takes a token from each of them, so a
+ * tenant can't go past its limit by spreading calls over several keys, nor an
+ * IP by switching credentials. Each bucket holds
+ * `rateLimiting.requestsPerMinute` tokens from the security policy
+ * (system:security_policies) and refills continuously over a minute.
+ *
+ * Tenants also draw from a monthly bucket sized by their plan's
+ * `limits.apiCalls`, refilling over 30 days.
+ *
+ * Limiting is skipped when the policy has `rateLimiting.enabled: false` or the
+ * platform security settings have `apiRateLimiting: false`.
+ *
+ * Responses carry RateLimit-Limit / RateLimit-Remaining / RateLimit-Reset
+ * (and RateLimit-Policy) for the tightest bucket; rejected requests get a 429
+ * with Retry-After.
+ *
+ * Buckets live in a RateLimitStore: in memory by default (one instance, and
+ * tests), or in the KV store when instances must share them
+ * (RATE_LIMIT_STORE=kv). Use setRateLimitStore to swap it.
+ */
+
+import type { Context, Next } from 'npm:hono';
+import * as kv from './kv_store.tsx';
+import { cache } from './cache.tsx';
+import { getAuth, getTenantId } from './auth-middleware.tsx';
+import { clientIp } from './ip-allowlist.tsx';
+
+export interface BucketLimit {
+  capacity: number; // Tokens when full (the burst size)
+  windowMs: number; // Time to refill from empty
+}
+
+export interface BucketState {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left after this request
+  resetSeconds: number; // Until the bucket is full again
+  retryAfterSeconds: number; // Until the next token (0 when allowed)
+}
+
+export interface RateLimitStore {
+  name: string;
+  take(key: string, limit: BucketLimit, now: number): Promise<BucketState>;
+  reset(key?: string): Promise<void>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface CheckedBucket {
+  name: string;
+  limit: BucketLimit;
+  state: BucketState;
+}
+
+const MINUTE_MS = 60 * 1000;
+const MONTH_MS = 30 * 24 * 60 * MINUTE_MS;
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+// Resolved tenant plan limits are reused for this long
+const PLAN_LIMIT_TTL = 60 * 1000;
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Refill a bucket up to `now` and take one token if there is one
+ */
+function takeToken(bucket: Bucket | null, limit: BucketLimit, now: number): { bucket: Bucket; state: BucketState } {
+  const ratePerMs = limit.capacity / limit.windowMs;
+  const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+  let tokens = bucket ? Math.min(limit.capacity, bucket.tokens + elapsed * ratePerMs) : limit.capacity;
+  
+  const allowed = tokens >= 1;
+  if (allowed) tokens -= 1;
+  
+  return {
+    bucket: { tokens, updatedAt: now },
+    state: {
+      allowed,
+      limit: limit.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((limit.capacity - tokens) / ratePerMs / 1000),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / ratePerMs / 1000),
+    },
+  };
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Buckets in process memory. Idle buckets are swept once they would be full.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { bucket: Bucket; windowMs: number }>();
+  let lastSweep = 0;
+  
+  const sweep = (now: number) => {
+    if (now - lastSweep < MINUTE_MS) return;
+    lastSweep = now;
+    for (const [key, entry] of buckets) {
+      if (now - entry.bucket.updatedAt > entry.windowMs) buckets.delete(key);
+    }
+  };
+  
+  return {
+    name: 'memory',
+    
+    take(key, limit, now) {
+      sweep(now);
+      const { bucket, state } = takeToken(buckets.get(key)?.bucket || null, limit, now);
+      buckets.set(key, { bucket, windowMs: limit.windowMs });
+      return Promise.resolve(state);
+    },
+    
+    reset(key) {
+      if (key) {
+        buckets.delete(key);
+      } else {
+        buckets.clear();
+      }
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Buckets in the KV store (`ratelimit:<key>`), shared by every instance.
+ * Updates use compare-and-set, so concurrent requests cannot both spend the
+ * last token.
+ */
+export function createKvRateLimitStore(): RateLimitStore {
+  return {
+    name: 'kv',
+    
+    async take(key, limit, now) {
+      let state = null as BucketState | null;
+      await kv.update<Bucket>(`ratelimit:${key}`, (current) => {
+        const result = takeToken(current, limit, now);
+        state = result.state;
+        return result.bucket;
+      });
+      return state!;
+    },
+    
+    async reset(key) {
+      if (key) {
+        await kv.del(`ratelimit:${key}`);
+        return;
+      }
+      
+      let cursor: string | null = null;
+      do {
+        const page: kv.ScanPage = await kv.scan('ratelimit:', { limit: 500, cursor });
+        if (page.keys.length > 0) await kv.mdel(page.keys);
+        cursor = page.nextCursor;
+      } while (cursor);
+    },
+  };
+}
+
+let _store: RateLimitStore | null = null;
+
+function store(): RateLimitStore {
+  if (!_store) {
+    _store = Deno.env.get('RATE_LIMIT_STORE') === 'kv' ? createKvRateLimitStore() : createMemoryRateLimitStore();
+  }
+  return _store;
+}
+
+/**
+ * Replace the bucket store (tests, or a shared store for several instances)
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  _store = next;
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/**
+ * Requests per minute from the security policy, or null when limiting is off
+ */
+async function requestsPerMinute(): Promise<number | null> {
+  const [policies, securitySettings] = await Promise.all([
+    kv.get('system:security_policies'),
+    kv.get('system:settings:security'),
+  ]);
+  
+  if (securitySettings?.apiRateLimiting === false) return null;
+  
+  const rateLimiting = policies?.rateLimiting;
+  if (rateLimiting?.enabled === false) return null;
+  
+  const rpm = Number(rateLimiting?.requestsPerMinute);
+  return rpm > 0 ? rpm : DEFAULT_REQUESTS_PER_MINUTE;
+}
+
+/**
+ * Monthly API call allowance from the tenant's plan, or null when unknown
+ */
+async function monthlyApiCalls(tenantId: string): Promise<number | null> {
+  const cacheKey = `ratelimit_plan:${tenantId}`;
+  const cached = cache.get<{ apiCalls: number | null }>(cacheKey);
+  if (cached) return cached.apiCalls;
+  
+  let tenant = await kv.get(`tenant:${tenantId}`);
+  if (!tenant) {
+    // Auth tokens carry the Postgres UUID rather than the T-n id
+    const mapping = await kv.get(`tenant_uuid:${tenantId}`);
+    if (mapping?.customId) tenant = await kv.get(`tenant:${mapping.customId}`);
+  }
+  
+  let apiCalls: number | null = null;
+  if (tenant?.plan) {
+    const plan = await kv.get(`plan:plan_${String(tenant.plan).toLowerCase()}`);
+    const limit = Number(plan?.limits?.apiCalls ?? plan?.limits?.api_calls);
+    apiCalls = limit > 0 ? limit : null;
+  }
+  
+  cache.set(cacheKey, { apiCalls }, PLAN_LIMIT_TTL);
+  return apiCalls;
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+function setHeaders(c: Context, { name, limit, state }: CheckedBucket): void {
+  c.header('RateLimit-Limit', String(state.limit));
+  c.header('RateLimit-Remaining', String(state.remaining));
+  c.header('RateLimit-Reset', String(state.resetSeconds));
+  c.header('RateLimit-Policy', `${limit.capacity};w=${Math.round(limit.windowMs / 1000)};name="${name}"`);
+}
+
+/**
+ * Hono middleware applying the rate limits. Mount it after authMiddleware so
+ * the caller's API key and tenant are known.
+ */
+export function rateLimitMiddleware() {
+  return async (c: Context, next: Next) => {
+    if (c.req.method === 'OPTIONS') {
+      return next();
+    }
+    
+    const rpm = await requestsPerMinute();
+    if (rpm === null) {
+      return next();
+    }
+    
+    const auth = getAuth(c);
+    const tenantId = getTenantId(c) || auth?.tenantId || null;
+    const now = Date.now();
+    
+    const identities: [string, string][] = [];
+    if (auth?.apiKeyId) identities.push(['key', `key:${auth.apiKeyId}`]);
+    if (tenantId) identities.push(['tenant', `tenant:${tenantId}`]);
+    identities.push(['ip', `ip:${clientIp(c)}`]);
+    
+    // One token from each bucket, stopping at the first that is empty
+    const minuteLimit = { capacity: rpm, windowMs: MINUTE_MS };
+    const checked: CheckedBucket[] = [];
+    for (const [name, identity] of identities) {
+      const state = await store().take(`${identity}:minute`, minuteLimit, now);
+      checked.push({ name, limit: minuteLimit, state });
+      if (!state.allowed) break;
+    }
+    
+    // Requests turned away per minute do not count against the plan allowance
+    const apiCalls = tenantId && checked.every((b) => b.state.allowed) ? await monthlyApiCalls(tenantId) : null;
+    if (tenantId && apiCalls) {
+      const monthLimit = { capacity: apiCalls, windowMs: MONTH_MS };
+      checked.push({ name: 'plan', limit: monthLimit, state: await store().take(`tenant:${tenantId}:month`, monthLimit, now) });
+    }
+    
+    // Report the bucket that ran out, or else the one with least room left
+    const rejected = checked.find((b) => !b.state.allowed);
+    const reported = rejected || checked.reduce((a, b) => (b.state.remaining < a.state.remaining ? b : a));
+    setHeaders(c, reported);
+    
+    if (rejected) {
+      c.header('Retry-After', String(rejected.state.retryAfterSeconds));
+      const identity = identities.map(([, id]) => id).join(' ');
+      console.warn(`[RateLimit] ${identity} exceeded the ${rejected.name} limit on ${c.req.method} ${c.req.path}`);
+      return c.json({
+        success: false,
+        error: 'Too many requests',
+        limit: rejected.name,
+        retryAfter: rejected.state.retryAfterSeconds,
+      }, 429);
+    }
+    
+    return next();
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for rate plans: derived plans price a stay from their parent's rate,
+ * quotes enforce each plan's restrictions, and stays booked without a plan
+ * fall back to the tenant's BAR plan.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assertEquals, assertRejects } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { availabilityKey } from './booking-engine.tsx';
+import {
+  RatePlanError,
+  RatePlanService,
+  RateRestrictionError,
+  deriveRate,
+  type RateQuoteRequest,
+} from './rate-plans.tsx';
+import type { RatePlan } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+
+function plan(id: string, overrides?: Partial<RatePlan>): RatePlan {
+  return {
+    id,
+    tenantId: TENANT,
+    code: id.toUpperCase(),
+    name: id,
+    type: 'bar',
+    active: true,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Fresh memory driver with the given plans and category c1 rates per date
+ */
+function usePlans(plans: RatePlan[], rates: Record<string, number> = {}): void {
+  const initial: Record<string, unknown> = {};
+  for (const p of plans) {
+    initial[`rate_plan:${TENANT}:${p.id}`] = p;
+  }
+  for (const [date, rate] of Object.entries(rates)) {
+    initial[availabilityKey(TENANT, 'c1', date)] = { id: date, tenantId: TENANT, categoryId: 'c1', date, rate, available: 5, total: 5 };
+  }
+  kv.setDriver(kv.createMemoryDriver(initial));
+}
+
+function stay(ratePlanId: string, checkInDate = '2026-05-01', checkOutDate = '2026-05-03'): RateQuoteRequest {
+  return { ratePlanId, roomCategoryId: 'c1', checkInDate, checkOutDate };
+}
+
+const BAR = plan('bar');
+const NRF = plan('nrf', { type: 'non_refundable', parentPlanId: 'bar', derivation: { method: 'percentage', value: -10 } });
+const PKG = plan('pkg', { type: 'package', parentPlanId: 'nrf', derivation: { method: 'fixed', value: 2500 } });
+
+// ============================================================================
+// deriveRate
+// ============================================================================
+
+Deno.test('deriveRate applies a percentage or fixed offset, never below zero', () => {
+  assertEquals(deriveRate(10000), 10000);
+  assertEquals(deriveRate(10000, { method: 'percentage', value: -15 }), 8500);
+  assertEquals(deriveRate(9999, { method: 'percentage', value: 10 }), 10999);
+  assertEquals(deriveRate(10000, { method: 'fixed', value: 2500 }), 12500);
+  assertEquals(deriveRate(2000, { method: 'fixed', value: -5000 }), 0);
+});
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+Deno.test('quote derives every night down the chain from the root plan', async () => {
+  usePlans([BAR, NRF, PKG], { '2026-05-01': 10000, '2026-05-02': 20000 });
+  
+  const quote = await RatePlanService.quote(TENANT, { ...stay('pkg'), numberOfRooms: 2 });
+  
+  assertEquals(quote.nights, [
+    { date: '2026-05-01', baseRate: 10000, rate: 11500 },
+    { date: '2026-05-02', baseRate: 20000, rate: 20500 },
+  ]);
+  assertEquals(quote.ratePerNight, 16000);
+  assertEquals(quote.totalAmount, 64000);
+});
+
+Deno.test('quote refuses stays that break the plan restrictions', async () => {
+  usePlans([
+    plan('bar', {
+      minLengthOfStay: 3,
+      closedToArrival: ['2026-05-01'],
+      closedToDeparture: ['2026-05-03'],
+      roomCategoryIds: ['c2'],
+    }),
+  ], { '2026-05-01': 10000, '2026-05-02': 10000 });
+  
+  const error = await assertRejects(() => RatePlanService.quote(TENANT, stay('bar')), RateRestrictionError);
+  
+  assertEquals(error.violations, [
+    'Rate plan BAR is not offered for this room category',
+    'Minimum stay is 3 nights',
+    'Closed to arrival on 2026-05-01',
+    'Closed to departure on 2026-05-03',
+  ]);
+});
+
+Deno.test('quote refuses inactive plans and nights without a rate', async () => {
+  usePlans([BAR, plan('old', { active: false })], { '2026-05-01': 10000 });
+  
+  const inactive = await assertRejects(() => RatePlanService.quote(TENANT, stay('old')), RateRestrictionError);
+  assertEquals(inactive.violations, ['Rate plan OLD is inactive']);
+  
+  const unpriced = await assertRejects(() => RatePlanService.quote(TENANT, stay('bar')), RateRestrictionError);
+  assertEquals(unpriced.violations, ['No rate loaded for 2026-05-02']);
+});
+
+// ============================================================================
+// PLAN DEFINITIONS
+// ============================================================================
+
+Deno.test('getChain rejects missing and circular parents', async () => {
+  usePlans([plan('a', { parentPlanId: 'b' }), plan('b', { parentPlanId: 'a' }), plan('c', { parentPlanId: 'gone' })]);
+  
+  await assertRejects(() => RatePlanService.getChain(TENANT, plan('a', { parentPlanId: 'b' })), RatePlanError, 'circular');
+  await assertRejects(() => RatePlanService.getChain(TENANT, plan('c', { parentPlanId: 'gone' })), RatePlanError, 'not found');
+});
+
+Deno.test('delete refuses a plan other plans derive from', async () => {
+  usePlans([BAR, NRF]);
+  
+  await assertRejects(() => RatePlanService.delete(TENANT, 'bar'), RatePlanError, 'NRF');
+  assertEquals(await RatePlanService.delete(TENANT, 'nrf'), true);
+  assertEquals(await RatePlanService.delete(TENANT, 'bar'), true);
+});
+
+Deno.test('getDefault picks the active root BAR plan', async () => {
+  usePlans([
+    plan('a', { code: 'WALKIN' }),
+    plan('b', { code: 'BAR' }),
+    plan('c', { code: 'AAA', active: false }),
+    NRF,
+  ]);
+  assertEquals((await RatePlanService.getDefault(TENANT))?.id, 'b');
+  
+  usePlans([plan('a', { code: 'WALKIN' }), NRF]);
+  assertEquals((await RatePlanService.getDefault(TENANT))?.id, 'a');
+  
+  usePlans([NRF, plan('corp', { type: 'corporate' })]);
+  assertEquals(await RatePlanService.getDefault(TENANT), null);
+});
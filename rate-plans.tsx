@@ -0,0 +1,307 @@
+/**
+ * Rate Plans for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Prices a stay from the nightly category rates kept by the availability
+ * routes (`availability:<tenantId>:<categoryId>:<date>`). A root plan (usually
+ * BAR) sells that rate as-is; derived plans (non-refundable, corporate,
+ * package, ...) apply a percentage or fixed offset to their parent's price,
+ * so changing the base rate moves every plan with it.
+ *
+ * Quotes also enforce each plan's length-of-stay and closed-to-arrival /
+ * closed-to-departure restrictions.
+ */
+
+import * as kv from './kv_store.tsx';
+import { availabilityKey, getStayDates, type AvailabilityRecord } from './booking-engine.tsx';
+import type { NightlyRate, RatePlan } from './models.tsx';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateQuoteRequest {
+  ratePlanId: string;
+  roomCategoryId: string;
+  checkInDate: string; // ISO date
+  checkOutDate: string; // ISO date
+  numberOfRooms?: number;
+}
+
+export interface RateQuote {
+  ratePlanId: string;
+  ratePlanCode: string;
+  ratePlanName: string;
+  roomCategoryId: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfNights: number;
+  numberOfRooms: number;
+  nights: NightlyRate[];
+  ratePerNight: number; // In cents, average per room per night
+  totalAmount: number; // In cents, all nights and rooms
+  inclusions?: string[];
+  cancellationPolicyId?: string;
+}
+
+/**
+ * Raised when a stay cannot be sold on a rate plan (restrictions, missing rates)
+ */
+export class RateRestrictionError extends Error {
+  violations: string[];
+  
+  constructor(violations: string[]) {
+    super(`Rate plan not bookable: ${violations.join('; ')}`);
+    this.name = 'RateRestrictionError';
+    this.violations = violations;
+  }
+}
+
+/**
+ * Raised when a rate plan definition is invalid (unknown or circular parent)
+ */
+export class RatePlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RatePlanError';
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Apply one derivation step to a parent price
+ */
+export function deriveRate(parentRate: number, derivation?: RatePlan['derivation']): number {
+  if (!derivation) return parentRate;
+  
+  const rate = derivation.method === 'percentage'
+    ? Math.round(parentRate * (1 + derivation.value / 100))
+    : parentRate + derivation.value;
+  
+  return Math.max(rate, 0);
+}
+
+/**
+ * Check length-of-stay, arrival/departure and category restrictions
+ */
+function checkRestrictions(plan: RatePlan, request: RateQuoteRequest, nights: number): string[] {
+  const violations: string[] = [];
+  const checkIn = request.checkInDate.split('T')[0];
+  const checkOut = request.checkOutDate.split('T')[0];
+  
+  if (!plan.active) {
+    violations.push(`Rate plan ${plan.code} is inactive`);
+  }
+  
+  if (plan.roomCategoryIds?.length && !plan.roomCategoryIds.includes(request.roomCategoryId)) {
+    violations.push(`Rate plan ${plan.code} is not offered for this room category`);
+  }
+  
+  if (nights < 1) {
+    violations.push('Check-out must be after check-in');
+  }
+  
+  if (plan.minLengthOfStay && nights < plan.minLengthOfStay) {
+    violations.push(`Minimum stay is ${plan.minLengthOfStay} nights`);
+  }
+  
+  if (plan.maxLengthOfStay && nights > plan.maxLengthOfStay) {
+    violations.push(`Maximum stay is ${plan.maxLengthOfStay} nights`);
+  }
+  
+  if (plan.closedToArrival?.includes(checkIn)) {
+    violations.push(`Closed to arrival on ${checkIn}`);
+  }
+  
+  if (plan.closedToDeparture?.includes(checkOut)) {
+    violations.push(`Closed to departure on ${checkOut}`);
+  }
+  
+  return violations;
+}
+
+// ============================================================================
+// RATE PLAN SERVICE
+// ============================================================================
+
+export const RatePlanService = {
+  /**
+   * List all rate plans for a tenant
+   */
+  async list(tenantId: string): Promise<RatePlan[]> {
+    const plans = await kv.getByPrefix(`rate_plan:${tenantId}:`) as RatePlan[];
+    return plans.sort((a, b) => a.code.localeCompare(b.code));
+  },
+  
+  /**
+   * Get a rate plan by ID
+   */
+  async get(tenantId: string, planId: string): Promise<RatePlan | null> {
+    return await kv.get(`rate_plan:${tenantId}:${planId}`);
+  },
+  
+  /**
+   * The tenant's BAR plan, which prices stays booked without a plan: the
+   * active root plan of type 'bar' (code BAR first), or null
+   */
+  async getDefault(tenantId: string): Promise<RatePlan | null> {
+    const bars = (await this.list(tenantId)).filter((plan) => plan.active && plan.type === 'bar' && !plan.parentPlanId);
+    return bars.find((plan) => plan.code.toUpperCase() === 'BAR') || bars[0] || null;
+  },
+  
+  /**
+   * Walk a plan's parents up to its root plan (plan first, root last)
+   */
+  async getChain(tenantId: string, plan: RatePlan): Promise<RatePlan[]> {
+    const chain = [plan];
+    const seen = new Set([plan.id]);
+    let current = plan;
+    
+    while (current.parentPlanId) {
+      if (seen.has(current.parentPlanId)) {
+        throw new RatePlanError(`Rate plan ${plan.code} has a circular parent chain`);
+      }
+      
+      const parent = await this.get(tenantId, current.parentPlanId);
+      if (!parent) {
+        throw new RatePlanError(`Parent rate plan ${current.parentPlanId} not found`);
+      }
+      
+      chain.push(parent);
+      seen.add(parent.id);
+      current = parent;
+    }
+    
+    return chain;
+  },
+  
+  /**
+   * Create a rate plan
+   */
+  async create(
+    tenantId: string,
+    data: Omit<RatePlan, 'id' | 'tenantId' | 'createdAt'>
+  ): Promise<RatePlan> {
+    const plans = await this.list(tenantId);
+    if (plans.some(p => p.code.toLowerCase() === data.code.toLowerCase())) {
+      throw new RatePlanError(`A rate plan with code ${data.code} already exists`);
+    }
+    
+    const planId = `rp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const plan: RatePlan = {
+      ...data,
+      id: planId,
+      tenantId,
+      active: data.active !== false,
+      createdAt: new Date().toISOString(),
+    };
+    
+    // Validates that the parent exists
+    await this.getChain(tenantId, plan);
+    
+    await kv.set(`rate_plan:${tenantId}:${planId}`, plan);
+    return plan;
+  },
+  
+  /**
+   * Update a rate plan
+   */
+  async update(
+    tenantId: string,
+    planId: string,
+    updates: Partial<Omit<RatePlan, 'id' | 'tenantId' | 'createdAt'>>
+  ): Promise<RatePlan | null> {
+    const existing = await this.get(tenantId, planId);
+    if (!existing) return null;
+    
+    const plan: RatePlan = {
+      ...existing,
+      ...updates,
+      id: planId,
+      tenantId,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    // Rejects re-parenting onto a missing plan or onto one of its own children
+    await this.getChain(tenantId, plan);
+    
+    await kv.set(`rate_plan:${tenantId}:${planId}`, plan);
+    return plan;
+  },
+  
+  /**
+   * Delete a rate plan (refused while other plans derive from it)
+   */
+  async delete(tenantId: string, planId: string): Promise<boolean> {
+    const plans = await this.list(tenantId);
+    if (!plans.some(p => p.id === planId)) return false;
+    
+    const children = plans.filter(p => p.parentPlanId === planId);
+    if (children.length > 0) {
+      throw new RatePlanError(`Rate plan is the parent of ${children.map(p => p.code).join(', ')}`);
+    }
+    
+    await kv.del(`rate_plan:${tenantId}:${planId}`);
+    return true;
+  },
+  
+  /**
+   * Price a stay on a rate plan with its nightly breakdown.
+   *
+   * Throws RateRestrictionError if the stay breaks a restriction or a night
+   * has no rate loaded for the category.
+   */
+  async quote(tenantId: string, request: RateQuoteRequest): Promise<RateQuote> {
+    const plan = await this.get(tenantId, request.ratePlanId);
+    if (!plan) {
+      throw new RatePlanError('Rate plan not found');
+    }
+    
+    const dates = getStayDates(request.checkInDate, request.checkOutDate);
+    const violations = checkRestrictions(plan, request, dates.length);
+    if (violations.length > 0) {
+      throw new RateRestrictionError(violations);
+    }
+    
+    const chain = await this.getChain(tenantId, plan);
+    
+    const rows = await kv.mget(dates.map(date => availabilityKey(tenantId, request.roomCategoryId, date))) as AvailabilityRecord[];
+    const baseRates = new Map<string, number>();
+    rows.forEach(row => {
+      if (row?.categoryId === request.roomCategoryId) baseRates.set(row.date, row.rate || 0);
+    });
+    
+    const unpriced = dates.filter(date => !baseRates.has(date));
+    if (unpriced.length > 0) {
+      throw new RateRestrictionError([`No rate loaded for ${unpriced.join(', ')}`]);
+    }
+    
+    // Apply derivations from the root plan down to the requested plan
+    const nights: NightlyRate[] = dates.map(date => {
+      const baseRate = baseRates.get(date)!;
+      const rate = chain.reduceRight((price, p) => deriveRate(price, p.derivation), baseRate);
+      return { date, baseRate, rate };
+    });
+    
+    const numberOfRooms = request.numberOfRooms || 1;
+    const perRoomTotal = nights.reduce((sum, night) => sum + night.rate, 0);
+    
+    return {
+      ratePlanId: plan.id,
+      ratePlanCode: plan.code,
+      ratePlanName: plan.name,
+      roomCategoryId: request.roomCategoryId,
+      checkInDate: request.checkInDate,
+      checkOutDate: request.checkOutDate,
+      numberOfNights: nights.length,
+      numberOfRooms,
+      nights,
+      ratePerNight: Math.round(perRoomTotal / nights.length),
+      totalAmount: perRoomTotal * numberOfRooms,
+      inclusions: plan.inclusions,
+      cancellationPolicyId: plan.cancellationPolicyId,
+    };
+  },
+};
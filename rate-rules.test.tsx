@@ -0,0 +1,139 @@
+/**
+ * Tests for rate rules: seasons, day-of-week uplifts and events combine into
+ * one nightly rate, and applying them refreshes availability rates without
+ * touching room counts or rates edited by hand.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assertEquals } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { availabilityKey, type AvailabilityRecord } from './booking-engine.tsx';
+import { RateRuleService, computeRate, getDateRange } from './rate-rules.tsx';
+import type { RateRuleSet } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+
+/**
+ * 100.00 a night, 10% more in summer and 20% more from 3 to 5 July, 50.00
+ * more on Saturdays and a fixed 400.00 on 4 July (a Saturday)
+ */
+const RULES: RateRuleSet = {
+  tenantId: TENANT,
+  categoryId: 'c1',
+  baseRate: 10000,
+  total: 4,
+  seasons: [
+    { id: 's1', name: 'Summer', startDate: '2026-06-01', endDate: '2026-08-31', adjustment: { method: 'percentage', value: 10 } },
+    { id: 's2', name: 'Holiday', startDate: '2026-07-03', endDate: '2026-07-05', adjustment: { method: 'percentage', value: 20 } },
+  ],
+  dayOfWeek: [{ days: [6], adjustment: { method: 'fixed', value: 5000 } }],
+  events: [{ id: 'e1', name: 'Fireworks', startDate: '2026-07-04', endDate: '2026-07-04', rate: 40000 }],
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function row(date: string, overrides?: Partial<AvailabilityRecord>): AvailabilityRecord {
+  return {
+    id: `c1-${date}`,
+    tenantId: TENANT,
+    categoryId: 'c1',
+    date,
+    rate: 9000,
+    available: 1,
+    total: 3,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Fresh memory driver with the rule set and the given availability rows
+ */
+function useRules(rows: AvailabilityRecord[] = []): void {
+  const initial: Record<string, unknown> = { [`rate_rules:${TENANT}:c1`]: RULES };
+  for (const r of rows) {
+    initial[availabilityKey(TENANT, 'c1', r.date)] = r;
+  }
+  kv.setDriver(kv.createMemoryDriver(initial));
+}
+
+async function stored(date: string): Promise<AvailabilityRecord> {
+  return await kv.get(availabilityKey(TENANT, 'c1', date)) as AvailabilityRecord;
+}
+
+// ============================================================================
+// computeRate
+// ============================================================================
+
+Deno.test('getDateRange includes both ends', () => {
+  assertEquals(getDateRange('2026-06-30', '2026-07-02'), ['2026-06-30', '2026-07-01', '2026-07-02']);
+  assertEquals(getDateRange('2026-07-02', '2026-07-01'), []);
+});
+
+Deno.test('computeRate uses the base rate outside every rule', () => {
+  assertEquals(computeRate(RULES, '2026-05-06'), { rate: 10000, appliedRules: [] });
+});
+
+Deno.test('computeRate lets the later season win where seasons overlap', () => {
+  assertEquals(computeRate(RULES, '2026-07-01'), { rate: 11000, appliedRules: ['season:Summer'] });
+  assertEquals(computeRate(RULES, '2026-07-03'), { rate: 12000, appliedRules: ['season:Holiday'] });
+});
+
+Deno.test('computeRate adds day-of-week uplifts on top of the season', () => {
+  assertEquals(computeRate(RULES, '2026-07-11'), { rate: 16000, appliedRules: ['season:Summer', 'day:6'] });
+});
+
+Deno.test('computeRate lets an event replace the computed rate', () => {
+  assertEquals(computeRate(RULES, '2026-07-04'), {
+    rate: 40000,
+    appliedRules: ['season:Holiday', 'day:6', 'event:Fireworks'],
+  });
+});
+
+// ============================================================================
+// RateRuleService.apply
+// ============================================================================
+
+Deno.test('apply opens missing dates and refreshes only the rate of existing ones', async () => {
+  useRules([row('2026-07-02')]);
+  
+  const summary = await RateRuleService.apply(TENANT, 'c1', '2026-07-01', '2026-07-02');
+  
+  assertEquals([summary?.created, summary?.updated], [1, 1]);
+  const opened = await stored('2026-07-01');
+  assertEquals([opened.rate, opened.available, opened.total, opened.rateSource], [11000, 4, 4, 'rules']);
+  const refreshed = await stored('2026-07-02');
+  assertEquals([refreshed.rate, refreshed.available, refreshed.total, refreshed.rateSource], [11000, 1, 3, 'rules']);
+});
+
+Deno.test('apply skips rates edited by hand unless forced', async () => {
+  useRules([row('2026-07-01', { rateSource: 'manual' })]);
+  
+  const skipped = await RateRuleService.apply(TENANT, 'c1', '2026-07-01', '2026-07-01');
+  assertEquals(skipped?.skippedManual, ['2026-07-01']);
+  assertEquals((await stored('2026-07-01')).rate, 9000);
+  
+  const forced = await RateRuleService.apply(TENANT, 'c1', '2026-07-01', '2026-07-01', { force: true });
+  assertEquals(forced?.updated, 1);
+  assertEquals((await stored('2026-07-01')).rate, 11000);
+});
+
+Deno.test('apply leaves rows already at the rule rate alone', async () => {
+  useRules([row('2026-07-01', { rate: 11000, rateSource: 'rules' })]);
+  
+  const summary = await RateRuleService.apply(TENANT, 'c1', '2026-07-01', '2026-07-01');
+  
+  assertEquals([summary?.created, summary?.updated, summary?.unchanged], [0, 0, 1]);
+  assertEquals((await stored('2026-07-01')).updatedAt, '2026-01-01T00:00:00.000Z');
+});
+
+Deno.test('apply returns null for a category without rules', async () => {
+  useRules();
+  
+  assertEquals(await RateRuleService.apply(TENANT, 'c2', '2026-07-01', '2026-07-01'), null);
+});
@@ -0,0 +1,218 @@
+/**
+ * Rate Rules for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Generates nightly `availability:<tenantId>:<categoryId>:<date>` rows from a
+ * per-category rule set instead of one flat rate:
+ *
+ *   rate = event override
+ *       ?? dayOfWeek(season(baseRate))
+ *
+ * Rules can be re-applied at any time. Rows whose rate was edited by hand
+ * (`rateSource: 'manual'`) are left alone unless the caller forces it, and
+ * re-applying never touches the room counts of existing rows.
+ */
+
+import * as kv from './kv_store.tsx';
+import { availabilityKey, type AvailabilityRecord } from './booking-engine.tsx';
+import type { RateAdjustment, RateRuleSet } from './models.tsx';
+
+export interface RateRuleResult {
+  rate: number; // In cents
+  appliedRules: string[]; // e.g. ["season:Summer", "day:6", "event:Marathon"]
+}
+
+export interface ApplyRulesSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skippedManual: string[]; // Dates kept because their rate was edited by hand
+  rates: AvailabilityRecord[];
+}
+
+// Times a rule application is retried when bookings race it
+const MAX_WRITE_ATTEMPTS = 5;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * List every date from start to end (both inclusive)
+ */
+export function getDateRange(startDate: string, endDate: string): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${endDate.split('T')[0]}T00:00:00.000Z`);
+  
+  const day = new Date(`${startDate.split('T')[0]}T00:00:00.000Z`);
+  
+  while (day <= end) {
+    dates.push(day.toISOString().split('T')[0]);
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+  
+  return dates;
+}
+
+function adjust(rate: number, adjustment: RateAdjustment): number {
+  switch (adjustment.method) {
+    case 'percentage':
+      return Math.max(Math.round(rate * (1 + adjustment.value / 100)), 0);
+    case 'fixed':
+      return Math.max(rate + adjustment.value, 0);
+    case 'override':
+      return adjustment.value;
+    default:
+      return rate;
+  }
+}
+
+/**
+ * Compute the rate a rule set gives a single date
+ */
+export function computeRate(rules: RateRuleSet, date: string): RateRuleResult {
+  const appliedRules: string[] = [];
+  let rate = rules.baseRate;
+  
+  // Later seasons win where ranges overlap
+  const season = [...(rules.seasons || [])]
+    .reverse()
+    .find(s => s.startDate <= date && date <= s.endDate);
+  if (season) {
+    rate = adjust(rate, season.adjustment);
+    appliedRules.push(`season:${season.name}`);
+  }
+  
+  const weekday = new Date(`${date}T00:00:00.000Z`).getUTCDay();
+  for (const rule of rules.dayOfWeek || []) {
+    if (rule.days.includes(weekday)) {
+      rate = adjust(rate, rule.adjustment);
+      appliedRules.push(`day:${weekday}`);
+    }
+  }
+  
+  const event = [...(rules.events || [])]
+    .reverse()
+    .find(e => e.startDate <= date && date <= e.endDate);
+  if (event) {
+    rate = event.rate;
+    appliedRules.push(`event:${event.name}`);
+  }
+  
+  return { rate, appliedRules };
+}
+
+// ============================================================================
+// RATE RULE SERVICE
+// ============================================================================
+
+export const RateRuleService = {
+  /**
+   * Get the rule set for a room category
+   */
+  async get(tenantId: string, categoryId: string): Promise<RateRuleSet | null> {
+    return await kv.get(`rate_rules:${tenantId}:${categoryId}`);
+  },
+  
+  /**
+   * Save (replace) the rule set for a room category
+   */
+  async save(
+    tenantId: string,
+    categoryId: string,
+    data: Omit<RateRuleSet, 'tenantId' | 'categoryId' | 'updatedAt'>,
+    userId?: string
+  ): Promise<RateRuleSet> {
+    const rules: RateRuleSet = {
+      ...data,
+      tenantId,
+      categoryId,
+      seasons: (data.seasons || []).map(s => ({ ...s, id: s.id || `season_${Math.random().toString(36).substr(2, 9)}` })),
+      dayOfWeek: data.dayOfWeek || [],
+      events: (data.events || []).map(e => ({ ...e, id: e.id || `event_${Math.random().toString(36).substr(2, 9)}` })),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    };
+    
+    await kv.set(`rate_rules:${tenantId}:${categoryId}`, rules);
+    return rules;
+  },
+  
+  /**
+   * Materialize the rule set into availability rows for a date range.
+   *
+   * New dates are opened with `total` rooms (from the options or the rule
+   * set). Existing dates only get their rate refreshed, and dates edited by
+   * hand are skipped unless `force` is set. Returns null if the category has
+   * no rules.
+   */
+  async apply(
+    tenantId: string,
+    categoryId: string,
+    startDate: string,
+    endDate: string,
+    options?: { total?: number; available?: number; force?: boolean }
+  ): Promise<ApplyRulesSummary | null> {
+    const rules = await this.get(tenantId, categoryId);
+    if (!rules) return null;
+    
+    const dates = getDateRange(startDate, endDate);
+    const keys = dates.map(date => availabilityKey(tenantId, categoryId, date));
+    const total = options?.total ?? rules.total ?? 0;
+    
+    // Compare-and-set against the rows as read, so bookings that change
+    // `available` meanwhile are never overwritten; retry from a fresh read
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const rows = await kv.mget(keys) as AvailabilityRecord[];
+      const existingByDate = new Map<string, AvailabilityRecord>();
+      rows.forEach(row => {
+        if (row?.categoryId === categoryId) existingByDate.set(row.date, row);
+      });
+      
+      const now = new Date().toISOString();
+      const summary: ApplyRulesSummary = { created: 0, updated: 0, unchanged: 0, skippedManual: [], rates: [] };
+      const entries: { key: string; expected: AvailabilityRecord | null; value: AvailabilityRecord }[] = [];
+      
+      dates.forEach((date, i) => {
+        const existing = existingByDate.get(date);
+        const { rate } = computeRate(rules, date);
+        
+        if (existing?.rateSource === 'manual' && !options?.force) {
+          summary.skippedManual.push(date);
+          return;
+        }
+        
+        if (existing && existing.rate === rate && existing.rateSource === 'rules') {
+          summary.unchanged++;
+          return;
+        }
+        
+        const row: AvailabilityRecord = existing
+          ? { ...existing, rate, rateSource: 'rules', updatedAt: now }
+          : {
+              id: `${categoryId}-${date}`,
+              tenantId,
+              categoryId,
+              date,
+              rate,
+              available: options?.available ?? total,
+              total,
+              rateSource: 'rules',
+              createdAt: now,
+              updatedAt: now,
+            };
+        
+        if (existing) summary.updated++;
+        else summary.created++;
+        
+        entries.push({ key: keys[i], expected: existing || null, value: row });
+      });
+      
+      if (await kv.mcompareAndSet(entries)) {
+        summary.rates = entries.map(e => e.value);
+        return summary;
+      }
+    }
+    
+    throw new kv.ConcurrencyError(keys[0], MAX_WRITE_ATTEMPTS);
+  },
+};
@@ -0,0 +1,169 @@
+/**
+ * Tests for the reservation state machine: only the transitions in
+ * RESERVATION_TRANSITIONS are allowed, each is stamped and recorded, and
+ * ReservationService.transition moves inventory and rooms with the status.
+ *
+ * Run with `deno test` (the memory driver needs no database).
+ */
+
+import { assert, assertEquals, assertRejects, assertThrows } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { ReservationService } from './data-service.tsx';
+import { availabilityKey } from './booking-engine.tsx';
+import { InvalidTransitionError, StatusChangeNotAllowedError, applyStatusChange } from './reservation-lifecycle.tsx';
+import type { Reservation, Room } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const TENANT = 't1';
+const KEY = `reservation:${TENANT}:RES-1`;
+
+function reservation(overrides?: Partial<Reservation>): Reservation {
+  return {
+    id: 'RES-1',
+    tenantId: TENANT,
+    guestName: 'Ann Example',
+    guestEmail: 'ann@example.com',
+    confirmationNumber: 'T1-ABC',
+    status: 'confirmed',
+    source: 'direct',
+    checkInDate: '2026-05-01',
+    checkOutDate: '2026-05-03',
+    numberOfNights: 2,
+    roomCategoryId: 'c1',
+    roomCategory: 'Double',
+    numberOfRooms: 1,
+    numberOfAdults: 2,
+    numberOfChildren: 0,
+    ratePerNight: 10000,
+    totalAmount: 20000,
+    currency: 'USD',
+    depositPaid: 0,
+    balanceDue: 20000,
+    paymentStatus: 'pending',
+    createdAt: '2026-04-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Fresh memory driver holding the reservation, the inventory it took and room 101
+ */
+function useReservation(stored: Reservation): void {
+  const room: Room = {
+    id: 'r101',
+    roomNumber: '101',
+    categoryId: 'c1',
+    floor: 1,
+    status: 'available',
+    created: '2026-01-01T00:00:00.000Z',
+    updated: '2026-01-01T00:00:00.000Z',
+  };
+  
+  const initial: Record<string, unknown> = { [KEY]: stored, [`tenant:${TENANT}:rooms`]: [room] };
+  for (const date of ['2026-05-01', '2026-05-02']) {
+    initial[availabilityKey(TENANT, 'c1', date)] = {
+      id: date,
+      tenantId: TENANT,
+      categoryId: 'c1',
+      date,
+      rate: 10000,
+      available: 0,
+      total: 1,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+  }
+  kv.setDriver(kv.createMemoryDriver(initial));
+}
+
+async function available(): Promise<number[]> {
+  const rows = await kv.mget([
+    availabilityKey(TENANT, 'c1', '2026-05-01'),
+    availabilityKey(TENANT, 'c1', '2026-05-02'),
+  ]) as { available: number }[];
+  return rows.map((row) => row.available);
+}
+
+async function roomStatus(): Promise<string> {
+  const rooms = await kv.get(`tenant:${TENANT}:rooms`) as Room[];
+  return rooms[0].status;
+}
+
+// ============================================================================
+// applyStatusChange
+// ============================================================================
+
+Deno.test('applyStatusChange stamps the status, actor and history entry', () => {
+  const fields = applyStatusChange(reservation(), 'checked_in', { userId: 'u1' });
+  
+  assertEquals(fields.status, 'checked_in');
+  assertEquals(fields.checkedInBy, 'u1');
+  assert(fields.checkedInAt);
+  assertEquals(fields.statusHistory?.map(({ from, to, by }) => ({ from, to, by })), [
+    { from: 'confirmed', to: 'checked_in', by: 'u1' },
+  ]);
+});
+
+Deno.test('applyStatusChange keeps the reason of a cancellation', () => {
+  const fields = applyStatusChange(reservation({ status: 'pending' }), 'cancelled', { reason: 'Plans changed' });
+  
+  assertEquals(fields.cancellationReason, 'Plans changed');
+  assertEquals(fields.statusHistory?.[0].reason, 'Plans changed');
+});
+
+Deno.test('applyStatusChange refuses moves outside the transition table', () => {
+  const error = assertThrows(() => applyStatusChange(reservation({ status: 'pending' }), 'checked_in'), InvalidTransitionError);
+  assertEquals(error.allowed, ['confirmed', 'cancelled']);
+  
+  assertThrows(() => applyStatusChange(reservation({ status: 'checked_out' }), 'checked_in'), InvalidTransitionError);
+  assertThrows(() => applyStatusChange(reservation({ status: 'cancelled' }), 'confirmed'), InvalidTransitionError);
+});
+
+// ============================================================================
+// ReservationService.transition
+// ============================================================================
+
+Deno.test('cancelling gives the nights back to inventory', async () => {
+  useReservation(reservation());
+  
+  const cancelled = await ReservationService.transition(TENANT, 'RES-1', 'cancelled', { userId: 'u1', reason: 'Ill' });
+  
+  assertEquals(cancelled?.status, 'cancelled');
+  assertEquals(cancelled?.cancelledBy, 'u1');
+  assertEquals(await available(), [1, 1]);
+  assertEquals((await kv.get(KEY) as Reservation).status, 'cancelled');
+});
+
+Deno.test('an illegal transition changes nothing', async () => {
+  useReservation(reservation({ status: 'pending' }));
+  
+  await assertRejects(() => ReservationService.transition(TENANT, 'RES-1', 'checked_out'), InvalidTransitionError);
+  
+  assertEquals((await kv.get(KEY) as Reservation).status, 'pending');
+  assertEquals(await available(), [0, 0]);
+});
+
+Deno.test('checking in and out marks the assigned room occupied, then dirty', async () => {
+  useReservation(reservation({ roomId: 'r101' }));
+  
+  await ReservationService.transition(TENANT, 'RES-1', 'checked_in');
+  assertEquals(await roomStatus(), 'occupied');
+  
+  const checkedOut = await ReservationService.transition(TENANT, 'RES-1', 'checked_out');
+  assertEquals(await roomStatus(), 'dirty');
+  assertEquals(checkedOut?.statusHistory?.map((change) => change.to), ['checked_in', 'checked_out']);
+});
+
+Deno.test('update refuses to change the status', async () => {
+  useReservation(reservation());
+  
+  await assertRejects(
+    () => ReservationService.update(TENANT, 'RES-1', { status: 'checked_in' }),
+    StatusChangeNotAllowedError,
+    '/check-in',
+  );
+  assertEquals((await kv.get(KEY) as Reservation).status, 'confirmed');
+});
@@ -0,0 +1,138 @@
+/**
+ * Reservation Lifecycle for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Defines the legal reservation status transitions:
+ *
+ *   pending ──> confirmed ──> checked_in ──> checked_out
+ *      │            │
+ *      │            ├──> no_show
+ *      └────────────┴──> cancelled
+ *
+ * and stamps the timestamp, actor and history entry for each change.
+ */
+
+import type { Reservation, ReservationStatus, ReservationStatusChange } from './models.tsx';
+
+// ============================================================================
+// TRANSITION TABLE
+// ============================================================================
+
+export const RESERVATION_TRANSITIONS: Record<ReservationStatus, ReservationStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'cancelled', 'no_show'],
+  checked_in: ['checked_out'],
+  checked_out: [],
+  cancelled: [],
+  no_show: [],
+};
+
+// Lifecycle endpoint moving a reservation into each status:
+// POST /reservations/tenants/:tenantId/reservations/:reservationId/<action>
+export const TRANSITION_ACTIONS: Partial<Record<ReservationStatus, string>> = {
+  confirmed: 'confirm',
+  checked_in: 'check-in',
+  checked_out: 'check-out',
+  cancelled: 'cancel',
+  no_show: 'no-show',
+};
+
+// Timestamp and actor fields stamped when a reservation enters a status
+type StampedAt = 'confirmedAt' | 'checkedInAt' | 'checkedOutAt' | 'cancelledAt' | 'noShowAt';
+type StampedBy = 'confirmedBy' | 'checkedInBy' | 'checkedOutBy' | 'cancelledBy' | 'noShowBy';
+
+const STATUS_STAMPS: Partial<Record<ReservationStatus, { at: StampedAt; by: StampedBy }>> = {
+  confirmed: { at: 'confirmedAt', by: 'confirmedBy' },
+  checked_in: { at: 'checkedInAt', by: 'checkedInBy' },
+  checked_out: { at: 'checkedOutAt', by: 'checkedOutBy' },
+  cancelled: { at: 'cancelledAt', by: 'cancelledBy' },
+  no_show: { at: 'noShowAt', by: 'noShowBy' },
+};
+
+/**
+ * Raised when a status change is not allowed from the reservation's current status
+ */
+export class InvalidTransitionError extends Error {
+  from: ReservationStatus;
+  to: ReservationStatus;
+  allowed: ReservationStatus[];
+  
+  constructor(from: ReservationStatus, to: ReservationStatus) {
+    super(`Cannot change reservation status from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+    this.allowed = RESERVATION_TRANSITIONS[from] || [];
+  }
+}
+
+/**
+ * Raised when a plain update tries to change a reservation's status, which
+ * only the lifecycle endpoints (ReservationService.transition) may do
+ */
+export class StatusChangeNotAllowedError extends Error {
+  to: ReservationStatus;
+  action: string | null;
+  
+  constructor(to: ReservationStatus) {
+    const action = TRANSITION_ACTIONS[to] || null;
+    super(action
+      ? `Status cannot be changed by an update; POST to the reservation's /${action} endpoint instead`
+      : `Status cannot be changed to ${to}`);
+    this.name = 'StatusChangeNotAllowedError';
+    this.to = to;
+    this.action = action;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a reservation may move from one status to another
+ */
+export function canTransition(from: ReservationStatus, to: ReservationStatus): boolean {
+  return (RESERVATION_TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Validate a status change and return the fields to merge into the reservation
+ * (new status, timestamp, actor and an appended history entry).
+ */
+export function applyStatusChange(
+  reservation: Reservation,
+  to: ReservationStatus,
+  options?: { userId?: string; reason?: string }
+): Partial<Reservation> {
+  const from = reservation.status;
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+  
+  const now = new Date().toISOString();
+  const change: ReservationStatusChange = {
+    from,
+    to,
+    at: now,
+    by: options?.userId,
+    reason: options?.reason,
+  };
+  
+  const fields: Partial<Reservation> = {
+    status: to,
+    statusHistory: [...(reservation.statusHistory || []), change],
+    modifiedBy: options?.userId || reservation.modifiedBy,
+  };
+  
+  const stamp = STATUS_STAMPS[to];
+  if (stamp) {
+    fields[stamp.at] = now;
+    fields[stamp.by] = options?.userId;
+  }
+  
+  if (to === 'cancelled' && options?.reason) {
+    fields.cancellationReason = options.reason;
+  }
+  
+  return fields;
+}
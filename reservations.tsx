@@ -3,52 +3,98 @@
  * Handles reservation management
  */
 
-import { Hono } from "npm:hono";
-import { getSupabaseAdmin } from "../lib/supabase.tsx";
-import { ReservationService } from "../data-service.tsx";
+import { Hono, type Context, type Env } from "npm:hono";
+import { getAuth, getTenantId, getEventActor } from "../auth-middleware.tsx";
+import { ReservationService, CancellationPolicyService, errorMessage } from "../data-service.tsx";
+import { BookingEngine, InventoryConflictError, type InventoryHold } from "../booking-engine.tsx";
+import { RoomAssignmentService, RoomAssignmentError, RoomConflictError } from "../room-assignment.tsx";
+import { InvalidTransitionError, StatusChangeNotAllowedError } from "../reservation-lifecycle.tsx";
+import { NightAuditService, NightAuditAlreadyRunError } from "../night-audit.tsx";
+import { quoteCancellation } from "../cancellation-policy.tsx";
+import { RatePlanError, RateRestrictionError } from "../rate-plans.tsx";
+import { RoomBlockService, RoomBlockError } from "../room-blocks.tsx";
+import { INDEXES, SecondaryIndex } from "../secondary-index.tsx";
+import { EventBus } from "../event-bus.tsx";
+import type { Reservation, ReservationStatus, Room, RoomBlockStatus } from "../models.tsx";
 import * as kv from "../kv_store.tsx";
 
 const reservations = new Hono();
-const supabaseAdmin = getSupabaseAdmin();
 
-// Helper to extract tenant from auth token
-async function getTenantFromAuth(c: any): Promise<string | null> {
-  const authHeader = c.req.header('Authorization');
-  if (!authHeader) return null;
+// The fields of a convenience-endpoint record the booking engine needs
+interface LegacyStay {
+  roomId?: string;
+  roomCategoryId?: string;
+  checkIn: string;
+  checkOut: string;
+  numberOfRooms?: number;
+  status?: ReservationStatus;
+}
 
-  const accessToken = authHeader.replace('Bearer ', '');
-  const { data: { user }, error } = await supabaseAdmin.auth.getUser(accessToken);
+// Helper to map a convenience-endpoint record (roomId/checkIn/checkOut) onto the booking engine
+async function toLegacyHold(tenantId: string, record: LegacyStay): Promise<InventoryHold> {
+  let roomCategoryId = record.roomCategoryId;
+  
+  if (!roomCategoryId && record.roomId) {
+    const rooms: Room[] = await kv.get(`tenant:${tenantId}:rooms`) || [];
+    roomCategoryId = rooms.find((r) => r.id === record.roomId)?.categoryId;
+  }
   
-  if (error || !user) return null;
-  return user.user_metadata?.tenant_id || null;
+  return {
+    roomCategoryId,
+    checkInDate: record.checkIn,
+    checkOutDate: record.checkOut,
+    numberOfRooms: record.numberOfRooms || 1,
+    status: record.status || 'pending',
+  };
 }
 
-// Helper to track usage
-async function trackUsage(tenantId: string, metric: string, amount: number = 1) {
-  try {
-    const now = new Date();
-    const period = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-    const key = `usage:${tenantId}:${period}:${metric}`;
-    
-    const existing = await kv.get(key);
-    if (!existing) {
-      await kv.set(key, {
-        metric,
-        current: amount,
-        limit: 1000,
-        period,
-        updated_at: new Date().toISOString(),
-      });
-    } else {
-      await kv.set(key, {
-        ...existing,
-        current: (existing.current || 0) + amount,
-        updated_at: new Date().toISOString(),
-      });
-    }
-  } catch (error) {
-    console.error(`[Usage Tracker] Error tracking ${metric}:`, error);
-  }
+// Helper to report sold-out nights
+function inventoryConflict(c: Context, error: InventoryConflictError) {
+  return c.json({
+    success: false,
+    error: 'Requested dates are not available',
+    soldOutDates: error.soldOutDates,
+  }, 409);
+}
+
+// Helper to report an illegal status change
+function invalidTransition(c: Context, error: InvalidTransitionError) {
+  return c.json({
+    success: false,
+    error: error.message,
+    currentStatus: error.from,
+    allowedTransitions: error.allowed,
+  }, 409);
+}
+
+// Helper to point a status change made through an update at its lifecycle endpoint
+function statusChangeNotAllowed(c: Context, tenantId: string, reservationId: string, error: StatusChangeNotAllowedError) {
+  return c.json({
+    success: false,
+    error: error.message,
+    ...(error.action && {
+      endpoint: `POST /reservations/tenants/${tenantId}/reservations/${reservationId}/${error.action}`,
+    }),
+  }, 409);
+}
+
+// Helper to report a stay that cannot be sold on its rate plan
+function rateRestriction(c: Context, error: RateRestrictionError) {
+  return c.json({
+    success: false,
+    error: error.message,
+    violations: error.violations,
+  }, 422);
+}
+
+// Helper to report a room already held for overlapping dates
+function roomConflict(c: Context, error: RoomConflictError) {
+  return c.json({
+    success: false,
+    error: error.message,
+    roomId: error.roomId,
+    conflictingReservationIds: error.conflictingReservationIds,
+  }, 409);
 }
 
 // Get all reservations (convenience endpoint - uses auth token)
@@ -69,32 +115,21 @@ reservations.get("/", async (c) => {
     }
     
     // New endpoint using auth token
-    const authHeader = c.req.header('Authorization');
-    if (!authHeader) {
-      return c.json({ success: false, error: 'Unauthorized - No Authorization header' }, 401);
-    }
-
-    const accessToken = authHeader.replace('Bearer ', '');
-    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(accessToken);
-    
-    if (userError || !user) {
-      return c.json({ success: false, error: 'Unauthorized - Invalid token' }, 401);
-    }
-
-    const authTenantId = user.user_metadata?.tenant_id;
+    const authTenantId = getTenantId(c);
     if (!authTenantId) {
-      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+      return c.json({ success: false, error: 'Tenant ID is required' }, 400);
     }
 
     const status = c.req.query('status') as any;
     const guestId = c.req.query('guestId');
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
+    const cursor = c.req.query('cursor');
     
     const result = await ReservationService.list(authTenantId, {
       status,
       guestId,
-      pagination: { page, limit },
+      pagination: { page, limit, cursor },
     });
     
     return c.json({
@@ -103,6 +138,9 @@ reservations.get("/", async (c) => {
       pagination: result.pagination,
     });
   } catch (error: any) {
+    if (error instanceof kv.InvalidCursorError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
     console.error('[Reservations API] Error listing reservations:', error);
     return c.json({ success: false, error: error.message }, 500);
   }
@@ -127,6 +165,7 @@ reservations.post("/", async (c) => {
     const reservation = {
       id: reservationId,
       tenantId,
+      confirmationNumber: `${tenantId.toUpperCase()}-${Date.now().toString(36).toUpperCase()}`,
       guestName,
       guestEmail: guestEmail || '',
       guestPhone: guestPhone || '',
@@ -144,13 +183,33 @@ reservations.post("/", async (c) => {
       updatedAt: new Date().toISOString()
     };
 
+    // Hold the room for the whole stay (throws RoomConflictError)
+    await RoomAssignmentService.syncHolds(tenantId, null, reservation);
+    try {
+      await BookingEngine.reserve(tenantId, await toLegacyHold(tenantId, reservation));
+    } catch (error) {
+      await RoomAssignmentService.syncHolds(tenantId, reservation, null);
+      throw error;
+    }
     await kv.set(key, reservation);
+    await SecondaryIndex.sync(INDEXES.reservationConfirmation, tenantId, reservationId, null, reservation);
+    // The convenience record (roomId/checkIn/checkOut) carries only part of a Reservation
+    await EventBus.emit('reservation.created', { reservation: reservation as Partial<Reservation> as Reservation }, {
+      tenantId,
+      actor: getEventActor(c),
+    });
 
     return c.json({
       success: true,
       reservation: reservation
     });
   } catch (error: any) {
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
     console.error('[Reservations] Error creating reservation:', error);
     return c.json({
       success: false,
@@ -184,19 +243,42 @@ reservations.put("/:reservationId", async (c) => {
       }, 404);
     }
 
+    if (updates.status && updates.status !== existing.status) {
+      return statusChangeNotAllowed(c, tenantId, reservationId, new StatusChangeNotAllowedError(updates.status));
+    }
+
     const reservation = {
       ...existing,
       ...updates,
       updatedAt: new Date().toISOString()
     };
 
+    // Moving the stay or the room must not double-book it
+    await RoomAssignmentService.syncHolds(tenantId, existing, reservation);
+    try {
+      await BookingEngine.syncInventory(
+        tenantId,
+        await toLegacyHold(tenantId, existing),
+        await toLegacyHold(tenantId, reservation)
+      );
+    } catch (error) {
+      await RoomAssignmentService.syncHolds(tenantId, reservation, existing);
+      throw error;
+    }
     await kv.set(key, reservation);
+    await SecondaryIndex.sync(INDEXES.reservationConfirmation, tenantId, reservationId, existing, reservation);
 
     return c.json({
       success: true,
       reservation: reservation
     });
   } catch (error: any) {
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
     console.error('[Reservations] Error updating reservation:', error);
     return c.json({
       success: false,
@@ -220,7 +302,14 @@ reservations.delete("/:reservationId", async (c) => {
     }
 
     const key = `reservation:${tenantId}:${reservationId}`;
+    const existing = await kv.get(key);
+    
+    if (existing) {
+      await BookingEngine.release(tenantId, await toLegacyHold(tenantId, existing));
+      await RoomAssignmentService.syncHolds(tenantId, existing, null);
+    }
     await kv.del(key);
+    await SecondaryIndex.sync(INDEXES.reservationConfirmation, tenantId, reservationId, existing, null);
 
     return c.json({
       success: true
@@ -235,6 +324,69 @@ reservations.delete("/:reservationId", async (c) => {
   }
 });
 
+// Assign a physical room (explicit roomId, or auto-assign from guest preferences)
+reservations.post("/:reservationId/assign-room", async (c) => {
+  try {
+    const reservationId = c.req.param('reservationId');
+    const body = await c.req.json();
+    const { tenantId, roomId } = body;
+    const mode = body.mode || (roomId ? 'manual' : 'auto');
+
+    if (!tenantId) {
+      return c.json({
+        success: false,
+        error: 'Missing required parameter: tenantId'
+      }, 400);
+    }
+
+    if (mode === 'manual' && !roomId) {
+      return c.json({
+        success: false,
+        error: 'roomId is required for manual assignment'
+      }, 400);
+    }
+
+    const existing = await ReservationService.get(tenantId, reservationId);
+    if (!existing) {
+      return c.json({
+        success: false,
+        error: 'Reservation not found'
+      }, 404);
+    }
+
+    if (mode === 'auto') {
+      const { reservation, score } = await RoomAssignmentService.autoAssign(tenantId, reservationId);
+      return c.json({
+        success: true,
+        data: reservation,
+        mode,
+        preferenceScore: score
+      });
+    }
+
+    const reservation = await RoomAssignmentService.assign(tenantId, reservationId, roomId);
+
+    return c.json({
+      success: true,
+      data: reservation,
+      mode
+    });
+  } catch (error) {
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
+    if (error instanceof RoomAssignmentError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Reservations] Error assigning room:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to assign room',
+      details: errorMessage(error)
+    }, 500);
+  }
+});
+
 // Get tenant reservations
 reservations.get("/tenants/:tenantId/reservations", async (c) => {
   try {
@@ -246,6 +398,7 @@ reservations.get("/tenants/:tenantId/reservations", async (c) => {
     const search = c.req.query('search');
     const page = parseInt(c.req.query('page') || '1');
     const limit = parseInt(c.req.query('limit') || '50');
+    const cursor = c.req.query('cursor');
     
     const result = await ReservationService.list(tenantId, {
       status,
@@ -253,7 +406,7 @@ reservations.get("/tenants/:tenantId/reservations", async (c) => {
       checkInDate,
       checkOutDate,
       search,
-      pagination: { page, limit },
+      pagination: { page, limit, cursor },
     });
     
     return c.json({
@@ -262,6 +415,9 @@ reservations.get("/tenants/:tenantId/reservations", async (c) => {
       pagination: result.pagination,
     });
   } catch (error: any) {
+    if (error instanceof kv.InvalidCursorError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
     console.error('[Reservations API] Error listing reservations:', error);
     return c.json({ success: false, error: error.message }, 500);
   }
@@ -297,13 +453,23 @@ reservations.post("/tenants/:tenantId/reservations", async (c) => {
     
     const reservation = await ReservationService.create(tenantId, body);
     
-    await trackUsage(tenantId, 'reservations', 1);
-    
     return c.json({
       success: true,
       data: reservation,
     }, 201);
   } catch (error: any) {
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
+    if (error instanceof RateRestrictionError) {
+      return rateRestriction(c, error);
+    }
+    if (error instanceof RatePlanError || error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
     console.error('[Reservations API] Error creating reservation:', error);
     return c.json({ success: false, error: error.message }, 500);
   }
@@ -327,11 +493,92 @@ reservations.put("/tenants/:tenantId/reservations/:reservationId", async (c) =>
       data: reservation,
     });
   } catch (error: any) {
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
+    if (error instanceof StatusChangeNotAllowedError) {
+      return statusChangeNotAllowed(c, c.req.param('tenantId'), c.req.param('reservationId'), error);
+    }
+    if (error instanceof RateRestrictionError) {
+      return rateRestriction(c, error);
+    }
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
     console.error('[Reservations API] Error updating reservation:', error);
     return c.json({ success: false, error: error.message }, 500);
   }
 });
 
+// Helper shared by the lifecycle endpoints below (all under this path)
+async function transitionReservation(c: Context<Env, "/tenants/:tenantId/reservations/:reservationId">, to: ReservationStatus) {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const reservationId = c.req.param('reservationId');
+    const body = await c.req.json().catch(() => ({}));
+    const userId = getAuth(c)?.userId || body.userId;
+    
+    const reservation = await ReservationService.transition(tenantId, reservationId, to, {
+      userId,
+      reason: body.reason,
+      roomId: body.roomId,
+    });
+    
+    if (!reservation) {
+      return c.json({ success: false, error: 'Reservation not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: reservation,
+      ...(to === 'cancelled' && {
+        cancellationFee: reservation.cancellationFee || 0,
+        refundDue: reservation.refundDue || 0,
+      }),
+    });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return invalidTransition(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
+    if (error instanceof RoomAssignmentError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error(`[Reservations API] Error moving reservation to ${to}:`, error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+}
+
+// Confirm a pending reservation
+reservations.post("/tenants/:tenantId/reservations/:reservationId/confirm", (c) => {
+  return transitionReservation(c, 'confirmed');
+});
+
+// Check in (assigns a room automatically if none is assigned yet)
+reservations.post("/tenants/:tenantId/reservations/:reservationId/check-in", (c) => {
+  return transitionReservation(c, 'checked_in');
+});
+
+// Check out (marks the room dirty)
+reservations.post("/tenants/:tenantId/reservations/:reservationId/check-out", (c) => {
+  return transitionReservation(c, 'checked_out');
+});
+
+// Cancel (releases inventory and charges the cancellation fee)
+reservations.post("/tenants/:tenantId/reservations/:reservationId/cancel", (c) => {
+  return transitionReservation(c, 'cancelled');
+});
+
+// Mark as no-show (releases inventory)
+reservations.post("/tenants/:tenantId/reservations/:reservationId/no-show", (c) => {
+  return transitionReservation(c, 'no_show');
+});
+
 // Delete tenant reservation
 reservations.delete("/tenants/:tenantId/reservations/:reservationId", async (c) => {
   try {
@@ -370,5 +617,402 @@ reservations.get("/tenants/:tenantId/reservations/stats", async (c) => {
   }
 });
 
+// Run the night audit for a business date (defaults to the open business date)
+reservations.post("/tenants/:tenantId/night-audit", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const body = await c.req.json().catch(() => ({}));
+    const userId = getAuth(c)?.userId || body.userId;
+    
+    const audit = await NightAuditService.run(tenantId, {
+      date: body.date,
+      replay: body.replay === true,
+      userId,
+    });
+    
+    return c.json({
+      success: true,
+      data: audit,
+      message: `Night audit for ${audit.businessDate} completed`,
+    });
+  } catch (error) {
+    if (error instanceof NightAuditAlreadyRunError) {
+      return c.json({
+        success: false,
+        error: `${error.message}; pass replay: true to recompute it`,
+        businessDate: error.businessDate,
+      }, 409);
+    }
+    console.error('[Reservations API] Error running night audit:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// List night audit snapshots
+reservations.get("/tenants/:tenantId/night-audit", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const audits = await NightAuditService.list(tenantId);
+    const businessDate = await NightAuditService.getBusinessDate(tenantId);
+    
+    return c.json({
+      success: true,
+      data: audits,
+      businessDate,
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error listing night audits:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get the night audit snapshot for a date
+reservations.get("/tenants/:tenantId/night-audit/:date", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const date = c.req.param('date');
+    const audit = await NightAuditService.get(tenantId, date);
+    
+    if (!audit) {
+      return c.json({ success: false, error: 'Night audit not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: audit,
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error getting night audit:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get room-night charges posted to a reservation
+reservations.get("/tenants/:tenantId/reservations/:reservationId/charges", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const reservationId = c.req.param('reservationId');
+    const charges = await NightAuditService.getCharges(tenantId, reservationId);
+    
+    return c.json({
+      success: true,
+      data: charges,
+      total: charges.reduce((sum, charge) => sum + charge.amount, 0),
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error getting reservation charges:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Supported cancellation policy types (see cancellation-policy.tsx)
+const CANCELLATION_POLICY_TYPES = ['free_until', 'first_night', 'non_refundable'];
+
+// List cancellation policies
+reservations.get("/tenants/:tenantId/cancellation-policies", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const policies = await CancellationPolicyService.list(tenantId);
+    
+    return c.json({
+      success: true,
+      data: policies,
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error listing cancellation policies:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Create cancellation policy
+reservations.post("/tenants/:tenantId/cancellation-policies", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const body = await c.req.json();
+    
+    if (!body.name || !CANCELLATION_POLICY_TYPES.includes(body.type)) {
+      return c.json({
+        success: false,
+        error: `Name and type (${CANCELLATION_POLICY_TYPES.join(', ')}) are required`,
+      }, 400);
+    }
+    
+    if (body.type === 'free_until' && !(body.freeUntilDays >= 0)) {
+      return c.json({ success: false, error: 'freeUntilDays is required for free_until policies' }, 400);
+    }
+    
+    const policy = await CancellationPolicyService.create(tenantId, body);
+    
+    return c.json({
+      success: true,
+      data: policy,
+    }, 201);
+  } catch (error) {
+    console.error('[Reservations API] Error creating cancellation policy:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Update cancellation policy
+reservations.put("/tenants/:tenantId/cancellation-policies/:policyId", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const policyId = c.req.param('policyId');
+    const body = await c.req.json();
+    
+    if (body.type !== undefined && !CANCELLATION_POLICY_TYPES.includes(body.type)) {
+      return c.json({
+        success: false,
+        error: `Type must be one of ${CANCELLATION_POLICY_TYPES.join(', ')}`,
+      }, 400);
+    }
+    
+    const policy = await CancellationPolicyService.update(tenantId, policyId, body);
+    
+    if (!policy) {
+      return c.json({ success: false, error: 'Cancellation policy not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: policy,
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error updating cancellation policy:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Delete cancellation policy (existing reservations keep their terms)
+reservations.delete("/tenants/:tenantId/cancellation-policies/:policyId", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const policyId = c.req.param('policyId');
+    
+    const success = await CancellationPolicyService.delete(tenantId, policyId);
+    
+    if (!success) {
+      return c.json({ success: false, error: 'Cancellation policy not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      message: 'Cancellation policy deleted successfully',
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error deleting cancellation policy:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Preview the fee for cancelling a reservation now
+reservations.get("/tenants/:tenantId/reservations/:reservationId/cancellation-quote", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const reservationId = c.req.param('reservationId');
+    const reservation = await ReservationService.get(tenantId, reservationId);
+    
+    if (!reservation) {
+      return c.json({ success: false, error: 'Reservation not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: quoteCancellation(reservation),
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error quoting cancellation:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// List group blocks
+reservations.get("/tenants/:tenantId/blocks", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const status = c.req.query('status') as RoomBlockStatus | undefined;
+    const blocks = await RoomBlockService.list(tenantId, { status });
+    
+    return c.json({
+      success: true,
+      data: blocks.map(block => ({
+        ...block,
+        pickup: RoomBlockService.getPickupSummary(block),
+      })),
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error listing room blocks:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get group block with pickup summary
+reservations.get("/tenants/:tenantId/blocks/:blockId", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const blockId = c.req.param('blockId');
+    const block = await RoomBlockService.get(tenantId, blockId);
+    
+    if (!block) {
+      return c.json({ success: false, error: 'Room block not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: {
+        ...block,
+        pickup: RoomBlockService.getPickupSummary(block),
+      },
+    });
+  } catch (error) {
+    console.error('[Reservations API] Error getting room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Create group block (holds rooms against availability)
+reservations.post("/tenants/:tenantId/blocks", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const body = await c.req.json();
+    
+    if (!body.code || !body.name || !body.groupMaster?.name || !body.checkInDate ||
+        !body.checkOutDate || !body.releaseDate || !Array.isArray(body.allotments)) {
+      return c.json({
+        success: false,
+        error: 'code, name, groupMaster.name, checkInDate, checkOutDate, releaseDate and allotments are required',
+      }, 400);
+    }
+    
+    const block = await RoomBlockService.create(tenantId, {
+      ...body,
+      createdBy: getAuth(c)?.userId || body.createdBy,
+    });
+    
+    return c.json({
+      success: true,
+      data: block,
+    }, 201);
+  } catch (error) {
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Reservations API] Error creating room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Update group block details
+reservations.put("/tenants/:tenantId/blocks/:blockId", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const blockId = c.req.param('blockId');
+    const body = await c.req.json();
+    
+    const block = await RoomBlockService.update(tenantId, blockId, body);
+    
+    if (!block) {
+      return c.json({ success: false, error: 'Room block not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: block,
+    });
+  } catch (error) {
+    if (error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Reservations API] Error updating room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Pick up a reservation from a group block
+reservations.post("/tenants/:tenantId/blocks/:blockId/pickup", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const blockId = c.req.param('blockId');
+    const body = await c.req.json();
+    
+    const reservation = await ReservationService.create(tenantId, { ...body, blockId });
+    
+    return c.json({
+      success: true,
+      data: reservation,
+    }, 201);
+  } catch (error) {
+    if (error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    if (error instanceof InventoryConflictError) {
+      return inventoryConflict(c, error);
+    }
+    if (error instanceof RoomConflictError) {
+      return roomConflict(c, error);
+    }
+    if (error instanceof RateRestrictionError) {
+      return rateRestriction(c, error);
+    }
+    if (error instanceof RatePlanError) {
+      return c.json({ success: false, error: error.message }, 400);
+    }
+    console.error('[Reservations API] Error picking up from room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Release a group block's unpicked rooms back to inventory
+reservations.post("/tenants/:tenantId/blocks/:blockId/release", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const blockId = c.req.param('blockId');
+    const block = await RoomBlockService.release(tenantId, blockId);
+    
+    if (!block) {
+      return c.json({ success: false, error: 'Room block not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: block,
+      message: `Room block ${block.code} released`,
+    });
+  } catch (error) {
+    if (error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error('[Reservations API] Error releasing room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Cancel a group block (picked-up reservations are kept)
+reservations.delete("/tenants/:tenantId/blocks/:blockId", async (c) => {
+  try {
+    const tenantId = c.req.param('tenantId');
+    const blockId = c.req.param('blockId');
+    const block = await RoomBlockService.release(tenantId, blockId, 'cancelled');
+    
+    if (!block) {
+      return c.json({ success: false, error: 'Room block not found' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      message: 'Room block cancelled successfully',
+    });
+  } catch (error) {
+    if (error instanceof RoomBlockError) {
+      return c.json({ success: false, error: error.message }, 409);
+    }
+    console.error('[Reservations API] Error cancelling room block:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
 export default reservations;
 
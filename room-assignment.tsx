@@ -0,0 +1,471 @@
+/**
+ * Room Assignment Engine for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Picks a concrete room (from `tenant:<tenantId>:rooms`) for a reservation and
+ * guarantees that no two active reservations hold the same physical room for
+ * overlapping nights. Every night of an assigned room is claimed under its own
+ * key (`room_hold:<tenantId>:<roomId>:<date>`), written in a single
+ * compare-and-set batch like the booking engine's inventory rows, so two
+ * concurrent assignments can't both take the same room. Auto-assignment ranks
+ * free rooms of the booked category against the guest's stored preferences.
+ */
+
+import * as kv from './kv_store.tsx';
+import { getStayDates } from './booking-engine.tsx';
+import type { Reservation, ReservationStatus, Room, RoomStatus, GuestPreference } from './models.tsx';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One night of a physical room claimed by a reservation
+ */
+export interface RoomHold {
+  reservationId: string;
+  roomId: string;
+  date: string; // ISO date (a night, not the departure day)
+  heldAt: string;
+}
+
+/**
+ * The fields of a Reservation, or of a legacy convenience record
+ * (checkIn/checkOut), that decide which room nights it holds
+ */
+export interface RoomStay {
+  id: string;
+  roomId?: string;
+  status: ReservationStatus;
+  checkInDate?: string;
+  checkOutDate?: string;
+  checkIn?: string;
+  checkOut?: string;
+}
+
+export interface HoldRebuildSummary {
+  tenantId?: string;
+  removed: number;
+  held: number;
+  conflictingReservationIds: string[]; // Later bookings that overlap an earlier one in the same room
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Raised when a room is already held by another reservation for part of a stay
+ */
+export class RoomConflictError extends Error {
+  roomId: string;
+  conflictingReservationIds: string[];
+  
+  constructor(roomId: string, conflictingReservationIds: string[]) {
+    super(`Room ${roomId} is already assigned to ${conflictingReservationIds.join(', ')} for overlapping dates`);
+    this.name = 'RoomConflictError';
+    this.roomId = roomId;
+    this.conflictingReservationIds = conflictingReservationIds;
+  }
+}
+
+/**
+ * Raised when a reservation cannot be given a room (bad room, no free rooms, ...)
+ */
+export class RoomAssignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomAssignmentError';
+  }
+}
+
+// Statuses that no longer hold a physical room
+const INACTIVE_STATUSES: ReservationStatus[] = ['cancelled', 'no_show', 'checked_out'];
+
+// Room statuses that can never be handed out
+const UNASSIGNABLE_ROOM_STATUSES = ['maintenance', 'out_of_order'];
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+// A hold younger than this is trusted even if its reservation doesn't show the
+// room yet: holds are claimed before the reservation itself is saved
+const HOLD_GRACE_MS = 5 * 60 * 1000;
+
+const REBUILD_BATCH_SIZE = 500;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read the stay dates from either a Reservation or a legacy convenience record
+ */
+function stayOf(record: RoomStay): { checkIn: string; checkOut: string } {
+  return {
+    checkIn: (record.checkInDate || record.checkIn)!,
+    checkOut: (record.checkOutDate || record.checkOut)!,
+  };
+}
+
+/**
+ * Two stays overlap when each starts before the other ends (check-out day is free)
+ */
+function staysOverlap(a: { checkIn: string; checkOut: string }, b: { checkIn: string; checkOut: string }): boolean {
+  return a.checkIn < b.checkOut && b.checkIn < a.checkOut;
+}
+
+export function roomHoldKey(tenantId: string, roomId: string, date: string): string {
+  return `room_hold:${tenantId}:${roomId}:${date}`;
+}
+
+/**
+ * Hold keys for every night an active reservation occupies its assigned room
+ */
+function holdKeys(tenantId: string, record: RoomStay | null): string[] {
+  if (!record?.roomId || INACTIVE_STATUSES.includes(record.status)) return [];
+  
+  const { checkIn, checkOut } = stayOf(record);
+  return getStayDates(checkIn, checkOut).map(date => roomHoldKey(tenantId, record.roomId!, date));
+}
+
+/**
+ * Whether a reservation record still occupies a room on a night
+ */
+function occupies(record: RoomStay | null, roomId: string, date: string): boolean {
+  if (!record || record.roomId !== roomId || INACTIVE_STATUSES.includes(record.status)) return false;
+  
+  const { checkIn, checkOut } = stayOf(record);
+  return checkIn <= date && date < checkOut;
+}
+
+/**
+ * Score how well a room matches a guest's preferences (higher is better)
+ */
+function scoreRoom(room: Room, floors: number[], preference: GuestPreference | null): number {
+  if (!preference) return 0;
+  
+  let score = 0;
+  
+  if (preference.bedType && room.bedType === preference.bedType) {
+    score += 4;
+  }
+  
+  if (preference.smokingPreference && room.smoking !== undefined) {
+    const wantsSmoking = preference.smokingPreference === 'smoking';
+    // A smoking mismatch is worse than any other miss
+    score += room.smoking === wantsSmoking ? 2 : -8;
+  }
+  
+  if (preference.floorPreference && floors.length > 0) {
+    const floor = room.floor || 1;
+    const low = floors[0];
+    const high = floors[floors.length - 1];
+    const third = (high - low) / 3;
+    
+    switch (preference.floorPreference) {
+      case 'low':
+        if (floor <= low + third) score += 3;
+        break;
+      case 'mid':
+        if (floor > low + third && floor < high - third) score += 3;
+        break;
+      case 'high':
+        if (floor >= high - third) score += 3;
+        break;
+      case 'specific':
+        if (preference.specificFloor !== undefined && floor === preference.specificFloor) score += 5;
+        break;
+    }
+  }
+  
+  return score;
+}
+
+// ============================================================================
+// ROOM ASSIGNMENT SERVICE
+// ============================================================================
+
+export const RoomAssignmentService = {
+  /**
+   * List all rooms for a tenant
+   */
+  async listRooms(tenantId: string): Promise<Room[]> {
+    return await kv.get(`tenant:${tenantId}:rooms`) || [];
+  },
+  
+  /**
+   * Set the housekeeping status of a physical room
+   */
+  async setRoomStatus(tenantId: string, roomId: string, status: RoomStatus): Promise<Room | null> {
+    let updated: Room | null = null;
+    
+    // The rooms list is shared by every reservation, so write it with compare-and-set
+    await kv.update(`tenant:${tenantId}:rooms`, (rooms: Room[] | null) => {
+      const list = rooms || [];
+      const index = list.findIndex(r => r.id === roomId);
+      if (index === -1) {
+        updated = null;
+        return undefined;
+      }
+      
+      updated = { ...list[index], status, updated: new Date().toISOString() };
+      list[index] = updated;
+      return list;
+    });
+    
+    return updated;
+  },
+  
+  /**
+   * Move a reservation's room holds from its stored record (`before`, null
+   * when creating) to the record about to be saved (`after`, null when
+   * deleting). Claims every night of the new room/stay first, throwing
+   * RoomConflictError if another reservation holds any of them, then frees
+   * the nights no longer needed. Accepts Reservations and legacy records.
+   */
+  async syncHolds(tenantId: string, before: RoomStay | null, after: RoomStay | null): Promise<void> {
+    const reservationId = (after || before)!.id;
+    const wanted = holdKeys(tenantId, after);
+    
+    if (wanted.length > 0) {
+      await this.claimHolds(tenantId, reservationId, after!.roomId!, wanted);
+    }
+    
+    const released = holdKeys(tenantId, before).filter(key => !wanted.includes(key));
+    await this.releaseHolds(tenantId, reservationId, released);
+  },
+  
+  /**
+   * Claim hold keys for one reservation in a single compare-and-set batch.
+   * A hold whose reservation no longer occupies the room (deleted, moved or
+   * cancelled without releasing it) is taken over once past its grace period.
+   */
+  async claimHolds(tenantId: string, reservationId: string, roomId: string, keys: string[]): Promise<void> {
+    const holders = new Map<string, RoomStay | null>();
+    
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const holds = await kv.mget(keys) as RoomHold[];
+      const holdsByKey = new Map<string, RoomHold>();
+      holds.forEach(hold => {
+        if (hold?.roomId && hold?.date) {
+          holdsByKey.set(roomHoldKey(tenantId, hold.roomId, hold.date), hold);
+        }
+      });
+      
+      const conflictingIds = new Set<string>();
+      const entries: { key: string; expected: RoomHold | null; value: RoomHold }[] = [];
+      const now = new Date();
+      
+      for (const key of keys) {
+        const hold = holdsByKey.get(key);
+        if (hold?.reservationId === reservationId) continue;
+        
+        if (hold && now.getTime() - Date.parse(hold.heldAt) < HOLD_GRACE_MS) {
+          conflictingIds.add(hold.reservationId);
+          continue;
+        }
+        
+        if (hold) {
+          if (!holders.has(hold.reservationId)) {
+            holders.set(hold.reservationId, await kv.get(`reservation:${tenantId}:${hold.reservationId}`) ?? null);
+          }
+          if (occupies(holders.get(hold.reservationId) ?? null, hold.roomId, hold.date)) {
+            conflictingIds.add(hold.reservationId);
+            continue;
+          }
+        }
+        
+        const date = key.split(':').pop()!;
+        entries.push({ key, expected: hold || null, value: { reservationId, roomId, date, heldAt: now.toISOString() } });
+      }
+      
+      if (conflictingIds.size > 0) {
+        throw new RoomConflictError(roomId, Array.from(conflictingIds));
+      }
+      
+      if (await kv.mcompareAndSet(entries)) return;
+    }
+    
+    throw new kv.ConcurrencyError(keys[0], MAX_WRITE_ATTEMPTS);
+  },
+  
+  /**
+   * Delete the given hold keys that still belong to the reservation
+   */
+  async releaseHolds(tenantId: string, reservationId: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    
+    const holds = await kv.mget(keys) as RoomHold[];
+    const owned = holds
+      .filter(hold => hold?.reservationId === reservationId)
+      .map(hold => roomHoldKey(tenantId, hold.roomId, hold.date));
+    
+    if (owned.length > 0) {
+      await kv.mdel(owned);
+    }
+  },
+  
+  /**
+   * Recreate room holds from the stored reservations (all tenants, or one).
+   * Where bookings overlap in a room, the earliest created keeps it and the
+   * others are reported so they can be moved.
+   */
+  async rebuildHolds(tenantId?: string): Promise<HoldRebuildSummary> {
+    const scope = tenantId ? `${tenantId}:` : '';
+    let removed = 0;
+    
+    // 1. Drop existing holds
+    let cursor: string | null = null;
+    do {
+      const page: kv.ScanPage = await kv.scan(`room_hold:${scope}`, { limit: REBUILD_BATCH_SIZE, cursor });
+      if (page.keys.length > 0) {
+        await kv.mdel(page.keys);
+        removed += page.keys.length;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    // 2. Hold every night of every active assigned stay, oldest booking first
+    const holds = new Map<string, RoomHold>();
+    const conflicting = new Set<string>();
+    cursor = null;
+    do {
+      const page: kv.ScanPage<RoomStay> = await kv.scan(`reservation:${scope}`, { orderBy: 'createdAt', limit: REBUILD_BATCH_SIZE, cursor });
+      
+      page.items.forEach((record, i) => {
+        // Key format is reservation:<tenantId>:<id>
+        const recordTenantId = page.keys[i].split(':')[1];
+        const heldAt = new Date().toISOString();
+        
+        for (const key of holdKeys(recordTenantId, record)) {
+          const existing = holds.get(key);
+          if (existing && existing.reservationId !== record.id) {
+            conflicting.add(record.id);
+            continue;
+          }
+          holds.set(key, { reservationId: record.id, roomId: record.roomId!, date: key.split(':').pop()!, heldAt });
+        }
+      });
+      
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    const keys = Array.from(holds.keys());
+    for (let i = 0; i < keys.length; i += REBUILD_BATCH_SIZE) {
+      const batch = keys.slice(i, i + REBUILD_BATCH_SIZE);
+      await kv.mset(batch, batch.map(key => holds.get(key)));
+    }
+    
+    return { tenantId, removed, held: keys.length, conflictingReservationIds: Array.from(conflicting) };
+  },
+  
+  /**
+   * List rooms of the reservation's category that are free for the whole stay
+   */
+  async findFreeRooms(tenantId: string, reservation: Reservation): Promise<Room[]> {
+    const rooms = await this.listRooms(tenantId);
+    const reservations = await kv.getByPrefix(`reservation:${tenantId}:`) as Reservation[];
+    const stay = stayOf(reservation);
+    
+    const takenRoomIds = new Set(
+      reservations
+        .filter(r =>
+          r.roomId &&
+          r.id !== reservation.id &&
+          !INACTIVE_STATUSES.includes(r.status) &&
+          staysOverlap(stayOf(r), stay)
+        )
+        .map(r => r.roomId)
+    );
+    
+    return rooms.filter(room =>
+      room.categoryId === reservation.roomCategoryId &&
+      !UNASSIGNABLE_ROOM_STATUSES.includes(room.status) &&
+      !takenRoomIds.has(room.id)
+    );
+  },
+  
+  /**
+   * Assign a specific room to a reservation
+   */
+  async assign(tenantId: string, reservationId: string, roomId: string): Promise<Reservation> {
+    const key = `reservation:${tenantId}:${reservationId}`;
+    const reservation = await kv.get(key) as Reservation | null;
+    if (!reservation) {
+      throw new RoomAssignmentError('Reservation not found');
+    }
+    
+    if (INACTIVE_STATUSES.includes(reservation.status)) {
+      throw new RoomAssignmentError(`Cannot assign a room to a ${reservation.status} reservation`);
+    }
+    
+    const rooms = await this.listRooms(tenantId);
+    const room = rooms.find(r => r.id === roomId);
+    if (!room) {
+      throw new RoomAssignmentError('Room not found');
+    }
+    
+    if (reservation.roomCategoryId && room.categoryId !== reservation.roomCategoryId) {
+      throw new RoomAssignmentError(`Room ${room.roomNumber} is not in the booked room category`);
+    }
+    
+    if (UNASSIGNABLE_ROOM_STATUSES.includes(room.status)) {
+      throw new RoomAssignmentError(`Room ${room.roomNumber} is ${room.status}`);
+    }
+    
+    const updated: Reservation = {
+      ...reservation,
+      roomId: room.id,
+      roomNumber: room.roomNumber,
+      updatedAt: new Date().toISOString(),
+    };
+    
+    // Claim the new room before saving, so a concurrent assignment of the
+    // same room fails with RoomConflictError instead of double-booking it
+    await this.syncHolds(tenantId, reservation, updated);
+    await kv.set(key, updated);
+    return updated;
+  },
+  
+  /**
+   * Pick the best free room for a reservation, honouring the guest's
+   * floor, bed type and smoking preferences
+   */
+  async autoAssign(tenantId: string, reservationId: string): Promise<{ reservation: Reservation; score: number }> {
+    const reservation = await kv.get(`reservation:${tenantId}:${reservationId}`) as Reservation | null;
+    if (!reservation) {
+      throw new RoomAssignmentError('Reservation not found');
+    }
+    
+    if (!reservation.roomCategoryId) {
+      throw new RoomAssignmentError('Reservation has no room category to assign from');
+    }
+    
+    const candidates = await this.findFreeRooms(tenantId, reservation);
+    if (candidates.length === 0) {
+      throw new RoomAssignmentError('No free rooms in the booked category for these dates');
+    }
+    
+    const preference = reservation.guestId
+      ? await kv.get(`pref:${tenantId}:${reservation.guestId}`) as GuestPreference | null
+      : null;
+    
+    const allRooms = await this.listRooms(tenantId);
+    const floors = [...new Set(allRooms.map(r => r.floor || 1))].sort((a, b) => a - b);
+    
+    // Prefer clean rooms, then the best preference match, then the lowest room number
+    const ranked = candidates
+      .map(room => ({
+        room,
+        score: scoreRoom(room, floors, preference) + (room.status === 'available' ? 1 : 0),
+      }))
+      .sort((a, b) =>
+        b.score - a.score ||
+        a.room.roomNumber.localeCompare(b.room.roomNumber, undefined, { numeric: true })
+      );
+    
+    const best = ranked[0];
+    const assigned = await this.assign(tenantId, reservationId, best.room.id);
+    
+    return { reservation: assigned, score: best.score };
+  },
+};
@@ -0,0 +1,350 @@
+/**
+ * Group Blocks for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * A room block (allotment) holds rooms of one or more categories for a group
+ * over a date range. The held rooms are taken out of the nightly availability
+ * rows when the block is created, so they cannot be sold to the public.
+ *
+ * Picking up a reservation from the block hands one of the held rooms to the
+ * reservation: the block gives the nights back and the reservation takes them
+ * through the normal BookingEngine path, after which the reservation behaves
+ * like any other (cancelling it returns the room to general inventory).
+ *
+ * Rooms still unpicked when the release date has closed go back to inventory
+ * (see RoomBlockService.releaseExpired, run by the night audit).
+ */
+
+import * as kv from './kv_store.tsx';
+import { BookingEngine, getStayDates } from './booking-engine.tsx';
+import type { RoomBlock, RoomBlockNight } from './models.tsx';
+
+export interface RoomBlockAllotment {
+  roomCategoryId: string;
+  rooms: number; // Rooms held every night of the block
+  nights?: { date: string; rooms: number }[]; // Per-night overrides
+}
+
+export interface RoomBlockPickup {
+  roomCategoryId?: string;
+  checkInDate: string;
+  checkOutDate: string;
+  numberOfRooms?: number;
+}
+
+/**
+ * Raised when a block cannot be created, picked up from or released
+ */
+export class RoomBlockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RoomBlockError';
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Rooms a block still holds against inventory for a night
+ */
+function unpicked(night: RoomBlockNight): number {
+  return Math.max(night.blocked - night.pickedUp, 0);
+}
+
+function blockKey(tenantId: string, blockId: string): string {
+  return `room_block:${tenantId}:${blockId}`;
+}
+
+/**
+ * Category a pickup takes rooms from (the block's first when not given)
+ */
+function pickupCategory(block: RoomBlock, stay: RoomBlockPickup): string {
+  return stay.roomCategoryId || block.nights[0].roomCategoryId;
+}
+
+/**
+ * Block with `rooms` more (or, when negative, fewer) picked up on the given
+ * nights of a category
+ */
+function withPickedUp(block: RoomBlock, categoryId: string, dates: string[], rooms: number): RoomBlock {
+  return {
+    ...block,
+    nights: block.nights.map(n =>
+      n.roomCategoryId === categoryId && dates.includes(n.date)
+        ? { ...n, pickedUp: Math.max(n.pickedUp + rooms, 0) }
+        : n
+    ),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Expand allotments into one entry per category and night
+ */
+function buildNights(checkInDate: string, checkOutDate: string, allotments: RoomBlockAllotment[]): RoomBlockNight[] {
+  const dates = getStayDates(checkInDate, checkOutDate);
+  const nights: RoomBlockNight[] = [];
+  
+  for (const allotment of allotments) {
+    for (const date of dates) {
+      const override = allotment.nights?.find(n => n.date === date);
+      const blocked = override ? override.rooms : allotment.rooms;
+      if (blocked > 0) {
+        nights.push({ roomCategoryId: allotment.roomCategoryId, date, blocked, pickedUp: 0 });
+      }
+    }
+  }
+  
+  return nights;
+}
+
+// ============================================================================
+// ROOM BLOCK SERVICE
+// ============================================================================
+
+export const RoomBlockService = {
+  /**
+   * List all blocks for a tenant
+   */
+  async list(tenantId: string, options?: { status?: RoomBlock['status'] }): Promise<RoomBlock[]> {
+    const blocks = await kv.getByPrefix(`room_block:${tenantId}:`) as RoomBlock[];
+    return blocks
+      .filter(b => !options?.status || b.status === options.status)
+      .sort((a, b) => a.checkInDate.localeCompare(b.checkInDate));
+  },
+  
+  /**
+   * Get a block by ID
+   */
+  async get(tenantId: string, blockId: string): Promise<RoomBlock | null> {
+    return await kv.get(blockKey(tenantId, blockId));
+  },
+  
+  /**
+   * Create a block and take its rooms out of inventory
+   * (throws InventoryConflictError if any night cannot be held)
+   */
+  async create(
+    tenantId: string,
+    data: Omit<RoomBlock, 'id' | 'tenantId' | 'nights' | 'status' | 'reservationIds' | 'createdAt'> & {
+      allotments: RoomBlockAllotment[];
+    }
+  ): Promise<RoomBlock> {
+    const { allotments, ...details } = data;
+    
+    if (details.checkOutDate <= details.checkInDate) {
+      throw new RoomBlockError('Check-out must be after check-in');
+    }
+    
+    if (details.releaseDate > details.checkInDate) {
+      throw new RoomBlockError('Release date must be on or before the first night');
+    }
+    
+    const existing = await this.list(tenantId);
+    if (existing.some(b => b.code.toLowerCase() === details.code.toLowerCase() && b.status === 'active')) {
+      throw new RoomBlockError(`An active block with code ${details.code} already exists`);
+    }
+    
+    const nights = buildNights(details.checkInDate, details.checkOutDate, allotments || []);
+    if (nights.length === 0) {
+      throw new RoomBlockError('A block needs at least one room');
+    }
+    
+    await BookingEngine.adjustNights(
+      tenantId,
+      nights.map(n => ({ roomCategoryId: n.roomCategoryId, date: n.date, rooms: n.blocked }))
+    );
+    
+    const blockId = `blk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const block: RoomBlock = {
+      ...details,
+      id: blockId,
+      tenantId,
+      nights,
+      status: 'active',
+      reservationIds: [],
+      createdAt: new Date().toISOString(),
+    };
+    
+    await kv.set(blockKey(tenantId, blockId), block);
+    return block;
+  },
+  
+  /**
+   * Update a block's group details (allotments are changed by releasing and re-blocking)
+   */
+  async update(
+    tenantId: string,
+    blockId: string,
+    updates: Partial<Pick<RoomBlock, 'code' | 'name' | 'groupMaster' | 'releaseDate' | 'ratePlanId'>>
+  ): Promise<RoomBlock | null> {
+    return await kv.update<RoomBlock>(blockKey(tenantId, blockId), (existing) => {
+      if (!existing) return undefined;
+      
+      if (updates.releaseDate && updates.releaseDate > existing.checkInDate) {
+        throw new RoomBlockError('Release date must be on or before the first night');
+      }
+      
+      return {
+        ...existing,
+        code: updates.code ?? existing.code,
+        name: updates.name ?? existing.name,
+        groupMaster: updates.groupMaster ? { ...existing.groupMaster, ...updates.groupMaster } : existing.groupMaster,
+        releaseDate: updates.releaseDate ?? existing.releaseDate,
+        ratePlanId: updates.ratePlanId ?? existing.ratePlanId,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  },
+  
+  /**
+   * Hand rooms from the block to a new reservation. The block's hold on those
+   * nights is given back to inventory so the reservation can take them.
+   */
+  async pickUp(tenantId: string, blockId: string, stay: RoomBlockPickup): Promise<RoomBlock> {
+    const key = blockKey(tenantId, blockId);
+    const rooms = stay.numberOfRooms || 1;
+    const dates = getStayDates(stay.checkInDate, stay.checkOutDate);
+    
+    // Claim the rooms on the block first, so concurrent pickups cannot both
+    // take the last one
+    const updated = await kv.update<RoomBlock>(key, (block) => {
+      if (!block) {
+        throw new RoomBlockError('Room block not found');
+      }
+      
+      if (block.status !== 'active') {
+        throw new RoomBlockError(`Room block ${block.code} is ${block.status}`);
+      }
+      
+      const categoryId = pickupCategory(block, stay);
+      const short = dates.filter(date => {
+        const night = block.nights.find(n => n.roomCategoryId === categoryId && n.date === date);
+        return !night || unpicked(night) < rooms;
+      });
+      if (short.length > 0) {
+        throw new RoomBlockError(`Room block ${block.code} has no rooms left on ${short.join(', ')}`);
+      }
+      
+      return withPickedUp(block, categoryId, dates, rooms);
+    }) as RoomBlock;
+    
+    const categoryId = pickupCategory(updated, stay);
+    try {
+      await BookingEngine.adjustNights(tenantId, dates.map(date => ({ roomCategoryId: categoryId, date, rooms: -rooms })));
+    } catch (error) {
+      await kv.update<RoomBlock>(key, (block) => block ? withPickedUp(block, categoryId, dates, -rooms) : undefined);
+      throw error;
+    }
+    
+    return updated;
+  },
+  
+  /**
+   * Undo a pickup whose reservation could not be created
+   */
+  async returnToBlock(tenantId: string, blockId: string, stay: RoomBlockPickup): Promise<void> {
+    const rooms = stay.numberOfRooms || 1;
+    const dates = getStayDates(stay.checkInDate, stay.checkOutDate);
+    
+    const updated = await kv.update<RoomBlock>(blockKey(tenantId, blockId), (block) =>
+      block ? withPickedUp(block, pickupCategory(block, stay), dates, -rooms) : undefined
+    );
+    if (!updated) return;
+    
+    const categoryId = pickupCategory(updated, stay);
+    await BookingEngine.adjustNights(tenantId, dates.map(date => ({ roomCategoryId: categoryId, date, rooms })));
+  },
+  
+  /**
+   * Record a picked-up reservation on the block
+   */
+  async attachReservation(tenantId: string, blockId: string, reservationId: string): Promise<void> {
+    await kv.update<RoomBlock>(blockKey(tenantId, blockId), (block) => {
+      if (!block || block.reservationIds.includes(reservationId)) return undefined;
+      return {
+        ...block,
+        reservationIds: [...block.reservationIds, reservationId],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  },
+  
+  /**
+   * Return every unpicked room to inventory and close the block
+   */
+  async release(
+    tenantId: string,
+    blockId: string,
+    status: 'released' | 'cancelled' = 'released'
+  ): Promise<RoomBlock | null> {
+    const key = blockKey(tenantId, blockId);
+    const now = new Date().toISOString();
+    
+    // Close the block first, so a concurrent release or pickup sees it closed
+    // and its rooms are only returned once
+    const released = await kv.update<RoomBlock>(key, (block) => {
+      if (!block) return undefined;
+      
+      if (block.status !== 'active') {
+        throw new RoomBlockError(`Room block ${block.code} is already ${block.status}`);
+      }
+      
+      return { ...block, status, releasedAt: now, updatedAt: now };
+    });
+    if (!released) return null;
+    
+    try {
+      await BookingEngine.adjustNights(
+        tenantId,
+        released.nights.map(n => ({ roomCategoryId: n.roomCategoryId, date: n.date, rooms: -unpicked(n) }))
+      );
+    } catch (error) {
+      await kv.update<RoomBlock>(key, (block) =>
+        block?.status === status && block.releasedAt === now
+          ? { ...block, status: 'active', releasedAt: undefined, updatedAt: new Date().toISOString() }
+          : undefined
+      );
+      throw error;
+    }
+    
+    return released;
+  },
+  
+  /**
+   * Release every active block whose release date is on or before `closedDate`
+   * (the business date that has just been closed)
+   */
+  async releaseExpired(tenantId: string, closedDate: string): Promise<RoomBlock[]> {
+    const active = await this.list(tenantId, { status: 'active' });
+    const released: RoomBlock[] = [];
+    
+    for (const block of active.filter(b => b.releaseDate <= closedDate)) {
+      const result = await this.release(tenantId, block.id);
+      if (result) released.push(result);
+    }
+    
+    return released;
+  },
+  
+  /**
+   * Summarize blocked vs picked-up rooms per category
+   */
+  getPickupSummary(block: RoomBlock): { roomCategoryId: string; roomNights: number; pickedUp: number; pickupRate: number }[] {
+    const byCategory = new Map<string, { roomNights: number; pickedUp: number }>();
+    
+    for (const night of block.nights) {
+      const totals = byCategory.get(night.roomCategoryId) || { roomNights: 0, pickedUp: 0 };
+      totals.roomNights += night.blocked;
+      totals.pickedUp += night.pickedUp;
+      byCategory.set(night.roomCategoryId, totals);
+    }
+    
+    return Array.from(byCategory, ([roomCategoryId, totals]) => ({
+      roomCategoryId,
+      ...totals,
+      pickupRate: totals.roomNights > 0 ? Math.round((totals.pickedUp / totals.roomNights) * 100) : 0,
+    }));
+  },
+};
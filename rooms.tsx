@@ -339,7 +339,7 @@ rooms.get("/", async (c) => {
 rooms.post("/", async (c) => {
   try {
     const body = await c.req.json();
-    const { roomNumber, categoryId, floor, status } = body;
+    const { roomNumber, categoryId, floor, status, bedType, smoking } = body;
     
     const tenantId = body.tenantId || 
                      c.req.query('tenantId') || 
@@ -368,6 +368,8 @@ rooms.post("/", async (c) => {
       categoryId,
       floor: floor || 1,
       status: status || 'available',
+      bedType: bedType || undefined,
+      smoking: smoking !== undefined ? !!smoking : undefined,
       created: new Date().toISOString(),
       updated: new Date().toISOString()
     };
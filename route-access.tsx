@@ -0,0 +1,187 @@
+/**
+ * Route Access Table for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Declares who may call each route, so the auth middleware can enforce it in
+ * one place instead of every route parsing the Authorization header itself:
+ *
+ *   public          - no token needed
+ *   authenticated   - any signed-in user
+ *   tenant          - a tenant user acting on their own tenant, or a platform admin
+ *   platform_admin  - platform admins only
+ *
+ * Paths are relative to the server base path. `:name` matches one segment and
+ * a trailing `/*` matches the path itself and anything below it. The first
+ * matching rule wins; routes without a rule are platform-admin-only.
+ *
+ * Every non-public rule also names the resource it guards, which gives the
+ * permission it requires (`reservations:write` for a POST under
+ * /reservations) and the permission catalog built in permissions.tsx.
+ */
+
+export type RouteAccess = 'public' | 'authenticated' | 'tenant' | 'platform_admin';
+
+export type PermissionAction = 'read' | 'write';
+
+export interface RouteRule {
+  path: string;
+  methods?: string[]; // Any method when omitted
+  access: RouteAccess;
+  resource?: string; // Guarded by `<resource>:read` / `<resource>:write` (see permissions.tsx)
+  action?: PermissionAction; // Overrides the action derived from the method
+  sharedSecret?: boolean; // Also allow requests carrying the ADMIN_SHARED_SECRET header
+  mfaExempt?: boolean; // Reachable before the second factor is verified (see mfa.tsx)
+}
+
+export interface RouteMatch {
+  rule: RouteRule;
+  params: Record<string, string>;
+}
+
+export const READ_METHODS = ['GET', 'HEAD'];
+
+const READ = READ_METHODS;
+
+export const ROUTE_ACCESS: RouteRule[] = [
+  // Public
+  { path: '/health', access: 'public' },
+  { path: '/developers/*', methods: READ, access: 'public' },
+  { path: '/system/health', methods: READ, access: 'public' },
+  { path: '/system/status/*', methods: READ, access: 'public' },
+  // The system router is also mounted at /status and at the base path; only
+  // its status page is public there, not the diagnostics next to it
+  { path: '/status/services', methods: READ, access: 'public' },
+  { path: '/status/incidents/*', methods: READ, access: 'public' },
+  { path: '/status/uptime', methods: READ, access: 'public' },
+  { path: '/status/health', methods: READ, access: 'public' },
+  { path: '/status/status/services', methods: READ, access: 'public' },
+  { path: '/status/status/incidents/*', methods: READ, access: 'public' },
+  { path: '/status/status/uptime', methods: READ, access: 'public' },
+  { path: '/status/status/health', methods: READ, access: 'public' },
+  
+  // Bootstrap: creating the first platform admin needs the shared secret
+  { path: '/admin/create-admin', methods: ['POST'], access: 'platform_admin', resource: 'admins', sharedSecret: true },
+  
+  // Password login (tracks failures for lockout, see login-attempts.tsx)
+  { path: '/auth/login', methods: ['POST'], access: 'public' },
+  
+  // Setting up and answering the second factor
+  { path: '/auth/mfa/*', access: 'authenticated', mfaExempt: true },
+  
+  // Any signed-in user
+  { path: '/auth/*', access: 'authenticated' },
+  { path: '/search', methods: READ, access: 'authenticated', resource: 'search' },
+  
+  // Tenant operations
+  { path: '/guests/*', access: 'tenant', resource: 'guests' },
+  { path: '/reservations/tenants/:tenantId/night-audit/*', access: 'tenant', resource: 'night_audit' },
+  { path: '/reservations/tenants/:tenantId/cancellation-policies/*', access: 'tenant', resource: 'cancellation_policies' },
+  { path: '/reservations/tenants/:tenantId/blocks/*', access: 'tenant', resource: 'room_blocks' },
+  { path: '/reservations/tenants/:tenantId/*', access: 'tenant', resource: 'reservations' },
+  { path: '/reservations/*', access: 'tenant', resource: 'reservations' },
+  { path: '/rooms/*', access: 'tenant', resource: 'rooms' },
+  // The availability router declares its own /availability-rates prefix
+  { path: '/availability-rates/availability-rates/quote', methods: ['POST'], access: 'tenant', resource: 'rates', action: 'read' },
+  { path: '/availability-rates/*', access: 'tenant', resource: 'rates' },
+  { path: '/loyalty-programs', methods: READ, access: 'tenant', resource: 'loyalty' },
+  { path: '/campaigns', methods: READ, access: 'tenant', resource: 'loyalty' },
+  { path: '/communications', methods: READ, access: 'tenant', resource: 'communications' },
+  { path: '/tenants/:tenantId/settings', access: 'tenant', resource: 'tenant_settings' },
+  { path: '/users/tenants/:tenantId/users', methods: READ, access: 'tenant', resource: 'users' },
+  { path: '/features/tenants/:tenantId/features', methods: READ, access: 'tenant', resource: 'features' },
+  { path: '/usage/tenants/:tenantId/usage', methods: READ, access: 'tenant', resource: 'usage' },
+  { path: '/integrations/tenants/:tenantId/integrations', methods: READ, access: 'tenant', resource: 'integrations' },
+  
+  // Platform administration
+  { path: '/admin/*', access: 'platform_admin', resource: 'admins' },
+  { path: '/tenants/*', access: 'platform_admin', resource: 'tenants' },
+  { path: '/users/*', access: 'platform_admin', resource: 'users' },
+  { path: '/plans/*', access: 'platform_admin', resource: 'plans' },
+  { path: '/features/*', access: 'platform_admin', resource: 'features' },
+  { path: '/usage/*', access: 'platform_admin', resource: 'usage' },
+  { path: '/dashboard/*', access: 'platform_admin', resource: 'dashboard' },
+  { path: '/integrations/*', access: 'platform_admin', resource: 'integrations' },
+  { path: '/webhooks/deliveries/process', methods: ['POST'], access: 'platform_admin', resource: 'webhooks', sharedSecret: true }, // Retry worker, for a scheduler
+  { path: '/webhooks/*', access: 'platform_admin', resource: 'webhooks' },
+  { path: '/compliance/*', access: 'platform_admin', resource: 'compliance' },
+  { path: '/security/*', access: 'platform_admin', resource: 'security' },
+  { path: '/settings/*', access: 'platform_admin', resource: 'settings' },
+  { path: '/notification-templates/*', access: 'platform_admin', resource: 'notifications' },
+  { path: '/notification-delivery-history/*', access: 'platform_admin', resource: 'notifications' },
+  { path: '/notification-settings', access: 'platform_admin', resource: 'notifications' },
+  { path: '/notification-statistics', access: 'platform_admin', resource: 'notifications' },
+  { path: '/status/*', access: 'platform_admin', resource: 'status' },
+  { path: '/audit-logs/*', access: 'platform_admin', resource: 'audit_logs' },
+  { path: '/api-keys/*', access: 'platform_admin', resource: 'api_keys' },
+  { path: '/system/events/retry', methods: ['POST'], access: 'platform_admin', resource: 'system', sharedSecret: true }, // Retry worker, for a scheduler
+  
+  // Everything else (system, diagnostics, seed, index rebuilds, ...) falls
+  // through to the platform_admin default below
+];
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+interface CompiledRule {
+  rule: RouteRule;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+function compile(rule: RouteRule): CompiledRule {
+  const paramNames: string[] = [];
+  const wildcard = rule.path.endsWith('/*');
+  const base = wildcard ? rule.path.slice(0, -2) : rule.path;
+  
+  const source = base
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  
+  return {
+    rule,
+    pattern: new RegExp(`^${source}${wildcard ? '(?:/.*)?' : ''}/?$`),
+    paramNames,
+  };
+}
+
+const COMPILED = ROUTE_ACCESS.map(compile);
+
+export const DEFAULT_RULE: RouteRule = { path: '/*', access: 'platform_admin', resource: 'system' };
+
+/**
+ * Permission a request needs under a rule, or null when the rule guards none
+ */
+export function requiredPermission(rule: RouteRule, method: string): string | null {
+  if (!rule.resource) return null;
+  const action = rule.action || (READ_METHODS.includes(method.toUpperCase()) ? 'read' : 'write');
+  return `${rule.resource}:${action}`;
+}
+
+/**
+ * Find the rule for a request path (relative to the base path)
+ */
+export function matchRoute(method: string, path: string): RouteMatch {
+  const upperMethod = method.toUpperCase();
+  
+  for (const { rule, pattern, paramNames } of COMPILED) {
+    if (rule.methods && !rule.methods.includes(upperMethod)) continue;
+    
+    const match = pattern.exec(path);
+    if (!match) continue;
+    
+    const params: Record<string, string> = {};
+    paramNames.forEach((name, i) => {
+      params[name] = decodeURIComponent(match[i + 1]);
+    });
+    return { rule, params };
+  }
+  
+  return { rule: DEFAULT_RULE, params: {} };
+}
@@ -0,0 +1,541 @@
+/**
+ * Search Engine for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Ranks guests, reservations and tenants against a free-text query:
+ * - names and emails are tokenized (case- and accent-insensitive) and each
+ *   query word may match a whole word, the start of a word, or a word within
+ *   a small edit distance (typos, transpositions)
+ * - phone numbers are compared in E.164 form, so "(555) 010-2030",
+ *   "555.010.2030" and "+1 555 010 2030" all find the same guest
+ * - codes (confirmation numbers, membership numbers, IDs) match exactly or by
+ *   prefix, ignoring case and punctuation
+ *
+ * Every query word has to match something for a record to be returned.
+ * Candidates are read with kv.scan, filtered in the database on a piece of the
+ * query every match must contain (see queryAnchor), and only those are ranked.
+ */
+
+import * as kv from './kv_store.tsx';
+import { redactTenant, type Guest, type Reservation, type Tenant, type TenantPrivateField } from './models.tsx';
+
+export type SearchEntityType = 'guest' | 'reservation' | 'tenant';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['guest', 'reservation', 'tenant'];
+
+type FieldKind = 'text' | 'email' | 'phone' | 'code';
+
+// Record returned with a result (tenants without their private fields)
+export type SearchRecord = Guest | Reservation | Omit<Tenant, TenantPrivateField>;
+
+export interface SearchField {
+  name: string;
+  value?: string | null;
+  kind: FieldKind;
+  weight?: number; // Multiplier on the field's match score (default 1)
+}
+
+export interface SearchDocument {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  fields: SearchField[];
+  record: SearchRecord;
+}
+
+export interface ParsedQuery {
+  text: string;
+  tokens: string[];
+  code: string; // Query with case and punctuation removed, for code matching
+  phone: string | null; // E.164, when the query looks like a phone number
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+  subtitle?: string;
+  score: number; // Higher is better; 1 is an exact match on a key field
+  matchedFields: string[];
+  record: SearchRecord;
+}
+
+export interface SearchOptions {
+  types?: SearchEntityType[];
+  limit?: number; // Default 20
+  phoneCountryCode?: string; // Calling code for numbers written without one (default "1")
+}
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_COUNTRY_CODE = '1';
+
+// Scores per kind of match; fuzzy matches lose FUZZY_STEP per extra edit
+const EXACT = 1;
+const PREFIX = 0.85;
+const FUZZY = 0.7;
+const FUZZY_STEP = 0.15;
+const PHONE_SUFFIX = 0.8;
+
+// Leading characters of a query word pushed down as a `contains` filter (kept
+// short, since typos from the third character on must still be found)
+const ANCHOR_LENGTH = 2;
+
+// Trailing digits of a phone number pushed down (formatting never splits them
+// in the common notations)
+const PHONE_ANCHOR_LENGTH = 4;
+
+// Rows read per scan page while collecting candidates
+const SCAN_PAGE_SIZE = 500;
+
+// Record fields searched for each type; the candidate filter matches any of them
+const GUEST_FIELDS = ['fullName', 'firstName', 'lastName', 'email', 'phone', 'id'];
+const RESERVATION_FIELDS = ['confirmationNumber', 'id', 'guestName', 'guestEmail', 'guestPhone', 'roomNumber'];
+const TENANT_FIELDS = ['name', 'subdomain', 'owner', 'ownerName', 'id'];
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Lower-case, strip accents and split into letter/digit words
+ */
+export function tokenize(text?: string | null): string[] {
+  if (!text) return [];
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Normalize a phone number to E.164 (+<country><number>). Numbers without a
+ * country code get `defaultCountryCode`. Returns null when there are too few
+ * digits to be a phone number.
+ */
+export function normalizePhone(raw?: string | null, defaultCountryCode: string = DEFAULT_COUNTRY_CODE): string | null {
+  if (!raw) return null;
+  
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 7) return null;
+  
+  if (trimmed.startsWith('+')) {
+    return `+${digits}`;
+  }
+  
+  // International dialling prefix (00 44 ...)
+  if (digits.startsWith('00')) {
+    return `+${digits.slice(2)}`;
+  }
+  
+  // National trunk prefix (0 20 ...) is dropped before adding the country code
+  if (digits.startsWith('0')) {
+    digits = digits.replace(/^0+/, '');
+  } else if (digits.startsWith(defaultCountryCode) && digits.length > 10) {
+    return `+${digits}`;
+  }
+  
+  return `+${defaultCountryCode}${digits}`;
+}
+
+function looksLikePhone(text: string): boolean {
+  return /^\+?[\d\s().\-]+$/.test(text) && text.replace(/\D/g, '').length >= 7;
+}
+
+function normalizeCode(text?: string | null): string {
+  return (text || '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+/**
+ * Parse a query once so it can be scored against many documents
+ */
+export function parseQuery(text: string, defaultCountryCode: string = DEFAULT_COUNTRY_CODE): ParsedQuery {
+  const trimmed = text.trim();
+  return {
+    text: trimmed,
+    tokens: tokenize(trimmed),
+    code: normalizeCode(trimmed),
+    phone: looksLikePhone(trimmed) ? normalizePhone(trimmed, defaultCountryCode) : null,
+  };
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Edit distance counting adjacent transpositions as one edit (optimal string
+ * alignment). Gives up and returns max + 1 once the distance exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previous2[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  
+  return previous[b.length];
+}
+
+/**
+ * Typos tolerated for a query word of this length
+ */
+function allowedEdits(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Best score of one query word against a field's words
+ */
+function scoreToken(queryToken: string, fieldTokens: string[]): number {
+  let best = 0;
+  const maxEdits = allowedEdits(queryToken.length);
+  
+  for (const token of fieldTokens) {
+    if (token === queryToken) return EXACT;
+    
+    if (queryToken.length >= 2 && token.startsWith(queryToken)) {
+      best = Math.max(best, PREFIX);
+      continue;
+    }
+    
+    if (maxEdits > 0) {
+      // Compare against the word and against its start, so typos in a
+      // partly typed word still match ("jonh" -> "johnson")
+      const distance = Math.min(
+        editDistance(queryToken, token, maxEdits),
+        editDistance(queryToken, token.slice(0, queryToken.length), maxEdits)
+      );
+      if (distance <= maxEdits) {
+        best = Math.max(best, FUZZY - FUZZY_STEP * (distance - 1));
+      }
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Score a whole-field match (phone numbers, codes, full emails)
+ */
+function scoreWholeField(query: ParsedQuery, field: SearchField, defaultCountryCode: string): number {
+  if (!field.value) return 0;
+  
+  switch (field.kind) {
+    case 'phone': {
+      if (!query.phone) return 0;
+      const phone = normalizePhone(field.value, defaultCountryCode);
+      if (!phone) return 0;
+      if (phone === query.phone) return EXACT;
+      
+      // Local part typed without its area/country code
+      const typedDigits = query.text.replace(/\D/g, '');
+      return phone.endsWith(typedDigits) ? PHONE_SUFFIX : 0;
+    }
+    case 'code': {
+      const code = normalizeCode(field.value);
+      if (!query.code || !code) return 0;
+      if (code === query.code) return EXACT;
+      if (query.code.length >= 3 && code.startsWith(query.code)) return PREFIX;
+      if (query.code.length >= 6 && editDistance(query.code, code, 1) <= 1) return FUZZY;
+      return 0;
+    }
+    case 'email':
+      return field.value.trim().toLowerCase() === query.text.toLowerCase() ? EXACT : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Score a document against a parsed query; 0 means no match
+ */
+export function scoreDocument(
+  query: ParsedQuery,
+  doc: SearchDocument,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): { score: number; matchedFields: string[] } {
+  const matchedFields = new Set<string>();
+  let wholeFieldScore = 0;
+  
+  for (const field of doc.fields) {
+    const score = scoreWholeField(query, field, defaultCountryCode) * (field.weight ?? 1);
+    if (score > 0) {
+      matchedFields.add(field.name);
+      wholeFieldScore = Math.max(wholeFieldScore, score);
+    }
+  }
+  
+  // Word matching: every query word must hit some text/email field
+  let tokenScore = 0;
+  const wordFields = doc.fields.filter(f => f.kind === 'text' || f.kind === 'email');
+  if (query.tokens.length > 0 && wordFields.length > 0) {
+    const fieldTokens = wordFields.map(f => tokenize(f.value));
+    let total = 0;
+    let allMatched = true;
+    const tokenMatches: string[] = [];
+    
+    for (const queryToken of query.tokens) {
+      let best = 0;
+      let bestField: string | null = null;
+      
+      for (let i = 0; i < wordFields.length; i++) {
+        const score = scoreToken(queryToken, fieldTokens[i]) * (wordFields[i].weight ?? 1);
+        if (score > best) {
+          best = score;
+          bestField = wordFields[i].name;
+        }
+      }
+      
+      if (best === 0) {
+        allMatched = false;
+        break;
+      }
+      
+      total += best;
+      if (bestField) tokenMatches.push(bestField);
+    }
+    
+    if (allMatched) {
+      tokenScore = total / query.tokens.length;
+      tokenMatches.forEach(name => matchedFields.add(name));
+    }
+  }
+  
+  const score = Math.max(wholeFieldScore, tokenScore);
+  return { score: Math.round(score * 1000) / 1000, matchedFields: score > 0 ? [...matchedFields] : [] };
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+export function guestDocument(guest: Guest): SearchDocument {
+  return {
+    type: 'guest',
+    id: guest.id,
+    title: guest.fullName || `${guest.firstName} ${guest.lastName}`,
+    subtitle: [guest.email, guest.phone].filter(Boolean).join(' · '),
+    record: guest,
+    fields: [
+      { name: 'fullName', value: guest.fullName || `${guest.firstName} ${guest.lastName}`, kind: 'text' },
+      { name: 'email', value: guest.email, kind: 'email', weight: 0.9 },
+      { name: 'phone', value: guest.phone, kind: 'phone' },
+      { name: 'id', value: guest.id, kind: 'code' },
+    ],
+  };
+}
+
+export function reservationDocument(reservation: Reservation): SearchDocument {
+  return {
+    type: 'reservation',
+    id: reservation.id,
+    title: `${reservation.guestName} · ${reservation.confirmationNumber || reservation.id}`,
+    subtitle: `${reservation.checkInDate} → ${reservation.checkOutDate} · ${reservation.status}`,
+    record: reservation,
+    fields: [
+      { name: 'confirmationNumber', value: reservation.confirmationNumber, kind: 'code' },
+      { name: 'id', value: reservation.id, kind: 'code' },
+      { name: 'guestName', value: reservation.guestName, kind: 'text', weight: 0.95 },
+      { name: 'guestEmail', value: reservation.guestEmail, kind: 'email', weight: 0.85 },
+      { name: 'guestPhone', value: reservation.guestPhone, kind: 'phone', weight: 0.95 },
+      { name: 'roomNumber', value: reservation.roomNumber, kind: 'code', weight: 0.6 },
+    ],
+  };
+}
+
+export function tenantDocument(tenant: Tenant): SearchDocument {
+  return {
+    type: 'tenant',
+    id: tenant.id,
+    title: tenant.name,
+    subtitle: [tenant.subdomain, tenant.owner].filter(Boolean).join(' · '),
+    record: redactTenant(tenant),
+    fields: [
+      { name: 'name', value: tenant.name, kind: 'text' },
+      { name: 'subdomain', value: tenant.subdomain, kind: 'code' },
+      { name: 'subdomain', value: tenant.subdomain, kind: 'text', weight: 0.9 },
+      { name: 'owner', value: tenant.owner, kind: 'email', weight: 0.85 },
+      { name: 'ownerName', value: tenant.ownerName, kind: 'text', weight: 0.85 },
+      { name: 'id', value: tenant.id, kind: 'code' },
+    ],
+  };
+}
+
+function isTenantRecord(value: unknown): value is Tenant {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const record = value as Partial<Tenant>;
+  return typeof record.id === 'string' && typeof record.subdomain === 'string';
+}
+
+/**
+ * Load a tenant by its T-n id or the Postgres UUID carried in auth tokens,
+ * with every id it is known by (its records may be keyed under either)
+ */
+async function resolveTenant(tenantId: string): Promise<{ tenant: Tenant | null; ids: string[] }> {
+  const aliases = new Set([tenantId]);
+  
+  const mapping = await kv.get(`tenant_uuid:${tenantId}`);
+  if (mapping?.customId) aliases.add(mapping.customId);
+  
+  let tenant: Tenant | null = null;
+  for (const id of aliases) {
+    const record = await kv.get(`tenant:${id}`);
+    if (isTenantRecord(record)) {
+      tenant = record;
+      break;
+    }
+  }
+  
+  if (tenant) aliases.add(tenant.id);
+  if (tenant?.uuid) aliases.add(tenant.uuid);
+  
+  return { tenant, ids: Array.from(aliases) };
+}
+
+/**
+ * Text that every record matching the query contains (case-insensitively) in
+ * one of its search fields: the last digits of a phone number, otherwise the
+ * start of the longest query word. Null when nothing can match.
+ *
+ * This trades a little recall for not reading every record: a typo or an
+ * accented letter within those first characters is not found.
+ */
+export function queryAnchor(query: ParsedQuery): string | null {
+  if (query.phone) {
+    return query.phone.slice(-PHONE_ANCHOR_LENGTH);
+  }
+  
+  const longest = query.tokens.reduce((best, token) => token.length > best.length ? token : best, '');
+  return longest ? longest.slice(0, ANCHOR_LENGTH) : null;
+}
+
+/**
+ * Values under a prefix with `anchor` in any of `fields`, filtered by the driver
+ */
+async function scanCandidates<T>(prefix: string, fields: string[], anchor: string): Promise<T[]> {
+  const candidates: T[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: kv.ScanPage<T> = await kv.scan<T>(prefix, {
+      where: [{ field: fields, op: 'contains', value: anchor }],
+      limit: SCAN_PAGE_SIZE,
+      cursor,
+    });
+    candidates.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return candidates;
+}
+
+/**
+ * Candidates under `<prefix>:<id>:` for each of a tenant's ids, once each
+ */
+async function loadTenantRecords<T extends { id: string }>(
+  prefix: string,
+  tenantIds: string[],
+  fields: string[],
+  anchor: string
+): Promise<T[]> {
+  const byId = new Map<string, T>();
+  for (const tenantId of tenantIds) {
+    const records = await scanCandidates<T>(`${prefix}:${tenantId}:`, fields, anchor);
+    for (const record of records) {
+      if (record?.id && !byId.has(record.id)) byId.set(record.id, record);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+// ============================================================================
+// SEARCH SERVICE
+// ============================================================================
+
+function rank(query: ParsedQuery, docs: SearchDocument[], options: SearchOptions): SearchResult[] {
+  const countryCode = options.phoneCountryCode || DEFAULT_COUNTRY_CODE;
+  const results: SearchResult[] = [];
+  
+  for (const doc of docs) {
+    const { score, matchedFields } = scoreDocument(query, doc, countryCode);
+    if (score > 0) {
+      results.push({
+        type: doc.type,
+        id: doc.id,
+        title: doc.title,
+        subtitle: doc.subtitle,
+        score,
+        matchedFields,
+        record: doc.record,
+      });
+    }
+  }
+  
+  return results
+    .sort((a, b) => b.score - a.score || SEARCH_ENTITY_TYPES.indexOf(a.type) - SEARCH_ENTITY_TYPES.indexOf(b.type))
+    .slice(0, options.limit || DEFAULT_LIMIT);
+}
+
+export const SearchService = {
+  /**
+   * Search one tenant's guests and reservations (and the tenant itself)
+   */
+  async searchTenant(tenantId: string, text: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const query = parseQuery(text, options.phoneCountryCode);
+    const anchor = queryAnchor(query);
+    if (!query.text || !anchor) return [];
+    
+    const types = options.types?.length ? options.types : SEARCH_ENTITY_TYPES;
+    const docs: SearchDocument[] = [];
+    const { tenant, ids } = await resolveTenant(tenantId);
+    
+    if (types.includes('guest')) {
+      const guests = await loadTenantRecords<Guest>('guest', ids, GUEST_FIELDS, anchor);
+      docs.push(...guests.map(guestDocument));
+    }
+    
+    if (types.includes('reservation')) {
+      const reservations = await loadTenantRecords<Reservation>('reservation', ids, RESERVATION_FIELDS, anchor);
+      docs.push(...reservations.map(reservationDocument));
+    }
+    
+    if (types.includes('tenant') && tenant) {
+      docs.push(tenantDocument(tenant));
+    }
+    
+    return rank(query, docs, options);
+  },
+  
+  /**
+   * Search every tenant on the platform (platform admins)
+   */
+  async searchTenants(text: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const query = parseQuery(text, options.phoneCountryCode);
+    const anchor = queryAnchor(query);
+    if (!query.text || !anchor) return [];
+    
+    const records = await scanCandidates<unknown>('tenant:', TENANT_FIELDS, anchor);
+    return rank(query, records.filter(isTenantRecord).map(tenantDocument), options);
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Search Routes
+ * Ranked, typo-tolerant search across guests, reservations and tenants
+ */
+
+import { Hono } from "npm:hono";
+import { getAuth, getTenantId } from "../auth-middleware.tsx";
+import { SearchService, SEARCH_ENTITY_TYPES, type SearchEntityType } from "../search-engine.tsx";
+import { errorMessage } from "../data-service.tsx";
+
+const search = new Hono();
+
+// Search (tenant users search their own tenant; platform admins search all
+// tenants, or one tenant's guests and reservations with ?tenantId=)
+search.get("/", async (c) => {
+  try {
+    const q = (c.req.query('q') || '').trim();
+    if (q.length < 2) {
+      return c.json({ success: false, error: 'Query parameter q must be at least 2 characters' }, 400);
+    }
+
+    const types = (c.req.query('types') || '')
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean) as SearchEntityType[];
+    const unknown = types.filter((t) => !SEARCH_ENTITY_TYPES.includes(t));
+    if (unknown.length > 0) {
+      return c.json({ success: false, error: `Unknown types: ${unknown.join(', ')}` }, 400);
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '20') || 20, 100);
+    const options = { types, limit, phoneCountryCode: c.req.query('countryCode') || undefined };
+
+    const isPlatformAdmin = getAuth(c)?.isPlatformAdmin === true;
+    const tenantId = getTenantId(c);
+
+    if (!tenantId && !isPlatformAdmin) {
+      return c.json({ success: false, error: 'User has no tenant_id' }, 400);
+    }
+
+    const results = tenantId
+      ? await SearchService.searchTenant(tenantId, q, options)
+      : await SearchService.searchTenants(q, options);
+
+    return c.json({
+      success: true,
+      query: q,
+      tenantId,
+      data: results,
+      total: results.length,
+    });
+  } catch (error) {
+    console.error('[Search API] Error searching:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+export default search;
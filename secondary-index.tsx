@@ -0,0 +1,196 @@
+/**
+ * Secondary Indexes for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Maps a field value to the ID of the record holding it, so lookups that used
+ * to scan a whole tenant prefix become two key reads:
+ *
+ *   idx:guest_email:<tenantId>:<email>                      -> { id: guestId }
+ *   idx:reservation_confirmation:<tenantId>:<confirmation>  -> { id: reservationId }
+ *   idx:loyalty_guest:<tenantId>:<guestId>                  -> { id: memberId }
+ *
+ * The data services call SecondaryIndex.sync after every create/update/delete.
+ * Lookups re-check the record they land on, so an entry left behind by a write
+ * that bypassed the services is treated as a miss (and removed) rather than
+ * returning the wrong record. SecondaryIndex.rebuild recreates the entries
+ * from the records themselves, for data written before an index existed.
+ */
+
+import * as kv from './kv_store.tsx';
+
+export interface IndexDefinition {
+  name: string;
+  recordPrefix: string; // Records live at `<recordPrefix>:<tenantId>:<id>`
+  field: string; // Record field holding the indexed value
+  normalize?: (value: string) => string; // Applied to stored and looked-up values alike
+}
+
+export interface IndexEntry {
+  id: string;
+}
+
+export interface RebuildSummary {
+  index: string;
+  tenantId?: string;
+  removed: number;
+  indexed: number;
+}
+
+// Rows read or written per round trip while rebuilding
+const REBUILD_BATCH_SIZE = 500;
+
+export const INDEXES = {
+  guestEmail: {
+    name: 'guest_email',
+    recordPrefix: 'guest',
+    field: 'email',
+    normalize: (email: string) => email.trim().toLowerCase(),
+  },
+  reservationConfirmation: {
+    name: 'reservation_confirmation',
+    recordPrefix: 'reservation',
+    field: 'confirmationNumber',
+  },
+  loyaltyGuest: {
+    name: 'loyalty_guest',
+    recordPrefix: 'loyalty_member',
+    field: 'guestId',
+  },
+} satisfies Record<string, IndexDefinition>;
+
+export type IndexName = keyof typeof INDEXES;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function indexKey(index: IndexDefinition, tenantId: string, value: string): string {
+  return `idx:${index.name}:${tenantId}:${value}`;
+}
+
+function recordKey(index: IndexDefinition, tenantId: string, id: string): string {
+  return `${index.recordPrefix}:${tenantId}:${id}`;
+}
+
+/**
+ * Normalized index value, or null when there is nothing to index
+ */
+function normalizedValue(index: IndexDefinition, raw: unknown): string | null {
+  if (typeof raw !== 'string' || !raw) return null;
+  return (index.normalize ? index.normalize(raw) : raw) || null;
+}
+
+function recordValue(index: IndexDefinition, record: unknown): string | null {
+  if (!record || typeof record !== 'object') return null;
+  return normalizedValue(index, (record as Record<string, unknown>)[index.field]);
+}
+
+// ============================================================================
+// SECONDARY INDEX SERVICE
+// ============================================================================
+
+export const SecondaryIndex = {
+  /**
+   * Find the record whose indexed field equals `value` (normalized the same
+   * way the index is), or null
+   */
+  async lookup<T>(index: IndexDefinition, tenantId: string, value: string): Promise<T | null> {
+    const normalized = normalizedValue(index, value);
+    if (!normalized) return null;
+    
+    const key = indexKey(index, tenantId, normalized);
+    const entry: IndexEntry | null = await kv.get(key);
+    if (!entry?.id) return null;
+    
+    const record = await kv.get(recordKey(index, tenantId, entry.id));
+    if (!record || recordValue(index, record) !== normalized) {
+      // Stale entry (record deleted or changed outside the services)
+      await kv.del(key);
+      return null;
+    }
+    
+    return record as T;
+  },
+  
+  /**
+   * Bring an index in line with a record write. Pass `before: null` for a
+   * create and `after: null` for a delete.
+   */
+  async sync(index: IndexDefinition, tenantId: string, id: string, before: unknown, after: unknown): Promise<void> {
+    const oldValue = recordValue(index, before);
+    const newValue = recordValue(index, after);
+    
+    if (oldValue && oldValue !== newValue) {
+      // Only drop the entry if it still points at this record (values such as
+      // guest emails are not unique, so another record may own it now)
+      const key = indexKey(index, tenantId, oldValue);
+      const entry: IndexEntry | null = await kv.get(key);
+      if (entry?.id === id) {
+        await kv.del(key);
+      }
+    }
+    
+    if (newValue && newValue !== oldValue) {
+      await kv.set(indexKey(index, tenantId, newValue), { id });
+    }
+  },
+  
+  /**
+   * Recreate an index from its records: drops every existing entry, then
+   * indexes each record. Without a tenantId every tenant is rebuilt.
+   */
+  async rebuild(index: IndexDefinition, tenantId?: string): Promise<RebuildSummary> {
+    const scope = tenantId ? `${tenantId}:` : '';
+    let removed = 0;
+    let indexed = 0;
+    
+    // 1. Drop existing entries
+    let cursor: string | null = null;
+    do {
+      const page: kv.ScanPage = await kv.scan(`idx:${index.name}:${scope}`, { limit: REBUILD_BATCH_SIZE, cursor });
+      if (page.keys.length > 0) {
+        await kv.mdel(page.keys);
+        removed += page.keys.length;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    // 2. Index every record (when values collide, the last record read wins)
+    cursor = null;
+    do {
+      const page: kv.ScanPage = await kv.scan(`${index.recordPrefix}:${scope}`, { limit: REBUILD_BATCH_SIZE, cursor });
+      // Keyed by index key, since one upsert cannot write the same key twice
+      const entries = new Map<string, IndexEntry>();
+      
+      page.items.forEach((record, i) => {
+        // Key format is <recordPrefix>:<tenantId>:<id>
+        const [, recordTenantId, ...idParts] = page.keys[i].slice(index.recordPrefix.length).split(':');
+        const value = recordValue(index, record);
+        if (!recordTenantId || !value) return;
+        
+        entries.set(indexKey(index, recordTenantId, value), { id: idParts.join(':') });
+      });
+      
+      if (entries.size > 0) {
+        await kv.mset(Array.from(entries.keys()), Array.from(entries.values()));
+        indexed += entries.size;
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    return { index: index.name, tenantId, removed, indexed };
+  },
+  
+  /**
+   * Rebuild every index (or the named ones)
+   */
+  async rebuildAll(tenantId?: string, names?: IndexName[]): Promise<RebuildSummary[]> {
+    const selected = names?.length ? names : (Object.keys(INDEXES) as IndexName[]);
+    const summaries: RebuildSummary[] = [];
+    
+    for (const name of selected) {
+      summaries.push(await this.rebuild(INDEXES[name], tenantId));
+    }
+    
+    return summaries;
+  },
+};
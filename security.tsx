@@ -6,6 +6,12 @@
 import { Hono } from "npm:hono";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import * as kv from "../kv_store.tsx";
+import { PERMISSION_CATALOG } from "../permissions.tsx";
+import { validateRanges, InvalidIpRangeError, clientIp } from "../ip-allowlist.tsx";
+import { LoginAttemptService } from "../login-attempts.tsx";
+import { getAuth } from "../auth-middleware.tsx";
+import { MfaService } from "../mfa.tsx";
+import { errorMessage } from "../data-service.tsx";
 
 const security = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -43,13 +49,15 @@ security.get("/admins", async (c) => {
       console.error('[Security API] Error in initial query:', err);
     }
     
+    const mfaActive = await MfaService.activeFor(admins.map(admin => admin.id));
+    
     const transformedAdmins = admins.map(admin => ({
       id: admin.id,
       name: admin.name,
       email: admin.email,
       role: admin.roles?.display_name || admin.roles?.name || 'Unknown',
       roleId: admin.role_id,
-      mfa: false,
+      mfa: mfaActive[admin.id] || false,
       lastActive: admin.last_login_at 
         ? new Date(admin.last_login_at).toLocaleString()
         : 'Never',
@@ -149,46 +157,42 @@ security.post("/admins", async (c) => {
   }
 });
 
-// Toggle MFA for admin
+// Require MFA for an admin (enabled: false also resets their enrollment)
 security.patch("/admins/:id/mfa", async (c) => {
   try {
     const userId = c.req.param('id');
     const body = await c.req.json();
     const { enabled } = body;
     
+    if (typeof enabled !== 'boolean') {
+      return c.json({ success: false, error: 'enabled must be true or false' }, 400);
+    }
+    
     const { data: user, error } = await supabaseAdmin
       .from('users')
-      .update({
-        updated_at: new Date().toISOString()
-      })
+      .select('id, email')
       .eq('id', userId)
-      .select()
       .single();
     
-    if (error) {
-      console.warn('[Security API] MFA toggle recorded in audit log only');
+    if (error || !user) {
+      return c.json({ success: false, error: 'Admin not found' }, 404);
     }
     
-    try {
-      await supabaseAdmin
-        .from('audit_logs')
-        .insert({
-          action: enabled ? 'mfa_enabled' : 'mfa_disabled',
-          actor_id: userId,
-          resource_type: 'user',
-          resource_id: userId,
-          details: {
-            mfa_status: enabled
-          },
-          ip_address: c.req.header('x-forwarded-for') || 'unknown'
-        });
-    } catch (auditError) {
-      console.warn('[Security API] Could not log audit event:', auditError);
-    }
+    const actor = getAuth(c);
+    const mfa = await MfaService.setRequired(userId, enabled, {
+      changedBy: actor?.userId,
+      changedByEmail: actor?.email || undefined,
+      ipAddress: clientIp(c),
+    });
     
     return c.json({
       success: true,
-      data: user
+      data: { id: user.id, email: user.email, mfa: mfa.status === 'active', ...mfa },
+      message: enabled
+        ? mfa.status === 'active'
+          ? 'MFA is required and already set up'
+          : 'MFA is required; the admin will be asked to set it up on their next request'
+        : 'MFA is no longer required and the enrollment was reset'
     });
   } catch (error: any) {
     console.error('[Security API] Error toggling MFA:', error);
@@ -230,7 +234,8 @@ security.get("/permissions", async (c) => {
       data: {
         roles: roles || [],
         permissions: permissions || [],
-        rolePermissions: rolePermissions || []
+        rolePermissions: rolePermissions || [],
+        catalog: PERMISSION_CATALOG
       }
     });
   } catch (error: any) {
@@ -239,6 +244,50 @@ security.get("/permissions", async (c) => {
   }
 });
 
+// Get active login lockouts
+security.get("/lockouts", async (c) => {
+  try {
+    const lockouts = await LoginAttemptService.listLockouts();
+    const policy = await LoginAttemptService.getPolicy();
+    
+    return c.json({
+      success: true,
+      data: lockouts,
+      policy
+    });
+  } catch (error) {
+    console.error('[Security API] Error fetching lockouts:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Clear lockouts for an account (all IPs, or one with ?ip=)
+security.delete("/lockouts/:email", async (c) => {
+  try {
+    const email = decodeURIComponent(c.req.param('email'));
+    const auth = getAuth(c);
+    
+    const cleared = await LoginAttemptService.clearLockouts(email, {
+      ip: c.req.query('ip') || undefined,
+      clearedBy: auth?.userId,
+      clearedByEmail: auth?.email || undefined,
+    });
+    
+    if (cleared.length === 0) {
+      return c.json({ success: false, error: 'No lockout found for this account' }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      message: `Cleared ${cleared.length} lockout(s) for ${email}`,
+      data: cleared
+    });
+  } catch (error) {
+    console.error('[Security API] Error clearing lockouts:', error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
 // Get security policies
 security.get("/policies", async (c) => {
   try {
@@ -278,6 +327,15 @@ security.put("/policies", async (c) => {
   try {
     const body = await c.req.json();
     
+    try {
+      validateRanges(body.ipWhitelist);
+    } catch (error) {
+      if (error instanceof InvalidIpRangeError) {
+        return c.json({ success: false, error: error.message, invalidRanges: error.ranges }, 400);
+      }
+      throw error;
+    }
+    
     await kv.set('system:security_policies', body);
     
     try {
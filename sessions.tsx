@@ -0,0 +1,398 @@
+/**
+ * Session Registry for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Records each sign-in session (the Supabase `session_id` of the caller's
+ * token, see AuthContext.sessionId) the first time it reaches the API, with
+ * the device, IP and last activity:
+ *
+ *   session:<userId>:<sessionId> -> UserSession
+ *
+ * The security policies (system:security_policies) set the limits:
+ *
+ *   sessionPolicy.timeout        - minutes of inactivity before a session
+ *                                  expires (falls back to `sessionTimeout` in
+ *                                  system:settings:security; a tenant's
+ *                                  `security.sessionTimeout` may shorten it)
+ *   sessionPolicy.maxConcurrent  - active sessions per user; a new sign-in
+ *                                  ends the least recently used ones
+ *
+ * Ending a session also ends it in Supabase (auth.admin.signOut, which needs
+ * an access token of that session), so its refresh token stops working. When
+ * no such token is at hand, as when an admin revokes another device, the
+ * record stays as the revocation marker: a token from the session, however
+ * often refreshed, is refused and used to sign the session out the next time
+ * it reaches the API. Ended records are removed after RETENTION_DAYS only once
+ * signed out, or once the session can no longer be refreshed anyway because
+ * Supabase time-boxes sessions (AUTH_SESSION_TIMEBOX_HOURS, set to match the
+ * project's Auth setting).
+ */
+
+import type { Context, Next } from 'npm:hono';
+import { getSupabaseAdmin } from './lib/supabase.tsx';
+import * as kv from './kv_store.tsx';
+import { AuditService } from './data-service.tsx';
+import { getTenantSettings } from './booking-engine.tsx';
+import { getAuth, getRouteRule, bearerToken, type AuthContext } from './auth-middleware.tsx';
+import { clientIp } from './ip-allowlist.tsx';
+import { MfaService } from './mfa.tsx';
+
+export type SessionEndReason = 'revoked' | 'session_limit' | 'idle_timeout';
+
+export interface UserSession {
+  id: string;
+  userId: string;
+  email: string | null;
+  tenantId: string | null;
+  device: string; // e.g. 'Chrome on macOS'
+  userAgent: string | null;
+  ipAddress: string; // Of the latest request
+  status: 'active' | 'revoked' | 'expired';
+  createdAt: string; // ISO timestamp
+  lastActiveAt: string; // ISO timestamp
+  endedAt: string | null; // ISO timestamp
+  endReason: SessionEndReason | null;
+  endedBy: string | null; // User who revoked it
+  signedOutAt?: string | null; // ISO timestamp; when the session was also ended in Supabase
+}
+
+export interface SessionPolicy {
+  timeoutMinutes: number;
+  maxConcurrent: number;
+}
+
+const DEFAULT_TIMEOUT_MINUTES = 30;
+const DEFAULT_MAX_CONCURRENT = 5;
+
+// Last activity is written at most this often per session
+const ACTIVITY_WRITE_INTERVAL = 60 * 1000;
+
+// Ended sessions are kept this long after their last activity
+const RETENTION_DAYS = 30;
+
+// Supabase session time-box (hours); without one, refresh tokens never expire
+const SESSION_TIMEBOX_HOURS = Number(Deno.env.get('AUTH_SESSION_TIMEBOX_HOURS')) || null;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sessionKey(userId: string, sessionId: string): string {
+  return `session:${userId}:${sessionId}`;
+}
+
+/**
+ * Short description of the browser and OS in a User-Agent string
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /curl|PostmanRuntime|axios|node-fetch|python-requests/i.test(userAgent) ? 'API client' :
+    'Browser';
+  
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+  
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function isIdle(session: UserSession, policy: SessionPolicy, now: number): boolean {
+  return now - new Date(session.lastActiveAt).getTime() > policy.timeoutMinutes * 60 * 1000;
+}
+
+/**
+ * Whether the session's refresh token can no longer work, so its record is
+ * not needed to refuse it
+ */
+function isDead(session: UserSession, now: number): boolean {
+  if (session.signedOutAt) return true;
+  return SESSION_TIMEBOX_HOURS !== null &&
+    now - new Date(session.createdAt).getTime() > SESSION_TIMEBOX_HOURS * 60 * 60 * 1000;
+}
+
+// ============================================================================
+// SESSION SERVICE
+// ============================================================================
+
+export const SessionService = {
+  /**
+   * Idle timeout and concurrency limit, from the security policies and (for
+   * tenant users) the tenant's own, shorter timeout
+   */
+  async getPolicy(tenantId?: string | null): Promise<SessionPolicy> {
+    const [policies, securitySettings] = await Promise.all([
+      kv.get('system:security_policies'),
+      kv.get('system:settings:security'),
+    ]);
+    
+    const timeout = Number(policies?.sessionPolicy?.timeout ?? securitySettings?.sessionTimeout);
+    const maxConcurrent = Number(policies?.sessionPolicy?.maxConcurrent);
+    let timeoutMinutes = timeout > 0 ? timeout : DEFAULT_TIMEOUT_MINUTES;
+    
+    if (tenantId) {
+      const tenantTimeout = Number((await getTenantSettings(tenantId)).security?.sessionTimeout);
+      if (tenantTimeout > 0) timeoutMinutes = Math.min(timeoutMinutes, tenantTimeout);
+    }
+    
+    return {
+      timeoutMinutes,
+      maxConcurrent: maxConcurrent > 0 ? maxConcurrent : DEFAULT_MAX_CONCURRENT,
+    };
+  },
+  
+  /**
+   * One session of a user, or null
+   */
+  async get(userId: string, sessionId: string): Promise<UserSession | null> {
+    return await kv.get(sessionKey(userId, sessionId));
+  },
+  
+  /**
+   * A user's sessions, most recently active first. Ended ones are left out
+   * unless `includeEnded` is set.
+   */
+  async list(userId: string, options?: { includeEnded?: boolean }): Promise<UserSession[]> {
+    const sessions: UserSession[] = [];
+    let cursor: string | null = null;
+    
+    do {
+      const page: kv.ScanPage<UserSession> = await kv.scan<UserSession>(`session:${userId}:`, { limit: 500, cursor });
+      sessions.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    return sessions
+      .filter((session) => session.userId === userId && (options?.includeEnded || session.status === 'active'))
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt));
+  },
+  
+  /**
+   * Record a request on the caller's session: registers it on first sight
+   * (ending the oldest sessions past the concurrency limit), expires it when
+   * idle too long, and otherwise updates the last activity. Returns the
+   * session, whose status tells whether the request may proceed.
+   */
+  async track(auth: AuthContext, request: { ipAddress: string; userAgent: string | null }): Promise<UserSession> {
+    const sessionId = auth.sessionId!;
+    const key = sessionKey(auth.userId, sessionId);
+    const policy = await this.getPolicy(auth.tenantId);
+    const now = Date.now();
+    const nowIso = new Date(now).toISOString();
+    
+    const existing = await this.get(auth.userId, sessionId);
+    
+    if (!existing) {
+      let created = false;
+      const session = await kv.update<UserSession>(key, (current) => {
+        created = !current;
+        if (current) return undefined;
+        return {
+          id: sessionId,
+          userId: auth.userId,
+          email: auth.email,
+          tenantId: auth.tenantId,
+          device: describeDevice(request.userAgent),
+          userAgent: request.userAgent,
+          ipAddress: request.ipAddress,
+          status: 'active',
+          createdAt: nowIso,
+          lastActiveAt: nowIso,
+          endedAt: null,
+          endReason: null,
+          endedBy: null,
+        };
+      });
+      
+      if (created) {
+        await this.enforceLimit(auth.userId, sessionId, policy.maxConcurrent);
+        await this.prune(auth.userId);
+      }
+      return session!;
+    }
+    
+    if (existing.status !== 'active') {
+      return existing;
+    }
+    
+    if (isIdle(existing, policy, now)) {
+      return (await this.end(auth.userId, sessionId, 'idle_timeout')) || { ...existing, status: 'expired' };
+    }
+    
+    if (now - new Date(existing.lastActiveAt).getTime() < ACTIVITY_WRITE_INTERVAL && existing.ipAddress === request.ipAddress) {
+      return existing;
+    }
+    
+    const updated = await kv.update<UserSession>(key, (current) => {
+      if (!current || current.status !== 'active') return undefined;
+      return { ...current, lastActiveAt: nowIso, ipAddress: request.ipAddress };
+    });
+    return updated || existing;
+  },
+  
+  /**
+   * Mark a session ended and drop its second-factor verification. With an
+   * access token of the session it is signed out in Supabase as well. Returns
+   * the session as stored (null when there is none).
+   */
+  async end(
+    userId: string,
+    sessionId: string,
+    reason: SessionEndReason,
+    options?: { endedBy?: string; accessToken?: string }
+  ): Promise<UserSession | null> {
+    const endedAt = new Date().toISOString();
+    const session = await kv.update<UserSession>(sessionKey(userId, sessionId), (current) => {
+      if (!current || current.status !== 'active') return undefined;
+      return {
+        ...current,
+        status: reason === 'idle_timeout' ? 'expired' : 'revoked',
+        endedAt,
+        endReason: reason,
+        endedBy: options?.endedBy || null,
+      };
+    });
+    
+    await MfaService.endSession(userId, sessionId);
+    
+    if (session && options?.accessToken) {
+      return await this.signOut(session, options.accessToken);
+    }
+    return session;
+  },
+  
+  /**
+   * End an ended session in Supabase too, revoking its refresh token, and
+   * note it on the record. `accessToken` must belong to the session. Returns
+   * the session as stored; it is left unchanged when Supabase refuses.
+   */
+  async signOut(session: UserSession, accessToken: string): Promise<UserSession> {
+    const { error } = await getSupabaseAdmin().auth.admin.signOut(accessToken, 'local');
+    if (error) {
+      console.warn(`[Sessions] Could not sign out session ${session.id} of ${session.userId}:`, error.message);
+      return session;
+    }
+    
+    const signedOutAt = new Date().toISOString();
+    const updated = await kv.update<UserSession>(sessionKey(session.userId, session.id), (current) => {
+      if (!current || current.status === 'active' || current.signedOutAt) return undefined;
+      return { ...current, signedOutAt };
+    });
+    return updated || session;
+  },
+  
+  /**
+   * Revoke a session on behalf of the user or an admin (audited). Pass
+   * `accessToken` when the caller holds one of the session (revoking their
+   * own) to sign it out in Supabase right away. Returns null when there is no
+   * such session.
+   */
+  async revoke(
+    userId: string,
+    sessionId: string,
+    options?: { revokedBy?: string; revokedByEmail?: string; ipAddress?: string; accessToken?: string }
+  ): Promise<UserSession | null> {
+    const existing = await this.get(userId, sessionId);
+    if (!existing) return null;
+    if (existing.status !== 'active') return existing;
+    
+    const session = await this.end(userId, sessionId, 'revoked', {
+      endedBy: options?.revokedBy,
+      accessToken: options?.accessToken,
+    });
+    
+    await AuditService.log('security.session_revoked', 'session', sessionId, {
+      tenantId: existing.tenantId || undefined,
+      userId: options?.revokedBy,
+      userEmail: options?.revokedByEmail,
+      ipAddress: options?.ipAddress,
+      data: { sessionUserId: userId, sessionEmail: existing.email, device: existing.device },
+    });
+    
+    return session;
+  },
+  
+  /**
+   * End the least recently used sessions beyond the concurrency limit,
+   * keeping `keepSessionId`
+   */
+  async enforceLimit(userId: string, keepSessionId: string, maxConcurrent: number): Promise<UserSession[]> {
+    const others = (await this.list(userId)).filter((session) => session.id !== keepSessionId);
+    const excess = others.slice(Math.max(0, maxConcurrent - 1));
+    
+    const ended: UserSession[] = [];
+    for (const session of excess) {
+      const result = await this.end(userId, session.id, 'session_limit');
+      if (result) ended.push(result);
+    }
+    
+    if (ended.length > 0) {
+      console.log(`[Sessions] Ended ${ended.length} session(s) of ${userId} over the limit of ${maxConcurrent}`);
+    }
+    return ended;
+  },
+  
+  /**
+   * Remove a user's ended sessions whose last activity is older than the
+   * retention period, once they can no longer be refreshed (see isDead)
+   */
+  async prune(userId: string): Promise<void> {
+    const now = Date.now();
+    const cutoff = now - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const stale = (await this.list(userId, { includeEnded: true }))
+      .filter((session) => session.status !== 'active' && new Date(session.lastActiveAt).getTime() < cutoff)
+      .filter((session) => isDead(session, now));
+    
+    if (stale.length > 0) {
+      await kv.mdel(stale.map((session) => sessionKey(userId, session.id)));
+    }
+  },
+};
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * Hono middleware tracking the caller's session and refusing revoked or
+ * expired ones. Mount it after authMiddleware; API keys have no session.
+ */
+export function sessionMiddleware() {
+  return async (c: Context, next: Next) => {
+    const rule = getRouteRule(c);
+    const auth = getAuth(c);
+    if (c.req.method === 'OPTIONS' || !rule || rule.access === 'public' || !auth?.sessionId || auth.apiKeyId) {
+      return next();
+    }
+    
+    const session = await SessionService.track(auth, {
+      ipAddress: clientIp(c),
+      userAgent: c.req.header('User-Agent') || null,
+    });
+    
+    if (session.status !== 'active') {
+      // The device may have refreshed its token since the session ended
+      const token = bearerToken(c);
+      if (!session.signedOutAt && token) {
+        await SessionService.signOut(session, token);
+      }
+      
+      return c.json({
+        success: false,
+        error: session.status === 'expired' ? 'Unauthorized - Session expired' : 'Unauthorized - Session revoked',
+        session: session.status,
+      }, 401);
+    }
+    
+    return next();
+  };
+}
@@ -6,6 +6,10 @@
 import { Hono } from "npm:hono";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import * as kv from "../kv_store.tsx";
+import { ApiKeyService } from "../data-service.tsx";
+import { getAuth } from "../auth-middleware.tsx";
+import { normalizeScope } from "../permissions.tsx";
+import { validateRanges, InvalidIpRangeError } from "../ip-allowlist.tsx";
 
 const settings = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -123,6 +127,17 @@ settings.put("/", async (c) => {
       }, 400);
     }
     
+    if (category === 'security') {
+      try {
+        validateRanges(data.allowedIpRanges);
+      } catch (error) {
+        if (error instanceof InvalidIpRangeError) {
+          return c.json({ success: false, error: error.message, invalidRanges: error.ranges }, 400);
+        }
+        throw error;
+      }
+    }
+    
     await kv.set(`system:settings:${category}`, data);
     
     try {
@@ -303,7 +318,7 @@ settings.patch("/regions/:id", async (c) => {
 // Get API keys
 settings.get("/api-keys", async (c) => {
   try {
-    const keys = await kv.getByPrefix("apikey:") || [];
+    const keys = await ApiKeyService.list(c.req.query('tenantId') || undefined);
     return c.json({
       success: true,
       data: keys
@@ -318,18 +333,41 @@ settings.get("/api-keys", async (c) => {
 settings.post("/api-keys", async (c) => {
   try {
     const body = await c.req.json();
-    const keyId = `key_${Date.now()}`;
+    const { name, description, tenantId, platform, expiresAt } = body;
+    const scopes: string[] = Array.isArray(body.scopes) ? body.scopes : [];
     
-    const apiKey = {
-      id: keyId,
-      key: `pk_live_${Math.random().toString(36).substring(2, 15)}`,
-      ...body,
-      created: new Date().toISOString(),
-    };
+    if (!name) {
+      return c.json({ success: false, error: 'name is required' }, 400);
+    }
+    
+    // A key without a tenant only acts for the whole platform when asked to
+    if (!!tenantId === (platform === true)) {
+      return c.json({ success: false, error: 'Give either a tenantId or platform: true, not both' }, 400);
+    }
     
-    await kv.set(`apikey:${keyId}`, apiKey);
+    const invalidScopes = scopes.filter((scope) => !normalizeScope(scope));
+    if (scopes.length === 0 || invalidScopes.length > 0) {
+      return c.json({ success: false, error: 'scopes must list known permissions', invalidScopes }, 400);
+    }
     
-    return c.json({ success: true, data: apiKey }, 201);
+    if (expiresAt && (isNaN(Date.parse(expiresAt)) || Date.parse(expiresAt) <= Date.now())) {
+      return c.json({ success: false, error: 'expiresAt must be a future date' }, 400);
+    }
+    
+    const { apiKey, key } = await ApiKeyService.generate(name, scopes.map((scope) => normalizeScope(scope)!), {
+      tenantId,
+      platform: platform === true,
+      description,
+      expiresAt,
+      createdBy: getAuth(c)?.userId,
+    });
+    
+    // The key is only ever shown in this response
+    return c.json({
+      success: true,
+      data: { ...apiKey, key },
+      message: 'Store this key now; it cannot be shown again'
+    }, 201);
   } catch (error: any) {
     console.error('[Settings API] Error creating API key:', error);
     return c.json({ success: false, error: error.message }, 500);
@@ -340,7 +378,11 @@ settings.post("/api-keys", async (c) => {
 settings.delete("/api-keys/:id", async (c) => {
   try {
     const keyId = c.req.param('id');
-    await kv.del(`apikey:${keyId}`);
+    const deleted = await ApiKeyService.delete(keyId);
+    
+    if (!deleted) {
+      return c.json({ success: false, error: 'API key not found' }, 404);
+    }
     
     return c.json({
       success: true,
@@ -7,8 +7,11 @@ import { Hono } from "npm:hono";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import { getRoleUUID, getPlanUUID } from "../lib/constants.tsx";
 import { getRelativeTime } from "../lib/helpers.tsx";
-import { TenantService } from "../data-service.tsx";
+import { TenantService, errorMessage } from "../data-service.tsx";
 import * as kv from "../kv_store.tsx";
+import { INDEXES, SecondaryIndex, type IndexName } from "../secondary-index.tsx";
+import { EventBus } from "../event-bus.tsx";
+import { RoomAssignmentService } from "../room-assignment.tsx";
 
 const system = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -511,6 +514,104 @@ system.delete("/seed", async (c) => {
   }
 });
 
+// Rebuild secondary indexes (all tenants, or body.tenantId; all indexes, or body.indexes)
+system.post("/indexes/rebuild", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const names: IndexName[] = body.indexes || [];
+    
+    const unknown = names.filter((name) => !(name in INDEXES));
+    if (unknown.length > 0) {
+      return c.json({
+        success: false,
+        error: `Unknown indexes: ${unknown.join(', ')}`,
+        available: Object.keys(INDEXES)
+      }, 400);
+    }
+    
+    const results = await SecondaryIndex.rebuildAll(body.tenantId, names);
+    
+    return c.json({
+      success: true,
+      results
+    });
+  } catch (error) {
+    console.error('[System] Error rebuilding indexes:', error);
+    return c.json({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Recreate room holds from stored reservations (all tenants, or body.tenantId)
+system.post("/room-holds/rebuild", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const result = await RoomAssignmentService.rebuildHolds(body.tenantId);
+    
+    return c.json({
+      success: true,
+      result
+    });
+  } catch (error) {
+    console.error('[System] Error rebuilding room holds:', error);
+    return c.json({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
+
+// List domain events subscribers gave up on (?subscriber=&limit=&cursor=)
+system.get("/events/failed", async (c) => {
+  try {
+    const page = await EventBus.listFailed({
+      subscriber: c.req.query('subscriber'),
+      limit: Math.min(parseInt(c.req.query('limit') || '50'), 200),
+      cursor: c.req.query('cursor'),
+    });
+    
+    return c.json({
+      success: true,
+      subscribers: EventBus.subscribers(),
+      data: page.items,
+      pagination: { total: page.total, nextCursor: page.nextCursor }
+    });
+  } catch (error) {
+    if (error instanceof kv.InvalidCursorError) {
+      return c.json({ success: false, error: errorMessage(error) }, 400);
+    }
+    console.error('[System] Error listing failed events:', error);
+    return c.json({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
+
+// Make due domain event retries (called by a scheduler); body.failed also
+// requeues the events subscribers gave up on (all, or body.subscriber's)
+system.post("/events/retry", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    
+    const requeued = body.failed ? await EventBus.retryFailed({ subscriber: body.subscriber }) : 0;
+    const results = await EventBus.processDueRetries({ limit: body.limit });
+    
+    return c.json({
+      success: true,
+      data: { requeued, ...results }
+    });
+  } catch (error) {
+    console.error('[System] Error retrying events:', error);
+    return c.json({
+      success: false,
+      error: errorMessage(error)
+    }, 500);
+  }
+});
+
 // System health check
 system.get("/system/health", async (c) => {
   const startTime = Date.now();
@@ -6,9 +6,13 @@
 import { Hono } from "npm:hono";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import { getPlanUUID, getRoleUUID } from "../lib/constants.tsx";
+import { validateRanges, InvalidIpRangeError } from "../ip-allowlist.tsx";
 import { generateUserId } from "../lib/helpers.tsx";
 import * as kv from "../kv_store.tsx";
 import { TenantService } from "../data-service.tsx";
+import { EventBus } from "../event-bus.tsx";
+import type { Tenant } from "../models.tsx";
+import { getEventActor } from "../auth-middleware.tsx";
 
 const tenants = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -202,14 +206,15 @@ tenants.post("/", async (c) => {
     
     let tenantCounter = 1;
     try {
+      // The counter holds the next number to hand out; increment atomically
+      // so concurrent creates can't both get the same T-n
       const counterKey = 'system:tenant_counter';
-      const currentCounter = await kv.get(counterKey);
+      tenantCounter = await kv.increment(counterKey) - 1;
       
-      if (currentCounter && typeof currentCounter === 'number') {
-        tenantCounter = currentCounter;
+      // A brand-new counter starts at 1
+      if (tenantCounter < 1) {
+        tenantCounter = await kv.increment(counterKey) - 1;
       }
-      
-      await kv.set(counterKey, tenantCounter + 1);
     } catch (error) {
       tenantCounter = Math.floor(Date.now() / 1000) % 10000;
     }
@@ -332,16 +337,7 @@ tenants.post("/", async (c) => {
     
     await kv.set(`tenant:${tenantId}`, tenant);
     await kv.set(`tenant_uuid:${tenantUUID}`, { customId: tenantId, uuid: tenantUUID });
-    
-    await kv.set(`audit:${Date.now()}`, {
-      action: "tenant.created",
-      tenantId,
-      timestamp: new Date().toISOString(),
-      data: {
-        ...tenant,
-        tempPassword: undefined,
-      },
-    });
+    await EventBus.emit('tenant.created', { tenant: tenant as Tenant }, { tenantId, actor: getEventActor(c) });
 
     const warnings: Array<{ field: string; message: string }> = [];
     let successMessage = ownerName && ownerEmail 
@@ -401,26 +397,17 @@ tenants.put("/:id", async (c) => {
     const id = c.req.param("id");
     const body = await c.req.json();
     
-    const existing = await kv.get(`tenant:${id}`);
-    if (!existing) {
+    const tenant = await TenantService.update(id, body, { actor: getEventActor(c) });
+    if (!tenant) {
       return c.json({ error: "Tenant not found" }, 404);
     }
-    
-    const tenant = {
-      ...existing,
-      ...body,
-      id,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await kv.set(`tenant:${id}`, tenant);
 
-    if (existing.uuid) {
+    if (tenant.uuid) {
       try {
         const { data: currentTenant } = await supabaseAdmin
           .from('tenants')
           .select('settings')
-          .eq('id', existing.uuid)
+          .eq('id', tenant.uuid)
           .single();
 
         if (currentTenant) {
@@ -435,28 +422,13 @@ tenants.put("/:id", async (c) => {
               settings: updatedSettings,
               updated_at: new Date().toISOString(),
             })
-            .eq('id', existing.uuid);
+            .eq('id', tenant.uuid);
         }
       } catch (pgError: any) {
         console.error('[Tenants] Error updating Postgres tenant:', pgError);
       }
     }
     
-    try {
-      await supabaseAdmin
-        .from('audit_logs')
-        .insert({
-          tenant_id: id,
-          action: 'tenant.updated',
-          entity_type: 'tenant',
-          entity_id: id,
-          new_values: body,
-          created_at: new Date().toISOString(),
-        });
-    } catch (auditError) {
-      console.warn('[Tenants] Could not log audit event:', auditError);
-    }
-    
     return c.json({ 
       success: true,
       message: "Tenant updated successfully",
@@ -474,20 +446,14 @@ tenants.post("/:id/suspend", async (c) => {
     const id = c.req.param("id");
     const body = await c.req.json();
     
-    const existing = await kv.get(`tenant:${id}`);
-    if (!existing) {
-      return c.json({ error: "Tenant not found" }, 404);
-    }
-    
-    const tenant = {
-      ...existing,
+    const tenant = await TenantService.update(id, {
       status: "suspended",
       suspendedAt: new Date().toISOString(),
       suspensionReason: body.reason,
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await kv.set(`tenant:${id}`, tenant);
+    }, { actor: getEventActor(c) });
+    if (!tenant) {
+      return c.json({ error: "Tenant not found" }, 404);
+    }
     
     return c.json({ 
       success: true,
@@ -505,19 +471,13 @@ tenants.post("/:id/unsuspend", async (c) => {
   try {
     const id = c.req.param("id");
     
-    const existing = await kv.get(`tenant:${id}`);
-    if (!existing) {
-      return c.json({ error: "Tenant not found" }, 404);
-    }
-    
-    const tenant = {
-      ...existing,
+    const tenant = await TenantService.update(id, {
       status: "active",
       unsuspendedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    
-    await kv.set(`tenant:${id}`, tenant);
+    }, { actor: getEventActor(c) });
+    if (!tenant) {
+      return c.json({ error: "Tenant not found" }, 404);
+    }
     
     return c.json({ 
       success: true,
@@ -559,21 +519,6 @@ tenants.delete("/:id", async (c) => {
     const tenantUUID = tenant.id;
     const externalId = tenant.settings?.external_id || id;
     
-    try {
-      await supabaseAdmin
-        .from('audit_logs')
-        .insert({
-          tenant_id: tenantUUID,
-          action: 'tenant.deleted',
-          entity_type: 'tenant',
-          entity_id: tenantUUID,
-          old_values: tenant,
-          created_at: new Date().toISOString(),
-        });
-    } catch (auditError) {
-      console.warn('[Tenants] Could not log audit event:', auditError);
-    }
-    
     const { error: deleteError } = await supabaseAdmin
       .from('tenants')
       .delete()
@@ -591,6 +536,8 @@ tenants.delete("/:id", async (c) => {
     } catch (kvError) {
       console.warn(`[Tenants] Could not delete from KV store:`, kvError);
     }
+    
+    await EventBus.emit('tenant.deleted', { tenantId: externalId, tenant }, { tenantId: externalId, actor: getEventActor(c) });
 
     return c.json({ 
       success: true,
@@ -659,6 +606,7 @@ tenants.get("/:tenantId/settings", async (c) => {
     const securitySettings = tenant.settings?.security || {
       twoFactorAuth: false,
       sessionTimeout: 30,
+      allowedIpRanges: [],
     };
     
     const integrationsSettings = tenant.settings?.integrations || {
@@ -696,6 +644,15 @@ tenants.put("/:tenantId/settings", async (c) => {
       settingsUpdate = { [body.category]: body.data };
     }
     
+    try {
+      validateRanges(settingsUpdate.security?.allowedIpRanges);
+    } catch (error) {
+      if (error instanceof InvalidIpRangeError) {
+        return c.json({ success: false, error: error.message, invalidRanges: error.ranges }, 400);
+      }
+      throw error;
+    }
+    
     let { data: tenant, error } = await supabaseAdmin
       .from('tenants')
       .select('*')
@@ -7,6 +7,7 @@ import { Hono } from "npm:hono";
 import { getSupabaseAdmin } from "../lib/supabase.tsx";
 import * as kv from "../kv_store.tsx";
 import { cache } from "../cache.tsx";
+import { UsageService } from "../data-service.tsx";
 
 const usage = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -14,40 +15,7 @@ const supabaseAdmin = getSupabaseAdmin();
 // Helper function to track usage
 async function trackUsage(tenantId: string, metric: string, amount: number = 1) {
   try {
-    const now = new Date();
-    const period = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-    const key = `usage:${tenantId}:${period}:${metric}`;
-    
-    const existing = await kv.get(key);
-    
-    if (!existing) {
-      const tenant = await kv.get(`tenant:${tenantId}`);
-      let limit = 1000;
-      
-      if (tenant) {
-        const planKey = `plan:plan_${tenant.plan.toLowerCase()}`;
-        const planData = await kv.get(planKey);
-        
-        if (planData && planData.limits) {
-          const metricKey = metric === 'api_calls' ? 'apiCalls' : metric;
-          limit = planData.limits[metricKey] || limit;
-        }
-      }
-      
-      await kv.set(key, {
-        metric,
-        current: amount,
-        limit: limit,
-        period,
-        updated_at: new Date().toISOString(),
-      });
-    } else {
-      await kv.set(key, {
-        ...existing,
-        current: (existing.current || 0) + amount,
-        updated_at: new Date().toISOString(),
-      });
-    }
+    await UsageService.track(tenantId, metric, amount);
   } catch (error) {
     console.error(`[Usage Tracker] Error tracking ${metric}:`, error);
   }
@@ -9,6 +9,9 @@ import { getRoleUUID } from "../lib/constants.tsx";
 import { generateUserId, resolveUserId } from "../lib/helpers.tsx";
 import { TenantService } from "../data-service.tsx";
 import * as kv from "../kv_store.tsx";
+import { getAuth } from "../auth-middleware.tsx";
+import { clientIp } from "../ip-allowlist.tsx";
+import { MfaService } from "../mfa.tsx";
 
 const users = new Hono();
 const supabaseAdmin = getSupabaseAdmin();
@@ -125,6 +128,7 @@ users.get("/tenants/:tenantId/users", async (c) => {
         status: user.is_active ? 'active' : 'inactive',
         isActive: user.is_active,
         mfaEnabled: authUser?.app_metadata?.mfa_enabled || false,
+        mfaRequired: authUser?.app_metadata?.mfa_required || false,
         lastLoginAt: user.last_login_at || authUser?.last_sign_in_at,
         createdAt: user.created_at,
       };
@@ -471,13 +475,20 @@ users.post("/tenants/:tenantId/users/:userId/reset-password", async (c) => {
   }
 });
 
-// Toggle MFA
+// Toggle MFA (enabled: true requires the user to set it up; false also resets their enrollment)
 users.post("/tenants/:tenantId/users/:userId/toggle-mfa", async (c) => {
   try {
     const userId = c.req.param("userId");
     const body = await c.req.json();
     const { enabled } = body;
     
+    if (typeof enabled !== 'boolean') {
+      return c.json({ 
+        success: false,
+        error: "enabled must be true or false"
+      }, 400);
+    }
+    
     const resolvedUserId = await resolveUserId(userId);
     
     if (!resolvedUserId) {
@@ -487,15 +498,21 @@ users.post("/tenants/:tenantId/users/:userId/toggle-mfa", async (c) => {
       }, 404);
     }
     
-    await supabaseAdmin.auth.admin.updateUserById(resolvedUserId, {
-      app_metadata: {
-        mfa_enabled: enabled
-      }
+    const actor = getAuth(c);
+    const mfa = await MfaService.setRequired(resolvedUserId, enabled, {
+      changedBy: actor?.userId,
+      changedByEmail: actor?.email || undefined,
+      ipAddress: clientIp(c),
     });
     
     return c.json({ 
       success: true,
-      message: `MFA ${enabled ? 'enabled' : 'disabled'} successfully`
+      data: mfa,
+      message: enabled
+        ? mfa.status === 'active'
+          ? "MFA is required and already set up"
+          : "MFA is required; the user will be asked to set it up on their next request"
+        : "MFA is no longer required and the enrollment was reset"
     });
   } catch (error: any) {
     console.error("[Users API] Error toggling MFA:", error);
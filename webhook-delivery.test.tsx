@@ -0,0 +1,152 @@
+/**
+ * Tests for webhook signing: every delivery carries an HMAC-SHA256 signature
+ * of "<timestamp>.<body>" a receiver can check with its secret, plus one made
+ * with the previous secret while a rotation is in progress.
+ *
+ * Run with `deno test` (the memory driver needs no database; fetch is replaced
+ * by a recording stand-in).
+ */
+
+import { assert, assertEquals } from 'jsr:@std/assert@1';
+import * as kv from './kv_store.tsx';
+import { WebhookDeliveryService, retryDelayMs, signPayload, type WebhookEventPayload } from './webhook-delivery.tsx';
+import type { Webhook } from './models.tsx';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+interface SentRequest {
+  headers: Headers;
+  body: string;
+}
+
+function webhook(overrides?: Partial<Webhook>): Webhook {
+  return {
+    id: 'webhook_1',
+    url: 'https://hooks.example.com/hms',
+    events: ['tenant.updated'],
+    secret: 'whsec_current',
+    enabled: true,
+    status: 'active',
+    failureCount: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const EVENT: WebhookEventPayload = {
+  id: 'evt_1',
+  type: 'tenant.updated',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tenantId: 't1',
+  data: { id: 't1', name: 'Harbor Hotel' },
+};
+
+/**
+ * Run with the webhook stored and fetch answering `status`, returning what was
+ * sent along with the result
+ */
+async function deliver<T>(
+  stored: Webhook,
+  status: number,
+  run: () => Promise<T>,
+): Promise<{ sent: SentRequest[]; result: T }> {
+  kv.setDriver(kv.createMemoryDriver({ [`webhook:${stored.id}`]: stored }));
+  
+  const sent: SentRequest[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input, init) => {
+    sent.push({ headers: new Headers(init?.headers), body: String(init?.body) });
+    return Promise.resolve(new Response('ok', { status }));
+  };
+  
+  try {
+    return { sent, result: await run() };
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * What a receiver does: recompute the signature for the header's timestamp
+ * and look for it among the header's v1 values
+ */
+async function receiverAccepts(secret: string, request: SentRequest): Promise<boolean> {
+  const fields = request.headers.get('X-Webhook-Signature')!.split(',').map((field) => field.split('='));
+  const timestamp = Number(fields.find(([name]) => name === 't')![1]);
+  const expected = (await signPayload(secret, request.body, timestamp)).split('v1=')[1];
+  return fields.some(([name, value]) => name === 'v1' && value === expected);
+}
+
+// ============================================================================
+// SIGNING
+// ============================================================================
+
+Deno.test('signPayload is an HMAC-SHA256 of the timestamp and body', async () => {
+  assertEquals(
+    await signPayload('whsec_test', '{"id":"evt_1"}', 1767225600),
+    't=1767225600,v1=45b40331de0325606dc5400202ade162460fbe48daf9401adfdcd0d7b4f35470',
+  );
+});
+
+Deno.test('deliveries are signed with the webhook secret over the exact body sent', async () => {
+  const { sent: [request] } = await deliver(webhook(), 200, () => WebhookDeliveryService.attempt(webhook(), EVENT, 1));
+  
+  assertEquals(request.headers.get('X-Webhook-Event'), 'tenant.updated');
+  assertEquals(JSON.parse(request.body).id, 'evt_1');
+  assert(await receiverAccepts('whsec_current', request));
+  assertEquals(await receiverAccepts('whsec_other', request), false);
+  // Only one v1 value when no rotation is in progress
+  assertEquals(request.headers.get('X-Webhook-Signature')!.split('v1=').length, 2);
+});
+
+Deno.test('during a rotation deliveries are also signed with the previous secret', async () => {
+  const rotating = webhook({
+    previousSecret: 'whsec_previous',
+    previousSecretExpiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+  
+  const { sent: [request] } = await deliver(rotating, 200, () => WebhookDeliveryService.attempt(rotating, EVENT, 1));
+  
+  assert(await receiverAccepts('whsec_current', request));
+  assert(await receiverAccepts('whsec_previous', request));
+});
+
+Deno.test('the previous secret stops signing once it expires', async () => {
+  const rotated = webhook({
+    previousSecret: 'whsec_previous',
+    previousSecretExpiresAt: new Date(Date.now() - 1000).toISOString(),
+  });
+  
+  const { sent: [request] } = await deliver(rotated, 200, () => WebhookDeliveryService.attempt(rotated, EVENT, 1));
+  
+  assert(await receiverAccepts('whsec_current', request));
+  assertEquals(await receiverAccepts('whsec_previous', request), false);
+});
+
+// ============================================================================
+// FAILED ATTEMPTS
+// ============================================================================
+
+Deno.test('a failed attempt is recorded and queued for retry with backoff', async () => {
+  const { result: delivery } = await deliver(webhook(), 500, () => WebhookDeliveryService.attempt(webhook(), EVENT, 2));
+  
+  assertEquals(delivery.status, 'failed');
+  assertEquals(delivery.error, 'Endpoint responded with 500');
+  assertEquals(new Date(delivery.nextRetryAt!).getTime() - new Date(delivery.createdAt).getTime(), retryDelayMs(2));
+  
+  const retries = await kv.getByPrefix('webhook_retry:') as { attempt: number }[];
+  assertEquals(retries.map((retry) => retry.attempt), [3]);
+  assertEquals((await kv.get('webhook:webhook_1') as Webhook).failureCount, 1);
+});
+
+Deno.test('a webhook is disabled after ten failures in a row and not retried', async () => {
+  const failing = webhook({ failureCount: 9 });
+  
+  await deliver(failing, 503, () => WebhookDeliveryService.attempt(failing, EVENT, 1));
+  
+  const stored = await kv.get('webhook:webhook_1') as Webhook;
+  assertEquals([stored.enabled, stored.status, stored.failureCount], [false, 'disabled', 10]);
+  assertEquals(await kv.getByPrefix('webhook_retry:'), []);
+});
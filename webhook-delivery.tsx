@@ -0,0 +1,386 @@
+/**
+ * Webhook Delivery for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * publish() sends an event to every enabled webhook subscribed to it: global
+ * webhooks get every tenant's events, tenant webhooks only their own. Domain
+ * events reach it through the event bus (see event-subscribers.tsx). Each
+ * request is a POST of the event envelope (WebhookEventPayload) signed with
+ * the webhook's secret:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * For a while after the secret is rotated, the header carries a second v1
+ * signature made with the previous secret, so receivers can switch over.
+ * The envelope's `apiVersion` is the webhook's catalog version
+ * (webhook-events.tsx).
+ *
+ * Every attempt is stored as its own record. Failed attempts are retried with
+ * exponential backoff (1, 2, 4, 8 ... minutes) up to MAX_ATTEMPTS; retries wait
+ * in a queue ordered by due time until processDueRetries() runs (on each
+ * publish, and from POST /webhooks/deliveries/process for a scheduler). A
+ * webhook is disabled after AUTO_DISABLE_AFTER consecutive failed attempts.
+ *
+ *   delivery:<webhookId>:<timestamp>                     -> WebhookDelivery (one attempt)
+ *   webhook_retry:<dueAt>:<webhookId>:<eventId>          -> WebhookRetry
+ *
+ * Delivery is at least once: receivers should ignore event ids they have
+ * already processed.
+ */
+
+import * as kv from './kv_store.tsx';
+import { CURRENT_WEBHOOK_API_VERSION } from './webhook-events.tsx';
+import type { Webhook, WebhookDelivery, WebhookEvent } from './models.tsx';
+
+export interface WebhookEventPayload {
+  id: string; // Format: evt_<timestamp>_<random>, the same for every attempt
+  type: WebhookEvent;
+  apiVersion?: string; // Set per webhook when sent
+  createdAt: string; // ISO timestamp
+  tenantId: string | null;
+  data: object;
+}
+
+interface WebhookRetry {
+  webhookId: string;
+  payload: WebhookEventPayload;
+  attempt: number; // Number of the attempt to make
+  dueAt: string; // ISO timestamp
+  claimedAt?: string; // ISO timestamp, set by the worker making the attempt
+}
+
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const AUTO_DISABLE_AFTER = 10;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const MAX_RESPONSE_BODY = 1000;
+
+// A claimed retry whose worker died is picked up again after this long
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function retryKey(retry: WebhookRetry): string {
+  return `webhook_retry:${retry.dueAt}:${retry.webhookId}:${retry.payload.id}`;
+}
+
+/**
+ * Delay before the attempt after `attempt` (1 minute, then doubling)
+ */
+export function retryDelayMs(attempt: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+}
+
+/**
+ * `X-Webhook-Signature` value for a body sent at `timestamp` (unix seconds)
+ */
+export async function signPayload(secret: string, body: string, timestamp: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  const hex = Array.from(new Uint8Array(mac))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `t=${timestamp},v1=${hex}`;
+}
+
+/**
+ * Signature header for a webhook: signed with its secret, and also with the
+ * previous one while that is still accepted
+ */
+async function signatureHeader(webhook: Webhook, body: string, timestamp: number): Promise<string> {
+  const header = await signPayload(webhook.secret, body, timestamp);
+  
+  const previousValid = webhook.previousSecret && webhook.previousSecretExpiresAt &&
+    new Date(webhook.previousSecretExpiresAt).getTime() > timestamp * 1000;
+  if (!previousValid) return header;
+  
+  const previous = await signPayload(webhook.previousSecret!, body, timestamp);
+  return `${header},${previous.slice(previous.indexOf('v1='))}`;
+}
+
+/**
+ * Keep work going after the response is sent (Supabase Edge Runtime), or just
+ * let it run where there is no such hook
+ */
+function runInBackground(promise: Promise<unknown>): void {
+  const guarded = promise.catch((error) => console.error('[Webhooks] Background delivery error:', error));
+  (globalThis as { EdgeRuntime?: { waitUntil?(promise: Promise<unknown>): void } }).EdgeRuntime?.waitUntil?.(guarded);
+}
+
+/**
+ * Every id a tenant is known by (custom T-n id and Postgres UUID)
+ */
+async function tenantAliases(tenantId: string): Promise<Set<string>> {
+  const aliases = new Set([tenantId]);
+  
+  const tenant = await kv.get(`tenant:${tenantId}`);
+  if (tenant?.uuid) aliases.add(tenant.uuid);
+  
+  const mapping = await kv.get(`tenant_uuid:${tenantId}`);
+  if (mapping?.customId) aliases.add(mapping.customId);
+  
+  return aliases;
+}
+
+/**
+ * Key for a delivery attempt, unique per webhook
+ */
+async function newDeliveryKey(webhookId: string, at: number): Promise<string> {
+  let time = at;
+  while (await kv.get(`delivery:${webhookId}:${new Date(time).toISOString()}`)) {
+    time++;
+  }
+  return `delivery:${webhookId}:${new Date(time).toISOString()}`;
+}
+
+// ============================================================================
+// WEBHOOK DELIVERY SERVICE
+// ============================================================================
+
+export const WebhookDeliveryService = {
+  /**
+   * Enabled webhooks subscribed to an event for a tenant
+   */
+  async subscribers(event: WebhookEvent, tenantId: string | null): Promise<Webhook[]> {
+    const webhooks = await kv.getByPrefix('webhook:') as Webhook[];
+    const aliases = tenantId ? await tenantAliases(tenantId) : new Set<string>();
+    
+    return webhooks.filter((webhook) =>
+      webhook?.id &&
+      webhook.enabled &&
+      webhook.status !== 'disabled' &&
+      (webhook.events || []).includes(event) &&
+      (!webhook.tenantId || aliases.has(webhook.tenantId))
+    );
+  },
+  
+  /**
+   * Send an event to its subscribers. The first attempts run in the
+   * background; the event envelope is returned straight away.
+   */
+  async publish(
+    event: WebhookEvent,
+    data: object,
+    options?: { tenantId?: string | null }
+  ): Promise<WebhookEventPayload> {
+    const payload: WebhookEventPayload = {
+      id: generateId('evt'),
+      type: event,
+      createdAt: new Date().toISOString(),
+      tenantId: options?.tenantId || null,
+      data,
+    };
+    
+    const webhooks = await this.subscribers(event, payload.tenantId);
+    if (webhooks.length > 0) {
+      console.log(`[Webhooks] Publishing ${event} (${payload.id}) to ${webhooks.length} webhook(s)`);
+    }
+    
+    runInBackground((async () => {
+      await Promise.all(webhooks.map((webhook) => this.attempt(webhook, payload, 1)));
+      await this.processDueRetries();
+    })());
+    
+    return payload;
+  },
+  
+  /**
+   * Make one delivery attempt and record it. Failed attempts are queued for
+   * retry unless `retry` is false, this was the last attempt, or the failure
+   * disabled the webhook.
+   */
+  async attempt(
+    webhook: Webhook,
+    event: WebhookEventPayload,
+    attempt: number,
+    options?: { retry?: boolean; redeliveryOf?: string }
+  ): Promise<WebhookDelivery> {
+    const payload: WebhookEventPayload = { ...event, apiVersion: webhook.apiVersion || CURRENT_WEBHOOK_API_VERSION };
+    const body = JSON.stringify(payload);
+    const startedAt = Date.now();
+    const deliveryId = generateId('delivery');
+    
+    let statusCode: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+    
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HMS-Platform-Webhooks/1.0',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': payload.type,
+          'X-Webhook-Delivery': deliveryId,
+          'X-Webhook-Signature': await signatureHeader(webhook, body, Math.floor(startedAt / 1000)),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      
+      statusCode = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY);
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with ${statusCode}`;
+      }
+    } catch (err) {
+      if (!(err instanceof Error)) {
+        error = String(err);
+      } else {
+        error = err.name === 'TimeoutError' ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s` : err.message;
+      }
+    }
+    
+    const succeeded = !error;
+    const finishedAt = new Date().toISOString();
+    
+    // Track consecutive failures on the webhook, disabling it past the limit
+    const updated = await kv.update<Webhook>(`webhook:${webhook.id}`, (current) => {
+      if (!current) return undefined;
+      const failureCount = succeeded ? 0 : (current.failureCount || 0) + 1;
+      const disable = !succeeded && failureCount >= AUTO_DISABLE_AFTER && current.enabled;
+      
+      return {
+        ...current,
+        lastDeliveryAt: finishedAt,
+        lastDeliveryStatus: succeeded ? 'success' : 'failed',
+        failureCount,
+        status: disable || current.status === 'disabled' ? 'disabled' : succeeded ? 'active' : 'failed',
+        enabled: disable ? false : current.enabled,
+        ...(disable ? {
+          metadata: {
+            ...current.metadata,
+            disabledAt: finishedAt,
+            disabledReason: `${failureCount} consecutive failed deliveries`,
+          },
+        } : {}),
+      };
+    });
+    
+    if (updated && !updated.enabled && webhook.enabled && !succeeded) {
+      console.warn(`[Webhooks] Disabled webhook ${webhook.id} after ${updated.failureCount} consecutive failures`);
+    }
+    
+    const retry = !succeeded && options?.retry !== false && attempt < MAX_ATTEMPTS && !!updated?.enabled;
+    const nextRetryAt = retry ? new Date(startedAt + retryDelayMs(attempt)).toISOString() : undefined;
+    
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      webhookId: webhook.id,
+      eventId: payload.id,
+      event: payload.type,
+      url: webhook.url,
+      payload,
+      status: succeeded ? 'success' : 'failed',
+      statusCode,
+      responseBody,
+      error,
+      attemptCount: attempt,
+      nextRetryAt,
+      redeliveryOf: options?.redeliveryOf,
+      durationMs: Date.now() - startedAt,
+      createdAt: new Date(startedAt).toISOString(),
+      deliveredAt: succeeded ? finishedAt : undefined,
+    };
+    await kv.set(await newDeliveryKey(webhook.id, startedAt), delivery);
+    
+    if (nextRetryAt) {
+      const entry: WebhookRetry = { webhookId: webhook.id, payload, attempt: attempt + 1, dueAt: nextRetryAt };
+      await kv.set(retryKey(entry), entry);
+    }
+    
+    return delivery;
+  },
+  
+  /**
+   * Make the queued retries that are due. Returns the attempts made.
+   */
+  async processDueRetries(options?: { limit?: number }): Promise<WebhookDelivery[]> {
+    const now = Date.now();
+    const page: kv.ScanPage<WebhookRetry> = await kv.scan<WebhookRetry>('webhook_retry:', {
+      where: [{ field: 'dueAt', op: 'lte', value: new Date(now).toISOString() }],
+      limit: options?.limit ?? 50,
+    });
+    
+    const deliveries: WebhookDelivery[] = [];
+    for (let i = 0; i < page.keys.length; i++) {
+      const key = page.keys[i];
+      
+      // Claim the entry so another instance does not make the same attempt
+      let claimed = false;
+      const entry = await kv.update<WebhookRetry>(key, (current) => {
+        claimed = !!current && (!current.claimedAt || now - new Date(current.claimedAt).getTime() > CLAIM_TIMEOUT_MS);
+        if (!claimed) return undefined;
+        return { ...current!, claimedAt: new Date(now).toISOString() };
+      });
+      if (!claimed || !entry) continue;
+      
+      const webhook: Webhook | null = await kv.get(`webhook:${entry.webhookId}`);
+      if (webhook?.enabled && webhook.status !== 'disabled') {
+        deliveries.push(await this.attempt(webhook, entry.payload, entry.attempt));
+      }
+      await kv.del(key);
+    }
+    
+    return deliveries;
+  },
+  
+  /**
+   * Drop the queued retries of a webhook (when it is disabled or deleted)
+   */
+  async cancelRetries(webhookId: string): Promise<number> {
+    const keys: string[] = [];
+    let cursor: string | null = null;
+    
+    do {
+      const page: kv.ScanPage<WebhookRetry> = await kv.scan<WebhookRetry>('webhook_retry:', {
+        where: [{ field: 'webhookId', op: 'eq', value: webhookId }],
+        limit: 500,
+        cursor,
+      });
+      keys.push(...page.keys);
+      cursor = page.nextCursor;
+    } while (cursor);
+    
+    if (keys.length > 0) await kv.mdel(keys);
+    return keys.length;
+  },
+  
+  /**
+   * Send a test event to one webhook now (recorded, but not retried)
+   */
+  async sendTest(webhook: Webhook, event?: WebhookEvent): Promise<WebhookDelivery> {
+    const payload: WebhookEventPayload = {
+      id: generateId('evt'),
+      type: event || webhook.events?.[0] || 'tenant.updated',
+      createdAt: new Date().toISOString(),
+      tenantId: webhook.tenantId || null,
+      data: { test: true, message: 'Test event from the HMS platform' },
+    };
+    
+    return await this.attempt(webhook, payload, 1, { retry: false });
+  },
+  
+  /**
+   * Send a recorded delivery's event again now (recorded, but not retried)
+   */
+  async redeliver(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    return await this.attempt(webhook, delivery.payload as WebhookEventPayload, delivery.attemptCount + 1, {
+      retry: false,
+      redeliveryOf: delivery.id,
+    });
+  },
+};
@@ -0,0 +1,251 @@
+/**
+ * Webhook Event Catalog for Multi-Tenant HMS/PMS SaaS Admin Panel
+ *
+ * Every event a webhook can subscribe to, with a JSON Schema for its `data`.
+ * The catalog is versioned by date: a webhook is pinned to the API version it
+ * was created with (or set to), may only subscribe to events available in that
+ * version, and receives that version in each envelope's `apiVersion`. Changes
+ * to a payload's shape get a new version instead of altering an old one.
+ *
+ * Also validates webhook endpoint URLs.
+ */
+
+import type { WebhookEvent } from './models.tsx';
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface WebhookEventDefinition {
+  type: WebhookEvent;
+  description: string;
+  addedIn: string; // First API version with the event
+  schema: JsonSchema; // Of the envelope's `data`
+}
+
+export class WebhookValidationError extends Error {
+  constructor(message: string, public details?: string[]) {
+    super(message);
+    this.name = 'WebhookValidationError';
+  }
+}
+
+// Oldest first
+export const WEBHOOK_API_VERSIONS = ['2025-10-01'];
+
+export const CURRENT_WEBHOOK_API_VERSION = WEBHOOK_API_VERSIONS[WEBHOOK_API_VERSIONS.length - 1];
+
+// ============================================================================
+// SCHEMAS
+// ============================================================================
+
+const timestamp: JsonSchema = { type: 'string', format: 'date-time' };
+
+const TENANT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'status', 'plan', 'createdAt'],
+  properties: {
+    id: { type: 'string', description: 'Tenant id (T-123)' },
+    uuid: { type: 'string', format: 'uuid' },
+    name: { type: 'string' },
+    billingEntity: { type: 'string' },
+    subdomain: { type: 'string' },
+    region: { type: ['string', 'null'] },
+    plan: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'trial', 'suspended', 'cancelled', 'pending'] },
+    owner: { type: ['string', 'null'], description: 'Owner email' },
+    ownerName: { type: ['string', 'null'] },
+    mrr: { type: 'number' },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    suspendedAt: timestamp,
+    suspensionReason: { type: 'string' },
+    unsuspendedAt: timestamp,
+  },
+};
+
+const SUBSCRIPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'tenantId', 'planId', 'status'],
+  properties: {
+    id: { type: 'string' },
+    tenantId: { type: 'string' },
+    planId: { type: 'string' },
+    status: { type: 'string', enum: ['active', 'past_due', 'cancelled', 'trialing'] },
+    currentPeriodStart: timestamp,
+    currentPeriodEnd: timestamp,
+    cancelAtPeriodEnd: { type: 'boolean' },
+    cancelledAt: timestamp,
+    paymentMethod: { type: 'string', enum: ['card', 'invoice', 'wire'] },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  },
+};
+
+const INVOICE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'tenantId', 'total', 'status'],
+  properties: {
+    id: { type: 'string' },
+    tenantId: { type: 'string' },
+    subscriptionId: { type: 'string' },
+    amount: { type: 'integer', description: 'In cents' },
+    tax: { type: 'integer', description: 'In cents' },
+    total: { type: 'integer', description: 'In cents' },
+    status: { type: 'string', enum: ['paid', 'pending', 'failed', 'refunded'] },
+    dueDate: timestamp,
+    paidAt: timestamp,
+    lineItems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          quantity: { type: 'number' },
+          amount: { type: 'integer' },
+        },
+      },
+    },
+    createdAt: timestamp,
+  },
+};
+
+const USAGE_ALERT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['tenantId', 'metric', 'threshold', 'current', 'limit', 'percentage'],
+  properties: {
+    id: { type: 'string' },
+    tenantId: { type: 'string' },
+    metric: { type: 'string', enum: ['users', 'properties', 'rooms', 'bookings', 'api_calls', 'storage'] },
+    threshold: { type: 'number', description: 'Percent of the limit that triggered the alert' },
+    period: { type: 'string', description: 'YYYY-MM' },
+    current: { type: 'number' },
+    limit: { type: 'number' },
+    percentage: { type: 'number' },
+    triggeredAt: timestamp,
+  },
+};
+
+/**
+ * Shape of every request body; `data` is the event's own schema
+ */
+export const WEBHOOK_ENVELOPE_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'type', 'apiVersion', 'createdAt', 'data'],
+  properties: {
+    id: { type: 'string', description: 'Event id, the same on every retry (use it to drop duplicates)' },
+    type: { type: 'string' },
+    apiVersion: { type: 'string', enum: WEBHOOK_API_VERSIONS },
+    createdAt: timestamp,
+    tenantId: { type: ['string', 'null'] },
+    data: { type: 'object' },
+  },
+};
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+export const WEBHOOK_EVENT_CATALOG: WebhookEventDefinition[] = [
+  { type: 'tenant.created', description: 'A tenant was created', addedIn: '2025-10-01', schema: TENANT_SCHEMA },
+  { type: 'tenant.updated', description: 'A tenant was changed or reactivated', addedIn: '2025-10-01', schema: TENANT_SCHEMA },
+  { type: 'tenant.suspended', description: 'A tenant was suspended', addedIn: '2025-10-01', schema: TENANT_SCHEMA },
+  { type: 'subscription.created', description: 'A tenant got its first subscription', addedIn: '2025-10-01', schema: SUBSCRIPTION_SCHEMA },
+  { type: 'subscription.updated', description: 'A subscription changed plan, status or was cancelled', addedIn: '2025-10-01', schema: SUBSCRIPTION_SCHEMA },
+  { type: 'invoice.created', description: 'An invoice was issued', addedIn: '2025-10-01', schema: INVOICE_SCHEMA },
+  { type: 'invoice.paid', description: 'An invoice was paid', addedIn: '2025-10-01', schema: INVOICE_SCHEMA },
+  { type: 'usage.alert', description: 'Usage of a metric crossed an alert threshold', addedIn: '2025-10-01', schema: USAGE_ALERT_SCHEMA },
+];
+
+/**
+ * Events available in an API version
+ */
+export function eventsForVersion(version: string = CURRENT_WEBHOOK_API_VERSION): WebhookEventDefinition[] {
+  return WEBHOOK_EVENT_CATALOG.filter((event) => event.addedIn <= version);
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Throw WebhookValidationError unless the version is known
+ */
+export function validateApiVersion(version: unknown): string {
+  if (version === undefined || version === null || version === '') return CURRENT_WEBHOOK_API_VERSION;
+  if (typeof version !== 'string' || !WEBHOOK_API_VERSIONS.includes(version)) {
+    throw new WebhookValidationError(`Unknown API version. Supported: ${WEBHOOK_API_VERSIONS.join(', ')}`);
+  }
+  return version;
+}
+
+/**
+ * Throw WebhookValidationError unless every event is in the catalog for the
+ * version (and there is at least one)
+ */
+export function validateEvents(events: unknown, version: string): WebhookEvent[] {
+  if (!Array.isArray(events) || events.length === 0) {
+    throw new WebhookValidationError('At least one event is required');
+  }
+  
+  const available = eventsForVersion(version).map((event) => event.type as string);
+  const unknown = events.filter((event) => typeof event !== 'string' || !available.includes(event));
+  if (unknown.length > 0) {
+    throw new WebhookValidationError(`Unknown events for API version ${version}`, unknown.map(String));
+  }
+  
+  return Array.from(new Set(events as WebhookEvent[]));
+}
+
+/**
+ * Whether a host name is local or on a private network, where the platform
+ * must not be made to send requests
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+  
+  const v4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  
+  return false;
+}
+
+/**
+ * Throw WebhookValidationError unless the URL is an absolute https:// URL on
+ * a public host
+ */
+export function validateWebhookUrl(url: unknown): string {
+  if (typeof url !== 'string' || !url.trim()) {
+    throw new WebhookValidationError('URL is required');
+  }
+  
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new WebhookValidationError('URL is not valid');
+  }
+  
+  if (parsed.protocol !== 'https:') {
+    throw new WebhookValidationError('URL must use https');
+  }
+  if (parsed.username || parsed.password) {
+    throw new WebhookValidationError('URL must not contain credentials');
+  }
+  if (isPrivateHost(parsed.hostname)) {
+    throw new WebhookValidationError('URL must point to a public host');
+  }
+  
+  return parsed.toString();
+}
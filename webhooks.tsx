@@ -3,36 +3,312 @@
  * Handles webhook management
  */
 
-import { Hono } from "npm:hono";
+import { Hono, type Context } from "npm:hono";
 import * as kv from "../kv_store.tsx";
+import { WebhookService, redactWebhook, errorMessage } from "../data-service.tsx";
+import { WebhookDeliveryService } from "../webhook-delivery.tsx";
+import {
+  CURRENT_WEBHOOK_API_VERSION,
+  WEBHOOK_API_VERSIONS,
+  WebhookValidationError,
+  eventsForVersion,
+} from "../webhook-events.tsx";
+import { getAuth } from "../auth-middleware.tsx";
+import type { WebhookDelivery } from "../models.tsx";
 
 const webhooks = new Hono();
 
-// Get all webhooks
+const DELIVERY_STATUSES = ["pending", "success", "failed"];
+
+function validationFailure(c: Context, error: WebhookValidationError) {
+  return c.json({ success: false, error: error.message, details: error.details }, 400);
+}
+
+// Get all webhooks (secrets are never listed)
 webhooks.get("/", async (c) => {
   try {
-    const webhooks = await kv.getByPrefix("webhook:");
-    return c.json({ webhooks: webhooks || [] });
+    const tenantId = c.req.query("tenantId");
+    const list = await WebhookService.list({ tenantId });
+    return c.json({ success: true, webhooks: list.map(redactWebhook) });
   } catch (error) {
     console.error("Error fetching webhooks:", error);
     return c.json({ error: "Failed to fetch webhooks" }, 500);
   }
 });
 
-// Test webhook
+// Get the events a webhook can subscribe to
+webhooks.get("/events", (c) => {
+  try {
+    const version = c.req.query("apiVersion") || CURRENT_WEBHOOK_API_VERSION;
+    if (!WEBHOOK_API_VERSIONS.includes(version)) {
+      return c.json({ success: false, error: `Unknown API version. Supported: ${WEBHOOK_API_VERSIONS.join(", ")}` }, 400);
+    }
+    
+    return c.json({
+      success: true,
+      data: {
+        apiVersion: version,
+        versions: WEBHOOK_API_VERSIONS,
+        events: eventsForVersion(version).map(({ type, description, addedIn }) => ({ type, description, addedIn })),
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching webhook events:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Make the queued delivery retries that are due (called by a scheduler)
+webhooks.post("/deliveries/process", async (c) => {
+  try {
+    const limit = Number(c.req.query("limit")) || undefined;
+    const deliveries = await WebhookDeliveryService.processDueRetries({ limit });
+    
+    return c.json({
+      success: true,
+      data: {
+        attempted: deliveries.length,
+        succeeded: deliveries.filter((d) => d.status === "success").length,
+        failed: deliveries.filter((d) => d.status === "failed").length,
+      }
+    });
+  } catch (error) {
+    console.error("Error processing webhook retries:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get single webhook
+webhooks.get("/:id", async (c) => {
+  try {
+    const webhook = await WebhookService.get(c.req.param("id"));
+    if (!webhook) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({ success: true, data: redactWebhook(webhook) });
+  } catch (error) {
+    console.error("Error fetching webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Create webhook (the signing secret is only returned here)
+webhooks.post("/", async (c) => {
+  try {
+    const body = await c.req.json();
+    const auth = getAuth(c);
+    
+    const { webhook, secret } = await WebhookService.create({
+      url: body.url,
+      events: body.events,
+      apiVersion: body.apiVersion,
+      description: body.description,
+      tenantId: body.tenantId,
+      enabled: body.enabled,
+    }, { createdBy: auth?.email || auth?.userId });
+    
+    return c.json({
+      success: true,
+      data: { ...redactWebhook(webhook), secret },
+      message: "Store the secret now; it will not be shown again"
+    }, 201);
+  } catch (error) {
+    if (error instanceof WebhookValidationError) return validationFailure(c, error);
+    console.error("Error creating webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Update webhook (URL, events, API version, description, enabled)
+webhooks.put("/:id", async (c) => {
+  try {
+    const body = await c.req.json();
+    if (body.enabled !== undefined && typeof body.enabled !== "boolean") {
+      return c.json({ success: false, error: "enabled must be a boolean" }, 400);
+    }
+    
+    const webhook = await WebhookService.update(c.req.param("id"), {
+      url: body.url,
+      events: body.events,
+      apiVersion: body.apiVersion,
+      description: body.description,
+      enabled: body.enabled,
+    });
+    if (!webhook) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({ success: true, data: redactWebhook(webhook) });
+  } catch (error) {
+    if (error instanceof WebhookValidationError) return validationFailure(c, error);
+    console.error("Error updating webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Pause webhook (queued retries are dropped)
+webhooks.post("/:id/pause", async (c) => {
+  try {
+    const webhook = await WebhookService.update(c.req.param("id"), { enabled: false });
+    if (!webhook) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({ success: true, data: redactWebhook(webhook) });
+  } catch (error) {
+    console.error("Error pausing webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Resume webhook (also after it was disabled for failing)
+webhooks.post("/:id/resume", async (c) => {
+  try {
+    const webhook = await WebhookService.update(c.req.param("id"), { enabled: true });
+    if (!webhook) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({ success: true, data: redactWebhook(webhook) });
+  } catch (error) {
+    console.error("Error resuming webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Delete webhook with its delivery log
+webhooks.delete("/:id", async (c) => {
+  try {
+    const deleted = await WebhookService.delete(c.req.param("id"));
+    if (!deleted) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({ success: true, message: "Webhook deleted" });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Rotate signing secret (the old one keeps signing for gracePeriodHours, default 24)
+webhooks.post("/:id/rotate-secret", async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+    const gracePeriodHours = body.gracePeriodHours;
+    if (gracePeriodHours !== undefined && (typeof gracePeriodHours !== "number" || gracePeriodHours < 0 || gracePeriodHours > 168)) {
+      return c.json({ success: false, error: "gracePeriodHours must be a number from 0 to 168" }, 400);
+    }
+    
+    const result = await WebhookService.rotateSecret(c.req.param("id"), { gracePeriodHours });
+    if (!result) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    return c.json({
+      success: true,
+      data: { ...redactWebhook(result.webhook), secret: result.secret },
+      message: "Store the secret now; it will not be shown again"
+    });
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get delivery log (?status=success|failed|pending&event=&limit=&cursor=)
+webhooks.get("/:id/deliveries", async (c) => {
+  try {
+    const id = c.req.param("id");
+    const status = c.req.query("status");
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return c.json({ success: false, error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` }, 400);
+    }
+    
+    const webhook = await WebhookService.get(id);
+    if (!webhook) {
+      return c.json({ success: false, error: "Webhook not found" }, 404);
+    }
+    
+    const page = await WebhookService.listDeliveries(id, {
+      status: status as WebhookDelivery['status'] | undefined,
+      event: c.req.query("event"),
+      limit: Math.min(parseInt(c.req.query("limit") || "50"), 200),
+      cursor: c.req.query("cursor"),
+    });
+    
+    return c.json({
+      success: true,
+      data: page.items,
+      pagination: { total: page.total, nextCursor: page.nextCursor }
+    });
+  } catch (error) {
+    if (error instanceof kv.InvalidCursorError) {
+      return c.json({ success: false, error: errorMessage(error) }, 400);
+    }
+    console.error("Error fetching webhook deliveries:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Get single delivery
+webhooks.get("/:id/deliveries/:deliveryId", async (c) => {
+  try {
+    const delivery = await WebhookService.getDelivery(c.req.param("id"), c.req.param("deliveryId"));
+    if (!delivery) {
+      return c.json({ success: false, error: "Delivery not found" }, 404);
+    }
+    
+    return c.json({ success: true, data: delivery });
+  } catch (error) {
+    console.error("Error fetching webhook delivery:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Redeliver an event now (recorded as a new attempt, not retried)
+webhooks.post("/:id/deliveries/:deliveryId/redeliver", async (c) => {
+  try {
+    const delivery = await WebhookService.redeliver(c.req.param("id"), c.req.param("deliveryId"));
+    if (!delivery) {
+      return c.json({ success: false, error: "Delivery not found" }, 404);
+    }
+    
+    return c.json({
+      success: delivery.status === "success",
+      message: delivery.status === "success"
+        ? "Event redelivered"
+        : `Redelivery failed: ${delivery.error}`,
+      data: delivery
+    });
+  } catch (error) {
+    if (error instanceof WebhookValidationError) return validationFailure(c, error);
+    console.error("Error redelivering webhook event:", error);
+    return c.json({ success: false, error: errorMessage(error) }, 500);
+  }
+});
+
+// Test webhook (sends a signed test event now and records the attempt)
 webhooks.post("/:id/test", async (c) => {
   try {
     const id = c.req.param("id");
-    const body = await c.req.json();
+    const body = await c.req.json().catch(() => ({}));
     
     const webhook = await kv.get(`webhook:${id}`);
     if (!webhook) {
       return c.json({ error: "Webhook not found" }, 404);
     }
     
-    console.log(`Testing webhook ${id} with event ${body.eventType}`);
+    const delivery = await WebhookDeliveryService.sendTest(webhook, body.eventType);
     
-    return c.json({ success: true, message: "Webhook test initiated" });
+    return c.json({
+      success: delivery.status === "success",
+      message: delivery.status === "success"
+        ? "Test event delivered"
+        : `Test event failed: ${delivery.error}`,
+      data: delivery
+    });
   } catch (error) {
     console.error("Error testing webhook:", error);
     return c.json({ error: "Failed to test webhook" }, 500);
@@ -40,4 +316,3 @@ webhooks.post("/:id/test", async (c) => {
 });
 
 export default webhooks;
-